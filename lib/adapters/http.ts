@@ -3,7 +3,9 @@
  *
  * Provides HTTP/REST interface to the MCP server
  * Features:
- * - RESTful endpoints for all tools
+ * - MCP Streamable HTTP transport on /mcp (in-memory sessions)
+ * - MCP over WebSocket on /mcp/ws
+ * - RESTful endpoints for all tools (through the shared tool pipeline)
  * - CORS support
  * - Request authentication
  * - Rate limiting
@@ -12,20 +14,33 @@
  */
 
 import express, { Request, Response, NextFunction } from 'express';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
 import type {
   Logger,
   ServiceInfo,
   ToolDefinition,
-  MCPTransportRequest,
+  ToolContext,
+  SessionStore,
+  SubscriptionStore,
+  MCPTransportNotification,
 } from '../types/index.js';
 import type { ToolRegistry } from '../core/tools.js';
+import type { PromptRegistry } from '../core/prompts.js';
+import type { ResourceRegistry } from '../core/resources.js';
+import type { CompletionRegistry } from '../core/completions.js';
+import { createToolPipeline, type ToolPipeline } from '../core/pipeline.js';
+import { RequestCancelledError, ToolForbiddenError, ValidationError, retryAfterSeconds } from '../core/errors.js';
 import {
-  buildMCPInitMessage,
-  processMCPRequest,
-} from '../core/mcp-transport.js';
+  createStreamableHttpHandler,
+  MCP_ALLOWED_HEADERS,
+  MCP_ALLOWED_METHODS,
+  MCP_EXPOSED_HEADERS,
+  type StreamableHttpHandler,
+} from '../core/streamable-http.js';
+import { WEBSOCKET_PATH, createWebSocketTransport, type WebSocketTransport } from './websocket.js';
 
-const SSE_PING_INTERVAL_MS = 30000;
-const SSE_CONNECTION_TIMEOUT_MS = 55000;
+const BRIDGE_SKIPPED_HEADERS = new Set(['host', 'connection', 'content-length', 'transfer-encoding']);
 
 export interface HttpAdapterConfig {
   port: number;
@@ -35,6 +50,12 @@ export interface HttpAdapterConfig {
   authToken?: string;
   requestTimeout: number;
   serviceInfo: ServiceInfo;
+  toolContext?: ToolContext; // Runtime context for the shared tool pipeline (cache, rate limiting)
+  toolPipeline?: ToolPipeline; // Defaults to every middleware with the adapter logger
+  sessionStore: SessionStore; // Streamable HTTP sessions
+  subscriptionStore?: SubscriptionStore; // Resource subscriptions of the sessions
+  batchConcurrency?: number; // JSON-RPC batch messages processed at the same time
+  websocketPingInterval?: number; // WebSocket keep-alive interval in milliseconds
 }
 
 /**
@@ -43,18 +64,44 @@ export interface HttpAdapterConfig {
 export class HttpAdapter {
   private app: express.Application;
   private toolRegistry: ToolRegistry;
+  private toolPipeline: ToolPipeline;
   private logger: Logger;
   private config: HttpAdapterConfig;
+  private streamableHttp: StreamableHttpHandler;
+  private websocket: WebSocketTransport;
 
   constructor(
     toolRegistry: ToolRegistry,
     logger: Logger,
-    config: HttpAdapterConfig
+    config: HttpAdapterConfig,
+    promptRegistry?: PromptRegistry,
+    resourceRegistry?: ResourceRegistry,
+    completionRegistry?: CompletionRegistry
   ) {
     this.app = express();
     this.toolRegistry = toolRegistry;
     this.logger = logger;
     this.config = config;
+    this.toolPipeline = config.toolPipeline ?? createToolPipeline(toolRegistry, { logger });
+    const mcpContext = {
+      toolRegistry,
+      toolPipeline: this.toolPipeline,
+      promptRegistry,
+      resourceRegistry,
+      completionRegistry,
+      subscriptionStore: config.subscriptionStore,
+      toolContext: config.toolContext,
+      logger,
+    };
+    this.streamableHttp = createStreamableHttpHandler(mcpContext, {
+      sessionStore: config.sessionStore,
+      batchConcurrency: config.batchConcurrency,
+    });
+    this.websocket = createWebSocketTransport(mcpContext, {
+      authToken: config.authEnabled ? config.authToken ?? '' : undefined,
+      pingInterval: config.websocketPingInterval,
+      batchConcurrency: config.batchConcurrency,
+    });
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -71,8 +118,9 @@ export class HttpAdapter {
     // CORS
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       res.header('Access-Control-Allow-Origin', this.config.corsOrigin);
-      res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.header('Access-Control-Allow-Methods', MCP_ALLOWED_METHODS);
+      res.header('Access-Control-Allow-Headers', MCP_ALLOWED_HEADERS);
+      res.header('Access-Control-Expose-Headers', MCP_EXPOSED_HEADERS);
 
       if (req.method === 'OPTIONS') {
         res.sendStatus(200);
@@ -139,17 +187,9 @@ export class HttpAdapter {
       res.json(this.buildLandingResponse());
     });
 
-    // MCP JSON-RPC endpoint
-    this.app.post('/mcp', async (req: Request, res: Response) => {
-      await this.handleMCPHttpRequest(req, res);
-    });
-
-    // SSE endpoint (GET/POST)
-    this.app.get('/sse', async (req: Request, res: Response) => {
-      await this.handleSSE(req, res);
-    });
-    this.app.post('/sse', async (req: Request, res: Response) => {
-      await this.handleSSE(req, res);
+    // MCP Streamable HTTP endpoint (POST/GET/DELETE)
+    this.app.all('/mcp', async (req: Request, res: Response) => {
+      await this.handleStreamableHttp(req, res);
     });
 
     // Health check endpoint
@@ -169,9 +209,12 @@ export class HttpAdapter {
 
         const toolsList = tools.map((tool: ToolDefinition) => ({
           name: tool.name,
+          title: tool.title,
           description: tool.description,
           category: tool.category,
           inputSchema: tool.inputSchema,
+          outputSchema: this.toolRegistry.getOutputSchema(tool.name),
+          annotations: tool.annotations,
         }));
 
         res.json({
@@ -195,9 +238,12 @@ export class HttpAdapter {
 
         const toolsList = tools.map((tool: ToolDefinition) => ({
           name: tool.name,
+          title: tool.title,
           description: tool.description,
           category: tool.category,
           inputSchema: tool.inputSchema,
+          outputSchema: this.toolRegistry.getOutputSchema(tool.name),
+          annotations: tool.annotations,
         }));
 
         res.json({
@@ -231,9 +277,12 @@ export class HttpAdapter {
 
         res.json({
           name: tool.name,
+          title: tool.title,
           description: tool.description,
           category: tool.category,
           inputSchema: tool.inputSchema,
+          outputSchema: this.toolRegistry.getOutputSchema(tool.name),
+          annotations: tool.annotations,
         });
       } catch (error) {
         this.logger.error('Failed to get tool details', error as Error);
@@ -260,9 +309,18 @@ export class HttpAdapter {
           return;
         }
 
-        // Note: We need the full ToolContext here
-        // This is a simplified version - in production, you'd pass the actual context
-        const result = await this.toolRegistry.invoke(name!, args, {} as any);
+        // Stop the tool when the client goes away before the response is sent
+        const abortController = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) {
+            abortController.abort('client disconnected');
+          }
+        });
+
+        const { result } = await this.toolPipeline.execute(name!, args, {
+          ...(this.config.toolContext ?? ({ logger: this.logger } as ToolContext)),
+          signal: abortController.signal,
+        });
 
         if (result.isError) {
           res.status(400).json({
@@ -277,6 +335,32 @@ export class HttpAdapter {
           result,
         });
       } catch (error) {
+        if (error instanceof RequestCancelledError) {
+          return;
+        }
+
+        if (error instanceof ValidationError) {
+          res.status(400).json({ error: 'Bad Request', message: error.message });
+          return;
+        }
+
+        if (error instanceof ToolForbiddenError) {
+          res.status(403).json({ error: 'Forbidden', message: error.message });
+          return;
+        }
+
+        // Matched by name: the rate limiter, the pipeline and core/errors each raise their own
+        if (error instanceof Error && error.name === 'RateLimitError') {
+          res.setHeader('Retry-After', String(retryAfterSeconds(error)));
+          res.status(429).json({ error: 'Too Many Requests', message: error.message });
+          return;
+        }
+
+        if (error instanceof Error && error.name === 'CircuitBreakerError') {
+          res.status(503).json({ error: 'Service Unavailable', message: error.message });
+          return;
+        }
+
         this.logger.error('Failed to invoke tool', error as Error);
         res.status(500).json({
           error: 'Internal Server Error',
@@ -316,8 +400,9 @@ export class HttpAdapter {
         availableEndpoints: [
           'GET /health',
           'POST /mcp',
-          'GET /sse',
-          'POST /sse',
+          'GET /mcp',
+          'DELETE /mcp',
+          `GET ${WEBSOCKET_PATH} (WebSocket)`,
           'GET /api/tools',
           'GET /api/tools/:name',
           'POST /api/tools/:name',
@@ -328,171 +413,62 @@ export class HttpAdapter {
     });
   }
 
-  private parseMCPRequestPayload(body: unknown): MCPTransportRequest | null {
-    if (!body) {
-      return null;
-    }
+  /**
+   * Bridge Express to the Web standard Streamable HTTP handler
+   */
+  private async handleStreamableHttp(req: Request, res: Response): Promise<void> {
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
 
-    if (typeof body === 'string') {
-      try {
-        return JSON.parse(body) as MCPTransportRequest;
-      } catch {
-        return null;
+    try {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        // The body is re-serialized, so framing headers do not carry over
+        if (value !== undefined && !BRIDGE_SKIPPED_HEADERS.has(name)) {
+          headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+        }
       }
-    }
 
-    if (typeof body === 'object') {
-      return body as MCPTransportRequest;
-    }
-
-    return null;
-  }
+      // Bodies are already parsed by express.json
+      const hasBody = req.method === 'POST';
+      const response = await this.streamableHttp.handle(
+        new globalThis.Request(`http://${req.headers.host ?? 'localhost'}${req.originalUrl}`, {
+          method: req.method,
+          headers,
+          body: hasBody ? (typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? null)) : undefined,
+          signal: abortController.signal,
+        })
+      );
 
-  private async handleMCPHttpRequest(req: Request, res: Response): Promise<void> {
-    try {
-      const payload = this.parseMCPRequestPayload(req.body);
+      res.status(response.status);
+      response.headers.forEach((value, name) => res.setHeader(name, value));
 
-      if (!payload) {
-        res.status(400).json({
-          error: 'Invalid MCP request payload',
-          message: 'Expected JSON-RPC body',
-        });
+      if (!response.body) {
+        res.end();
         return;
       }
 
-      const response = await processMCPRequest(payload, {
-        toolRegistry: this.toolRegistry,
-        logger: this.logger,
-      });
-
-      res.json(response);
-    } catch (error) {
-      this.logger.error('Failed to handle MCP HTTP request', error as Error);
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: (error as Error).message,
-      });
-    }
-  }
-
-  private async handleSSE(req: Request, res: Response): Promise<void> {
-    const acceptHeader = req.headers.accept;
-    if (
-      acceptHeader &&
-      !acceptHeader.includes('text/event-stream') &&
-      !acceptHeader.includes('*/*')
-    ) {
-      res.status(400).json({
-        error: 'SSE endpoint requires Accept: text/event-stream',
-      });
-      return;
-    }
-
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-
-    // Flush headers so the connection stays open
-    if (typeof res.flushHeaders === 'function') {
+      // Flush headers so SSE streams start right away
       res.flushHeaders();
-    }
-
-    const sendEvent = (
-      data: unknown,
-      event?: string,
-      id?: string | number | null
-    ) => {
-      let payload = '';
-      if (id !== undefined && id !== null) {
-        payload += `id: ${id}\n`;
-      }
-      if (event) {
-        payload += `event: ${event}\n`;
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        res.write(value);
       }
-      payload += `data: ${JSON.stringify(data)}\n\n`;
-      res.write(payload);
-    };
-
-    const sendErrorEvent = (message: string) => {
-      sendEvent(
-        {
-          type: 'error',
-          message,
-          timestamp: new Date().toISOString(),
-        },
-        'error'
-      );
-    };
-
-    sendEvent(
-      {
-        type: 'connection',
-        status: 'connected',
-        server: this.config.serviceInfo.name,
-        version: this.config.serviceInfo.version,
-        timestamp: new Date().toISOString(),
-      },
-      'connection'
-    );
-
-    const initMessage = buildMCPInitMessage(this.config.serviceInfo);
-    sendEvent(initMessage, 'message', initMessage.id);
-
-    const pingInterval = setInterval(() => {
-      sendEvent(
-        {
-          type: 'ping',
-          timestamp: new Date().toISOString(),
-        },
-        'ping'
-      );
-    }, SSE_PING_INTERVAL_MS);
-
-    let closed = false;
-    let timeoutHandle: NodeJS.Timeout;
-
-    const cleanup = () => {
-      if (closed) return;
-      closed = true;
-      clearInterval(pingInterval);
-      clearTimeout(timeoutHandle);
       res.end();
-    };
-
-    timeoutHandle = setTimeout(() => {
-      cleanup();
-    }, SSE_CONNECTION_TIMEOUT_MS);
-
-    req.on('close', cleanup);
-
-    if (req.method === 'POST') {
-      try {
-        const payload = this.parseMCPRequestPayload(req.body);
-        if (!payload) {
-          sendErrorEvent('Invalid MCP request payload');
-        } else {
-          const response = await processMCPRequest(payload, {
-            toolRegistry: this.toolRegistry,
-            logger: this.logger,
-          });
-
-          sendEvent(
-            response,
-            'message',
-            payload.id !== undefined && payload.id !== null
-              ? payload.id
-              : undefined
-          );
-        }
-      } catch (error) {
-        this.logger.error('Failed to process SSE MCP request', error as Error);
-        sendErrorEvent(
-          error instanceof Error ? error.message : 'Internal Server Error'
-        );
+    } catch (error) {
+      this.logger.error('Failed to handle MCP HTTP request', error as Error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: -32603, message: 'Internal error', data: (error as Error).message },
+        });
+      } else {
+        res.end();
       }
     }
-
-    // Keep the connection open until timeout or client disconnects
   }
 
   /**
@@ -503,8 +479,10 @@ export class HttpAdapter {
 
     const endpoints = [
       { method: 'GET', path: '/health', description: 'Service health and basic stats' },
-      { method: 'POST', path: '/mcp', description: 'MCP JSON-RPC endpoint' },
-      { method: 'GET', path: '/sse', description: 'Server-Sent Events transport' },
+      { method: 'POST', path: '/mcp', description: 'MCP Streamable HTTP endpoint (JSON-RPC messages)' },
+      { method: 'GET', path: '/mcp', description: 'MCP server event stream (resumable with Last-Event-ID)' },
+      { method: 'DELETE', path: '/mcp', description: 'Terminate an MCP session' },
+      { method: 'GET', path: WEBSOCKET_PATH, description: 'MCP over WebSocket (JSON-RPC messages both ways)' },
       { method: 'GET', path: '/api/tools', description: 'List all available MCP tools' },
       { method: 'GET', path: '/api/categories', description: 'List all tool categories' },
       { method: 'GET', path: '/api/tools/:name', description: 'Get schema and metadata for a tool' },
@@ -533,7 +511,13 @@ export class HttpAdapter {
    * Set up error handling
    */
   private setupErrorHandling(): void {
-    this.app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    this.app.use((err: Error, req: Request, res: Response, _next: NextFunction) => {
+      // Malformed JSON on the MCP endpoint is a JSON-RPC parse error
+      if (req.path === '/mcp' && (err as { type?: string }).type === 'entity.parse.failed') {
+        res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+        return;
+      }
+
       this.logger.error('Unhandled HTTP error', err);
 
       res.status(500).json({
@@ -543,13 +527,37 @@ export class HttpAdapter {
     });
   }
 
+  /**
+   * Upgrade requests to the WebSocket endpoint; other upgrades are refused
+   */
+  private handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    if (path !== WEBSOCKET_PATH) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+
+    this.websocket.handleUpgrade(request, socket, head);
+  }
+
+  /**
+   * Send a server notification to a /mcp session or WebSocket connection (resource updates)
+   */
+  async notifySession(sessionId: string, notification: MCPTransportNotification): Promise<void> {
+    if (this.websocket.notify(sessionId, notification)) {
+      return;
+    }
+
+    await this.streamableHttp.notifySession(sessionId, notification);
+  }
+
   /**
    * Start the HTTP server
    */
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.app.listen(this.config.port, this.config.host, () => {
+        const server = this.app.listen(this.config.port, this.config.host, () => {
           this.logger.info('HTTP server started', {
             host: this.config.host,
             port: this.config.port,
@@ -557,6 +565,9 @@ export class HttpAdapter {
           });
           resolve();
         });
+        server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) =>
+          this.handleUpgrade(request, socket, head)
+        );
       } catch (error) {
         this.logger.error('Failed to start HTTP server', error as Error);
         reject(error);
@@ -571,7 +582,10 @@ export class HttpAdapter {
 export function createHttpAdapter(
   toolRegistry: ToolRegistry,
   logger: Logger,
-  config: HttpAdapterConfig
+  config: HttpAdapterConfig,
+  promptRegistry?: PromptRegistry,
+  resourceRegistry?: ResourceRegistry,
+  completionRegistry?: CompletionRegistry
 ): HttpAdapter {
-  return new HttpAdapter(toolRegistry, logger, config);
+  return new HttpAdapter(toolRegistry, logger, config, promptRegistry, resourceRegistry, completionRegistry);
 }
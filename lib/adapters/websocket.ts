@@ -0,0 +1,410 @@
+/**
+ * WebSocket Transport for the Node HTTP server
+ *
+ * The /mcp JSON-RPC dialect over one long-lived WebSocket connection:
+ * - Text frames carry JSON-RPC messages and batches; responses are sent as they complete
+ * - One connection is one MCP session, started by initialize on the connection
+ * - Server notifications (progress, log messages, resource updates) sent on the connection
+ * - Requests aborted by notifications/cancelled or by the connection closing
+ * - Bearer token checked on the upgrade request
+ * - Ping/pong keep-alive; connections that miss a pong are terminated
+ */
+
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import type {
+  LoggingLevel,
+  MCPTransportNotification,
+  MCPTransportRequest,
+  MCPTransportResponse,
+} from '../types/index.js';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  answeredResponses,
+  isClientResponse,
+  isNotification,
+  processMCPBatch,
+  processMCPRequest,
+  type MCPHandlerContext,
+} from '../core/mcp-transport.js';
+import { DEFAULT_LOGGING_LEVEL, forwardLogs, sessionLogger } from '../core/logging.js';
+
+export const WEBSOCKET_PATH = '/mcp/ws';
+
+const WS_PING_INTERVAL_MS = 30000;
+const WS_MAX_PAYLOAD_BYTES = 10 * 1024 * 1024; // Same limit as JSON bodies on /mcp
+
+export interface WebSocketTransportConfig {
+  authToken?: string; // Bearer token required on the upgrade request
+  pingInterval?: number; // Keep-alive interval in milliseconds
+  batchConcurrency?: number; // Batch messages processed at the same time
+}
+
+function isJsonRpcMessage(value: unknown): value is MCPTransportRequest {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'jsonrpc' in value;
+}
+
+function isRequestMessage(value: unknown): value is MCPTransportRequest {
+  return typeof value === 'object' && value !== null && 'id' in value && 'method' in value;
+}
+
+function errorMessage(id: string | number | null, code: number, message: string): MCPTransportResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+/**
+ * One WebSocket connection and the MCP session it carries
+ */
+class WebSocketConnection {
+  readonly id = crypto.randomUUID();
+  private protocolVersion?: string; // Set by a successful initialize
+  private logLevel: LoggingLevel = DEFAULT_LOGGING_LEVEL;
+  private alive = true;
+  private readonly inFlight = new Map<string, AbortController>(); // By request id
+  private readonly stopLogForwarding: () => void;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly context: MCPHandlerContext,
+    private readonly batchConcurrency: number
+  ) {
+    this.stopLogForwarding = forwardLogs(
+      context.logger,
+      () => this.logLevel,
+      (notification) => {
+        if (this.protocolVersion) {
+          this.send(notification);
+        }
+      },
+      this.id
+    );
+    socket.on('pong', () => {
+      this.alive = true;
+    });
+  }
+
+  /**
+   * Send a message while the connection is open; failures are not logged
+   * (they would be forwarded again)
+   */
+  readonly send = (message: unknown): void => {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message), () => undefined);
+    }
+  };
+
+  /**
+   * Ping the client, or terminate the connection when the last ping got no pong
+   */
+  keepAlive(): void {
+    if (!this.alive) {
+      this.context.logger.warn('WebSocket connection missed a pong', { connectionId: this.id });
+      this.socket.terminate();
+      return;
+    }
+
+    this.alive = false;
+    this.socket.ping();
+  }
+
+  /**
+   * Handle a text frame: a JSON-RPC message or batch
+   */
+  async receive(data: string): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.send(errorMessage(null, -32700, 'Parse error'));
+      return;
+    }
+
+    if (Array.isArray(message)) {
+      await this.receiveBatch(message);
+      return;
+    }
+
+    if (!isJsonRpcMessage(message)) {
+      this.send(errorMessage(null, -32600, 'Invalid Request'));
+      return;
+    }
+
+    if (message.method === 'initialize') {
+      await this.initialize(message);
+      return;
+    }
+
+    if (isClientResponse(message)) {
+      return;
+    }
+
+    if (!this.protocolVersion) {
+      if (!isNotification(message)) {
+        this.send(errorMessage(message.id ?? null, -32000, 'Bad Request: connection is not initialized'));
+      }
+      return;
+    }
+
+    if (isNotification(message)) {
+      this.cancelIfRequested(message);
+      await this.process(message);
+      return;
+    }
+
+    const signal = this.signalFor(message.id);
+    try {
+      this.sendResponses([await this.process(message, signal)]);
+    } finally {
+      this.release(message.id);
+    }
+  }
+
+  /**
+   * Close: abort running requests and stop sending to the connection
+   */
+  close(): void {
+    this.stopLogForwarding();
+    for (const controller of this.inFlight.values()) {
+      controller.abort('client disconnected');
+    }
+    this.inFlight.clear();
+  }
+
+  private async initialize(message: MCPTransportRequest): Promise<void> {
+    if (this.protocolVersion) {
+      this.send(errorMessage(message.id ?? null, -32600, 'Invalid Request: connection is already initialized'));
+      return;
+    }
+
+    const response = await this.process(message);
+    if (!response.error) {
+      this.protocolVersion = (response.result as { protocolVersion: string }).protocolVersion;
+      this.context.logger.info('MCP WebSocket session created', {
+        connectionId: this.id,
+        protocolVersion: this.protocolVersion,
+      });
+    }
+    this.send(response);
+  }
+
+  private async receiveBatch(batch: unknown[]): Promise<void> {
+    if (batch.length === 0) {
+      this.send(errorMessage(null, -32600, 'Invalid Request: empty batch'));
+      return;
+    }
+
+    if (batch.some((message) => isJsonRpcMessage(message) && message.method === 'initialize')) {
+      this.send(errorMessage(null, -32600, 'Invalid Request: initialize must not be part of a batch'));
+      return;
+    }
+
+    if (!this.protocolVersion) {
+      this.send(errorMessage(null, -32000, 'Bad Request: connection is not initialized'));
+      return;
+    }
+
+    for (const message of batch) {
+      this.cancelIfRequested(message);
+    }
+
+    const requestIds = batch.filter(isRequestMessage).map((message) => message.id);
+    try {
+      this.sendResponses(
+        await processMCPBatch(
+          batch,
+          this.requestContext(),
+          this.batchConcurrency,
+          (message) => (isRequestMessage(message) ? this.signalFor(message.id) : undefined)
+        ),
+        true
+      );
+    } finally {
+      requestIds.forEach((id) => this.release(id));
+    }
+  }
+
+  /**
+   * Send responses, leaving out cancelled requests (they get no response)
+   */
+  private sendResponses(responses: MCPTransportResponse[], batch = false): void {
+    const answered = answeredResponses(responses);
+    if (answered.length === 0) {
+      return;
+    }
+
+    this.send(batch ? answered : answered[0]);
+  }
+
+  private requestContext(signal?: AbortSignal): MCPHandlerContext {
+    return {
+      ...this.context,
+      protocolVersion: this.protocolVersion,
+      signal,
+      notify: this.send as (notification: MCPTransportNotification) => void,
+      setLogLevel: async (level) => {
+        this.logLevel = level;
+        this.context.logger.debug('MCP WebSocket log level set', { connectionId: this.id, level });
+      },
+      subscriberId: this.id,
+      sessionId: this.id,
+      logger: sessionLogger(this.context.logger, this.id),
+    };
+  }
+
+  /**
+   * Process one message, answering unexpected failures with an internal error
+   */
+  private async process(message: MCPTransportRequest, signal?: AbortSignal): Promise<MCPTransportResponse> {
+    try {
+      return await processMCPRequest(message, this.requestContext(signal));
+    } catch (error) {
+      this.context.logger.error('WebSocket request failed', error as Error);
+      return {
+        jsonrpc: '2.0',
+        id: message.id ?? null,
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  private signalFor(requestId: unknown): AbortSignal {
+    const controller = new AbortController();
+    this.inFlight.set(JSON.stringify(requestId), controller);
+    return controller.signal;
+  }
+
+  private release(requestId: unknown): void {
+    this.inFlight.delete(JSON.stringify(requestId));
+  }
+
+  /**
+   * Abort the request named by a notifications/cancelled message
+   */
+  private cancelIfRequested(message: unknown): void {
+    if (!isJsonRpcMessage(message) || message.method !== 'notifications/cancelled') {
+      return;
+    }
+
+    const params = (message.params ?? {}) as { requestId?: unknown; reason?: unknown };
+    const controller = this.inFlight.get(JSON.stringify(params.requestId));
+    if (controller) {
+      this.context.logger.info('MCP request cancelled by client', {
+        connectionId: this.id,
+        requestId: params.requestId as string | number,
+      });
+      controller.abort(typeof params.reason === 'string' ? params.reason : 'cancelled by client');
+    }
+  }
+}
+
+/**
+ * WebSocket transport: upgrades requests and serves their connections
+ */
+export class WebSocketTransport {
+  private readonly context: MCPHandlerContext;
+  private readonly authToken?: string;
+  private readonly batchConcurrency: number;
+  private readonly server: WebSocketServer;
+  private readonly connections: Map<string, WebSocketConnection>;
+  private readonly pingTimer: ReturnType<typeof setInterval>;
+
+  constructor(context: MCPHandlerContext, config: WebSocketTransportConfig = {}) {
+    this.context = context;
+    this.authToken = config.authToken;
+    this.batchConcurrency = config.batchConcurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    this.server = new WebSocketServer({ noServer: true, maxPayload: WS_MAX_PAYLOAD_BYTES });
+    this.connections = new Map();
+
+    this.pingTimer = setInterval(() => {
+      for (const connection of this.connections.values()) {
+        connection.keepAlive();
+      }
+    }, config.pingInterval ?? WS_PING_INTERVAL_MS);
+    // Keep-alive alone never keeps the process alive
+    this.pingTimer.unref();
+  }
+
+  /**
+   * Handle an HTTP upgrade request, rejecting it without a valid bearer token
+   */
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const token = request.headers.authorization?.replace('Bearer ', '');
+    if (this.authToken !== undefined && (!token || token !== this.authToken)) {
+      this.context.logger.warn('Rejected unauthenticated WebSocket connection');
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+
+    this.server.handleUpgrade(request, socket, head, (ws) => this.accept(ws));
+  }
+
+  /**
+   * Send a server notification to a connection (resource updates)
+   *
+   * Returns false when no connection has this ID.
+   */
+  notify(connectionId: string, notification: MCPTransportNotification): boolean {
+    const connection = this.connections.get(connectionId);
+    connection?.send(notification);
+    return connection !== undefined;
+  }
+
+  /**
+   * Close every connection and stop the keep-alive
+   */
+  close(): void {
+    clearInterval(this.pingTimer);
+    for (const ws of this.server.clients) {
+      ws.close(1001, 'Server shutting down');
+    }
+    this.server.close();
+  }
+
+  private accept(ws: WebSocket): void {
+    const connection = new WebSocketConnection(ws, this.context, this.batchConcurrency);
+    this.connections.set(connection.id, connection);
+    this.context.logger.debug('WebSocket connection opened', { connectionId: connection.id });
+
+    ws.on('message', (data: RawData, isBinary: boolean) => {
+      if (isBinary) {
+        ws.close(1003, 'Only text frames are supported');
+        return;
+      }
+
+      void connection.receive(data.toString()).catch((error) => {
+        this.context.logger.error('Failed to handle WebSocket message', error as Error, {
+          connectionId: connection.id,
+        });
+      });
+    });
+
+    ws.on('error', (error) => {
+      this.context.logger.warn('WebSocket connection error', {
+        connectionId: connection.id,
+        error: error.message,
+      });
+    });
+
+    ws.on('close', () => {
+      connection.close();
+      this.connections.delete(connection.id);
+      void this.context.subscriptionStore?.removeSubscriber(connection.id).catch(() => undefined);
+      this.context.logger.debug('WebSocket connection closed', { connectionId: connection.id });
+    });
+  }
+}
+
+/**
+ * Create WebSocket transport
+ */
+export function createWebSocketTransport(
+  context: MCPHandlerContext,
+  config?: WebSocketTransportConfig
+): WebSocketTransport {
+  return new WebSocketTransport(context, config);
+}
@@ -3,7 +3,8 @@
  *
  * Provides edge deployment capabilities using Cloudflare Workers
  * Features:
- * - RESTful endpoints for all tools
+ * - MCP Streamable HTTP transport on /mcp (Durable Object sessions)
+ * - RESTful endpoints for all tools (through the shared tool pipeline)
  * - CORS support
  * - Request authentication
  * - Global edge deployment
@@ -14,22 +15,35 @@ import type {
   Logger,
   ServiceInfo,
   ToolDefinition,
-  MCPTransportRequest,
+  ToolContext,
+  SessionStore,
+  SubscriptionStore,
+  MCPTransportNotification,
 } from '../types/index.js';
 import type { ToolRegistry } from '../core/tools.js';
+import type { PromptRegistry } from '../core/prompts.js';
+import type { ResourceRegistry } from '../core/resources.js';
+import type { CompletionRegistry } from '../core/completions.js';
+import { createToolPipeline, type ToolPipeline } from '../core/pipeline.js';
+import { ToolForbiddenError, ValidationError, retryAfterSeconds } from '../core/errors.js';
 import {
-  buildMCPInitMessage,
-  processMCPRequest,
-} from '../core/mcp-transport.js';
-
-const SSE_PING_INTERVAL_MS = 30000;
-const SSE_CONNECTION_TIMEOUT_MS = 55000;
+  createStreamableHttpHandler,
+  MCP_ALLOWED_HEADERS,
+  MCP_ALLOWED_METHODS,
+  MCP_EXPOSED_HEADERS,
+  type StreamableHttpHandler,
+} from '../core/streamable-http.js';
 
 export interface WorkersAdapterConfig {
   corsOrigin: string;
   authEnabled: boolean;
   authToken?: string;
   serviceInfo: ServiceInfo;
+  toolContext?: ToolContext; // Runtime context for the shared tool pipeline (cache, rate limiting)
+  toolPipeline?: ToolPipeline; // Defaults to every middleware with the adapter logger
+  sessionStore: SessionStore; // Streamable HTTP sessions
+  subscriptionStore?: SubscriptionStore; // Resource subscriptions of the sessions
+  batchConcurrency?: number; // JSON-RPC batch messages processed at the same time
 }
 
 /**
@@ -37,17 +51,43 @@ export interface WorkersAdapterConfig {
  */
 export class WorkersAdapter {
   private toolRegistry: ToolRegistry;
+  private toolPipeline: ToolPipeline;
   private logger: Logger;
   private config: WorkersAdapterConfig;
+  private streamableHttp: StreamableHttpHandler;
 
   constructor(
     toolRegistry: ToolRegistry,
     logger: Logger,
-    config: WorkersAdapterConfig
+    config: WorkersAdapterConfig,
+    promptRegistry?: PromptRegistry,
+    resourceRegistry?: ResourceRegistry,
+    completionRegistry?: CompletionRegistry
   ) {
     this.toolRegistry = toolRegistry;
     this.logger = logger;
     this.config = config;
+    this.toolPipeline = config.toolPipeline ?? createToolPipeline(toolRegistry, { logger });
+    this.streamableHttp = createStreamableHttpHandler(
+      {
+        toolRegistry,
+        toolPipeline: this.toolPipeline,
+        promptRegistry,
+        resourceRegistry,
+        completionRegistry,
+        subscriptionStore: config.subscriptionStore,
+        toolContext: config.toolContext,
+        logger,
+      },
+      { sessionStore: config.sessionStore, batchConcurrency: config.batchConcurrency }
+    );
+  }
+
+  /**
+   * Send a server notification to a /mcp session (resource updates)
+   */
+  notifySession(sessionId: string, notification: MCPTransportNotification): Promise<void> {
+    return this.streamableHttp.notifySession(sessionId, notification);
   }
 
   /**
@@ -74,12 +114,8 @@ export class WorkersAdapter {
         return this.handleLanding();
       }
 
-      if (path === '/mcp' && method === 'POST') {
-        return this.handleMCP(request);
-      }
-
-      if (path === '/sse' && (method === 'GET' || method === 'POST')) {
-        return this.handleSSE(request);
+      if (path === '/mcp') {
+        return this.withCorsHeaders(await this.streamableHttp.handle(request));
       }
 
       if (path === '/health' && method === 'GET') {
@@ -146,216 +182,14 @@ export class WorkersAdapter {
     return this.jsonResponse(health);
   }
 
-  private parseMCPRequestBody(body: string | null): MCPTransportRequest | null {
-    if (!body) {
-      return null;
-    }
-
-    try {
-      return JSON.parse(body) as MCPTransportRequest;
-    } catch {
-      return null;
-    }
-  }
-
-  private async handleMCP(request: Request): Promise<Response> {
-    try {
-      const bodyText = await request.text();
-      const payload = this.parseMCPRequestBody(bodyText);
-
-      if (!payload) {
-        return this.jsonResponse(
-          {
-            jsonrpc: '2.0',
-            id: null,
-            error: {
-              code: -32700,
-              message: 'Parse error',
-              data: 'Invalid JSON in request body',
-            },
-          },
-          400
-        );
-      }
-
-      const response = await processMCPRequest(payload, {
-        toolRegistry: this.toolRegistry,
-        logger: this.logger,
-      });
-
-      return this.jsonResponse(response);
-    } catch (error) {
-      this.logger.error('Workers MCP request failed', error as Error);
-      return this.jsonResponse(
-        {
-          jsonrpc: '2.0',
-          id: null,
-          error: {
-            code: -32603,
-            message: 'Internal error',
-            data: error instanceof Error ? error.message : 'Unknown error',
-          },
-        },
-        500
-      );
-    }
-  }
-
-  private handleSSE(request: Request): Response {
-    const acceptHeader = request.headers.get('Accept');
-    if (
-      acceptHeader &&
-      !acceptHeader.includes('text/event-stream') &&
-      !acceptHeader.includes('*/*')
-    ) {
-      return new Response('SSE endpoint requires Accept: text/event-stream', {
-        status: 400,
-        headers: this.getCorsHeaders(),
-      });
-    }
-
-    const { readable, writable } = new TransformStream();
-    const writer = writable.getWriter();
-    const encoder = new TextEncoder();
-
-    const writeEvent = async (
-      data: unknown,
-      event?: string,
-      id?: string | number | null
-    ) => {
-      let payload = '';
-      if (id !== undefined && id !== null) {
-        payload += `id: ${id}\n`;
-      }
-      if (event) {
-        payload += `event: ${event}\n`;
-      }
-      payload += `data: ${JSON.stringify(data)}\n\n`;
-      await writer.write(encoder.encode(payload));
-    };
-
-    const sendError = async (message: string) => {
-      await writeEvent(
-        {
-          type: 'error',
-          message,
-          timestamp: new Date().toISOString(),
-        },
-        'error'
-      );
-    };
-
-    const run = async () => {
-      try {
-        await writeEvent(
-          {
-            type: 'connection',
-            status: 'connected',
-            server: this.config.serviceInfo.name,
-            version: this.config.serviceInfo.version,
-            timestamp: new Date().toISOString(),
-          },
-          'connection'
-        );
-
-        const initMessage = buildMCPInitMessage(this.config.serviceInfo);
-        await writeEvent(initMessage, 'message', initMessage.id);
-
-        const pingInterval = setInterval(() => {
-          writeEvent(
-            {
-              type: 'ping',
-              timestamp: new Date().toISOString(),
-            },
-            'ping'
-          ).catch((error) => {
-            this.logger.warn('Failed to send SSE ping', { error });
-          });
-        }, SSE_PING_INTERVAL_MS);
-
-        const abortSignal = request.signal;
-        let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
-
-        const closeStream = () => {
-          clearInterval(pingInterval);
-          if (timeoutHandle) {
-            clearTimeout(timeoutHandle);
-          }
-          if (abortSignal) {
-            abortSignal.removeEventListener('abort', abortHandler);
-          }
-          writer.close().catch(() => {
-            // Ignore close errors
-          });
-        };
-
-        const abortHandler = () => {
-          closeStream();
-        };
-
-        if (abortSignal) {
-          abortSignal.addEventListener('abort', abortHandler, { once: true });
-        }
-
-        timeoutHandle = setTimeout(() => {
-          closeStream();
-        }, SSE_CONNECTION_TIMEOUT_MS);
-
-        if (request.method === 'POST') {
-          const bodyText = await request.text();
-          const payload = this.parseMCPRequestBody(bodyText);
-          if (!payload) {
-            await sendError('Invalid MCP request payload');
-          } else {
-            try {
-              const response = await processMCPRequest(payload, {
-                toolRegistry: this.toolRegistry,
-                logger: this.logger,
-              });
-
-              await writeEvent(
-                response,
-                'message',
-                payload.id !== undefined && payload.id !== null
-                  ? payload.id
-                  : undefined
-              );
-            } catch (error) {
-              this.logger.error('Failed to process SSE MCP request', error as Error);
-              await sendError(
-                error instanceof Error ? error.message : 'Internal Server Error'
-              );
-            }
-          }
-        }
-      } catch (error) {
-        this.logger.error('SSE handler failed', error as Error);
-        await sendError('Internal Server Error');
-      }
-    };
-
-    void run();
-
-    const headers = {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      Connection: 'keep-alive',
-      ...this.getCorsHeaders(),
-    };
-
-    return new Response(readable, {
-      status: 200,
-      headers,
-    });
-  }
-
   private buildLandingPayload(): Record<string, unknown> {
     const categories = this.toolRegistry.getCategories();
 
     const endpoints = [
       { method: 'GET', path: '/health', description: 'Service health and basic stats' },
-      { method: 'POST', path: '/mcp', description: 'MCP JSON-RPC endpoint' },
-      { method: 'GET', path: '/sse', description: 'Server-Sent Events transport' },
+      { method: 'POST', path: '/mcp', description: 'MCP Streamable HTTP endpoint (JSON-RPC messages)' },
+      { method: 'GET', path: '/mcp', description: 'MCP server event stream (resumable with Last-Event-ID)' },
+      { method: 'DELETE', path: '/mcp', description: 'Terminate an MCP session' },
       { method: 'GET', path: '/api/tools', description: 'List all available MCP tools' },
       { method: 'GET', path: '/api/categories', description: 'List all tool categories' },
       { method: 'GET', path: '/api/tools/:name', description: 'Get schema and metadata for a tool' },
@@ -388,9 +222,12 @@ export class WorkersAdapter {
 
     const toolsList = tools.map((tool: ToolDefinition) => ({
       name: tool.name,
+      title: tool.title,
       description: tool.description,
       category: tool.category,
       inputSchema: tool.inputSchema,
+      outputSchema: this.toolRegistry.getOutputSchema(tool.name),
+      annotations: tool.annotations,
     }));
 
     return this.jsonResponse({
@@ -428,9 +265,12 @@ export class WorkersAdapter {
 
     return this.jsonResponse({
       name: tool.name,
+      title: tool.title,
       description: tool.description,
       category: tool.category,
       inputSchema: tool.inputSchema,
+      outputSchema: this.toolRegistry.getOutputSchema(tool.name),
+      annotations: tool.annotations,
     });
   }
 
@@ -442,9 +282,12 @@ export class WorkersAdapter {
 
     const toolsList = tools.map((tool: ToolDefinition) => ({
       name: tool.name,
+      title: tool.title,
       description: tool.description,
       category: tool.category,
       inputSchema: tool.inputSchema,
+      outputSchema: this.toolRegistry.getOutputSchema(tool.name),
+      annotations: tool.annotations,
     }));
 
     return this.jsonResponse({
@@ -466,11 +309,33 @@ export class WorkersAdapter {
       // Parse request body
       const args = await request.json();
 
-      // Invoke tool (context will be provided by the worker environment)
-      const result = await this.toolRegistry.invoke(name, args, {} as any);
+      // request.signal aborts when the client disconnects
+      const { result } = await this.toolPipeline.execute(name, args, {
+        ...(this.config.toolContext ?? ({ logger: this.logger } as ToolContext)),
+        signal: request.signal,
+      });
 
       return this.jsonResponse(result);
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return this.errorResponse(error.message, 400);
+      }
+
+      if (error instanceof ToolForbiddenError) {
+        return this.errorResponse(error.message, 403);
+      }
+
+      // Matched by name: the rate limiter, the pipeline and core/errors each raise their own
+      if (error instanceof Error && error.name === 'RateLimitError') {
+        const response = this.errorResponse(error.message, 429);
+        response.headers.set('Retry-After', String(retryAfterSeconds(error)));
+        return response;
+      }
+
+      if (error instanceof Error && error.name === 'CircuitBreakerError') {
+        return this.errorResponse(error.message, 503);
+      }
+
       this.logger.error('Failed to invoke tool', error as Error);
       return this.errorResponse(
         error instanceof Error ? error.message : 'Internal Server Error',
@@ -519,6 +384,18 @@ export class WorkersAdapter {
     });
   }
 
+  /**
+   * Add CORS headers to a response built elsewhere
+   */
+  private withCorsHeaders(response: Response): Response {
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(this.getCorsHeaders())) {
+      headers.set(name, value);
+    }
+
+    return new Response(response.body, { status: response.status, headers });
+  }
+
   /**
    * Create error response
    */
@@ -532,8 +409,9 @@ export class WorkersAdapter {
   private getCorsHeaders(): Record<string, string> {
     return {
       'Access-Control-Allow-Origin': this.config.corsOrigin,
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': MCP_ALLOWED_METHODS,
+      'Access-Control-Allow-Headers': MCP_ALLOWED_HEADERS,
+      'Access-Control-Expose-Headers': MCP_EXPOSED_HEADERS,
     };
   }
 }
@@ -544,7 +422,10 @@ export class WorkersAdapter {
 export function createWorkersAdapter(
   toolRegistry: ToolRegistry,
   logger: Logger,
-  config: WorkersAdapterConfig
+  config: WorkersAdapterConfig,
+  promptRegistry?: PromptRegistry,
+  resourceRegistry?: ResourceRegistry,
+  completionRegistry?: CompletionRegistry
 ): WorkersAdapter {
-  return new WorkersAdapter(toolRegistry, logger, config);
+  return new WorkersAdapter(toolRegistry, logger, config, promptRegistry, resourceRegistry, completionRegistry);
 }
@@ -9,10 +9,20 @@
 import { loadConfig } from '../config/config.js';
 import { createLogger } from '../infrastructure/logger.js';
 import { createHttpClient } from '../infrastructure/http-client.js';
+import { createFixtureFetch } from '../infrastructure/http-fixtures.js';
 import { createCache } from '../infrastructure/cache.js';
 import { createCircuitBreaker } from '../infrastructure/circuit-breaker.js';
+import { createRateLimiter } from '../infrastructure/rate-limiter.js';
+import { createSessionStore } from '../infrastructure/session-store.js';
+import { createSubscriptionStore } from '../infrastructure/subscription-store.js';
 import { createToolRegistry } from '../core/tools.js';
+import { createPromptRegistry } from '../core/prompts.js';
+import { createResourceRegistry } from '../core/resources.js';
+import { createCompletionRegistry } from '../core/completions.js';
+import { createToolPipeline } from '../core/pipeline.js';
+import { createResourcePoller } from '../core/subscriptions.js';
 import { createHttpAdapter } from '../adapters/http.js';
+import type { ToolContext } from '../types/index.js';
 
 const SERVICE_DESCRIPTION = 'Model Context Protocol server for the Brazilian Federal Senate Open Data API.';
 const DEFAULT_DOCS_URL = 'https://github.com/cristianoaredes/mcp-senado#readme';
@@ -38,7 +48,8 @@ async function main() {
       nodeEnv: config.nodeEnv,
     });
 
-    // Create circuit breaker
+    // Create circuit breaker (wraps every Senado API request; the tool
+    // pipeline fails fast while it is open)
     const circuitBreaker = createCircuitBreaker(
       {
         failureThreshold: config.circuitBreakerFailureThreshold,
@@ -49,32 +60,66 @@ async function main() {
       config.circuitBreakerEnabled
     );
 
-    // Create HTTP client
+    // Create cache
+    const cache = createCache(
+      {
+        ttl: config.cacheTTL,
+        maxSize: config.cacheMaxSize,
+        cleanupInterval: config.cacheCleanupInterval,
+      },
+      logger,
+      config.cacheEnabled
+    );
+
+    // Create response cache (Senado API responses kept for revalidation, so
+    // they never crowd out tool results)
+    const responseCache = createCache(
+      {
+        ttl: config.cacheTTL,
+        maxSize: config.responseCacheMaxSize,
+        cleanupInterval: config.cacheCleanupInterval,
+      },
+      logger,
+      config.cacheEnabled
+    );
+
+    // Create HTTP client (live, or recording/replaying fixtures with MCP_HTTP_MODE;
+    // responses with validators are revalidated through the response cache; XML
+    // or JSON per endpoint with MCP_HTTP_FORMAT / MCP_HTTP_ENDPOINT_FORMATS)
     const httpClient = createHttpClient(
       {
         baseUrl: config.apiBaseUrl,
         timeout: config.apiTimeout,
         maxRetries: config.apiMaxRetries,
         retryDelay: config.apiRetryDelay,
+        fetch: createFixtureFetch(
+          {
+            mode: config.apiMode,
+            fixturesDir: config.apiFixturesDir,
+            baseUrl: config.apiBaseUrl,
+            replayMiss: config.apiReplayMiss,
+          },
+          logger
+        ),
+        cache: responseCache,
+        format: config.apiFormat,
+        endpointFormats: config.apiEndpointFormats,
       },
       logger,
       circuitBreaker
     );
 
-    // Create cache
-    const cache = createCache(
+    // Create rate limiter
+    const rateLimiter = createRateLimiter(
       {
-        ttl: config.cacheTTL,
-        maxSize: config.cacheMaxSize,
-        cleanupInterval: config.cacheCleanupInterval,
+        tokens: config.rateLimitTokens,
+        interval: config.rateLimitInterval,
+        refillRate: config.rateLimitRefillRate,
       },
       logger,
-      config.cacheEnabled
+      config.rateLimitEnabled
     );
 
-    // Note: Rate limiter not used in HTTP adapter yet
-    // Could be added as Express middleware in the future
-
     // Create tool registry
     const toolRegistry = createToolRegistry();
 
@@ -100,19 +145,41 @@ async function main() {
       categories: toolRegistry.getCategories(),
     });
 
+    // Create prompt registry
+    const promptRegistry = createPromptRegistry();
+    const { legislativePrompts } = await import('../prompts/legislative-prompts.js');
+    promptRegistry.registerMany(legislativePrompts);
+
+    // Create resource registry
+    const resourceRegistry = createResourceRegistry();
+    const { senadoResources, senadoResourceTemplates } = await import('../resources/senado-resources.js');
+    resourceRegistry.registerMany(senadoResources);
+    resourceRegistry.registerTemplates(senadoResourceTemplates);
+
+    // Create completion registry
+    const completionRegistry = createCompletionRegistry();
+    const { referenceCompletions } = await import('../completions/reference-completions.js');
+    completionRegistry.registerMany(referenceCompletions);
+
     // Create tool context for tool invocations
-    const toolContext = {
+    const toolContext: ToolContext = {
       httpClient,
       cache,
       config,
       logger,
+      rateLimiter,
+      scopes: getEnvList('HTTP_AUTH_SCOPES'),
     };
 
-    // Override tool registry invoke to use context
-    const originalInvoke = toolRegistry.invoke.bind(toolRegistry);
-    toolRegistry.invoke = async (name: string, args: unknown) => {
-      return originalInvoke(name, args, toolContext);
-    };
+    // Shared pipeline of /mcp, /mcp/ws and the REST tool endpoints
+    const toolPipeline = createToolPipeline(toolRegistry, {
+      middleware: config.toolMiddleware,
+      logger,
+      circuitBreaker,
+    });
+
+    // Resource subscriptions of the /mcp sessions and WebSocket connections
+    const subscriptionStore = createSubscriptionStore(logger);
 
     // Create HTTP adapter
     const httpAdapter = createHttpAdapter(
@@ -133,7 +200,22 @@ async function main() {
           documentationUrl: getEnv('MCP_DOCUMENTATION_URL') || DEFAULT_DOCS_URL,
           repositoryUrl: getEnv('MCP_REPOSITORY_URL') || DEFAULT_REPO_URL,
         },
-      }
+        toolContext,
+        toolPipeline,
+        sessionStore: createSessionStore(
+          {
+            ttl: getEnvNumber('HTTP_SESSION_TTL', 1800000), // 30 minutes idle
+            maxEvents: 100,
+          },
+          logger
+        ),
+        subscriptionStore,
+        batchConcurrency: getEnvNumber('HTTP_BATCH_CONCURRENCY', 4),
+        websocketPingInterval: getEnvNumber('HTTP_WS_PING_INTERVAL', 30000),
+      },
+      promptRegistry,
+      resourceRegistry,
+      completionRegistry
     );
 
     // Handle shutdown gracefully
@@ -160,6 +242,17 @@ async function main() {
       process.exit(1);
     });
 
+    // Poll for updates of subscribed matérias
+    if (config.resourcePollInterval > 0) {
+      createResourcePoller(
+        subscriptionStore,
+        toolRegistry,
+        toolContext,
+        (sessionId, notification) => httpAdapter.notifySession(sessionId, notification),
+        logger
+      ).start(config.resourcePollInterval);
+    }
+
     // Start HTTP server
     await httpAdapter.start();
 
@@ -190,5 +283,14 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return isNaN(num) ? defaultValue : num;
 }
 
+/**
+ * Helper to get environment variable as comma-separated list
+ */
+function getEnvList(key: string): string[] | undefined {
+  const value = getEnv(key);
+  if (!value) return undefined;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
 // Run main function
 main();
@@ -9,10 +9,14 @@
 import { loadConfig } from '../config/config.js';
 import { createLogger } from '../infrastructure/logger.js';
 import { createHttpClient } from '../infrastructure/http-client.js';
+import { createFixtureFetch } from '../infrastructure/http-fixtures.js';
 import { createCache } from '../infrastructure/cache.js';
 import { createCircuitBreaker } from '../infrastructure/circuit-breaker.js';
 import { createRateLimiter } from '../infrastructure/rate-limiter.js';
 import { createToolRegistry } from '../core/tools.js';
+import { createPromptRegistry } from '../core/prompts.js';
+import { createResourceRegistry } from '../core/resources.js';
+import { createCompletionRegistry } from '../core/completions.js';
 import { createMCPServer } from '../core/mcp-server.js';
 
 /**
@@ -35,7 +39,8 @@ async function main() {
       nodeEnv: config.nodeEnv,
     });
 
-    // Create circuit breaker
+    // Create circuit breaker (wraps every Senado API request; the tool
+    // pipeline fails fast while it is open)
     const circuitBreaker = createCircuitBreaker(
       {
         failureThreshold: config.circuitBreakerFailureThreshold,
@@ -46,29 +51,55 @@ async function main() {
       config.circuitBreakerEnabled
     );
 
-    // Create HTTP client
-    const httpClient = createHttpClient(
+    // Create cache
+    const cache = createCache(
       {
-        baseUrl: config.apiBaseUrl,
-        timeout: config.apiTimeout,
-        maxRetries: config.apiMaxRetries,
-        retryDelay: config.apiRetryDelay,
+        ttl: config.cacheTTL,
+        maxSize: config.cacheMaxSize,
+        cleanupInterval: config.cacheCleanupInterval,
       },
       logger,
-      circuitBreaker
+      config.cacheEnabled
     );
 
-    // Create cache
-    const cache = createCache(
+    // Create response cache (Senado API responses kept for revalidation, so
+    // they never crowd out tool results)
+    const responseCache = createCache(
       {
         ttl: config.cacheTTL,
-        maxSize: config.cacheMaxSize,
+        maxSize: config.responseCacheMaxSize,
         cleanupInterval: config.cacheCleanupInterval,
       },
       logger,
       config.cacheEnabled
     );
 
+    // Create HTTP client (live, or recording/replaying fixtures with MCP_HTTP_MODE;
+    // responses with validators are revalidated through the response cache; XML
+    // or JSON per endpoint with MCP_HTTP_FORMAT / MCP_HTTP_ENDPOINT_FORMATS)
+    const httpClient = createHttpClient(
+      {
+        baseUrl: config.apiBaseUrl,
+        timeout: config.apiTimeout,
+        maxRetries: config.apiMaxRetries,
+        retryDelay: config.apiRetryDelay,
+        fetch: createFixtureFetch(
+          {
+            mode: config.apiMode,
+            fixturesDir: config.apiFixturesDir,
+            baseUrl: config.apiBaseUrl,
+            replayMiss: config.apiReplayMiss,
+          },
+          logger
+        ),
+        cache: responseCache,
+        format: config.apiFormat,
+        endpointFormats: config.apiEndpointFormats,
+      },
+      logger,
+      circuitBreaker
+    );
+
     // Create rate limiter
     const rateLimiter = createRateLimiter(
       {
@@ -105,6 +136,22 @@ async function main() {
       categories: toolRegistry.getCategories(),
     });
 
+    // Create prompt registry
+    const promptRegistry = createPromptRegistry();
+    const { legislativePrompts } = await import('../prompts/legislative-prompts.js');
+    promptRegistry.registerMany(legislativePrompts);
+
+    // Create resource registry
+    const resourceRegistry = createResourceRegistry();
+    const { senadoResources, senadoResourceTemplates } = await import('../resources/senado-resources.js');
+    resourceRegistry.registerMany(senadoResources);
+    resourceRegistry.registerTemplates(senadoResourceTemplates);
+
+    // Create completion registry
+    const completionRegistry = createCompletionRegistry();
+    const { referenceCompletions } = await import('../completions/reference-completions.js');
+    completionRegistry.registerMany(referenceCompletions);
+
     // Create MCP server
     const mcpServer = createMCPServer(
       config,
@@ -112,7 +159,11 @@ async function main() {
       toolRegistry,
       httpClient,
       cache,
-      rateLimiter
+      rateLimiter,
+      promptRegistry,
+      resourceRegistry,
+      completionRegistry,
+      circuitBreaker
     );
 
     // Handle shutdown gracefully
@@ -144,6 +195,11 @@ async function main() {
     // Run server
     await mcpServer.runStdio();
 
+    // Poll for updates of subscribed matérias
+    if (config.resourcePollInterval > 0) {
+      mcpServer.startResourcePolling(config.resourcePollInterval);
+    }
+
     logger.info('MCP Senado Federal Server is running');
   } catch (error) {
     console.error('Failed to start server:', error);
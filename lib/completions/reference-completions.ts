@@ -0,0 +1,91 @@
+/**
+ * Reference Completions
+ *
+ * Completion sources backed by cached reference data:
+ * - Parties (partidos_listar)
+ * - States (ufs_listar)
+ * - Committees (comissoes_listar)
+ * - Proposal types (tipos_materia_listar)
+ * - Senators (senadores_listar)
+ */
+
+import type { CompletionCandidate, CompletionSource, ToolExecutor } from '../types/index.js';
+import { toolResultData } from '../core/output.js';
+import { findRecordList, pickString } from '../mappers/normalize.js';
+
+type CandidateMapper = (item: Record<string, unknown>) => CompletionCandidate | undefined;
+
+/**
+ * Load a list tool and map its items to completion candidates
+ */
+async function loadCandidates(
+  execute: ToolExecutor,
+  toolName: string,
+  listKeys: string[],
+  mapper: CandidateMapper
+): Promise<CompletionCandidate[]> {
+  const result = await execute(toolName, {});
+  if (result.isError) {
+    return [];
+  }
+
+  return findRecordList(toolResultData(result), listKeys)
+    .map(mapper)
+    .filter((candidate): candidate is CompletionCandidate => candidate !== undefined);
+}
+
+function candidate(value: string | undefined, label?: string): CompletionCandidate | undefined {
+  return value ? { value, label } : undefined;
+}
+
+const loadParties = (execute: ToolExecutor) =>
+  loadCandidates(execute, 'partidos_listar', [], (item) =>
+    candidate(pickString(item, ['sigla']), pickString(item, ['nome']))
+  );
+
+const loadStates = (execute: ToolExecutor) =>
+  loadCandidates(execute, 'ufs_listar', [], (item) =>
+    candidate(pickString(item, ['sigla']), pickString(item, ['nome']))
+  );
+
+const loadCommittees = (execute: ToolExecutor) =>
+  loadCandidates(execute, 'comissoes_listar', [], (item) =>
+    candidate(pickString(item, ['sigla']), pickString(item, ['nome']))
+  );
+
+const loadProposalTypes = (execute: ToolExecutor) =>
+  loadCandidates(
+    execute,
+    'tipos_materia_listar',
+    ['ListaTiposMateria', 'TiposMateria', 'TipoMateria', 'Tipos', 'Tipo'],
+    (item) =>
+      candidate(
+        pickString(item, ['Sigla', 'SiglaTipoMateria', 'sigla']),
+        pickString(item, ['Descricao', 'DescricaoTipoMateria', 'descricao'])
+      )
+  );
+
+const loadSenatorCodes = (execute: ToolExecutor) =>
+  loadCandidates(execute, 'senadores_listar', [], (item) =>
+    candidate(pickString(item, ['codigo']), pickString(item, ['nome']))
+  );
+
+const loadSenatorNames = (execute: ToolExecutor) =>
+  loadCandidates(execute, 'senadores_listar', [], (item) =>
+    candidate(pickString(item, ['nome']), pickString(item, ['nomeCompleto']))
+  );
+
+// ============================================================================
+// Export all reference completion sources
+// ============================================================================
+
+export const referenceCompletions: CompletionSource[] = [
+  { argument: 'partido', load: loadParties },
+  { argument: 'uf', load: loadStates },
+  { argument: 'sigla', load: loadCommittees },
+  { argument: 'sigla', load: loadProposalTypes },
+  { argument: 'sigla', refs: ['senado://comissao/{sigla}'], load: loadCommittees },
+  { argument: 'codigo', refs: ['senado://senador/{codigo}'], load: loadSenatorCodes },
+  { argument: 'senador', load: loadSenatorNames },
+  { argument: 'senadores', multiple: true, load: loadSenatorNames },
+];
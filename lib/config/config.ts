@@ -10,8 +10,14 @@
 import { config as loadEnv } from 'dotenv';
 import { readFileSync, existsSync } from 'fs';
 import { resolve } from 'path';
-import type { MCPServerConfig } from '../types/index.js';
-import { LogLevel } from '../types/index.js';
+import type {
+  HttpClientMode,
+  HttpReplayMiss,
+  MCPServerConfig,
+  ResponseFormat,
+  ToolMiddlewareName,
+} from '../types/index.js';
+import { HTTP_CLIENT_MODES, LogLevel, RESPONSE_FORMATS, TOOL_MIDDLEWARE_NAMES } from '../types/index.js';
 
 // Load environment variables from .env file
 loadEnv();
@@ -75,6 +81,26 @@ export function loadConfig(): MCPServerConfig {
       parseInt(getEnv('SENADO_API_RETRY_DELAY') || '', 10) ||
       mcprcConfig?.apiRetryDelay ||
       1000,
+    apiMode:
+      (getEnv('MCP_HTTP_MODE') as HttpClientMode) ||
+      mcprcConfig?.apiMode ||
+      'live',
+    apiFixturesDir:
+      getEnv('MCP_HTTP_FIXTURES_DIR') ||
+      mcprcConfig?.apiFixturesDir ||
+      'fixtures/senado',
+    apiReplayMiss:
+      (getEnv('MCP_HTTP_REPLAY_MISS') as HttpReplayMiss) ||
+      mcprcConfig?.apiReplayMiss ||
+      'fail',
+    apiFormat:
+      (getEnv('MCP_HTTP_FORMAT') as ResponseFormat) ||
+      mcprcConfig?.apiFormat ||
+      'xml',
+    apiEndpointFormats:
+      parseEndpointFormats(getEnv('MCP_HTTP_ENDPOINT_FORMATS')) ??
+      mcprcConfig?.apiEndpointFormats ??
+      {},
 
     // Cache
     cacheEnabled:
@@ -93,6 +119,10 @@ export function loadConfig(): MCPServerConfig {
       parseInt(getEnv('MCP_CACHE_CLEANUP_INTERVAL') || '', 10) ||
       mcprcConfig?.cacheCleanupInterval ||
       60000, // 1 minute
+    responseCacheMaxSize:
+      parseInt(getEnv('MCP_RESPONSE_CACHE_MAX_SIZE') || '', 10) ||
+      mcprcConfig?.responseCacheMaxSize ||
+      500,
 
     // Rate Limiting
     rateLimitEnabled:
@@ -136,6 +166,18 @@ export function loadConfig(): MCPServerConfig {
       mcprcConfig?.circuitBreakerTimeout ||
       60000, // 1 minute
 
+    // Resource subscriptions
+    resourcePollInterval:
+      parseNonNegativeInt(getEnv('MCP_RESOURCE_POLL_INTERVAL')) ??
+      mcprcConfig?.resourcePollInterval ??
+      300000, // 5 minutes
+
+    // Tool invocation pipeline
+    toolMiddleware:
+      (parseList(getEnv('MCP_TOOL_MIDDLEWARE')) as ToolMiddlewareName[] | undefined) ??
+      mcprcConfig?.toolMiddleware ??
+      [...TOOL_MIDDLEWARE_NAMES],
+
     // Logging
     logLevel:
       parseLogLevel(getEnv('MCP_LOG_LEVEL')) ||
@@ -217,6 +259,45 @@ function parseBool(value: string | undefined): boolean | undefined {
   return undefined;
 }
 
+/**
+ * Parse a non-negative integer (0 is a valid value) from string
+ */
+function parseNonNegativeInt(value: string | undefined): number | undefined {
+  const parsed = parseInt(value || '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+/**
+ * Parse a comma-separated list from string
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse endpoint formats ("senador/lista=json,materia=xml") from string
+ */
+function parseEndpointFormats(value: string | undefined): Record<string, ResponseFormat> | undefined {
+  const items = parseList(value);
+  if (items === undefined) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    items.map((item) => {
+      const [prefix = '', format = ''] = item.split('=').map((part) => part.trim());
+      return [prefix, format as ResponseFormat];
+    })
+  );
+}
+
 /**
  * Parse log level from string
  */
@@ -261,6 +342,24 @@ function validateConfig(config: MCPServerConfig): void {
     errors.push('API max retries must be non-negative');
   }
 
+  if (!(HTTP_CLIENT_MODES as readonly string[]).includes(config.apiMode)) {
+    errors.push(`Unknown HTTP mode: ${config.apiMode} (expected ${HTTP_CLIENT_MODES.join(', ')})`);
+  }
+
+  if (config.apiReplayMiss !== 'fail' && config.apiReplayMiss !== 'passthrough') {
+    errors.push(`Unknown HTTP replay miss behavior: ${config.apiReplayMiss} (expected fail, passthrough)`);
+  }
+
+  if (!(RESPONSE_FORMATS as readonly string[]).includes(config.apiFormat)) {
+    errors.push(`Unknown response format: ${config.apiFormat} (expected ${RESPONSE_FORMATS.join(', ')})`);
+  }
+
+  for (const [prefix, format] of Object.entries(config.apiEndpointFormats)) {
+    if (!prefix || !(RESPONSE_FORMATS as readonly string[]).includes(format)) {
+      errors.push(`Invalid endpoint format "${prefix}=${format}" (expected <endpoint>=${RESPONSE_FORMATS.join('|')})`);
+    }
+  }
+
   if (config.cacheTTL <= 0) {
     errors.push('Cache TTL must be positive');
   }
@@ -269,6 +368,10 @@ function validateConfig(config: MCPServerConfig): void {
     errors.push('Cache max size must be positive');
   }
 
+  if (config.responseCacheMaxSize <= 0) {
+    errors.push('Response cache max size must be positive');
+  }
+
   if (config.rateLimitTokens <= 0) {
     errors.push('Rate limit tokens must be positive');
   }
@@ -289,6 +392,16 @@ function validateConfig(config: MCPServerConfig): void {
     errors.push('Circuit breaker timeout must be positive');
   }
 
+  if (config.resourcePollInterval < 0) {
+    errors.push('Resource poll interval must be non-negative');
+  }
+
+  for (const name of config.toolMiddleware) {
+    if (!(TOOL_MIDDLEWARE_NAMES as readonly string[]).includes(name)) {
+      errors.push(`Unknown tool middleware: ${name} (expected ${TOOL_MIDDLEWARE_NAMES.join(', ')})`);
+    }
+  }
+
   if (config.transport === 'http' && config.httpPort <= 0) {
     errors.push('HTTP port must be positive');
   }
@@ -315,10 +428,16 @@ export function getDefaultConfig(): MCPServerConfig {
     apiTimeout: 30000,
     apiMaxRetries: 3,
     apiRetryDelay: 1000,
+    apiMode: 'live',
+    apiFixturesDir: 'fixtures/senado',
+    apiReplayMiss: 'fail',
+    apiFormat: 'xml',
+    apiEndpointFormats: {},
     cacheEnabled: true,
     cacheTTL: 300000,
     cacheMaxSize: 1000,
     cacheCleanupInterval: 60000,
+    responseCacheMaxSize: 500,
     rateLimitEnabled: true,
     rateLimitTokens: 30,
     rateLimitInterval: 60000,
@@ -327,6 +446,8 @@ export function getDefaultConfig(): MCPServerConfig {
     circuitBreakerFailureThreshold: 5,
     circuitBreakerSuccessThreshold: 2,
     circuitBreakerTimeout: 60000,
+    resourcePollInterval: 300000,
+    toolMiddleware: [...TOOL_MIDDLEWARE_NAMES],
     logLevel: LogLevel.INFO,
     logFormat: 'json',
     logMaskPII: true,
@@ -0,0 +1,164 @@
+/**
+ * Completion Registry
+ *
+ * Manages argument completion (`completion/complete`):
+ * - Register completion sources by argument name
+ * - Restrict sources to prompts or resource templates
+ * - Match candidates by prefix, ignoring case and accents
+ * - Load candidates through the server tool pipeline (cached reference data)
+ */
+
+import type {
+  CompletionCandidate,
+  CompletionReference,
+  CompletionResult,
+  CompletionSource,
+  ToolExecutor,
+} from '../types/index.js';
+import { DATA_OUTPUT_OPTIONS } from './output.js';
+
+/**
+ * Maximum number of values in a completion response (MCP limit)
+ */
+export const MAX_COMPLETION_VALUES = 100;
+
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+function referenceKey(ref: CompletionReference): string {
+  return ref.type === 'ref/prompt' ? ref.name : ref.uri;
+}
+
+/**
+ * Completion Registry class
+ */
+export class CompletionRegistry {
+  private readonly sources: CompletionSource[];
+
+  constructor() {
+    this.sources = [];
+  }
+
+  /**
+   * Register a single completion source
+   */
+  register(source: CompletionSource): void {
+    if (!source.argument || typeof source.argument !== 'string') {
+      throw new Error('Invalid completion source: argument is required and must be a string');
+    }
+
+    if (!source.load || typeof source.load !== 'function') {
+      throw new Error(`Invalid completion source for ${source.argument}: load must be a function`);
+    }
+
+    this.sources.push(source);
+  }
+
+  /**
+   * Register multiple completion sources
+   */
+  registerMany(sources: CompletionSource[]): void {
+    for (const source of sources) {
+      this.register(source);
+    }
+  }
+
+  /**
+   * Get all completion sources
+   */
+  getAll(): CompletionSource[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Get completion source count
+   */
+  count(): number {
+    return this.sources.length;
+  }
+
+  /**
+   * Sources for an argument: ref-specific sources take precedence over generic ones
+   */
+  getSources(ref: CompletionReference, argument: string): CompletionSource[] {
+    const key = referenceKey(ref);
+    const candidates = this.sources.filter((source) => source.argument === argument);
+    const specific = candidates.filter((source) => source.refs?.includes(key));
+
+    return specific.length > 0 ? specific : candidates.filter((source) => !source.refs);
+  }
+
+  /**
+   * Complete an argument value, loading candidates through the given executor
+   */
+  async complete(
+    ref: CompletionReference,
+    argument: { name: string; value: string },
+    execute: ToolExecutor
+  ): Promise<CompletionResult> {
+    const sources = this.getSources(ref, argument.name);
+    const multiple = sources.some((source) => source.multiple);
+
+    // Comma-separated arguments complete the last item and keep the previous ones
+    const separator = multiple ? argument.value.lastIndexOf(',') : -1;
+    const prefix = separator >= 0 ? `${argument.value.slice(0, separator + 1)} ` : '';
+    const typed = normalizeText(separator >= 0 ? argument.value.slice(separator + 1) : argument.value);
+
+    const loaded = await Promise.all(
+      sources.map((source) =>
+        source.load((name, args) => execute(name, { ...args, ...DATA_OUTPUT_OPTIONS }))
+      )
+    );
+
+    const starts: string[] = [];
+    const contains: string[] = [];
+    const seen = new Set<string>();
+
+    for (const candidate of loaded.flat() as CompletionCandidate[]) {
+      if (seen.has(candidate.value)) {
+        continue;
+      }
+
+      const value = normalizeText(candidate.value);
+      const label = normalizeText(candidate.label ?? '');
+
+      if (value.startsWith(typed)) {
+        starts.push(candidate.value);
+      } else if (typed !== '' && label.includes(typed)) {
+        contains.push(candidate.value);
+      } else {
+        continue;
+      }
+      seen.add(candidate.value);
+    }
+
+    const matches = [...starts, ...contains];
+
+    return {
+      completion: {
+        values: matches.slice(0, MAX_COMPLETION_VALUES).map((value) => `${prefix}${value}`),
+        total: matches.length,
+        hasMore: matches.length > MAX_COMPLETION_VALUES,
+      },
+    };
+  }
+
+  /**
+   * Clear all completion sources (for testing)
+   */
+  clear(): void {
+    this.sources.length = 0;
+  }
+}
+
+/**
+ * Create a new completion registry
+ */
+export function createCompletionRegistry(): CompletionRegistry {
+  return new CompletionRegistry();
+}
@@ -6,6 +6,10 @@
  * - Validation errors
  * - Rate limit errors
  * - Circuit breaker errors
+ * - Tool scope errors
+ * - Request cancellation
+ * - Missing replay fixtures
+ * - Malformed upstream responses
  * - Error-to-ToolResult transformation
  */
 
@@ -80,6 +84,77 @@ export class CircuitBreakerError extends MCPSenadoError {
   }
 }
 
+/**
+ * Request cancelled by the client (cancellation notification or disconnect)
+ */
+export class RequestCancelledError extends MCPSenadoError {
+  constructor(message: string = 'Request cancelled') {
+    super(message, 'REQUEST_CANCELLED');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * RequestCancelledError for an aborted signal, with its reason when it is a string
+ */
+export function cancellationError(signal: AbortSignal): RequestCancelledError {
+  return new RequestCancelledError(
+    typeof signal.reason === 'string' ? `Request cancelled: ${signal.reason}` : undefined
+  );
+}
+
+/**
+ * Throw RequestCancelledError once the signal is aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw cancellationError(signal);
+  }
+}
+
+const DEFAULT_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * Seconds to advertise in Retry-After for a rate limit error
+ *
+ * The RateLimitError of the rate limiter and this module's carry the wait in
+ * milliseconds; the plain Error of the pipeline middleware carries none.
+ */
+export function retryAfterSeconds(error: Error): number {
+  const { retryAfter } = error as { retryAfter?: unknown };
+  if (typeof retryAfter !== 'number' || !Number.isFinite(retryAfter)) {
+    return DEFAULT_RETRY_AFTER_SECONDS;
+  }
+
+  return Math.max(DEFAULT_RETRY_AFTER_SECONDS, Math.ceil(retryAfter / 1000));
+}
+
+/**
+ * Replayed request without a recorded fixture (MCP_HTTP_MODE=replay)
+ */
+export class FixtureNotFoundError extends MCPSenadoError {
+  constructor(
+    public readonly method: string,
+    public readonly url: string
+  ) {
+    super(`No recorded fixture for ${method} ${url}`, 'FIXTURE_NOT_FOUND');
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * Upstream response body that does not parse in its format
+ */
+export class ResponseParseError extends MCPSenadoError {
+  constructor(
+    public readonly format: string,
+    message: string
+  ) {
+    super(`Malformed ${format.toUpperCase()} response: ${message}`, 'RESPONSE_PARSE_ERROR');
+    this.name = 'ResponseParseError';
+  }
+}
+
 /**
  * Tool not found error
  */
@@ -90,6 +165,49 @@ export class ToolNotFoundError extends MCPSenadoError {
   }
 }
 
+/**
+ * Tool outside the caller's scopes
+ */
+export class ToolForbiddenError extends MCPSenadoError {
+  constructor(public readonly toolName: string) {
+    super(`Tool not allowed: ${toolName}`, 'TOOL_FORBIDDEN');
+    this.name = 'ToolForbiddenError';
+  }
+}
+
+/**
+ * Prompt not found error
+ */
+export class PromptNotFoundError extends MCPSenadoError {
+  constructor(public readonly promptName: string) {
+    super(`Prompt not found: ${promptName}`, 'PROMPT_NOT_FOUND');
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+/**
+ * Resource not found error
+ */
+export class ResourceNotFoundError extends MCPSenadoError {
+  constructor(public readonly uri: string) {
+    super(`Resource not found: ${uri}`, 'RESOURCE_NOT_FOUND');
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+/**
+ * Tool output does not match its declared outputSchema
+ */
+export class OutputValidationError extends MCPSenadoError {
+  constructor(
+    public readonly toolName: string,
+    message: string
+  ) {
+    super(`Invalid output for ${toolName}: ${message}`, 'OUTPUT_VALIDATION_ERROR');
+    this.name = 'OutputValidationError';
+  }
+}
+
 /**
  * Configuration error
  */
@@ -165,6 +283,18 @@ export function errorToToolResult(error: unknown): ToolResult {
     };
   }
 
+  if (error instanceof ToolForbiddenError) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatToolForbiddenError(error),
+        },
+      ],
+      isError: true,
+    };
+  }
+
   if (error instanceof ConfigurationError) {
     return {
       content: [
@@ -278,6 +408,16 @@ function formatToolNotFoundError(error: ToolNotFoundError): string {
   return message;
 }
 
+/**
+ * Format tool forbidden error
+ */
+function formatToolForbiddenError(error: ToolForbiddenError): string {
+  let message = `Tool Not Allowed: ${error.toolName}\n`;
+  message += '\nSuggestion: As credenciais usadas não dão acesso a esta ferramenta. Verifique os escopos configurados.';
+
+  return message;
+}
+
 /**
  * Format configuration error
  */
@@ -314,8 +454,8 @@ export function isRetriableError(error: unknown): boolean {
     );
   }
 
-  if (error instanceof CircuitBreakerError) {
-    // Don't retry circuit breaker errors
+  if (error instanceof CircuitBreakerError || error instanceof RequestCancelledError) {
+    // Don't retry circuit breaker errors or cancelled requests
     return false;
   }
 
@@ -0,0 +1,126 @@
+/**
+ * MCP Logging
+ *
+ * Bridges StructuredLogger entries to MCP notifications/message:
+ * - logging/setLevel levels (RFC 5424 severities), least severe first
+ * - Minimum level per client, `warning` until the client sets one
+ * - Entries arrive PII-masked from the logger; stack traces stay on the server
+ * - Sessions of a shared server get only the entries logged for them (sessionLogger)
+ */
+
+import type { LogEntry, Logger, LoggingLevel, MCPTransportNotification } from '../types/index.js';
+import { LogLevel } from '../types/index.js';
+
+export const LOGGING_LEVELS: readonly LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+/**
+ * Level used for clients that never sent logging/setLevel
+ */
+export const DEFAULT_LOGGING_LEVEL: LoggingLevel = 'warning';
+
+const LOGGER_NAME = 'mcp-senado';
+
+const ENTRY_LEVELS: Record<LogLevel, LoggingLevel> = {
+  [LogLevel.DEBUG]: 'debug',
+  [LogLevel.INFO]: 'info',
+  [LogLevel.WARN]: 'warning',
+  [LogLevel.ERROR]: 'error',
+};
+
+export function isLoggingLevel(value: unknown): value is LoggingLevel {
+  return (LOGGING_LEVELS as readonly unknown[]).includes(value);
+}
+
+export function isLevelEnabled(level: LoggingLevel, minimum: LoggingLevel): boolean {
+  return LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(minimum);
+}
+
+/**
+ * notifications/message for a log entry
+ */
+export function toLoggingNotification(entry: LogEntry): MCPTransportNotification {
+  const { error, ...context } = entry.context ?? {};
+
+  return {
+    jsonrpc: '2.0',
+    method: 'notifications/message',
+    params: {
+      level: ENTRY_LEVELS[entry.level],
+      logger: LOGGER_NAME,
+      data: {
+        message: entry.message,
+        ...context,
+        ...(error !== undefined ? { error: withoutStack(error) } : {}),
+      },
+    },
+  };
+}
+
+function withoutStack(error: unknown): unknown {
+  if (typeof error !== 'object' || error === null) {
+    return error;
+  }
+
+  const { stack: _stack, ...rest } = error as Record<string, unknown>;
+  return rest;
+}
+
+/**
+ * Logger for the work done on behalf of a client session: its entries carry
+ * the session id, which forwardLogs matches (the logger itself without a
+ * session or child loggers)
+ */
+export function sessionLogger(logger: Logger, sessionId: string | undefined): Logger {
+  return sessionId !== undefined && logger.child ? logger.child({ sessionId }) : logger;
+}
+
+/**
+ * Send log entries at or above the minimum level as notifications/message
+ *
+ * With a sessionId, only the entries logged for that session are sent, so
+ * clients of a shared server never see each other's requests.
+ *
+ * Send failures are ignored, and entries logged while a notification is
+ * being handed over are dropped, so a transport that logs its own failures
+ * cannot loop. Returns the unsubscribe function (a no-op for loggers without
+ * subscribers).
+ */
+export function forwardLogs(
+  logger: Logger,
+  minimumLevel: () => LoggingLevel,
+  send: (notification: MCPTransportNotification) => void | Promise<void>,
+  sessionId?: string
+): () => void {
+  if (!logger.subscribe) {
+    return () => undefined;
+  }
+
+  let forwarding = false;
+
+  return logger.subscribe((entry) => {
+    if (forwarding || !isLevelEnabled(ENTRY_LEVELS[entry.level], minimumLevel())) {
+      return;
+    }
+    if (sessionId !== undefined && entry.context?.['sessionId'] !== sessionId) {
+      return;
+    }
+
+    forwarding = true;
+    try {
+      void Promise.resolve(send(toLoggingNotification(entry))).catch(() => undefined);
+    } catch {
+      // Ignore send errors (see above)
+    } finally {
+      forwarding = false;
+    }
+  });
+}
@@ -3,8 +3,14 @@
  *
  * Main server class that:
  * - Extends MCP SDK Server
- * - Manages tool registry
- * - Handles tool invocation with caching
+ * - Manages tool, prompt and resource registries
+ * - Runs tools through the shared invocation pipeline (see pipeline.ts)
+ * - Aborts tool calls on notifications/cancelled (SDK request signal)
+ * - Reports tool progress as notifications/progress when asked for
+ * - Sends server logs as notifications/message at the client's logging/setLevel level
+ * - Notifies resources/subscribe subscribers when a subscribed matéria changes
+ * - Reads resources and completes arguments through the same tool pipeline
+ * - Negotiates the protocol revision and gates newer features on it
  * - Provides MCP protocol handlers
  * - Coordinates infrastructure components
  */
@@ -13,34 +19,96 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  InitializeRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ClientCapabilities,
+  type CompleteResult,
+  type GetPromptResult,
+  type Implementation,
+  type InitializeResult,
+  type ReadResourceResult,
+  type ServerCapabilities,
+  type ServerNotification,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import type {
   MCPServerConfig,
   Logger,
   HttpClient,
+  HttpClientStats,
   CacheInterface,
+  CircuitBreaker,
+  LoggingLevel,
   RateLimiter,
+  SubscriptionStore,
   ToolContext,
+  ToolMetric,
   ToolResult,
 } from '../types/index.js';
 
 import { ToolRegistry } from './tools.js';
-import { errorToToolResult } from './errors.js';
+import { createToolPipeline, type ToolPipeline } from './pipeline.js';
+import { PromptRegistry } from './prompts.js';
+import { ResourceRegistry } from './resources.js';
+import { CompletionRegistry } from './completions.js';
+import {
+  PromptNotFoundError,
+  RequestCancelledError,
+  ResourceNotFoundError,
+  ValidationError,
+  errorToToolResult,
+} from './errors.js';
+import {
+  LATEST_PROTOCOL_VERSION,
+  capabilitiesForVersion,
+  negotiateProtocolVersion,
+  supportsFeature,
+  toolMetadataForVersion,
+  toolResultForVersion,
+} from './protocol.js';
+import { createProgressReporter, getProgressToken } from './progress.js';
+import { DEFAULT_LOGGING_LEVEL, forwardLogs } from './logging.js';
+import { SUBSCRIBABLE_URI_TEMPLATE, createResourcePoller, isSubscribableUri, type ResourcePoller } from './subscriptions.js';
+import { createSubscriptionStore } from '../infrastructure/subscription-store.js';
+
+/**
+ * Subscriber ID of the single stdio client
+ */
+const STDIO_SUBSCRIBER = 'stdio';
 
 /**
  * Senado MCP Server
  */
 export class SenadoMCPServer {
   private readonly server: Server;
-  private readonly config: MCPServerConfig;
+  private readonly serverInfo: InitializeResult['serverInfo'];
+  private readonly capabilities: ServerCapabilities;
   private readonly logger: Logger;
   private readonly toolRegistry: ToolRegistry;
+  private readonly promptRegistry?: PromptRegistry;
+  private readonly resourceRegistry?: ResourceRegistry;
+  private readonly completionRegistry?: CompletionRegistry;
   private readonly cache: CacheInterface;
   private readonly rateLimiter: RateLimiter;
   private readonly toolContext: ToolContext;
+  private readonly toolPipeline: ToolPipeline;
   private readonly stats: ServerStats;
+  private protocolVersion: string = LATEST_PROTOCOL_VERSION;
+  private logLevel: LoggingLevel = DEFAULT_LOGGING_LEVEL;
+  private readonly stopLogForwarding: () => void;
+  private readonly subscriptionStore?: SubscriptionStore;
+  private resourcePoller?: ResourcePoller;
 
   constructor(
     config: MCPServerConfig,
@@ -48,13 +116,20 @@ export class SenadoMCPServer {
     toolRegistry: ToolRegistry,
     httpClient: HttpClient,
     cache: CacheInterface,
-    rateLimiter: RateLimiter
+    rateLimiter: RateLimiter,
+    promptRegistry?: PromptRegistry,
+    resourceRegistry?: ResourceRegistry,
+    completionRegistry?: CompletionRegistry,
+    circuitBreaker?: CircuitBreaker
   ) {
-    this.config = config;
     this.logger = logger;
     this.toolRegistry = toolRegistry;
+    this.promptRegistry = promptRegistry;
+    this.resourceRegistry = resourceRegistry;
+    this.completionRegistry = completionRegistry;
     this.cache = cache;
     this.rateLimiter = rateLimiter;
+    this.subscriptionStore = resourceRegistry ? createSubscriptionStore(logger) : undefined;
 
     // Create tool context
     this.toolContext = {
@@ -62,6 +137,7 @@ export class SenadoMCPServer {
       cache,
       config,
       logger,
+      rateLimiter,
     };
 
     // Initialize stats
@@ -73,26 +149,43 @@ export class SenadoMCPServer {
       startTime: Date.now(),
     };
 
+    this.toolPipeline = createToolPipeline(toolRegistry, {
+      middleware: config.toolMiddleware,
+      logger,
+      metrics: (metric) => this.recordToolMetric(metric),
+      circuitBreaker,
+    });
+
     // Create MCP server
-    this.server = new Server(
-      {
-        name: config.name,
-        version: config.version,
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
+    this.serverInfo = {
+      name: config.name,
+      version: config.version,
+    };
+    this.capabilities = {
+      tools: {},
+      ...(promptRegistry ? { prompts: {} } : {}),
+      ...(resourceRegistry ? { resources: { subscribe: true } } : {}),
+      ...(completionRegistry ? { completions: {} } : {}),
+      logging: {},
+    };
+    this.server = new Server(this.serverInfo, { capabilities: this.capabilities });
 
     // Setup handlers
     this.setupHandlers();
 
+    // Log messages for the client (dropped while no transport is connected)
+    this.stopLogForwarding = forwardLogs(
+      logger,
+      () => this.logLevel,
+      (notification) => this.server.notification(notification as ServerNotification)
+    );
+
     this.logger.info('MCP Server initialized', {
       name: config.name,
       version: config.version,
       toolCount: toolRegistry.count(),
+      promptCount: promptRegistry?.count() ?? 0,
+      resourceCount: resourceRegistry?.count() ?? 0,
     });
   }
 
@@ -100,22 +193,61 @@ export class SenadoMCPServer {
    * Setup MCP protocol handlers
    */
   private setupHandlers(): void {
+    // Initialize handler: negotiate against the revisions this server supports
+    this.server.setRequestHandler(
+      InitializeRequestSchema,
+      async (request): Promise<InitializeResult> => {
+        // The SDK handler keeps the client capabilities and version behind
+        // getClientCapabilities()/getClientVersion(); its answer is replaced below
+        await this.server['_oninitialize'](request);
+        this.protocolVersion = negotiateProtocolVersion(request.params.protocolVersion);
+
+        this.logger.info('Protocol version negotiated', {
+          requested: request.params.protocolVersion,
+          protocolVersion: this.protocolVersion,
+          client: request.params.clientInfo.name,
+        });
+
+        return {
+          protocolVersion: this.protocolVersion,
+          capabilities: capabilitiesForVersion(this.capabilities, this.protocolVersion),
+          serverInfo: this.serverInfo,
+        };
+      }
+    );
+
+    // Logging handler: minimum level of the notifications/message sent to the client
+    this.server.setRequestHandler(
+      SetLevelRequestSchema,
+      async (request) => {
+        this.logLevel = request.params.level;
+        this.logger.debug('Log level set', { level: this.logLevel });
+        return {};
+      }
+    );
+
     // List tools handler
     this.server.setRequestHandler(
       ListToolsRequestSchema,
       async () => {
         const tools = this.toolRegistry.getAll();
+        const withOutputSchema = supportsFeature(this.protocolVersion, 'structuredContent');
 
         this.logger.debug('List tools request', {
           count: tools.length,
         });
 
         return {
-          tools: tools.map((tool) => ({
-            name: tool.name,
-            description: tool.description,
-            inputSchema: tool.inputSchema,
-          })),
+          tools: tools.map((tool) => {
+            const outputSchema = withOutputSchema ? this.toolRegistry.getOutputSchema(tool.name) : undefined;
+            return {
+              name: tool.name,
+              ...toolMetadataForVersion(tool, this.protocolVersion),
+              description: tool.description,
+              inputSchema: tool.inputSchema,
+              ...(outputSchema ? { outputSchema } : {}),
+            };
+          }),
         };
       }
     );
@@ -123,85 +255,242 @@ export class SenadoMCPServer {
     // Call tool handler
     this.server.setRequestHandler(
       CallToolRequestSchema,
-      async (request, _extra) => {
+      async (request, extra) => {
         const { name, arguments: args } = request.params;
-        const startTime = Date.now();
-
-        this.stats.toolInvocations++;
-
-        this.logger.info('Tool invocation started', {
-          tool: name,
-          args,
-        });
 
         try {
-          // Check rate limit
-          if (this.config.rateLimitEnabled) {
-            const allowed = await this.rateLimiter.checkLimit();
-            if (!allowed) {
-              const error = new Error('Rate limit exceeded');
-              error.name = 'RateLimitError';
-              throw error;
-            }
+          const progressToken = getProgressToken(request.params);
+          const result = await this.runTool(name, args, {
+            signal: extra.signal,
+            progress:
+              progressToken !== undefined
+                ? createProgressReporter(
+                    progressToken,
+                    (notification) => extra.sendNotification(notification as ServerNotification),
+                    this.logger
+                  )
+                : undefined,
+          });
+
+          // Return as any to satisfy MCP SDK types (our structure is correct)
+          return toolResultForVersion(result, this.protocolVersion) as any;
+        } catch (error) {
+          // Logged by the pipeline; the SDK drops responses to cancelled requests
+          if (error instanceof RequestCancelledError) {
+            throw error;
           }
 
-          // Try to get from cache
-          const cacheKey = this.cache.generateKey(name, args as Record<string, unknown>);
+          // Transform error to tool result
+          return errorToToolResult(error) as any;
+        }
+      }
+    );
+
+    if (this.promptRegistry) {
+      this.setupPromptHandlers(this.promptRegistry);
+    }
+
+    if (this.resourceRegistry) {
+      this.setupResourceHandlers(this.resourceRegistry);
+    }
+
+    if (this.completionRegistry) {
+      this.setupCompletionHandler(this.completionRegistry);
+    }
+  }
+
+  /**
+   * Run a tool through the shared pipeline
+   */
+  private async runTool(
+    name: string,
+    args: unknown,
+    request: Pick<ToolContext, 'signal' | 'progress'> = {}
+  ): Promise<ToolResult> {
+    const { result } = await this.toolPipeline.execute(name, args, { ...this.toolContext, ...request });
+    return result;
+  }
+
+  /**
+   * Track invocation, error and cache stats from the pipeline metrics
+   */
+  private recordToolMetric(metric: ToolMetric): void {
+    this.stats.toolInvocations++;
+
+    if (metric.outcome === 'error') {
+      this.stats.errors++;
+    }
+
+    if (metric.cached === true) {
+      this.stats.cacheHits++;
+    } else if (metric.cached === false) {
+      this.stats.cacheMisses++;
+    }
+  }
+
+  /**
+   * Setup prompts/list and prompts/get handlers
+   */
+  private setupPromptHandlers(promptRegistry: PromptRegistry): void {
+    this.server.setRequestHandler(
+      ListPromptsRequestSchema,
+      async () => {
+        const prompts = promptRegistry.getAll();
+
+        this.logger.debug('List prompts request', {
+          count: prompts.length,
+        });
 
-          if (this.config.cacheEnabled) {
-            const cached = await this.cache.get<ToolResult>(cacheKey);
-            if (cached) {
-              this.stats.cacheHits++;
-              this.logger.logCacheHit(cacheKey);
+        return {
+          prompts: prompts.map((prompt) => ({
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments,
+          })),
+        };
+      }
+    );
 
-              const duration = Date.now() - startTime;
-              this.logger.logToolInvocation(name, args, duration);
+    this.server.setRequestHandler(
+      GetPromptRequestSchema,
+      async (request): Promise<GetPromptResult> => {
+        const { name, arguments: args } = request.params;
 
-              return cached as any;
-            }
+        this.logger.debug('Get prompt request', { prompt: name });
 
-            this.stats.cacheMisses++;
-            this.logger.logCacheMiss(cacheKey);
+        try {
+          return await promptRegistry.render(name, args);
+        } catch (error) {
+          if (error instanceof PromptNotFoundError || error instanceof ValidationError) {
+            throw new McpError(ErrorCode.InvalidParams, error.message);
           }
+          throw error;
+        }
+      }
+    );
+  }
 
-          // Invoke tool
-          const result = await this.toolRegistry.invoke(
-            name,
-            args,
-            this.toolContext
+  /**
+   * Setup resources/list, resources/templates/list and resources/read handlers
+   */
+  private setupResourceHandlers(resourceRegistry: ResourceRegistry): void {
+    this.server.setRequestHandler(
+      ListResourcesRequestSchema,
+      async () => ({
+        resources: resourceRegistry.getAll().map((resource) => ({
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        })),
+      })
+    );
+
+    this.server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async () => ({
+        resourceTemplates: resourceRegistry.getTemplates().map((template) => ({
+          uriTemplate: template.uriTemplate,
+          name: template.name,
+          description: template.description,
+          mimeType: template.mimeType,
+        })),
+      })
+    );
+
+    const subscriptionStore = this.subscriptionStore;
+    if (subscriptionStore) {
+      const subscribableUri = (uri: string): string => {
+        if (!isSubscribableUri(uri)) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Only ${SUBSCRIBABLE_URI_TEMPLATE} resources can be subscribed to`
           );
+        }
+        return uri;
+      };
+
+      this.server.setRequestHandler(
+        SubscribeRequestSchema,
+        async (request) => {
+          await subscriptionStore.subscribe(STDIO_SUBSCRIBER, subscribableUri(request.params.uri));
+          return {};
+        }
+      );
 
-          // Cache result if enabled
-          if (this.config.cacheEnabled && !result.isError) {
-            await this.cache.set(cacheKey, result);
-          }
+      this.server.setRequestHandler(
+        UnsubscribeRequestSchema,
+        async (request) => {
+          await subscriptionStore.unsubscribe(STDIO_SUBSCRIBER, subscribableUri(request.params.uri));
+          return {};
+        }
+      );
+    }
+
+    this.server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request, extra): Promise<ReadResourceResult> => {
+        const { uri } = request.params;
 
-          const duration = Date.now() - startTime;
-          this.logger.logToolInvocation(name, args, duration);
+        this.logger.debug('Read resource request', { uri });
 
-          // Return as any to satisfy MCP SDK types (our structure is correct)
-          return result as any;
+        try {
+          return await resourceRegistry.read(uri, (name, args) => this.runTool(name, args, { signal: extra.signal }));
         } catch (error) {
-          this.stats.errors++;
-
-          const duration = Date.now() - startTime;
-          this.logger.error(
-            'Tool invocation failed',
-            error as Error,
-            {
-              tool: name,
-              args,
-              duration,
-            }
-          );
+          if (error instanceof RequestCancelledError) {
+            throw error;
+          }
+          if (error instanceof ResourceNotFoundError || error instanceof ValidationError) {
+            throw new McpError(ErrorCode.InvalidParams, error.message);
+          }
+          this.logger.error('Resource read failed', error as Error, { uri });
+          throw error;
+        }
+      }
+    );
+  }
 
-          // Transform error to tool result
-          return errorToToolResult(error) as any;
+  /**
+   * Setup completion/complete handler
+   */
+  private setupCompletionHandler(completionRegistry: CompletionRegistry): void {
+    this.server.setRequestHandler(
+      CompleteRequestSchema,
+      async (request, extra): Promise<CompleteResult> => {
+        const { ref, argument } = request.params;
+
+        if (!supportsFeature(this.protocolVersion, 'completions')) {
+          throw new McpError(ErrorCode.MethodNotFound, 'Method not found');
         }
+
+        this.logger.debug('Completion request', { ref, argument: argument.name });
+
+        return await completionRegistry.complete(ref, argument, (name, args) =>
+          this.runTool(name, args, { signal: extra.signal })
+        );
       }
     );
   }
 
+  /**
+   * Poll for updates of subscribed matérias and notify the client
+   */
+  startResourcePolling(interval: number): void {
+    if (!this.subscriptionStore) {
+      return;
+    }
+
+    this.resourcePoller?.stop();
+    this.resourcePoller = createResourcePoller(
+      this.subscriptionStore,
+      this.toolRegistry,
+      this.toolContext,
+      (_subscriberId, notification) => this.server.notification(notification as ServerNotification),
+      this.logger
+    );
+    this.resourcePoller.start(interval);
+  }
+
   /**
    * Get underlying MCP server
    */
@@ -209,6 +498,27 @@ export class SenadoMCPServer {
     return this.server;
   }
 
+  /**
+   * Get the protocol revision negotiated with the client
+   */
+  getProtocolVersion(): string {
+    return this.protocolVersion;
+  }
+
+  /**
+   * Get the name and version the client sent on initialize
+   */
+  getClientInfo(): Implementation | undefined {
+    return this.server.getClientVersion();
+  }
+
+  /**
+   * Get the capabilities the client sent on initialize
+   */
+  getClientCapabilities(): ClientCapabilities | undefined {
+    return this.server.getClientCapabilities();
+  }
+
   /**
    * Get tool registry
    */
@@ -229,6 +539,7 @@ export class SenadoMCPServer {
       uptime,
       cache: cacheStats,
       rateLimiter: rateLimiterStats,
+      httpClient: this.toolContext.httpClient.getStats?.(),
     };
   }
 
@@ -267,6 +578,8 @@ export class SenadoMCPServer {
    * Close server
    */
   async close(): Promise<void> {
+    this.stopLogForwarding();
+    this.resourcePoller?.stop();
     await this.server.close();
     this.logger.info('MCP Server closed');
   }
@@ -294,6 +607,7 @@ export interface ServerStats {
     refillRate: number;
     lastRefillTime: number;
   };
+  httpClient?: HttpClientStats;
 }
 
 /**
@@ -319,7 +633,11 @@ export function createMCPServer(
   toolRegistry: ToolRegistry,
   httpClient: HttpClient,
   cache: CacheInterface,
-  rateLimiter: RateLimiter
+  rateLimiter: RateLimiter,
+  promptRegistry?: PromptRegistry,
+  resourceRegistry?: ResourceRegistry,
+  completionRegistry?: CompletionRegistry,
+  circuitBreaker?: CircuitBreaker
 ): SenadoMCPServer {
   return new SenadoMCPServer(
     config,
@@ -327,6 +645,10 @@ export function createMCPServer(
     toolRegistry,
     httpClient,
     cache,
-    rateLimiter
+    rateLimiter,
+    promptRegistry,
+    resourceRegistry,
+    completionRegistry,
+    circuitBreaker
   );
 }
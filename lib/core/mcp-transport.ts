@@ -1,14 +1,55 @@
 import type {
   Logger,
-  ServiceInfo,
   ToolDefinition,
+  MCPTransportNotification,
   MCPTransportRequest,
   MCPTransportResponse,
+  CompletionReference,
+  LoggingLevel,
+  SubscriptionStore,
+  ToolContext,
 } from '../types/index.js';
 import type { ToolRegistry } from './tools.js';
+import { createToolPipeline, type ToolPipeline } from './pipeline.js';
+import type { PromptRegistry } from './prompts.js';
+import type { ResourceRegistry } from './resources.js';
+import type { CompletionRegistry } from './completions.js';
+import {
+  PromptNotFoundError,
+  RequestCancelledError,
+  ResourceNotFoundError,
+  ValidationError,
+} from './errors.js';
+import {
+  LATEST_PROTOCOL_VERSION,
+  capabilitiesForVersion,
+  negotiateProtocolVersion,
+  supportsFeature,
+  toolMetadataForVersion,
+  toolResultForVersion,
+} from './protocol.js';
+import { createProgressReporter, getProgressToken } from './progress.js';
+import { LOGGING_LEVELS, isLoggingLevel, sessionLogger } from './logging.js';
+import { SUBSCRIBABLE_URI_TEMPLATE, isSubscribableUri } from './subscriptions.js';
 
 const JSONRPC_VERSION = '2.0';
-export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+/**
+ * Default number of batch messages processed at the same time
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+/**
+ * Error code of requests cancelled by the client; transports drop these responses
+ */
+export const REQUEST_CANCELLED_CODE = -32800;
+
+/**
+ * Responses to send: those of cancelled requests are left out
+ */
+export function answeredResponses(responses: MCPTransportResponse[]): MCPTransportResponse[] {
+  return responses.filter((response) => response.error?.code !== REQUEST_CANCELLED_CODE);
+}
 
 function createErrorResponse(
   id: string | number | null,
@@ -27,20 +68,77 @@ function createErrorResponse(
   };
 }
 
-function serializeTools(tools: ToolDefinition[]): Array<Record<string, unknown>> {
-  return tools.map((tool) => ({
-    name: tool.name,
-    description: tool.description,
-    inputSchema: tool.inputSchema,
-    category: tool.category,
-  }));
+function serializeTools(
+  registry: ToolRegistry,
+  tools: ToolDefinition[],
+  protocolVersion: string
+): Array<Record<string, unknown>> {
+  const withOutputSchema = supportsFeature(protocolVersion, 'structuredContent');
+
+  return tools.map((tool) => {
+    const outputSchema = withOutputSchema ? registry.getOutputSchema(tool.name) : undefined;
+    return {
+      name: tool.name,
+      ...toolMetadataForVersion(tool, protocolVersion),
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      ...(outputSchema ? { outputSchema } : {}),
+      category: tool.category,
+    };
+  });
 }
 
 export interface MCPHandlerContext {
   toolRegistry: ToolRegistry;
+  promptRegistry?: PromptRegistry;
+  resourceRegistry?: ResourceRegistry;
+  completionRegistry?: CompletionRegistry;
+  subscriptionStore?: SubscriptionStore; // Enables resources/subscribe
+  toolContext?: ToolContext;
+  toolPipeline?: ToolPipeline; // Defaults to a pipeline without logging, metrics and circuit breaker
+  protocolVersion?: string; // Negotiated revision (defaults to the latest)
+  signal?: AbortSignal; // Aborted when the client cancels the request or disconnects
+  notify?: (notification: MCPTransportNotification) => void; // Server notifications of the request (progress)
+  setLogLevel?: (level: LoggingLevel) => Promise<void>; // logging/setLevel for the client's session
+  subscriberId?: string; // Client session owning resources/subscribe requests
+  sessionId?: string; // Client session of the message; tags the log entries of its tools
   logger: Logger;
 }
 
+/**
+ * Tool context of a request, carrying its cancellation signal, its client
+ * session and, when the client sent a progressToken and the transport can
+ * notify, a progress reporter
+ */
+function requestToolContext(context: MCPHandlerContext, request?: MCPTransportRequest): ToolContext {
+  const toolContext = context.toolContext ?? ({ logger: context.logger } as ToolContext);
+  const progressToken = getProgressToken(request?.params);
+  const progress =
+    progressToken !== undefined && context.notify
+      ? createProgressReporter(progressToken, context.notify, context.logger)
+      : undefined;
+
+  if (!context.signal && !progress && context.sessionId === undefined) {
+    return toolContext;
+  }
+
+  return {
+    ...toolContext,
+    ...(context.signal ? { signal: context.signal } : {}),
+    ...(progress ? { progress } : {}),
+    ...(context.sessionId !== undefined
+      ? { sessionId: context.sessionId, logger: sessionLogger(toolContext.logger, context.sessionId) }
+      : {}),
+  };
+}
+
+/**
+ * Pipeline running the tools of a request
+ */
+function toolPipeline(context: MCPHandlerContext): ToolPipeline {
+  return context.toolPipeline ?? createToolPipeline(context.toolRegistry);
+}
+
 export async function processMCPRequest(
   request: MCPTransportRequest,
   context: MCPHandlerContext
@@ -52,22 +150,38 @@ export async function processMCPRequest(
   const id = request.id ?? null;
   const method = request.method;
 
+  if (typeof method !== 'string') {
+    return createErrorResponse(id, -32600, 'Invalid request payload', 'Method is required');
+  }
+
+  const protocolVersion = context.protocolVersion ?? LATEST_PROTOCOL_VERSION;
+
   switch (method) {
     case 'initialize': {
-      // MCP handshake - return server capabilities
+      // MCP handshake - negotiate the revision and return server capabilities
+      const params = request.params as { protocolVersion?: unknown } | undefined;
+      const negotiated = negotiateProtocolVersion(params?.protocolVersion);
+      const capabilities = {
+        tools: {},
+        ...(context.promptRegistry ? { prompts: {} } : {}),
+        ...(context.resourceRegistry
+          ? {
+              resources: {
+                subscribe: Boolean(context.subscriptionStore),
+                listChanged: false,
+              },
+            }
+          : {}),
+        ...(context.completionRegistry ? { completions: {} } : {}),
+        logging: {},
+      };
+
       return {
         jsonrpc: request.jsonrpc || JSONRPC_VERSION,
         id,
         result: {
-          protocolVersion: MCP_PROTOCOL_VERSION,
-          capabilities: {
-            tools: {},
-            resources: {
-              subscribe: false,
-              listChanged: false,
-            },
-            logging: {},
-          },
+          protocolVersion: negotiated,
+          capabilities: capabilitiesForVersion(capabilities, negotiated),
           serverInfo: {
             name: 'mcp-senado',
             version: '1.0.0',
@@ -94,8 +208,27 @@ export async function processMCPRequest(
       };
     }
 
+    case 'logging/setLevel': {
+      const params = request.params as { level?: unknown } | undefined;
+      if (!isLoggingLevel(params?.level)) {
+        return createErrorResponse(
+          id,
+          -32602,
+          'Invalid params',
+          `level must be one of: ${LOGGING_LEVELS.join(', ')}`
+        );
+      }
+
+      await context.setLogLevel?.(params.level);
+      return {
+        jsonrpc: request.jsonrpc || JSONRPC_VERSION,
+        id,
+        result: {},
+      };
+    }
+
     case 'tools/list': {
-      const tools = serializeTools(context.toolRegistry.getAll());
+      const tools = serializeTools(context.toolRegistry, context.toolRegistry.getAll(), protocolVersion);
       return {
         jsonrpc: request.jsonrpc || JSONRPC_VERSION,
         id,
@@ -119,59 +252,103 @@ export async function processMCPRequest(
       const toolArgs = params.arguments ?? {};
 
       try {
-        const result = await context.toolRegistry.invoke(
+        const { result } = await toolPipeline(context).execute(
           toolName,
           toolArgs,
-          {} as any
+          requestToolContext(context, request)
         );
 
+        return {
+          jsonrpc: request.jsonrpc || JSONRPC_VERSION,
+          id,
+          result: toolResultForVersion(result, protocolVersion),
+        };
+      } catch (error) {
+        // Logged by the pipeline
+        if (error instanceof RequestCancelledError) {
+          return createErrorResponse(id, REQUEST_CANCELLED_CODE, 'Request cancelled', error.message);
+        }
+
+        return createErrorResponse(
+          id,
+          -32603,
+          'Tool execution failed',
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }
+
+    case 'prompts/list': {
+      if (!context.promptRegistry) {
+        return createErrorResponse(id, -32601, 'Method not found', `Unknown method: ${method}`);
+      }
+
+      const prompts = context.promptRegistry.getAll().map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+      }));
+
+      return {
+        jsonrpc: request.jsonrpc || JSONRPC_VERSION,
+        id,
+        result: {
+          prompts,
+        },
+      };
+    }
+
+    case 'prompts/get': {
+      if (!context.promptRegistry) {
+        return createErrorResponse(id, -32601, 'Method not found', `Unknown method: ${method}`);
+      }
+
+      if (!request.params || typeof request.params !== 'object') {
+        return createErrorResponse(id, -32602, 'Invalid params', 'Expected object with name and arguments');
+      }
+
+      const params = request.params as { name?: string; arguments?: unknown };
+      if (!params.name || typeof params.name !== 'string') {
+        return createErrorResponse(id, -32602, 'Invalid params', 'Prompt name is required');
+      }
+
+      try {
+        const result = await context.promptRegistry.render(params.name, params.arguments ?? {});
+
         return {
           jsonrpc: request.jsonrpc || JSONRPC_VERSION,
           id,
           result,
         };
       } catch (error) {
-        context.logger.error('MCP tool invocation failed', error as Error, {
-          tool: toolName,
+        if (error instanceof PromptNotFoundError || error instanceof ValidationError) {
+          return createErrorResponse(id, -32602, 'Invalid params', error.message);
+        }
+
+        context.logger.error('MCP prompt rendering failed', error as Error, {
+          prompt: params.name,
         });
 
         return createErrorResponse(
           id,
           -32603,
-          'Tool execution failed',
+          'Prompt rendering failed',
           error instanceof Error ? error.message : 'Unknown error'
         );
       }
     }
 
     case 'resources/list': {
-      // List available resources (data endpoints)
-      const resources = [
-        {
-          uri: 'senado://reference/legislaturas',
-          name: 'Legislaturas do Senado Federal',
-          description: 'Lista completa de todas as legislaturas',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'senado://reference/ufs',
-          name: 'Estados Brasileiros',
-          description: 'Lista de todos os estados e o Distrito Federal',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'senado://reference/tipos-materia',
-          name: 'Tipos de Matéria Legislativa',
-          description: 'Lista de tipos de proposições legislativas',
-          mimeType: 'application/json',
-        },
-        {
-          uri: 'senado://reference/partidos',
-          name: 'Partidos Políticos',
-          description: 'Lista de partidos políticos brasileiros',
-          mimeType: 'application/json',
-        },
-      ];
+      if (!context.resourceRegistry) {
+        return createErrorResponse(id, -32601, 'Method not found', `Unknown method: ${method}`);
+      }
+
+      const resources = context.resourceRegistry.getAll().map((resource) => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      }));
 
       return {
         jsonrpc: request.jsonrpc || JSONRPC_VERSION,
@@ -182,7 +359,32 @@ export async function processMCPRequest(
       };
     }
 
+    case 'resources/templates/list': {
+      if (!context.resourceRegistry) {
+        return createErrorResponse(id, -32601, 'Method not found', `Unknown method: ${method}`);
+      }
+
+      const resourceTemplates = context.resourceRegistry.getTemplates().map((template) => ({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType,
+      }));
+
+      return {
+        jsonrpc: request.jsonrpc || JSONRPC_VERSION,
+        id,
+        result: {
+          resourceTemplates,
+        },
+      };
+    }
+
     case 'resources/read': {
+      if (!context.resourceRegistry) {
+        return createErrorResponse(id, -32601, 'Method not found', `Unknown method: ${method}`);
+      }
+
       if (!request.params || typeof request.params !== 'object') {
         return createErrorResponse(id, -32602, 'Invalid params', 'Expected object with uri');
       }
@@ -193,51 +395,128 @@ export async function processMCPRequest(
       }
 
       const uri = params.uri;
+      const toolContext = requestToolContext(context);
+      const pipeline = toolPipeline(context);
+
+      try {
+        // Resource tools run through the same pipeline as tools/call
+        const result = await context.resourceRegistry.read(uri, async (name, args) => {
+          const execution = await pipeline.execute(name, args, toolContext);
+          return execution.result;
+        });
 
-      // Map resource URIs to tool calls
-      const resourceToolMap: Record<string, string> = {
-        'senado://reference/legislaturas': 'legislaturas_listar',
-        'senado://reference/ufs': 'ufs_listar',
-        'senado://reference/tipos-materia': 'tipos_materia_listar',
-        'senado://reference/partidos': 'partidos_listar',
+        return {
+          jsonrpc: request.jsonrpc || JSONRPC_VERSION,
+          id,
+          result,
+        };
+      } catch (error) {
+        if (error instanceof ResourceNotFoundError || error instanceof ValidationError) {
+          return createErrorResponse(id, -32602, 'Invalid params', error.message);
+        }
+
+        if (error instanceof RequestCancelledError) {
+          return createErrorResponse(id, REQUEST_CANCELLED_CODE, 'Request cancelled', error.message);
+        }
+
+        context.logger.error('MCP resource read failed', error as Error, {
+          uri,
+        });
+
+        return createErrorResponse(
+          id,
+          -32603,
+          'Resource read failed',
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    }
+
+    case 'resources/subscribe':
+    case 'resources/unsubscribe': {
+      if (!context.resourceRegistry || !context.subscriptionStore || !context.subscriberId) {
+        return createErrorResponse(id, -32601, 'Method not found', `Unknown method: ${method}`);
+      }
+
+      const params = request.params as { uri?: unknown } | undefined;
+      if (typeof params?.uri !== 'string' || !params.uri) {
+        return createErrorResponse(id, -32602, 'Invalid params', 'Resource URI is required');
+      }
+
+      if (!isSubscribableUri(params.uri)) {
+        return createErrorResponse(
+          id,
+          -32602,
+          'Invalid params',
+          `Only ${SUBSCRIBABLE_URI_TEMPLATE} resources can be subscribed to`
+        );
+      }
+
+      if (method === 'resources/subscribe') {
+        await context.subscriptionStore.subscribe(context.subscriberId, params.uri);
+      } else {
+        await context.subscriptionStore.unsubscribe(context.subscriberId, params.uri);
+      }
+
+      return {
+        jsonrpc: request.jsonrpc || JSONRPC_VERSION,
+        id,
+        result: {},
       };
+    }
 
-      const toolName = resourceToolMap[uri];
-      if (!toolName) {
-        return createErrorResponse(id, -32602, 'Invalid resource URI', `Unknown resource: ${uri}`);
+    case 'completion/complete': {
+      if (!context.completionRegistry || !supportsFeature(protocolVersion, 'completions')) {
+        return createErrorResponse(id, -32601, 'Method not found', `Unknown method: ${method}`);
       }
 
+      const params = request.params as
+        | { ref?: CompletionReference; argument?: { name?: unknown; value?: unknown } }
+        | undefined;
+      const ref = params?.ref;
+      const argument = params?.argument;
+
+      if (
+        !ref ||
+        (ref.type !== 'ref/prompt' && ref.type !== 'ref/resource') ||
+        !argument ||
+        typeof argument.name !== 'string' ||
+        typeof argument.value !== 'string'
+      ) {
+        return createErrorResponse(id, -32602, 'Invalid params', 'Expected object with ref and argument');
+      }
+
+      const toolContext = requestToolContext(context);
+      const pipeline = toolPipeline(context);
+
       try {
-        // Invoke the corresponding tool
-        const result = await context.toolRegistry.invoke(
-          toolName,
-          {},
-          {} as any
+        const result = await context.completionRegistry.complete(
+          ref,
+          { name: argument.name, value: argument.value },
+          async (name, args) => {
+            const execution = await pipeline.execute(name, args, toolContext);
+            return execution.result;
+          }
         );
 
         return {
           jsonrpc: request.jsonrpc || JSONRPC_VERSION,
           id,
-          result: {
-            contents: [
-              {
-                uri,
-                mimeType: 'application/json',
-                ...result,
-              },
-            ],
-          },
+          result,
         };
       } catch (error) {
-        context.logger.error('MCP resource read failed', error as Error, {
-          uri,
-          tool: toolName,
+        if (error instanceof RequestCancelledError) {
+          return createErrorResponse(id, REQUEST_CANCELLED_CODE, 'Request cancelled', error.message);
+        }
+
+        context.logger.error('MCP completion failed', error as Error, {
+          argument: argument.name,
         });
 
         return createErrorResponse(
           id,
           -32603,
-          'Resource read failed',
+          'Completion failed',
           error instanceof Error ? error.message : 'Unknown error'
         );
       }
@@ -253,19 +532,82 @@ export async function processMCPRequest(
   }
 }
 
-export function buildMCPInitMessage(serviceInfo: ServiceInfo) {
-  return {
-    jsonrpc: JSONRPC_VERSION,
-    id: 'init',
-    result: {
-      protocolVersion: MCP_PROTOCOL_VERSION,
-      capabilities: {
-        tools: {},
-      },
-      serverInfo: {
-        name: serviceInfo.name,
-        version: serviceInfo.version,
-      },
-    },
+/**
+ * Notifications (method without id) are processed but never answered
+ */
+export function isNotification(message: unknown): boolean {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    typeof (message as { method?: unknown }).method === 'string' &&
+    !('id' in message)
+  );
+}
+
+/**
+ * Responses sent by the client (result or error without method) need no processing
+ */
+export function isClientResponse(message: unknown): boolean {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    !('method' in message) &&
+    'id' in message &&
+    ('result' in message || 'error' in message)
+  );
+}
+
+/**
+ * Process a JSON-RPC batch
+ *
+ * Messages run concurrently, at most `concurrency` at a time. Responses keep
+ * the batch order and leave out notifications and client responses, so a
+ * batch without requests yields an empty array. `signalFor` gives each
+ * message its own cancellation signal.
+ */
+export async function processMCPBatch(
+  batch: unknown[],
+  context: MCPHandlerContext,
+  concurrency: number = DEFAULT_BATCH_CONCURRENCY,
+  signalFor?: (message: MCPTransportRequest) => AbortSignal | undefined
+): Promise<MCPTransportResponse[]> {
+  const responses: Array<MCPTransportResponse | undefined> = new Array(batch.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < batch.length) {
+      const index = next++;
+      const message = batch[index];
+
+      if (isClientResponse(message)) {
+        continue;
+      }
+
+      let response: MCPTransportResponse;
+      try {
+        const request = message as MCPTransportRequest;
+        response = await processMCPRequest(
+          request,
+          signalFor ? { ...context, signal: signalFor(request) } : context
+        );
+      } catch (error) {
+        context.logger.error('MCP batch message failed', error as Error);
+        response = createErrorResponse(
+          (message as MCPTransportRequest).id ?? null,
+          -32603,
+          'Internal error',
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+
+      if (!isNotification(message)) {
+        responses[index] = response;
+      }
+    }
   };
+
+  const workers = Math.max(1, Math.min(concurrency, batch.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return responses.filter((response): response is MCPTransportResponse => response !== undefined);
 }
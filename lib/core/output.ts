@@ -0,0 +1,493 @@
+/**
+ * Tool Output Layer
+ *
+ * Renders handler results for the ToolRegistry:
+ * - Common `formato` / `maxCaracteres` / `continuarDe` / `continuarDoCaractere`
+ *   arguments for every tool
+ * - Formats: resumo, completo (default), markdown, json
+ * - Character budget with explicit continuation hints: lists are paged by item
+ *   (`continuarDe`), anything else is cut by character (`continuarDoCaractere`)
+ * - structuredContent for tools with an outputSchema, cut to the same page
+ *   (or budget) with a `continuacao` marker
+ */
+
+import type { OutputFormat, OutputOptions, ToolOutput, ToolResult } from '../types/index.js';
+import { OutputOptionsSchema, validateToolInput } from './validation.js';
+
+/**
+ * Default character budget (~6k tokens at ~4 characters per token)
+ */
+export const DEFAULT_MAX_CHARACTERS = 25000;
+
+/**
+ * Output options for tool calls whose result is read by the server (resources, completions)
+ */
+export const DATA_OUTPUT_OPTIONS = { formato: 'json', maxCaracteres: 200000 } as const;
+
+const DEFAULT_FORMAT: OutputFormat = 'completo';
+const OUTPUT_OPTION_KEYS = ['formato', 'maxCaracteres', 'continuarDe', 'continuarDoCaractere'] as const;
+
+/**
+ * structuredContent key describing where a budgeted result stopped
+ */
+export const CONTINUATION_KEY = 'continuacao';
+
+const SUMMARY_MAX_DEPTH = 2;
+const SUMMARY_MAX_STRING = 200;
+const MARKDOWN_MAX_COLUMNS = 8;
+const MARKDOWN_MAX_CELL = 80;
+
+/**
+ * JSON Schema properties merged into every tool inputSchema
+ */
+export const OUTPUT_OPTIONS_JSON_PROPERTIES: Record<string, unknown> = {
+  formato: {
+    type: 'string',
+    enum: ['resumo', 'completo', 'markdown', 'json'],
+    description:
+      'Formato da resposta: resumo (campos principais), completo (padrão), markdown (tabelas) ou json (somente dados)',
+  },
+  maxCaracteres: {
+    type: 'number',
+    description: `Orçamento de caracteres da resposta (padrão ${DEFAULT_MAX_CHARACTERS}, ~4 caracteres por token)`,
+  },
+  continuarDe: {
+    type: 'number',
+    description:
+      'Índice do item (listas paginadas) informado na dica de continuação de uma resposta truncada',
+  },
+  continuarDoCaractere: {
+    type: 'number',
+    description:
+      'Posição em caracteres informada na dica de continuação de uma resposta que não é lista (ou cujo item excede o orçamento)',
+  },
+};
+
+/**
+ * Add the common output options to a tool inputSchema
+ */
+export function withOutputOptions(inputSchema: Record<string, unknown>): Record<string, unknown> {
+  const properties = (inputSchema['properties'] as Record<string, unknown> | undefined) ?? {};
+
+  return {
+    ...inputSchema,
+    properties: { ...OUTPUT_OPTIONS_JSON_PROPERTIES, ...properties },
+  };
+}
+
+/**
+ * Separate the output options from the tool arguments
+ */
+export function splitOutputOptions(
+  args: unknown,
+  toolName: string
+): { args: unknown; options: OutputOptions } {
+  const defaults: OutputOptions = {
+    formato: DEFAULT_FORMAT,
+    maxCaracteres: DEFAULT_MAX_CHARACTERS,
+    continuarDe: 0,
+    continuarDoCaractere: 0,
+  };
+
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return { args, options: defaults };
+  }
+
+  const record = args as Record<string, unknown>;
+  if (!OUTPUT_OPTION_KEYS.some((key) => key in record)) {
+    return { args, options: defaults };
+  }
+
+  const rest: Record<string, unknown> = {};
+  const requested: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if ((OUTPUT_OPTION_KEYS as readonly string[]).includes(key)) {
+      requested[key] = value;
+    } else {
+      rest[key] = value;
+    }
+  }
+
+  const parsed = validateToolInput(OutputOptionsSchema, requested, toolName);
+
+  return {
+    args: rest,
+    options: {
+      formato: parsed.formato ?? defaults.formato,
+      maxCaracteres: parsed.maxCaracteres ?? defaults.maxCaracteres,
+      continuarDe: parsed.continuarDe ?? defaults.continuarDe,
+      continuarDoCaractere: parsed.continuarDoCaractere ?? defaults.continuarDoCaractere,
+    },
+  };
+}
+
+/**
+ * Check whether a handler returned structured output
+ */
+export function isToolOutput(value: unknown): value is ToolOutput {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ToolOutput).title === 'string' &&
+    'data' in value &&
+    !('content' in value)
+  );
+}
+
+/**
+ * Shape handler data as an MCP structuredContent object (lists become `{ itens }`)
+ */
+export function toStructuredContent(data: unknown): Record<string, unknown> {
+  return typeof data === 'object' && data !== null && !Array.isArray(data)
+    ? (data as Record<string, unknown>)
+    : { itens: data };
+}
+
+/**
+ * Data of a tool result read with DATA_OUTPUT_OPTIONS: structuredContent lists or the parsed JSON text
+ */
+export function toolResultData(result: ToolResult): unknown {
+  if (result.structuredContent) {
+    const { [CONTINUATION_KEY]: _continuation, ...structured } = result.structuredContent;
+    const { itens } = structured;
+    return Array.isArray(itens) && Object.keys(structured).length === 1 ? itens : structured;
+  }
+
+  try {
+    return JSON.parse(result.content.map((item) => item.text).join('\n'));
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Formatters
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function truncateString(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+/**
+ * Keep scalar fields and replace deep structures with item counts
+ */
+export function summarizeData(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return truncateString(value, SUMMARY_MAX_STRING);
+  }
+
+  if (Array.isArray(value)) {
+    if (depth > 0 && value.some((item) => typeof item === 'object' && item !== null)) {
+      return `${value.length} itens`;
+    }
+    return value.map((item) => summarizeData(item, depth + 1));
+  }
+
+  if (isPlainObject(value)) {
+    if (depth > SUMMARY_MAX_DEPTH) {
+      return '…';
+    }
+
+    const summary: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry === undefined || entry === null || entry === '') {
+        continue;
+      }
+      summary[key] = summarizeData(entry, depth + 1);
+    }
+    return summary;
+  }
+
+  return value;
+}
+
+function formatCell(value: unknown): string {
+  let text: string;
+  if (value === undefined || value === null) {
+    text = '';
+  } else if (Array.isArray(value)) {
+    text = value.every((item) => typeof item !== 'object' || item === null)
+      ? value.join(', ')
+      : `${value.length} itens`;
+  } else if (isPlainObject(value)) {
+    text = Object.values(value)
+      .filter((entry) => entry !== undefined && entry !== null && typeof entry !== 'object')
+      .join(' ');
+  } else {
+    text = String(value);
+  }
+
+  return truncateString(text.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim(), MARKDOWN_MAX_CELL);
+}
+
+function markdownTable(rows: Record<string, unknown>[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const [key, value] of Object.entries(row)) {
+      if (value !== undefined && value !== null && !columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+  const visible = columns.slice(0, MARKDOWN_MAX_COLUMNS);
+
+  if (visible.length === 0) {
+    return '_Sem dados_';
+  }
+
+  return [
+    `| ${visible.join(' | ')} |`,
+    `| ${visible.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${visible.map((column) => formatCell(row[column])).join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Render data as Markdown: tables for record lists, bullets otherwise
+ */
+export function toMarkdown(value: unknown, level = 3): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '_Nenhum item_';
+    }
+    if (value.every(isPlainObject)) {
+      return markdownTable(value as Record<string, unknown>[]);
+    }
+    return value.map((item) => `- ${formatCell(item)}`).join('\n');
+  }
+
+  if (isPlainObject(value)) {
+    const bullets: string[] = [];
+    const sections: string[] = [];
+    const heading = '#'.repeat(Math.min(level, 6));
+
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry === undefined || entry === null) {
+        continue;
+      }
+      if ((Array.isArray(entry) && entry.some((item) => typeof item === 'object')) || isPlainObject(entry)) {
+        sections.push(`${heading} ${key}\n\n${toMarkdown(entry, level + 1)}`);
+      } else {
+        bullets.push(`- **${key}**: ${formatCell(entry)}`);
+      }
+    }
+
+    return [bullets.join('\n'), ...sections].filter((part) => part.length > 0).join('\n\n');
+  }
+
+  return formatCell(value);
+}
+
+function renderText(format: OutputFormat, title: string, data: unknown): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(data, null, 2);
+    case 'markdown':
+      return `## ${title}\n\n${toMarkdown(data)}`;
+    case 'resumo':
+      return `${title}:\n\n${JSON.stringify(summarizeData(data), null, 2)}`;
+    case 'completo':
+    default:
+      return `${title}:\n\n${JSON.stringify(data, null, 2)}`;
+  }
+}
+
+// ============================================================================
+// Budget
+// ============================================================================
+
+/**
+ * Part of a result shown under the budget: items of a list or characters of the text
+ */
+interface BudgetWindow {
+  unit: 'itens' | 'caracteres';
+  text: string;
+  start: number;
+  end: number;
+  total: number;
+}
+
+function textResult(text: string): ToolResult {
+  return { content: [{ type: 'text', text }] };
+}
+
+function isWholeResult(window: BudgetWindow): boolean {
+  return window.start === 0 && window.end >= window.total;
+}
+
+function truncateCharacters(text: string, options: OutputOptions): BudgetWindow {
+  const start = Math.min(options.continuarDoCaractere, text.length);
+  const window = { unit: 'caracteres' as const, start, total: text.length };
+  if (start === 0 && text.length <= options.maxCaracteres) {
+    return { ...window, text, end: text.length };
+  }
+
+  const end = Math.min(start + options.maxCaracteres, text.length);
+  const slice = text.slice(start, end);
+
+  if (end >= text.length) {
+    return { ...window, end, text: `${slice}\n\n---\nFim do resultado (caracteres ${start + 1}–${end} de ${text.length}).` };
+  }
+
+  return {
+    ...window,
+    end,
+    text:
+      `${slice}\n\n---\nResultado truncado: exibidos os caracteres ${start + 1}–${end} de ${text.length}. ` +
+      `Para continuar, chame a ferramenta novamente com os mesmos argumentos e "continuarDoCaractere": ${end}.`,
+  };
+}
+
+/**
+ * Fit as many list items as the budget allows, starting at `continuarDe`
+ */
+function renderListPage(title: string, items: unknown[], options: OutputOptions): BudgetWindow | undefined {
+  const start = Math.min(options.continuarDe, items.length);
+  const render = (end: number) => renderText(options.formato, title, items.slice(start, end));
+  const page = (text: string, end: number): BudgetWindow => ({ unit: 'itens', text, start, end, total: items.length });
+
+  if (start > 0 && start >= items.length) {
+    return page(`${render(start)}\n\n---\nNenhum item a partir da posição ${start} (total de ${items.length} itens).`, start);
+  }
+
+  const full = render(items.length);
+  if (start === 0 && full.length <= options.maxCaracteres) {
+    return page(full, items.length);
+  }
+
+  // Estimate the page size from the compact JSON size of each item, then shrink until it fits
+  let end = start;
+  let estimated = title.length + 16;
+  while (end < items.length) {
+    estimated += (JSON.stringify(items[end]) ?? '').length + 8;
+    if (estimated > options.maxCaracteres) break;
+    end++;
+  }
+
+  let text = render(end);
+  while (end > start + 1 && text.length > options.maxCaracteres) {
+    end--;
+    text = render(end);
+  }
+
+  if (end === start && start < items.length) {
+    end = start + 1;
+    text = render(end);
+  }
+  if (text.length > options.maxCaracteres) {
+    // A single item exceeds the budget: fall back to character truncation
+    return undefined;
+  }
+
+  if (end >= items.length) {
+    return page(start === 0 ? text : `${text}\n\n---\nFim do resultado (itens ${start + 1}–${end} de ${items.length}).`, end);
+  }
+
+  return page(
+    `${text}\n\n---\nResultado truncado: exibidos os itens ${start + 1}–${end} de ${items.length}. ` +
+      `Para continuar, chame a ferramenta novamente com os mesmos argumentos e "continuarDe": ${end}.`,
+    end
+  );
+}
+
+/**
+ * Keep what fits in the budget: every scalar field, then list items and
+ * nested objects in order. Lists may come back shorter, so the result still
+ * matches the outputSchema.
+ */
+function fitToBudget(value: Record<string, unknown>, budget: number): Record<string, unknown> {
+  const size = (entry: unknown) => (JSON.stringify(entry) ?? '').length;
+  let remaining = budget - 2;
+  for (const [key, entry] of Object.entries(value)) {
+    if (!Array.isArray(entry) && !isPlainObject(entry)) {
+      remaining -= key.length + size(entry) + 4;
+    }
+  }
+
+  const fitted: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (Array.isArray(entry)) {
+      remaining -= key.length + 5;
+      const kept: unknown[] = [];
+      for (const item of entry) {
+        const itemSize = size(item) + 1;
+        if (itemSize > remaining) break;
+        kept.push(item);
+        remaining -= itemSize;
+      }
+      fitted[key] = kept;
+    } else if (isPlainObject(entry)) {
+      remaining -= key.length + 4;
+      const nested = size(entry) <= remaining ? entry : fitToBudget(entry, Math.max(remaining, 0));
+      remaining -= size(nested);
+      fitted[key] = nested;
+    } else {
+      fitted[key] = entry;
+    }
+  }
+  return fitted;
+}
+
+/**
+ * Cut structuredContent to the window shown in the text, with a continuation marker
+ */
+function budgetStructuredContent(
+  structured: Record<string, unknown>,
+  window: BudgetWindow,
+  options: OutputOptions
+): Record<string, unknown> {
+  if (isWholeResult(window)) {
+    return structured;
+  }
+
+  const { itens } = structured;
+  const content =
+    window.unit === 'itens' && Array.isArray(itens)
+      ? { ...structured, itens: itens.slice(window.start, window.end) }
+      : fitToBudget(structured, options.maxCaracteres);
+  const next = window.unit === 'itens' ? 'continuarDe' : 'continuarDoCaractere';
+
+  return {
+    ...content,
+    [CONTINUATION_KEY]: {
+      [window.unit]: { inicio: window.start + 1, fim: window.end, total: window.total },
+      ...(window.end < window.total ? { [next]: window.end } : {}),
+    },
+  };
+}
+
+/**
+ * Render a handler result with the requested format and budget
+ *
+ * `structuredContent` (already validated against the tool outputSchema) is
+ * cut to the same list page, or to the budget when the text is cut by
+ * characters.
+ */
+export function renderToolOutput(
+  result: ToolOutput | ToolResult,
+  options: OutputOptions,
+  structuredContent?: Record<string, unknown>
+): ToolResult {
+  if (!isToolOutput(result)) {
+    // Legacy handlers build their own text: only the budget is applied
+    const [first, ...rest] = result.content;
+    if (!first) {
+      return result;
+    }
+    const { text } = truncateCharacters(first.text, options);
+    return text === first.text ? result : { ...result, content: [{ ...first, text }, ...rest] };
+  }
+
+  const window =
+    (Array.isArray(result.data) ? renderListPage(result.title, result.data, options) : undefined) ??
+    truncateCharacters(renderText(options.formato, result.title, result.data), options);
+  const rendered = textResult(window.text);
+
+  return structuredContent
+    ? { ...rendered, structuredContent: budgetStructuredContent(structuredContent, window, options) }
+    : rendered;
+}
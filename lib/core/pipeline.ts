@@ -0,0 +1,344 @@
+/**
+ * Tool Invocation Pipeline
+ *
+ * The single path every tool invocation takes, whatever the transport
+ * (stdio, Streamable HTTP, WebSocket, REST, Workers). Middleware, outermost first:
+ * - logging: start, cache hit/miss, completion, cancellation and failure logs
+ * - metrics: one ToolMetric per invocation (duration, outcome, cache use)
+ * - validation: arguments are an object with the inputSchema's required properties
+ * - scope: the tool is within the caller's scopes (ToolContext.scopes)
+ * - rateLimit: a token from the context rate limiter
+ * - cache: cached results are returned without invoking the tool
+ * - circuitBreaker: invocations fail fast while the HTTP client's circuit is open
+ *
+ * Each middleware can be turned off (MCP_TOOL_MIDDLEWARE); resource reads and
+ * completions run their tools through the same pipeline.
+ */
+
+import type {
+  CircuitBreaker,
+  Logger,
+  ToolContext,
+  ToolDefinition,
+  ToolMetricsRecorder,
+  ToolMiddlewareName,
+  ToolResult,
+} from '../types/index.js';
+import { TOOL_MIDDLEWARE_NAMES } from '../types/index.js';
+import type { ToolRegistry } from './tools.js';
+import { sessionLogger } from './logging.js';
+import {
+  CircuitBreakerError,
+  RequestCancelledError,
+  ToolForbiddenError,
+  ValidationError,
+  throwIfCancelled,
+} from './errors.js';
+
+/**
+ * Scope granting every tool
+ */
+export const ALL_TOOLS_SCOPE = '*';
+
+/**
+ * One tool invocation on its way through the pipeline
+ */
+export interface ToolInvocation {
+  tool: ToolDefinition;
+  args: unknown;
+  context: ToolContext;
+  cached: boolean; // Set by the cache middleware on a hit
+  cacheKey?: string; // Set when the cache was consulted
+}
+
+/**
+ * Middleware: handles the invocation itself or passes it on with next
+ */
+export type ToolMiddleware = (
+  invocation: ToolInvocation,
+  next: (invocation: ToolInvocation) => Promise<ToolResult>
+) => Promise<ToolResult>;
+
+/**
+ * Result of a tool execution through the shared pipeline
+ */
+export interface ToolExecution {
+  result: ToolResult;
+  cached: boolean;
+  cacheKey?: string;
+}
+
+export interface ToolPipelineOptions {
+  middleware?: ToolMiddlewareName[]; // Enabled middleware (all by default)
+  logger?: Logger; // Required by logging
+  metrics?: ToolMetricsRecorder; // Required by metrics
+  circuitBreaker?: CircuitBreaker; // Required by circuitBreaker
+}
+
+/**
+ * Tool pipeline: middleware chain around ToolRegistry.invoke
+ */
+export class ToolPipeline {
+  private readonly registry: ToolRegistry;
+  private readonly middleware: ToolMiddleware[];
+
+  constructor(registry: ToolRegistry, middleware: ToolMiddleware[]) {
+    this.registry = registry;
+    this.middleware = middleware;
+  }
+
+  /**
+   * Execute a tool through every middleware, then the registry
+   */
+  async execute(name: string, args: unknown, context: ToolContext): Promise<ToolExecution> {
+    throwIfCancelled(context.signal);
+
+    const invocation: ToolInvocation = {
+      tool: this.registry.get(name),
+      args,
+      context,
+      cached: false,
+    };
+
+    const run = (index: number, current: ToolInvocation): Promise<ToolResult> => {
+      const middleware = this.middleware[index];
+      if (!middleware) {
+        return this.registry.invoke(current.tool.name, current.args, current.context);
+      }
+      return middleware(current, (next) => run(index + 1, next));
+    };
+
+    const result = await run(0, invocation);
+    return { result, cached: invocation.cached, cacheKey: invocation.cacheKey };
+  }
+}
+
+/**
+ * Log the start, cache use, completion, cancellation and failure of invocations,
+ * tagged with the client session they serve
+ */
+export function createLoggingMiddleware(serverLogger: Logger): ToolMiddleware {
+  return async (invocation, next) => {
+    const { tool, args } = invocation;
+    const logger = sessionLogger(serverLogger, invocation.context.sessionId);
+    const startTime = Date.now();
+
+    logger.info('Tool invocation started', { tool: tool.name, args });
+
+    try {
+      const result = await next(invocation);
+      if (invocation.cacheKey) {
+        if (invocation.cached) {
+          logger.logCacheHit(invocation.cacheKey);
+        } else {
+          logger.logCacheMiss(invocation.cacheKey);
+        }
+      }
+      logger.logToolInvocation(tool.name, args, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        logger.info('Tool invocation cancelled', { tool: tool.name });
+      } else {
+        logger.error('Tool invocation failed', error as Error, {
+          tool: tool.name,
+          args,
+          duration: Date.now() - startTime,
+        });
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Record the duration and outcome of invocations
+ */
+export function createMetricsMiddleware(recorder: ToolMetricsRecorder): ToolMiddleware {
+  return async (invocation, next) => {
+    const startTime = Date.now();
+    let outcome: 'success' | 'error' | 'cancelled' = 'success';
+
+    try {
+      return await next(invocation);
+    } catch (error) {
+      outcome = error instanceof RequestCancelledError ? 'cancelled' : 'error';
+      throw error;
+    } finally {
+      recorder({
+        tool: invocation.tool.name,
+        category: invocation.tool.category,
+        duration: Date.now() - startTime,
+        outcome,
+        cached: invocation.cacheKey ? invocation.cached : undefined,
+      });
+    }
+  };
+}
+
+/**
+ * Reject arguments that are not an object or miss required properties
+ *
+ * Each tool still validates its own arguments; this rejects malformed calls
+ * before they take a rate limit token or reach the cache.
+ */
+export function createValidationMiddleware(): ToolMiddleware {
+  return async (invocation, next) => {
+    const { tool, args } = invocation;
+
+    if (args !== undefined && args !== null && (typeof args !== 'object' || Array.isArray(args))) {
+      throw new ValidationError(`Invalid input for ${tool.name}: arguments must be an object`, 'arguments', args);
+    }
+
+    const record = (args ?? {}) as Record<string, unknown>;
+    const required = Array.isArray(tool.inputSchema['required']) ? (tool.inputSchema['required'] as string[]) : [];
+    const missing = required.find((property) => record[property] === undefined);
+    if (missing) {
+      throw new ValidationError(`Invalid input for ${tool.name}: ${missing} is required`, missing, args);
+    }
+
+    return next(invocation);
+  };
+}
+
+/**
+ * Reject tools outside the caller's scopes (tool names, categories or '*')
+ */
+export function createScopeMiddleware(): ToolMiddleware {
+  return async (invocation, next) => {
+    const { tool, context } = invocation;
+
+    if (
+      context.scopes &&
+      !context.scopes.some((scope) => scope === ALL_TOOLS_SCOPE || scope === tool.name || scope === tool.category)
+    ) {
+      throw new ToolForbiddenError(tool.name);
+    }
+
+    return next(invocation);
+  };
+}
+
+/**
+ * Take a token from the context rate limiter (when rate limiting is enabled)
+ */
+export function createRateLimitMiddleware(): ToolMiddleware {
+  return async (invocation, next) => {
+    const { context } = invocation;
+
+    if (context.config?.rateLimitEnabled && context.rateLimiter) {
+      const allowed = await context.rateLimiter.checkLimit();
+      if (!allowed) {
+        const error = new Error('Rate limit exceeded');
+        error.name = 'RateLimitError';
+        throw error;
+      }
+    }
+
+    return next(invocation);
+  };
+}
+
+/**
+ * Return cached results and cache successful ones (when caching is enabled)
+ */
+export function createCacheMiddleware(): ToolMiddleware {
+  return async (invocation, next) => {
+    const { tool, args, context } = invocation;
+
+    if (!context.config?.cacheEnabled || !context.cache) {
+      return next(invocation);
+    }
+
+    const cacheKey = context.cache.generateKey(tool.name, (args ?? {}) as Record<string, unknown>);
+    invocation.cacheKey = cacheKey;
+
+    const cached = await context.cache.get<ToolResult>(cacheKey);
+    if (cached) {
+      invocation.cached = true;
+      return cached;
+    }
+
+    const result = await next(invocation);
+
+    if (!result.isError) {
+      await context.cache.set(cacheKey, result);
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Fail fast while the circuit is open
+ *
+ * The circuit breaker itself wraps each Senado API request in the HTTP client,
+ * so every upstream failure counts once, including those multi-request tools
+ * recover from and those coalesced requests share; invocations are only
+ * turned away here, before reaching the tool.
+ */
+export function createCircuitBreakerMiddleware(circuitBreaker: CircuitBreaker): ToolMiddleware {
+  return async (invocation, next) => {
+    if (circuitBreaker.getState() === 'OPEN') {
+      throw new CircuitBreakerError('Circuit breaker is OPEN', circuitBreaker.getStats().lastFailureTime);
+    }
+
+    return next(invocation);
+  };
+}
+
+/**
+ * Create tool pipeline with the enabled middleware, in TOOL_MIDDLEWARE_NAMES order
+ *
+ * Middleware whose dependency is not given (logger, metrics recorder,
+ * circuit breaker) is left out.
+ */
+export function createToolPipeline(registry: ToolRegistry, options: ToolPipelineOptions = {}): ToolPipeline {
+  const enabled = new Set<ToolMiddlewareName>(options.middleware ?? TOOL_MIDDLEWARE_NAMES);
+  const middleware: ToolMiddleware[] = [];
+
+  for (const name of TOOL_MIDDLEWARE_NAMES) {
+    if (!enabled.has(name)) {
+      continue;
+    }
+
+    switch (name) {
+      case 'logging':
+        if (options.logger) middleware.push(createLoggingMiddleware(options.logger));
+        break;
+      case 'metrics':
+        if (options.metrics) middleware.push(createMetricsMiddleware(options.metrics));
+        break;
+      case 'validation':
+        middleware.push(createValidationMiddleware());
+        break;
+      case 'scope':
+        middleware.push(createScopeMiddleware());
+        break;
+      case 'rateLimit':
+        middleware.push(createRateLimitMiddleware());
+        break;
+      case 'cache':
+        middleware.push(createCacheMiddleware());
+        break;
+      case 'circuitBreaker':
+        if (options.circuitBreaker) middleware.push(createCircuitBreakerMiddleware(options.circuitBreaker));
+        break;
+    }
+  }
+
+  return new ToolPipeline(registry, middleware);
+}
+
+/**
+ * Execute a tool through the default pipeline:
+ * validation, scope, rate limiting, cache lookup, invocation and cache store
+ */
+export async function executeTool(
+  registry: ToolRegistry,
+  name: string,
+  args: unknown,
+  context: ToolContext
+): Promise<ToolExecution> {
+  return createToolPipeline(registry).execute(name, args, context);
+}
@@ -0,0 +1,63 @@
+/**
+ * Progress Notifications
+ *
+ * Turns ToolContext progress updates into MCP notifications/progress for
+ * requests that carry a progressToken in `params._meta`:
+ * - Shared by the SDK server (stdio) and the JSON-RPC transport (Streamable HTTP)
+ * - Progress only moves forward; stale updates are dropped
+ * - Delivery failures never fail the tool
+ */
+
+import type { Logger, MCPTransportNotification, ProgressReporter } from '../types/index.js';
+
+export type ProgressToken = string | number;
+
+/**
+ * progressToken of a request, if the caller asked for progress
+ */
+export function getProgressToken(params: unknown): ProgressToken | undefined {
+  const token = (params as { _meta?: { progressToken?: unknown } } | undefined)?._meta?.progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+}
+
+/**
+ * Progress reporter sending notifications/progress for the token
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken,
+  send: (notification: MCPTransportNotification) => void | Promise<void>,
+  logger: Logger
+): ProgressReporter {
+  let last = -Infinity;
+
+  return ({ progress, total, message }) => {
+    if (progress <= last) {
+      return;
+    }
+    last = progress;
+
+    const notification: MCPTransportNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined ? { total } : {}),
+        ...(message !== undefined ? { message } : {}),
+      },
+    };
+
+    const onError = (error: unknown) => {
+      logger.debug('Failed to send progress notification', {
+        progressToken,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    };
+
+    try {
+      void Promise.resolve(send(notification)).catch(onError);
+    } catch (error) {
+      onError(error);
+    }
+  };
+}
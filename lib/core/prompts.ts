@@ -0,0 +1,143 @@
+/**
+ * Prompt Registry
+ *
+ * Manages prompt template registration and rendering:
+ * - Register prompts with name, description, arguments, handler
+ * - Get prompt by name
+ * - List all prompts
+ * - Prompt validation
+ */
+
+import type { PromptDefinition, PromptResult } from '../types/index.js';
+import { PromptNotFoundError } from './errors.js';
+
+/**
+ * Prompt Registry class
+ */
+export class PromptRegistry {
+  private readonly prompts: Map<string, PromptDefinition>;
+
+  constructor() {
+    this.prompts = new Map();
+  }
+
+  /**
+   * Register a single prompt
+   */
+  register(prompt: PromptDefinition): void {
+    // Validate prompt definition
+    this.validatePromptDefinition(prompt);
+
+    // Check for duplicates
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt already registered: ${prompt.name}`);
+    }
+
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  /**
+   * Register multiple prompts
+   */
+  registerMany(prompts: PromptDefinition[]): void {
+    for (const prompt of prompts) {
+      this.register(prompt);
+    }
+  }
+
+  /**
+   * Get prompt by name
+   */
+  get(name: string): PromptDefinition {
+    const prompt = this.prompts.get(name);
+
+    if (!prompt) {
+      throw new PromptNotFoundError(name);
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Check if prompt exists
+   */
+  has(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  /**
+   * Get all prompts
+   */
+  getAll(): PromptDefinition[] {
+    return Array.from(this.prompts.values());
+  }
+
+  /**
+   * Get prompt count
+   */
+  count(): number {
+    return this.prompts.size;
+  }
+
+  /**
+   * List all prompt names
+   */
+  listNames(): string[] {
+    return Array.from(this.prompts.keys());
+  }
+
+  /**
+   * Render prompt messages with arguments
+   */
+  async render(name: string, args: unknown): Promise<PromptResult> {
+    const prompt = this.get(name);
+    return prompt.handler(args ?? {});
+  }
+
+  /**
+   * Validate prompt definition
+   */
+  private validatePromptDefinition(prompt: PromptDefinition): void {
+    const errors: string[] = [];
+
+    if (!prompt.name || typeof prompt.name !== 'string') {
+      errors.push('Prompt name is required and must be a string');
+    }
+
+    if (!prompt.description || typeof prompt.description !== 'string') {
+      errors.push('Prompt description is required and must be a string');
+    }
+
+    if (!Array.isArray(prompt.arguments)) {
+      errors.push('Prompt arguments must be an array');
+    }
+
+    if (!prompt.handler || typeof prompt.handler !== 'function') {
+      errors.push('Prompt handler is required and must be a function');
+    }
+
+    if (!prompt.category || typeof prompt.category !== 'string') {
+      errors.push('Prompt category is required and must be a string');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid prompt definition for ${prompt.name || 'unknown'}:\n${errors.join('\n')}`
+      );
+    }
+  }
+
+  /**
+   * Clear all prompts (for testing)
+   */
+  clear(): void {
+    this.prompts.clear();
+  }
+}
+
+/**
+ * Create a new prompt registry
+ */
+export function createPromptRegistry(): PromptRegistry {
+  return new PromptRegistry();
+}
@@ -0,0 +1,116 @@
+/**
+ * MCP Protocol Revisions
+ *
+ * Protocol version negotiation shared by the JSON-RPC transport, the
+ * Streamable HTTP handler and the SDK server:
+ * - Supported revisions, newest first
+ * - Best match for the revision requested in `initialize`
+ * - Feature gates for results sent to clients on older revisions
+ */
+
+import type { ToolAnnotations, ToolDefinition, ToolResult } from '../types/index.js';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+export const LATEST_PROTOCOL_VERSION: string = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+/**
+ * Revision assumed for HTTP requests without MCP-Protocol-Version and without
+ * a negotiated session (spec backwards compatibility rule)
+ */
+export const DEFAULT_HTTP_PROTOCOL_VERSION = '2025-03-26';
+
+export const PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+
+/**
+ * First revision that has each feature
+ */
+const FEATURE_VERSIONS = {
+  completions: '2025-03-26', // completions capability
+  toolAnnotations: '2025-03-26',
+  toolTitles: '2025-06-18', // title on tools (earlier revisions: annotations.title)
+  streamableHttp: '2025-03-26', // SSE-streamed responses, resumable GET streams
+  structuredContent: '2025-06-18', // outputSchema and structuredContent
+} as const;
+
+export type ProtocolFeature = keyof typeof FEATURE_VERSIONS;
+
+const REVISION_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isSupportedProtocolVersion(version: unknown): version is string {
+  return (SUPPORTED_PROTOCOL_VERSIONS as readonly unknown[]).includes(version);
+}
+
+/**
+ * Pick the revision to use for a client
+ *
+ * The requested revision when supported, otherwise the newest supported
+ * revision older than it (revisions are dates), otherwise the latest one
+ * and the client decides whether it can continue.
+ */
+export function negotiateProtocolVersion(requested: unknown): string {
+  if (isSupportedProtocolVersion(requested)) {
+    return requested;
+  }
+
+  if (typeof requested === 'string' && REVISION_PATTERN.test(requested)) {
+    const older = SUPPORTED_PROTOCOL_VERSIONS.find((version) => version < requested);
+    if (older) {
+      return older;
+    }
+  }
+
+  return LATEST_PROTOCOL_VERSION;
+}
+
+export function supportsFeature(version: string, feature: ProtocolFeature): boolean {
+  return version >= FEATURE_VERSIONS[feature];
+}
+
+/**
+ * Server capabilities announced for a revision
+ */
+export function capabilitiesForVersion<T extends Record<string, unknown>>(
+  capabilities: T,
+  version: string
+): Partial<T> {
+  if (supportsFeature(version, 'completions')) {
+    return capabilities;
+  }
+
+  const { completions: _completions, ...rest } = capabilities;
+  return rest as Partial<T>;
+}
+
+/**
+ * title and annotations of a tool as listed to a client
+ *
+ * Annotations from 2025-03-26, carrying the title until it became a tool
+ * field in 2025-06-18.
+ */
+export function toolMetadataForVersion(
+  tool: ToolDefinition,
+  version: string
+): { title?: string; annotations?: ToolAnnotations & { title?: string } } {
+  if (!supportsFeature(version, 'toolAnnotations')) {
+    return {};
+  }
+
+  const annotations = tool.title ? { title: tool.title, ...tool.annotations } : tool.annotations;
+  return {
+    ...(tool.title && supportsFeature(version, 'toolTitles') ? { title: tool.title } : {}),
+    ...(annotations ? { annotations } : {}),
+  };
+}
+
+/**
+ * Tool result as sent to a client: structuredContent only from 2025-06-18
+ */
+export function toolResultForVersion(result: ToolResult, version: string): ToolResult {
+  if (!result.structuredContent || supportsFeature(version, 'structuredContent')) {
+    return result;
+  }
+
+  const { structuredContent: _structuredContent, ...rest } = result;
+  return rest;
+}
@@ -0,0 +1,236 @@
+/**
+ * Resource Registry
+ *
+ * Manages MCP resources backed by tools:
+ * - Register static resources and URI templates (e.g. senado://senador/{codigo})
+ * - List resources and resource templates
+ * - Resolve URIs to a resource and its template parameters
+ * - Read resources through the server tool pipeline
+ */
+
+import type {
+  ResourceDefinition,
+  ResourceReadResult,
+  ResourceTemplateDefinition,
+  ToolExecutor,
+  ToolResult,
+} from '../types/index.js';
+import { ResourceNotFoundError } from './errors.js';
+import { DATA_OUTPUT_OPTIONS } from './output.js';
+
+interface CompiledTemplate {
+  template: ResourceTemplateDefinition;
+  pattern: RegExp;
+  variables: string[];
+}
+
+/**
+ * Resolved resource URI
+ */
+export interface ResolvedResource {
+  resource: ResourceDefinition | ResourceTemplateDefinition;
+  params: Record<string, string>;
+}
+
+/**
+ * Compile a level 1 URI template into a matcher (each variable matches one path segment)
+ */
+function compileTemplate(template: ResourceTemplateDefinition): CompiledTemplate {
+  const variables: string[] = [];
+  const source = template.uriTemplate
+    .split(/(\{[^}]+\})/)
+    .map((part) => {
+      const variable = /^\{([^}]+)\}$/.exec(part);
+      if (variable) {
+        variables.push(variable[1]!);
+        return '([^/?#]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return { template, pattern: new RegExp(`^${source}$`), variables };
+}
+
+/**
+ * Resource text: structuredContent when the tool has an outputSchema, rendered JSON otherwise
+ */
+function resourceText(result: ToolResult): string {
+  if (result.structuredContent) {
+    return JSON.stringify(result.structuredContent, null, 2);
+  }
+  return result.content.map((item) => item.text).join('\n');
+}
+
+/**
+ * Resource Registry class
+ */
+export class ResourceRegistry {
+  private readonly resources: Map<string, ResourceDefinition>;
+  private readonly templates: Map<string, CompiledTemplate>;
+
+  constructor() {
+    this.resources = new Map();
+    this.templates = new Map();
+  }
+
+  /**
+   * Register a single static resource
+   */
+  register(resource: ResourceDefinition): void {
+    this.validateDefinition(resource.uri, resource);
+
+    if (this.resources.has(resource.uri)) {
+      throw new Error(`Resource already registered: ${resource.uri}`);
+    }
+
+    this.resources.set(resource.uri, resource);
+  }
+
+  /**
+   * Register multiple static resources
+   */
+  registerMany(resources: ResourceDefinition[]): void {
+    for (const resource of resources) {
+      this.register(resource);
+    }
+  }
+
+  /**
+   * Register a single resource template
+   */
+  registerTemplate(template: ResourceTemplateDefinition): void {
+    this.validateDefinition(template.uriTemplate, template);
+
+    if (this.templates.has(template.uriTemplate)) {
+      throw new Error(`Resource template already registered: ${template.uriTemplate}`);
+    }
+
+    this.templates.set(template.uriTemplate, compileTemplate(template));
+  }
+
+  /**
+   * Register multiple resource templates
+   */
+  registerTemplates(templates: ResourceTemplateDefinition[]): void {
+    for (const template of templates) {
+      this.registerTemplate(template);
+    }
+  }
+
+  /**
+   * Get all static resources
+   */
+  getAll(): ResourceDefinition[] {
+    return Array.from(this.resources.values());
+  }
+
+  /**
+   * Get all resource templates
+   */
+  getTemplates(): ResourceTemplateDefinition[] {
+    return Array.from(this.templates.values()).map(({ template }) => template);
+  }
+
+  /**
+   * Get resource and template count
+   */
+  count(): number {
+    return this.resources.size + this.templates.size;
+  }
+
+  /**
+   * Resolve a URI to a static resource or a matching template
+   */
+  resolve(uri: string): ResolvedResource {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return { resource, params: {} };
+    }
+
+    for (const { template, pattern, variables } of this.templates.values()) {
+      const match = pattern.exec(uri);
+      if (!match) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      variables.forEach((variable, index) => {
+        params[variable] = decodeURIComponent(match[index + 1]!);
+      });
+      return { resource: template, params };
+    }
+
+    throw new ResourceNotFoundError(uri);
+  }
+
+  /**
+   * Read a resource, running its tools through the given executor
+   */
+  async read(uri: string, execute: ToolExecutor): Promise<ResourceReadResult> {
+    const { resource, params } = this.resolve(uri);
+
+    const result = await resource.read(params, (name, args) =>
+      execute(name, { ...args, ...DATA_OUTPUT_OPTIONS })
+    );
+
+    if (result.isError) {
+      throw new Error(result.content[0]?.text ?? `Failed to read resource: ${uri}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: resource.mimeType,
+          text: resourceText(result),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validate resource or template definition
+   */
+  private validateDefinition(
+    uri: string,
+    resource: ResourceDefinition | ResourceTemplateDefinition
+  ): void {
+    const errors: string[] = [];
+
+    if (!uri || typeof uri !== 'string') {
+      errors.push('Resource URI is required and must be a string');
+    }
+
+    if (!resource.name || typeof resource.name !== 'string') {
+      errors.push('Resource name is required and must be a string');
+    }
+
+    if (!resource.mimeType || typeof resource.mimeType !== 'string') {
+      errors.push('Resource mimeType is required and must be a string');
+    }
+
+    if (!resource.read || typeof resource.read !== 'function') {
+      errors.push('Resource read is required and must be a function');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid resource definition for ${uri || 'unknown'}:\n${errors.join('\n')}`);
+    }
+  }
+
+  /**
+   * Clear all resources (for testing)
+   */
+  clear(): void {
+    this.resources.clear();
+    this.templates.clear();
+  }
+}
+
+/**
+ * Create a new resource registry
+ */
+export function createResourceRegistry(): ResourceRegistry {
+  return new ResourceRegistry();
+}
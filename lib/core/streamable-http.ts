@@ -0,0 +1,914 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * MCP Streamable HTTP transport (protocol revision 2025-03-26) on a single endpoint:
+ * - POST: JSON-RPC messages and batches, answered with JSON or, for long calls, an SSE stream
+ * - GET: SSE stream for server messages, resumable with Last-Event-ID (a resumed
+ *   stream still running stays open until its responses are sent)
+ * - DELETE: session termination, aborting the session's requests and closing its streams
+ * - Mcp-Session-Id sessions kept in a pluggable SessionStore
+ * - MCP-Protocol-Version checked against the revision negotiated for the session
+ * - Requests aborted by notifications/cancelled and, while answered with JSON,
+ *   by the client disconnecting (SSE-streamed responses stay resumable);
+ *   cancelled requests get no response, on SSE streams and in JSON bodies alike
+ * - Progress notifications sent on the SSE stream of the request
+ * - Log messages (notifications/message) sent on GET streams, at the session's logging/setLevel level
+ * - Server notifications (resource updates) sent on GET streams, queued while none is open
+ *
+ * Built on Web standard Request/Response so the Node and Workers adapters share it.
+ */
+
+import type {
+  LoggingLevel,
+  MCPSession,
+  MCPStreamEvent,
+  MCPTransportNotification,
+  MCPTransportRequest,
+  MCPTransportResponse,
+  SessionStore,
+} from '../types/index.js';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  answeredResponses,
+  isClientResponse,
+  isNotification,
+  processMCPBatch,
+  processMCPRequest,
+  type MCPHandlerContext,
+} from './mcp-transport.js';
+import {
+  DEFAULT_HTTP_PROTOCOL_VERSION,
+  PROTOCOL_VERSION_HEADER,
+  isSupportedProtocolVersion,
+  supportsFeature,
+} from './protocol.js';
+import { DEFAULT_LOGGING_LEVEL, forwardLogs, sessionLogger } from './logging.js';
+
+export const SESSION_ID_HEADER = 'Mcp-Session-Id';
+export const LAST_EVENT_ID_HEADER = 'Last-Event-ID';
+
+/**
+ * CORS headers for the MCP endpoint
+ */
+export const MCP_ALLOWED_METHODS = 'GET, POST, DELETE, OPTIONS';
+export const MCP_ALLOWED_HEADERS =
+  'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID';
+export const MCP_EXPOSED_HEADERS = 'Mcp-Session-Id';
+
+const DEFAULT_STREAMING_THRESHOLD_MS = 1000;
+const SSE_PING_INTERVAL_MS = 30000;
+const SSE_CONNECTION_TIMEOUT_MS = 55000;
+
+export interface StreamableHttpConfig {
+  sessionStore: SessionStore;
+  streamingThreshold?: number; // Calls still running after this (ms) are answered over SSE
+  pingInterval?: number; // SSE keep-alive interval in milliseconds
+  streamTimeout?: number; // Lifetime of GET streams in milliseconds
+  batchConcurrency?: number; // Batch messages processed at the same time
+}
+
+/**
+ * Session of a request and the protocol revision its messages use
+ */
+interface SessionRequest {
+  session: MCPSession;
+  protocolVersion: string;
+}
+
+/**
+ * GET stream of a session: server notifications and log messages
+ */
+interface SessionStream {
+  sessionId: string;
+  logLevel: LoggingLevel;
+  send(message: unknown): void;
+  close(): void;
+}
+
+/**
+ * SSE stream of a POST that is still running, with the GET streams resuming it
+ */
+interface LiveStream {
+  sessionId: string;
+  stream: EventStream;
+  resumed: Set<ResumedStream>;
+}
+
+/**
+ * Requests of one POST, registered for notifications/cancelled
+ *
+ * Until the response turns into a resumable SSE stream, the client
+ * disconnecting cancels them as well.
+ */
+class InFlightRequests {
+  private readonly controllers = new Map<string, AbortController>();
+
+  constructor(
+    private readonly registry: Map<string, AbortController>,
+    private readonly sessionId: string,
+    private readonly disconnect: AbortSignal
+  ) {
+    disconnect.addEventListener('abort', this.onDisconnect, { once: true });
+  }
+
+  static key(sessionId: string, requestId: unknown): string {
+    return `${sessionId}:${JSON.stringify(requestId)}`;
+  }
+
+  signalFor(requestId: unknown): AbortSignal {
+    const controller = new AbortController();
+    const key = InFlightRequests.key(this.sessionId, requestId);
+    this.controllers.set(key, controller);
+    this.registry.set(key, controller);
+    if (this.disconnect.aborted) {
+      controller.abort('client disconnected');
+    }
+    return controller.signal;
+  }
+
+  keepOnDisconnect(): void {
+    this.disconnect.removeEventListener('abort', this.onDisconnect);
+  }
+
+  release(): void {
+    this.keepOnDisconnect();
+    for (const [key, controller] of this.controllers) {
+      if (this.registry.get(key) === controller) {
+        this.registry.delete(key);
+      }
+    }
+    this.controllers.clear();
+  }
+
+  private readonly onDisconnect = () => {
+    for (const controller of this.controllers.values()) {
+      controller.abort('client disconnected');
+    }
+  };
+}
+
+/**
+ * Server notifications of a POST (progress): buffered until the response turns
+ * into an SSE stream, then sent on it; never sent with JSON responses
+ */
+class NotificationRelay {
+  private buffered: MCPTransportNotification[] = [];
+  private sink?: (notification: MCPTransportNotification) => void;
+  private closed = false;
+
+  readonly push = (notification: MCPTransportNotification): void => {
+    if (this.closed) return;
+    if (this.sink) {
+      this.sink(notification);
+    } else {
+      this.buffered.push(notification);
+    }
+  };
+
+  attach(sink: (notification: MCPTransportNotification) => void): void {
+    this.sink = sink;
+    for (const notification of this.buffered) {
+      sink(notification);
+    }
+    this.buffered = [];
+  }
+
+  close(): void {
+    this.closed = true;
+    this.buffered = [];
+  }
+}
+
+interface EventStream {
+  readable: ReadableStream<Uint8Array>;
+  send(event: MCPStreamEvent): Promise<void>;
+  close(): void;
+  closed: Promise<void>; // Resolves once closed, by the server, the client or the timeout
+}
+
+/**
+ * Position of an event in its session (event IDs are `<streamId>:<sequence>`)
+ */
+function eventSequence(eventId: string): number {
+  return Number(eventId.slice(eventId.lastIndexOf(':') + 1)) || 0;
+}
+
+function eventStreamId(eventId: string): string {
+  return eventId.slice(0, Math.max(eventId.lastIndexOf(':'), 0));
+}
+
+/**
+ * GET stream resuming a stream that is still running: the stored events after
+ * Last-Event-ID, then the live ones as they are sent, without gaps or repeats
+ */
+class ResumedStream {
+  private buffered: MCPStreamEvent[] | undefined = [];
+  private lastSequence: number;
+  private ended = false;
+
+  constructor(
+    readonly stream: EventStream,
+    lastEventId: string
+  ) {
+    this.lastSequence = eventSequence(lastEventId);
+  }
+
+  /**
+   * Live event, held back until the stored ones are replayed
+   */
+  push(event: MCPStreamEvent): void {
+    if (this.buffered) {
+      this.buffered.push(event);
+    } else {
+      this.forward(event);
+    }
+  }
+
+  replay(events: MCPStreamEvent[]): void {
+    for (const event of [...events, ...(this.buffered ?? [])]) {
+      this.forward(event);
+    }
+    this.buffered = undefined;
+    if (this.ended) {
+      this.stream.close();
+    }
+  }
+
+  /**
+   * The resumed stream is done: close once the replay is sent
+   */
+  end(): void {
+    this.ended = true;
+    if (!this.buffered) {
+      this.stream.close();
+    }
+  }
+
+  private forward(event: MCPStreamEvent): void {
+    const sequence = eventSequence(event.id);
+    if (sequence <= this.lastSequence) {
+      return;
+    }
+    this.lastSequence = sequence;
+    // Writes are queued in call order
+    void this.stream.send(event);
+  }
+}
+
+/**
+ * Open an SSE stream with keep-alive comments, closed on client abort or timeout
+ */
+function openEventStream(signal: AbortSignal, pingInterval: number, timeout?: number): EventStream {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+  let closed = false;
+  let onClosed: () => void = () => undefined;
+  const closedPromise = new Promise<void>((resolve) => {
+    onClosed = resolve;
+  });
+
+  // Writes fail once the client is gone; events stay in the session store for replay
+  const write = (chunk: string) => writer.write(encoder.encode(chunk)).catch(() => undefined);
+
+  const pingTimer = setInterval(() => void write(': ping\n\n'), pingInterval);
+  const timeoutTimer = timeout ? setTimeout(() => close(), timeout) : undefined;
+
+  function close(): void {
+    if (closed) return;
+    closed = true;
+    clearInterval(pingTimer);
+    clearTimeout(timeoutTimer);
+    signal.removeEventListener('abort', close);
+    writer.close().catch(() => {
+      // Ignore close errors
+    });
+    onClosed();
+  }
+
+  signal.addEventListener('abort', close, { once: true });
+
+  return {
+    readable,
+    async send(event) {
+      if (closed) return;
+      await write(`id: ${event.id}\nevent: message\ndata: ${JSON.stringify(event.message)}\n\n`);
+    },
+    close,
+    closed: closedPromise,
+  };
+}
+
+function isJsonRpcMessage(value: unknown): value is MCPTransportRequest {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'jsonrpc' in value;
+}
+
+function isRequestMessage(value: unknown): value is MCPTransportRequest {
+  return typeof value === 'object' && value !== null && 'id' in value && 'method' in value;
+}
+
+/**
+ * Resolve with the promise value, or undefined when it is still pending after the threshold
+ */
+async function settleWithin<T>(promise: Promise<T>, threshold: number): Promise<T | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<undefined>((resolve) => {
+    timer = setTimeout(() => resolve(undefined), threshold);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Streamable HTTP handler for the MCP endpoint
+ */
+export class StreamableHttpHandler {
+  private readonly context: MCPHandlerContext;
+  private readonly sessionStore: SessionStore;
+  private readonly streamingThreshold: number;
+  private readonly pingInterval: number;
+  private readonly streamTimeout: number;
+  private readonly batchConcurrency: number;
+  private readonly inFlight: Map<string, AbortController>; // By session and request id
+  private readonly sessionStreams: Set<SessionStream>;
+  private readonly liveStreams: Map<string, LiveStream>; // SSE-streamed POSTs by stream id
+
+  constructor(context: MCPHandlerContext, config: StreamableHttpConfig) {
+    this.context = context;
+    this.sessionStore = config.sessionStore;
+    this.streamingThreshold = config.streamingThreshold ?? DEFAULT_STREAMING_THRESHOLD_MS;
+    this.pingInterval = config.pingInterval ?? SSE_PING_INTERVAL_MS;
+    this.streamTimeout = config.streamTimeout ?? SSE_CONNECTION_TIMEOUT_MS;
+    this.batchConcurrency = config.batchConcurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    this.inFlight = new Map();
+    this.sessionStreams = new Set();
+    this.liveStreams = new Map();
+
+    // Expired sessions keep no subscriptions (the poller would keep polling for them)
+    this.sessionStore.onExpired?.((sessionId) => {
+      void this.context.subscriptionStore?.removeSubscriber(sessionId).catch((error: Error) => {
+        this.context.logger.warn('Failed to remove subscriptions of expired session', {
+          sessionId,
+          error: error.message,
+        });
+      });
+    });
+  }
+
+  /**
+   * Handle a request to the MCP endpoint
+   */
+  async handle(request: Request): Promise<Response> {
+    switch (request.method) {
+      case 'POST':
+        return this.handlePost(request);
+      case 'GET':
+        return this.handleGet(request);
+      case 'DELETE':
+        return this.handleDelete(request);
+      default:
+        return this.errorResponse(405, -32000, 'Method not allowed', { Allow: 'GET, POST, DELETE' });
+    }
+  }
+
+  /**
+   * POST: a JSON-RPC message or batch
+   */
+  private async handlePost(request: Request): Promise<Response> {
+    const accept = request.headers.get('Accept') ?? '';
+    const acceptsStream = accept.includes('text/event-stream');
+    if (accept && !acceptsStream && !accept.includes('application/json') && !accept.includes('*/*')) {
+      return this.errorResponse(
+        406,
+        -32000,
+        'Not Acceptable: client must accept application/json or text/event-stream'
+      );
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(await request.text());
+    } catch {
+      return this.errorResponse(400, -32700, 'Parse error');
+    }
+
+    if (Array.isArray(message)) {
+      return this.handleBatch(request, message, acceptsStream);
+    }
+
+    if (!isJsonRpcMessage(message)) {
+      return this.errorResponse(400, -32600, 'Invalid Request');
+    }
+
+    if (message.method === 'initialize') {
+      return this.initialize(message);
+    }
+
+    const resolved = await this.resolveSession(request);
+    if (resolved instanceof Response) {
+      return resolved;
+    }
+    const { session, protocolVersion } = resolved;
+
+    // Notifications and client responses are accepted without a body
+    if (isNotification(message) || isClientResponse(message)) {
+      if (isNotification(message)) {
+        this.cancelIfRequested(session.id, message);
+        void this.process(message, { protocolVersion, sessionId: session.id });
+      }
+      return new Response(null, { status: 202, headers: { [SESSION_ID_HEADER]: session.id } });
+    }
+
+    const inFlight = new InFlightRequests(this.inFlight, session.id, request.signal);
+    const relay = this.canStream(acceptsStream, protocolVersion) ? new NotificationRelay() : undefined;
+    const pending = this.process(message, {
+      protocolVersion,
+      signal: inFlight.signalFor(message.id),
+      notify: relay?.push,
+      setLogLevel: (level) => this.setLogLevel(session.id, level),
+      subscriberId: session.id,
+      sessionId: session.id,
+    });
+    void pending.finally(() => inFlight.release());
+
+    if (relay && (await settleWithin(pending, this.streamingThreshold)) === undefined) {
+      inFlight.keepOnDisconnect();
+      return this.streamResponse(request, session, pending.then((response) => [response]), relay);
+    }
+
+    const [response] = answeredResponses([await pending]);
+    if (!response) {
+      return new Response(null, { status: 204, headers: { [SESSION_ID_HEADER]: session.id } });
+    }
+
+    return this.jsonResponse(response, 200, session.id);
+  }
+
+  /**
+   * Batch: responses in batch order, or 204 when no request is left to answer
+   */
+  private async handleBatch(request: Request, batch: unknown[], acceptsStream: boolean): Promise<Response> {
+    if (batch.length === 0) {
+      return this.errorResponse(400, -32600, 'Invalid Request: empty batch');
+    }
+
+    if (batch.some((message) => isJsonRpcMessage(message) && message.method === 'initialize')) {
+      return this.errorResponse(400, -32600, 'Invalid Request: initialize must not be part of a batch');
+    }
+
+    const resolved = await this.resolveSession(request);
+    if (resolved instanceof Response) {
+      return resolved;
+    }
+    const { session, protocolVersion } = resolved;
+
+    for (const message of batch) {
+      this.cancelIfRequested(session.id, message);
+    }
+
+    const inFlight = new InFlightRequests(this.inFlight, session.id, request.signal);
+    const relay = this.canStream(acceptsStream, protocolVersion) ? new NotificationRelay() : undefined;
+    const pending = processMCPBatch(
+      batch,
+      {
+        ...this.context,
+        protocolVersion,
+        notify: relay?.push,
+        setLogLevel: (level) => this.setLogLevel(session.id, level),
+        subscriberId: session.id,
+        sessionId: session.id,
+        logger: sessionLogger(this.context.logger, session.id),
+      },
+      this.batchConcurrency,
+      (message) => (isRequestMessage(message) ? inFlight.signalFor(message.id) : undefined)
+    );
+    void pending.finally(() => inFlight.release());
+
+    if (relay && (await settleWithin(pending, this.streamingThreshold)) === undefined) {
+      inFlight.keepOnDisconnect();
+      return this.streamResponse(request, session, pending, relay);
+    }
+
+    const responses = answeredResponses(await pending);
+    if (responses.length === 0) {
+      return new Response(null, { status: 204, headers: { [SESSION_ID_HEADER]: session.id } });
+    }
+
+    return this.jsonResponse(responses, 200, session.id);
+  }
+
+  /**
+   * GET: standalone SSE stream, or replay of an interrupted stream with Last-Event-ID
+   */
+  private async handleGet(request: Request): Promise<Response> {
+    if (!(request.headers.get('Accept') ?? '').includes('text/event-stream')) {
+      return this.errorResponse(406, -32000, 'Not Acceptable: client must accept text/event-stream');
+    }
+
+    const resolved = await this.resolveSession(request);
+    if (resolved instanceof Response) {
+      return resolved;
+    }
+    const { session, protocolVersion } = resolved;
+
+    // Clients on revisions without streamable HTTP get no server-initiated stream
+    if (!supportsFeature(protocolVersion, 'streamableHttp')) {
+      return this.errorResponse(405, -32000, 'Method not allowed', { Allow: 'POST, DELETE' });
+    }
+
+    const lastEventId = request.headers.get(LAST_EVENT_ID_HEADER);
+    if (!lastEventId) {
+      // Server-initiated messages only; the client reopens the stream after the timeout
+      const stream = openEventStream(request.signal, this.pingInterval, this.streamTimeout);
+      this.openSessionStream(stream, session);
+      return this.sseResponse(stream, session.id);
+    }
+
+    // Replay what the interrupted stream missed; a POST stream still running in
+    // this handler (on Workers, the same isolate) is then followed until its
+    // responses are sent, any other stream closes after the replay
+    const stream = openEventStream(request.signal, this.pingInterval);
+    const resumed = new ResumedStream(stream, lastEventId);
+    const live = this.liveStreams.get(eventStreamId(lastEventId));
+    if (live?.sessionId === session.id) {
+      live.resumed.add(resumed);
+      void stream.closed.then(() => live.resumed.delete(resumed));
+    } else {
+      resumed.end();
+    }
+
+    resumed.replay(await this.sessionStore.replayEventsAfter(session.id, lastEventId));
+
+    return this.sseResponse(stream, session.id);
+  }
+
+  /**
+   * DELETE: terminate the session
+   */
+  private async handleDelete(request: Request): Promise<Response> {
+    const sessionId = request.headers.get(SESSION_ID_HEADER);
+    if (!sessionId) {
+      return this.errorResponse(400, -32000, `Bad Request: ${SESSION_ID_HEADER} header is required`);
+    }
+
+    if (!(await this.sessionStore.delete(sessionId))) {
+      return this.errorResponse(404, -32001, 'Session not found');
+    }
+    this.endSession(sessionId);
+    await this.context.subscriptionStore?.removeSubscriber(sessionId);
+
+    this.context.logger.info('MCP session terminated', { sessionId });
+    return new Response(null, { status: 204 });
+  }
+
+  /**
+   * Initialize: a successful handshake starts a new session
+   */
+  private async initialize(message: MCPTransportRequest): Promise<Response> {
+    const response = await this.process(message);
+    if (response.error) {
+      return this.jsonResponse(response, 200);
+    }
+
+    const params = (message.params ?? {}) as {
+      clientInfo?: { name?: unknown; version?: unknown };
+    };
+    const now = Date.now();
+    const session: MCPSession = {
+      id: crypto.randomUUID(),
+      createdAt: now,
+      lastActivityAt: now,
+      protocolVersion: (response.result as { protocolVersion: string }).protocolVersion,
+      clientInfo:
+        typeof params.clientInfo?.name === 'string'
+          ? { name: params.clientInfo.name, version: String(params.clientInfo.version ?? '') }
+          : undefined,
+    };
+
+    await this.sessionStore.create(session);
+    this.context.logger.info('MCP session created', {
+      sessionId: session.id,
+      client: session.clientInfo?.name,
+      protocolVersion: session.protocolVersion,
+    });
+
+    return this.jsonResponse(response, 200, session.id);
+  }
+
+  /**
+   * Abort the requests of a terminated session and close its SSE streams
+   * (those running in this handler; on Workers, the same isolate)
+   */
+  private endSession(sessionId: string): void {
+    for (const [key, controller] of this.inFlight) {
+      if (key.startsWith(`${sessionId}:`)) {
+        controller.abort('session terminated');
+      }
+    }
+
+    for (const sessionStream of this.sessionStreams) {
+      if (sessionStream.sessionId === sessionId) {
+        sessionStream.close();
+      }
+    }
+
+    for (const [streamId, live] of this.liveStreams) {
+      if (live.sessionId === sessionId) {
+        this.endLiveStream(streamId);
+      }
+    }
+  }
+
+  /**
+   * Close an SSE-streamed POST and the GET streams resuming it
+   */
+  private endLiveStream(streamId: string): void {
+    const live = this.liveStreams.get(streamId);
+    if (!live) {
+      return;
+    }
+
+    this.liveStreams.delete(streamId);
+    live.stream.close();
+    for (const resumed of live.resumed) {
+      resumed.end();
+    }
+  }
+
+  /**
+   * Session and protocol revision of the request, or the error response to send
+   *
+   * MCP-Protocol-Version must be a supported revision and match the one
+   * negotiated for the session; without the header the negotiated revision
+   * applies (2025-03-26 for sessions that have none).
+   */
+  private async resolveSession(request: Request): Promise<SessionRequest | Response> {
+    const sessionId = request.headers.get(SESSION_ID_HEADER);
+    if (!sessionId) {
+      return this.errorResponse(400, -32000, `Bad Request: ${SESSION_ID_HEADER} header is required`);
+    }
+
+    const requestedVersion = request.headers.get(PROTOCOL_VERSION_HEADER);
+    if (requestedVersion !== null && !isSupportedProtocolVersion(requestedVersion)) {
+      return this.errorResponse(
+        400,
+        -32000,
+        `Bad Request: unsupported ${PROTOCOL_VERSION_HEADER} ${requestedVersion}`
+      );
+    }
+
+    const session = await this.sessionStore.touch(sessionId);
+    if (!session) {
+      return this.errorResponse(404, -32001, 'Session not found');
+    }
+
+    if (requestedVersion !== null && session.protocolVersion && requestedVersion !== session.protocolVersion) {
+      return this.errorResponse(
+        400,
+        -32000,
+        `Bad Request: ${PROTOCOL_VERSION_HEADER} does not match the negotiated version ${session.protocolVersion}`
+      );
+    }
+
+    return {
+      session,
+      protocolVersion: requestedVersion ?? session.protocolVersion ?? DEFAULT_HTTP_PROTOCOL_VERSION,
+    };
+  }
+
+  /**
+   * logging/setLevel: stored with the session and applied to its open GET streams
+   *
+   * Streams only get log messages logged by this handler (on Workers, the
+   * same isolate); the stored level applies to streams opened later.
+   */
+  private async setLogLevel(sessionId: string, level: LoggingLevel): Promise<void> {
+    await this.sessionStore.setLogLevel(sessionId, level);
+    for (const sessionStream of this.sessionStreams) {
+      if (sessionStream.sessionId === sessionId) {
+        sessionStream.logLevel = level;
+      }
+    }
+    this.context.logger.debug('MCP session log level set', { sessionId, level });
+  }
+
+  /**
+   * Send a server notification to a session: on its GET streams open in this
+   * handler, otherwise queued until the session opens one
+   *
+   * The subscriptions of a session that is gone (expired elsewhere, e.g. in
+   * its Durable Object) are removed.
+   */
+  async notifySession(sessionId: string, notification: MCPTransportNotification): Promise<void> {
+    let sent = false;
+    for (const sessionStream of this.sessionStreams) {
+      if (sessionStream.sessionId === sessionId) {
+        sessionStream.send(notification);
+        sent = true;
+      }
+    }
+
+    if (!sent && !(await this.sessionStore.queueNotification(sessionId, notification))) {
+      await this.context.subscriptionStore?.removeSubscriber(sessionId);
+    }
+  }
+
+  /**
+   * Serve a GET stream until it closes: queued notifications first, then
+   * notifications and the session's log messages as they come, all stored for replay
+   */
+  private openSessionStream(stream: EventStream, session: MCPSession): void {
+    const streamId = crypto.randomUUID();
+
+    // Sent one at a time, in order; failures are not logged (they would be forwarded again)
+    let sending = Promise.resolve();
+    const sessionStream: SessionStream = {
+      sessionId: session.id,
+      logLevel: session.logLevel ?? DEFAULT_LOGGING_LEVEL,
+      send: (message) => {
+        sending = sending
+          .then(async () => {
+            const id = await this.sessionStore.storeEvent(session.id, streamId, message);
+            await stream.send({ id, streamId, message });
+          })
+          .catch(() => undefined);
+      },
+      close: () => stream.close(),
+    };
+    this.sessionStreams.add(sessionStream);
+
+    void this.sessionStore
+      .takeNotifications(session.id)
+      .then((queued) => queued.forEach((message) => sessionStream.send(message)))
+      .catch(() => undefined);
+
+    const stop = forwardLogs(this.context.logger, () => sessionStream.logLevel, sessionStream.send, session.id);
+
+    void stream.closed.then(() => {
+      stop();
+      this.sessionStreams.delete(sessionStream);
+    });
+  }
+
+  /**
+   * SSE-streamed POST responses need a client that accepts them on a revision that has them
+   */
+  private canStream(acceptsStream: boolean, protocolVersion: string): boolean {
+    return acceptsStream && supportsFeature(protocolVersion, 'streamableHttp');
+  }
+
+  /**
+   * Abort the request named by a notifications/cancelled message
+   *
+   * Cancellations only reach requests running in this handler (on Workers,
+   * the same isolate).
+   */
+  private cancelIfRequested(sessionId: string, message: unknown): void {
+    if (!isJsonRpcMessage(message) || message.method !== 'notifications/cancelled') {
+      return;
+    }
+
+    const params = (message.params ?? {}) as { requestId?: unknown; reason?: unknown };
+    const controller = this.inFlight.get(InFlightRequests.key(sessionId, params.requestId));
+    if (controller) {
+      this.context.logger.info('MCP request cancelled by client', {
+        sessionId,
+        requestId: params.requestId as string | number,
+      });
+      controller.abort(typeof params.reason === 'string' ? params.reason : 'cancelled by client');
+    }
+  }
+
+  /**
+   * Process one message with request-specific context (revision, signal, notifications, session)
+   */
+  private async process(
+    message: MCPTransportRequest,
+    request: Pick<
+      MCPHandlerContext,
+      'protocolVersion' | 'signal' | 'notify' | 'setLogLevel' | 'subscriberId' | 'sessionId'
+    > = {}
+  ): Promise<MCPTransportResponse> {
+    try {
+      return await processMCPRequest(message, {
+        ...this.context,
+        ...request,
+        logger: sessionLogger(this.context.logger, request.sessionId),
+      });
+    } catch (error) {
+      this.context.logger.error('Streamable HTTP request failed', error as Error);
+      return {
+        jsonrpc: '2.0',
+        id: message.id ?? null,
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    }
+  }
+
+  /**
+   * Answer a long call over SSE: keep-alive pings and notifications until the
+   * responses are ready, then one event per response
+   */
+  private streamResponse(
+    request: Request,
+    session: MCPSession,
+    pending: Promise<MCPTransportResponse[]>,
+    relay: NotificationRelay
+  ): Response {
+    const streamId = crypto.randomUUID();
+    const stream = openEventStream(request.signal, this.pingInterval);
+    const live: LiveStream = { sessionId: session.id, stream, resumed: new Set() };
+    this.liveStreams.set(streamId, live);
+
+    // Messages are stored for replay and sent one at a time, in order, also
+    // on the GET streams resuming this one
+    let sending = Promise.resolve();
+    const send = (message: unknown) => {
+      sending = sending
+        .then(async () => {
+          const id = await this.sessionStore.storeEvent(session.id, streamId, message);
+          const event = { id, streamId, message };
+          for (const resumed of live.resumed) {
+            resumed.push(event);
+          }
+          await stream.send(event);
+        })
+        .catch((error) => {
+          this.context.logger.error('Failed to send streamed MCP message', error as Error, {
+            sessionId: session.id,
+          });
+        });
+    };
+
+    relay.attach(send);
+
+    void pending
+      .then(async (responses) => {
+        relay.close();
+        for (const response of answeredResponses(responses)) {
+          send(response);
+        }
+        await sending;
+      })
+      .catch((error) => {
+        this.context.logger.error('Failed to send streamed MCP response', error as Error, {
+          sessionId: session.id,
+        });
+      })
+      .finally(() => this.endLiveStream(streamId));
+
+    return this.sseResponse(stream, session.id);
+  }
+
+  private sseResponse(stream: EventStream, sessionId: string): Response {
+    return new Response(stream.readable, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        [SESSION_ID_HEADER]: sessionId,
+      },
+    });
+  }
+
+  private jsonResponse(data: unknown, status: number, sessionId?: string): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(sessionId ? { [SESSION_ID_HEADER]: sessionId } : {}),
+      },
+    });
+  }
+
+  private errorResponse(
+    status: number,
+    code: number,
+    message: string,
+    headers: Record<string, string> = {}
+  ): Response {
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    });
+  }
+}
+
+/**
+ * Create Streamable HTTP handler
+ */
+export function createStreamableHttpHandler(
+  context: MCPHandlerContext,
+  config: StreamableHttpConfig
+): StreamableHttpHandler {
+  return new StreamableHttpHandler(context, config);
+}
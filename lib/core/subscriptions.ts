@@ -0,0 +1,269 @@
+/**
+ * Resource Subscriptions
+ *
+ * resources/subscribe for senado://materia/{codigo} and the poller telling
+ * subscribers when the matéria moves:
+ * - Checks materias_atualizadas for the window since the last poll
+ * - Sends notifications/resources/updated to the subscribers of each updated matéria
+ * - Drops every cached result of the matéria tools for updated matérias
+ * - Runs on a timer (Node) or once per cron trigger (Workers)
+ */
+
+import type { Logger, MCPTransportNotification, SubscriptionStore, ToolContext } from '../types/index.js';
+import type { ToolRegistry } from './tools.js';
+import { DATA_OUTPUT_OPTIONS, toolResultData } from './output.js';
+
+export const SUBSCRIBABLE_URI_TEMPLATE = 'senado://materia/{codigo}';
+
+const MATERIA_URI_PATTERN = /^senado:\/\/materia\/(\d+)$/;
+
+const UPDATES_TOOL = 'materias_atualizadas';
+const UPDATES_PAGE_SIZE = 100;
+const UPDATES_MAX_PAGES = 10;
+
+/**
+ * Tools whose cached results describe a single matéria, by código
+ */
+const MATERIA_TOOLS = [
+  'materia_detalhes',
+  'materia_votacoes',
+  'materia_tramitacoes',
+  'materia_textos',
+  'materia_autores',
+  'materia_relacionadas',
+  'materia_relatorias',
+  'materia_emendas',
+  'materia_linha_do_tempo',
+];
+
+/**
+ * The Senado API dates updates in Brasília time
+ */
+const SENADO_TIME_ZONE = 'America/Sao_Paulo';
+
+/**
+ * Send a notification to a subscriber
+ */
+export type SubscriberNotifier = (
+  subscriberId: string,
+  notification: MCPTransportNotification
+) => void | Promise<void>;
+
+/**
+ * Código of a subscribable matéria URI
+ */
+export function materiaCodeFromUri(uri: string): number | undefined {
+  const match = MATERIA_URI_PATTERN.exec(uri);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function isSubscribableUri(uri: string): boolean {
+  return materiaCodeFromUri(uri) !== undefined;
+}
+
+/**
+ * notifications/resources/updated for a URI
+ */
+export function resourceUpdatedNotification(uri: string): MCPTransportNotification {
+  return { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } };
+}
+
+/**
+ * data (YYYY-MM-DD) and hora (HHMMSS) of a time, in Brasília time
+ */
+export function toSenadoDateTime(time: number): { data: string; hora: string } {
+  const parts: Record<string, string> = {};
+  const format = new Intl.DateTimeFormat('en-CA', {
+    timeZone: SENADO_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  });
+  for (const { type, value } of format.formatToParts(new Date(time))) {
+    parts[type] = value;
+  }
+
+  return {
+    data: `${parts['year']}-${parts['month']}-${parts['day']}`,
+    hora: `${parts['hour']}${parts['minute']}${parts['second']}`,
+  };
+}
+
+/**
+ * Poller for updates of subscribed matérias
+ */
+export class ResourcePoller {
+  private readonly store: SubscriptionStore;
+  private readonly toolRegistry: ToolRegistry;
+  private readonly toolContext: ToolContext;
+  private readonly notify: SubscriberNotifier;
+  private readonly logger: Logger;
+  private timer?: ReturnType<typeof setInterval>;
+  private polling = false;
+
+  constructor(
+    store: SubscriptionStore,
+    toolRegistry: ToolRegistry,
+    toolContext: ToolContext,
+    notify: SubscriberNotifier,
+    logger: Logger
+  ) {
+    this.store = store;
+    this.toolRegistry = toolRegistry;
+    this.toolContext = toolContext;
+    this.notify = notify;
+    this.logger = logger;
+  }
+
+  /**
+   * Check for updates since the last poll and notify subscribers
+   *
+   * The first poll only sets the checkpoint. The checkpoint moves forward
+   * only when the check succeeds, so a failed window is checked again.
+   * Returns the updated URIs.
+   */
+  async poll(now: number = Date.now()): Promise<string[]> {
+    const checkpoint = await this.store.getCheckpoint();
+    const subscriptions = await this.store.getSubscriptions();
+    const codes = new Map<number, string>();
+    for (const uri of Object.keys(subscriptions)) {
+      const codigo = materiaCodeFromUri(uri);
+      if (codigo !== undefined) {
+        codes.set(codigo, uri);
+      }
+    }
+
+    if (checkpoint === null || codes.size === 0) {
+      await this.store.setCheckpoint(now);
+      return [];
+    }
+
+    const updated = new Set<string>();
+    for (const codigo of await this.fetchUpdatedCodes(checkpoint)) {
+      const uri = codes.get(codigo);
+      if (uri) {
+        updated.add(uri);
+      }
+    }
+
+    for (const uri of updated) {
+      await this.invalidate(materiaCodeFromUri(uri)!);
+      for (const subscriberId of subscriptions[uri] ?? []) {
+        try {
+          await this.notify(subscriberId, resourceUpdatedNotification(uri));
+        } catch (error) {
+          this.logger.warn('Failed to notify resource update', {
+            subscriberId,
+            uri,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    await this.store.setCheckpoint(now);
+
+    if (updated.size > 0) {
+      this.logger.info('Subscribed resources updated', { uris: Array.from(updated) });
+    }
+    return Array.from(updated);
+  }
+
+  /**
+   * Poll on an interval until stopped (overlapping polls are skipped)
+   */
+  start(interval: number): void {
+    this.stop();
+    this.timer = setInterval(() => void this.tick(), interval);
+    // Polling alone never keeps the process alive
+    (this.timer as { unref?: () => void }).unref?.();
+    void this.tick();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.poll();
+    } catch (error) {
+      this.logger.warn('Resource update poll failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Códigos of the matérias updated since the given time
+   */
+  private async fetchUpdatedCodes(since: number): Promise<number[]> {
+    const codes: number[] = [];
+
+    for (let pagina = 1; pagina <= UPDATES_MAX_PAGES; pagina++) {
+      // Straight to the tool: a cached page would hide new updates
+      const result = await this.toolRegistry.invoke(
+        UPDATES_TOOL,
+        { ...toSenadoDateTime(since), pagina, itens: UPDATES_PAGE_SIZE, ...DATA_OUTPUT_OPTIONS },
+        this.toolContext
+      );
+      if (result.isError) {
+        throw new Error(result.content[0]?.text ?? `${UPDATES_TOOL} failed`);
+      }
+
+      const data = toolResultData(result);
+      const materias = Array.isArray(data) ? (data as Array<{ codigo?: unknown }>) : [];
+      for (const materia of materias) {
+        if (typeof materia.codigo === 'number') {
+          codes.push(materia.codigo);
+        }
+      }
+
+      if (materias.length < UPDATES_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return codes;
+  }
+
+  /**
+   * Drop the cached tool results and resource reads of a matéria, whatever
+   * the other arguments (output options, dates, pages) they were cached with
+   */
+  private async invalidate(codigo: number): Promise<void> {
+    const { cache } = this.toolContext;
+    if (!cache) {
+      return;
+    }
+
+    for (const tool of MATERIA_TOOLS) {
+      await cache.deleteMatching(tool, { codigo });
+    }
+  }
+}
+
+/**
+ * Create resource poller
+ */
+export function createResourcePoller(
+  store: SubscriptionStore,
+  toolRegistry: ToolRegistry,
+  toolContext: ToolContext,
+  notify: SubscriberNotifier,
+  logger: Logger
+): ResourcePoller {
+  return new ResourcePoller(store, toolRegistry, toolContext, notify, logger);
+}
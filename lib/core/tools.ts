@@ -7,10 +7,30 @@
  * - List all tools
  * - Tool validation
  * - Category organization
+ * - Output formatting (formato / maxCaracteres / continuarDe / continuarDoCaractere)
+ * - Output schemas and structuredContent
+ * - Cancellation through the context AbortSignal
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
-import { ToolNotFoundError } from './errors.js';
+import type { HttpClient, ToolAnnotations, ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import { OutputValidationError, RequestCancelledError, ToolNotFoundError, throwIfCancelled } from './errors.js';
+import {
+  isToolOutput,
+  renderToolOutput,
+  splitOutputOptions,
+  toStructuredContent,
+  withOutputOptions,
+} from './output.js';
+import { zodToOutputJsonSchema } from './validation.js';
+
+/**
+ * Annotations of the Senado tools: they only read the public Senado API
+ */
+export const READ_ONLY_TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  idempotentHint: true,
+  openWorldHint: true,
+};
 
 /**
  * Tool Registry class
@@ -18,10 +38,12 @@ import { ToolNotFoundError } from './errors.js';
 export class ToolRegistry {
   private readonly tools: Map<string, ToolDefinition>;
   private readonly toolsByCategory: Map<string, ToolDefinition[]>;
+  private readonly outputSchemas: Map<string, Record<string, unknown>>;
 
   constructor() {
     this.tools = new Map();
     this.toolsByCategory = new Map();
+    this.outputSchemas = new Map();
   }
 
   /**
@@ -36,14 +58,22 @@ export class ToolRegistry {
       throw new Error(`Tool already registered: ${tool.name}`);
     }
 
-    // Register tool
-    this.tools.set(tool.name, tool);
+    // Register tool with the common output options in its schema
+    const registered: ToolDefinition = {
+      ...tool,
+      inputSchema: withOutputOptions(tool.inputSchema),
+    };
+    this.tools.set(tool.name, registered);
+
+    if (tool.outputSchema) {
+      this.outputSchemas.set(tool.name, zodToOutputJsonSchema(tool.outputSchema));
+    }
 
     // Add to category
     if (!this.toolsByCategory.has(tool.category)) {
       this.toolsByCategory.set(tool.category, []);
     }
-    this.toolsByCategory.get(tool.category)!.push(tool);
+    this.toolsByCategory.get(tool.category)!.push(registered);
   }
 
   /**
@@ -75,6 +105,13 @@ export class ToolRegistry {
     return this.tools.has(name);
   }
 
+  /**
+   * Get the JSON Schema advertised as `outputSchema` (undefined when the tool has none)
+   */
+  getOutputSchema(name: string): Record<string, unknown> | undefined {
+    return this.outputSchemas.get(name);
+  }
+
   /**
    * Get all tools
    */
@@ -118,7 +155,10 @@ export class ToolRegistry {
   }
 
   /**
-   * Invoke tool with arguments
+   * Invoke tool with arguments and render its output
+   *
+   * With `context.signal`, the handler's HTTP calls are aborted with it and
+   * the invocation rejects with RequestCancelledError as soon as it fires.
    */
   async invoke(
     name: string,
@@ -126,9 +166,30 @@ export class ToolRegistry {
     context: ToolContext
   ): Promise<ToolResult> {
     const tool = this.get(name);
+    const { args: toolArgs, options } = splitOutputOptions(args, name);
+    throwIfCancelled(context.signal);
 
     try {
-      return await tool.handler(args, context);
+      const result = context.signal
+        ? await whenNotCancelled(
+            tool.handler(toolArgs, { ...context, httpClient: withSignal(context.httpClient, context.signal) }),
+            context.signal
+          )
+        : await tool.handler(toolArgs, context);
+      if (!tool.outputSchema || !isToolOutput(result)) {
+        return renderToolOutput(result, options);
+      }
+
+      const parsed = tool.outputSchema.safeParse(toStructuredContent(result.data));
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        throw new OutputValidationError(
+          name,
+          issue ? `${issue.path.join('.') || 'output'}: ${issue.message}` : 'output does not match outputSchema'
+        );
+      }
+
+      return renderToolOutput(result, options, parsed.data as Record<string, unknown>);
     } catch (error) {
       // Let errors bubble up - they'll be caught by the MCP server
       throw error;
@@ -194,9 +255,33 @@ export class ToolRegistry {
   clear(): void {
     this.tools.clear();
     this.toolsByCategory.clear();
+    this.outputSchemas.clear();
   }
 }
 
+/**
+ * HTTP client whose requests are aborted with the signal
+ */
+function withSignal(httpClient: HttpClient, signal: AbortSignal): HttpClient {
+  return {
+    get: (endpoint, params, options) => httpClient.get(endpoint, params, { signal, ...options }),
+    post: (endpoint, data, options) => httpClient.post(endpoint, data, { signal, ...options }),
+  };
+}
+
+/**
+ * Settle with the promise, or reject with RequestCancelledError once the signal aborts
+ */
+function whenNotCancelled<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  let onCancel: () => void = () => undefined;
+  const cancelled = new Promise<never>((_, reject) => {
+    onCancel = () => reject(new RequestCancelledError());
+    signal.addEventListener('abort', onCancel, { once: true });
+  });
+
+  return Promise.race([promise, cancelled]).finally(() => signal.removeEventListener('abort', onCancel));
+}
+
 /**
  * Create a new tool registry
  */
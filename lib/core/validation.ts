@@ -31,6 +31,30 @@ export const DateRangeSchema = z.object({
   dataFim: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Data final (YYYY-MM-DD)'),
 });
 
+/**
+ * Output options schema (common to every tool, applied by the ToolRegistry)
+ */
+export const OutputOptionsSchema = z.object({
+  formato: z
+    .enum(['resumo', 'completo', 'markdown', 'json'])
+    .optional()
+    .describe('Formato da resposta'),
+  maxCaracteres: z
+    .number()
+    .int()
+    .min(500)
+    .max(200000)
+    .optional()
+    .describe('Orçamento de caracteres da resposta'),
+  continuarDe: z.number().int().min(0).optional().describe('Item a partir do qual continuar uma lista truncada'),
+  continuarDoCaractere: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Caractere a partir do qual continuar uma resposta truncada por caracteres'),
+});
+
 /**
  * Code/ID schema (for senator, proposal, etc.)
  */
@@ -57,7 +81,9 @@ export const ListSenatorsSchema = z.object({
   nome: z.string().max(100).optional().describe('Nome do senador (busca parcial)'),
   partido: z.string().max(20).optional().describe('Sigla do partido'),
   uf: UFSchema.optional(),
-  legislatura: LegislatureSchema.optional(),
+  legislatura: LegislatureSchema.optional().describe('Legislatura (lista histórica; sem ela, senadores em exercício)'),
+  legislaturaFim: LegislatureSchema.optional().describe('Última legislatura de um intervalo iniciado em "legislatura"'),
+  incluirAfastados: z.boolean().optional().describe('Inclui os senadores afastados na lista atual (padrão: false)'),
   ...PaginationSchema.shape,
 });
 
@@ -77,6 +103,13 @@ export const SenatorVotingSchema = z.object({
   ...PaginationSchema.shape,
 });
 
+/**
+ * Senator party alignment schema
+ */
+export const SenatorPartyAlignmentSchema = SenatorVotingSchema.extend({
+  partido: z.string().max(20).optional().describe('Sigla do partido ou bloco de referência (padrão: partido do senador na data de cada votação)'),
+});
+
 /**
  * Senator authorships schema
  */
@@ -265,6 +298,15 @@ export const ProposalAmendmentsSchema = z.object({
   ...PaginationSchema.shape,
 });
 
+/**
+ * Proposal timeline schema
+ */
+export const ProposalTimelineSchema = z.object({
+  codigo: CodeSchema.describe('Código da matéria'),
+  ...DateRangeSchema.shape,
+  ...PaginationSchema.shape,
+});
+
 // ============================================================================
 // Voting Tool Schemas
 // ============================================================================
@@ -305,6 +347,17 @@ export const VotingStatisticsSchema = z.object({
   codigo: CodeSchema.describe('Código da votação'),
 });
 
+/**
+ * Voting similarity matrix schema
+ */
+export const VotingSimilaritySchema = z.object({
+  ...DateRangeSchema.shape,
+  votacoes: z.array(CodeSchema).min(2).max(200).optional().describe('Códigos das votações a comparar (alternativa ao período)'),
+  limite: z.number().int().min(2).max(200).optional().describe('Número máximo de votações analisadas, as primeiras do período em ordem cronológica (padrão: 50)'),
+  minimoVotacoesComuns: z.number().int().min(1).optional().describe('Mínimo de votações em comum para comparar dois senadores (padrão: 3)'),
+  limiarBloco: z.number().min(0).max(1).optional().describe('Concordância mínima (0 a 1) para agrupar senadores no mesmo bloco (padrão: 0.8)'),
+});
+
 // ============================================================================
 // Committee Tool Schemas
 // ============================================================================
@@ -515,6 +568,401 @@ export const PlenaryResultsByMonthSchema = z.object({
   data: z.string().regex(/^\d{8}$/).describe('Data no formato YYYYMMDD'),
 });
 
+// ============================================================================
+// Prompt Argument Schemas (MCP prompt arguments are always strings)
+// ============================================================================
+
+const PromptCodeSchema = z.coerce.number().int().positive();
+const PromptDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * analisar_materia prompt arguments
+ */
+export const AnalyzeProposalPromptSchema = z.object({
+  codigo: PromptCodeSchema.describe('Código da matéria'),
+  foco: z.string().max(200).optional().describe('Aspecto a aprofundar (ex.: impacto fiscal, constitucionalidade)'),
+});
+
+/**
+ * perfil_senador prompt arguments
+ */
+export const SenatorProfilePromptSchema = z.object({
+  senador: z.string().min(1).max(100).describe('Código ou nome do senador'),
+  dataInicio: PromptDateSchema.optional().describe('Início do período analisado (YYYY-MM-DD)'),
+  dataFim: PromptDateSchema.optional().describe('Fim do período analisado (YYYY-MM-DD)'),
+});
+
+/**
+ * resumo_votacao prompt arguments
+ */
+export const VotingSummaryPromptSchema = z.object({
+  codigo: PromptCodeSchema.describe('Código da votação'),
+});
+
+/**
+ * agenda_da_semana prompt arguments
+ */
+export const WeeklyAgendaPromptSchema = z.object({
+  data: PromptDateSchema.optional().describe('Qualquer dia da semana desejada (YYYY-MM-DD, padrão: hoje)'),
+});
+
+/**
+ * comparar_senadores prompt arguments
+ */
+export const CompareSenatorsPromptSchema = z.object({
+  senadores: z
+    .string()
+    .transform((value) => value.split(',').map((item) => item.trim()).filter((item) => item.length > 0))
+    .pipe(z.array(z.string().max(100)).min(2).max(5))
+    .describe('Códigos ou nomes de 2 a 5 senadores, separados por vírgula'),
+  dataInicio: PromptDateSchema.optional().describe('Início do período comparado (YYYY-MM-DD)'),
+  dataFim: PromptDateSchema.optional().describe('Fim do período comparado (YYYY-MM-DD)'),
+});
+
+// ============================================================================
+// Output Schemas (advertised as MCP outputSchema, see lib/types Normalized models)
+// ============================================================================
+
+const NormalizedVoteSchema = z.enum(['SIM', 'NAO', 'ABSTENCAO', 'OBSTRUCAO', 'LIBERADO', 'OUTRO']);
+
+/**
+ * Wrap a list schema: list results are exposed as `{ itens: [...] }` in structuredContent
+ */
+export function listOutputSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    itens: z.array(item).describe('Itens retornados'),
+  });
+}
+
+const OrgaoResumoOutputSchema = z.object({
+  codigo: z.number().optional(),
+  sigla: z.string().optional(),
+  nome: z.string().optional(),
+});
+
+const ParlamentarResumoOutputSchema = z.object({
+  codigoParlamentar: z.number().optional(),
+  nome: z.string().optional(),
+  partido: z.string().optional(),
+  uf: z.string().optional(),
+});
+
+export const MandatoOutputSchema = z.object({
+  codigo: z.number().optional(),
+  uf: z.string().optional(),
+  participacao: z.string().optional(),
+  legislaturas: z.array(z.number()),
+  dataInicio: z.string().optional(),
+  dataFim: z.string().optional(),
+});
+
+export const SenadorOutputSchema = z.object({
+  codigo: z.number().describe('Código do senador'),
+  nome: z.string().describe('Nome parlamentar'),
+  nomeCompleto: z.string().optional(),
+  sexo: z.string().optional(),
+  formaTratamento: z.string().optional(),
+  partido: z.string().optional().describe('Sigla do partido'),
+  uf: z.string().optional(),
+  email: z.string().optional(),
+  urlFoto: z.string().optional(),
+  urlPagina: z.string().optional(),
+  dataNascimento: z.string().optional(),
+  membroMesa: z.boolean(),
+  membroLideranca: z.boolean(),
+  titular: z.boolean().optional().describe('Titular do mandato'),
+  suplenteEmExercicio: z.boolean().optional().describe('Suplente que assumiu o exercício'),
+  afastado: z.boolean().optional().describe('Afastado do exercício (licença, renúncia, cassação...)'),
+  mandatos: z.array(MandatoOutputSchema),
+});
+
+export const SenadorDetalhadoOutputSchema = SenadorOutputSchema.extend({
+  naturalidade: z.string().optional(),
+  ufNaturalidade: z.string().optional(),
+  telefones: z.array(z.object({ numero: z.string(), fax: z.boolean() })),
+  enderecos: z.array(z.string()),
+  emails: z.array(z.string()),
+  formacao: z.array(
+    z.object({
+      curso: z.string(),
+      grau: z.string().optional(),
+      instituicao: z.string().optional(),
+      local: z.string().optional(),
+    })
+  ),
+  profissoes: z.array(z.string()),
+  biografia: z.string().optional(),
+});
+
+export const LicencaOutputSchema = z.object({
+  codigo: z.number().optional(),
+  sigla: z.string().optional(),
+  tipo: z.string().optional().describe('Tipo de licença ou afastamento'),
+  dataInicio: z.string().optional(),
+  dataFim: z.string().optional(),
+});
+
+export const LiderancaOutputSchema = z.object({
+  unidade: z.string().optional().describe('Partido, bloco, governo ou oposição'),
+  tipo: z.string().optional().describe('Líder, vice-líder...'),
+  dataInicio: z.string().optional(),
+  dataFim: z.string().optional(),
+});
+
+export const CargoOutputSchema = z.object({
+  cargo: z.string(),
+  comissao: OrgaoResumoOutputSchema.optional(),
+  dataInicio: z.string().optional(),
+  dataFim: z.string().optional(),
+});
+
+export const ParticipacaoComissaoOutputSchema = z.object({
+  comissao: OrgaoResumoOutputSchema,
+  participacao: z.string().optional().describe('Titular ou suplente'),
+  dataInicio: z.string().optional(),
+  dataFim: z.string().optional(),
+});
+
+export const FiliacaoOutputSchema = z.object({
+  partido: z.object({
+    codigo: z.number().optional(),
+    sigla: z.string(),
+    nome: z.string().optional(),
+  }),
+  dataFiliacao: z.string().optional(),
+  dataDesfiliacao: z.string().optional(),
+});
+
+export const DiscursoOutputSchema = z.object({
+  codigo: z.number().describe('Código do pronunciamento'),
+  data: z.string().optional(),
+  casa: z.string().optional(),
+  tipo: z.string().optional(),
+  resumo: z.string().optional(),
+  indexacao: z.string().optional(),
+  orador: ParlamentarResumoOutputSchema.optional(),
+  url: z.string().optional(),
+});
+
+export const MateriaOutputSchema = z.object({
+  codigo: z.number().describe('Código da matéria'),
+  sigla: z.string().optional(),
+  numero: z.number().optional(),
+  ano: z.number().optional(),
+  identificacao: z.string().optional().describe('Identificação, ex.: PL 2338/2023'),
+  ementa: z.string().optional(),
+  explicacaoEmenta: z.string().optional(),
+  dataApresentacao: z.string().optional(),
+  autores: z.array(z.string()),
+  situacao: z.string().optional(),
+  tramitando: z.boolean().optional(),
+  url: z.string().optional(),
+});
+
+export const MateriaRelacionadaOutputSchema = z.object({
+  relacao: z.string().optional().describe('Tipo de relação'),
+  materia: MateriaOutputSchema,
+});
+
+export const AutorMateriaOutputSchema = z.object({
+  nome: z.string(),
+  tipo: z.string().optional(),
+  codigoParlamentar: z.number().optional(),
+  partido: z.string().optional(),
+  uf: z.string().optional(),
+});
+
+export const TramitacaoOutputSchema = z.object({
+  numero: z.number().optional().describe('Número de ordem da tramitação'),
+  data: z.string().optional(),
+  descricao: z.string().optional(),
+  situacao: z.string().optional(),
+  origem: OrgaoResumoOutputSchema.optional(),
+  destino: OrgaoResumoOutputSchema.optional(),
+});
+
+export const TextoMateriaOutputSchema = z.object({
+  codigo: z.number().optional(),
+  tipo: z.string().optional(),
+  data: z.string().optional(),
+  autoria: z.string().optional(),
+  orgao: OrgaoResumoOutputSchema.optional(),
+  url: z.string().optional(),
+});
+
+export const EmendaOutputSchema = z.object({
+  codigo: z.number().describe('Código da emenda'),
+  numero: z.string().optional(),
+  tipo: z.string().optional(),
+  data: z.string().optional(),
+  autor: z.string().optional(),
+  orgao: OrgaoResumoOutputSchema.optional(),
+  url: z.string().optional(),
+});
+
+export const RelatoriaOutputSchema = z.object({
+  materia: z
+    .object({
+      codigo: z.number(),
+      identificacao: z.string().optional(),
+      ementa: z.string().optional(),
+    })
+    .optional(),
+  relator: ParlamentarResumoOutputSchema.optional(),
+  comissao: OrgaoResumoOutputSchema.optional(),
+  tipo: z.string().optional(),
+  dataDesignacao: z.string().optional(),
+  dataDestituicao: z.string().optional(),
+});
+
+export const VotoOutputSchema = z.object({
+  codigoParlamentar: z.number(),
+  nomeParlamentar: z.string().optional(),
+  partido: z.string().optional(),
+  uf: z.string().optional(),
+  voto: NormalizedVoteSchema,
+  votoOriginal: z.string().optional(),
+});
+
+export const VotacaoOutputSchema = z.object({
+  codigo: z.number().describe('Código da votação'),
+  codigoSessao: z.number().optional(),
+  data: z.string().optional(),
+  descricao: z.string().optional(),
+  resultado: z.string().optional(),
+  secreta: z.boolean().optional(),
+  colegiado: OrgaoResumoOutputSchema.optional(),
+  materia: z
+    .object({
+      codigo: z.number(),
+      identificacao: z.string().optional(),
+      ementa: z.string().optional(),
+    })
+    .optional(),
+  totais: z.object({
+    sim: z.number().optional(),
+    nao: z.number().optional(),
+    abstencao: z.number().optional(),
+  }),
+  votos: z.array(VotoOutputSchema),
+});
+
+export const EstatisticaVotacaoOutputSchema = z.object({
+  codigoVotacao: z.number(),
+  totais: VotacaoOutputSchema.shape.totais,
+  presentes: z.number().optional(),
+  quorum: z.number().optional(),
+});
+
+export const SenatorVotingRecordOutputSchema = z.object({
+  partido: z.string().optional().describe('Sigla do partido atual do senador'),
+  votos: z.array(
+    z.object({
+      votacao: VotacaoOutputSchema,
+      voto: VotoOutputSchema,
+    })
+  ),
+});
+
+export const VotingOrientationOutputSchema = z.object({
+  sigla: z.string(),
+  orientacao: NormalizedVoteSchema,
+});
+
+export const ComissaoOutputSchema = z.object({
+  codigo: z.number().describe('Código da comissão'),
+  sigla: z.string().optional(),
+  nome: z.string().optional(),
+  tipo: z.string().optional(),
+  casa: z.string().optional(),
+  dataInicio: z.string().optional(),
+  dataFim: z.string().optional(),
+  ativa: z.boolean(),
+});
+
+export const MembroComissaoOutputSchema = z.object({
+  codigoParlamentar: z.number().optional(),
+  nome: z.string(),
+  partido: z.string().optional(),
+  uf: z.string().optional(),
+  cargo: z.string().optional(),
+  participacao: z.string().optional(),
+  bloco: z.string().optional(),
+});
+
+export const ComissaoDetalhadaOutputSchema = ComissaoOutputSchema.extend({
+  membros: z.array(MembroComissaoOutputSchema),
+});
+
+export const PartidoOutputSchema = z.object({
+  codigo: z.number().describe('Código do partido'),
+  sigla: z.string(),
+  nome: z.string().optional(),
+  dataCriacao: z.string().optional(),
+  dataExtincao: z.string().optional(),
+  ativo: z.boolean(),
+});
+
+export const BlocoOutputSchema = z.object({
+  codigo: z.number().describe('Código do bloco'),
+  nome: z.string(),
+  apelido: z.string().optional(),
+  dataCriacao: z.string().optional(),
+  dataExtincao: z.string().optional(),
+  partidos: z.array(
+    z.object({
+      codigo: z.number(),
+      sigla: z.string(),
+      nome: z.string().optional(),
+    })
+  ),
+  legislaturas: z.array(z.number()),
+});
+
+export const SessaoOutputSchema = z.object({
+  codigo: z.number().describe('Código da sessão'),
+  numero: z.number().optional(),
+  tipo: z.string().optional(),
+  data: z.string().optional(),
+  hora: z.string().optional(),
+  casa: z.string().optional(),
+  situacao: z.string().optional(),
+  legislatura: z.number().optional(),
+  descricao: z.string().optional(),
+});
+
+export const ResultadoSessaoOutputSchema = SessaoOutputSchema.extend({
+  itens: z.array(
+    z.object({
+      materia: z.string().optional(),
+      ementa: z.string().optional(),
+      resultado: z.string().optional(),
+    })
+  ),
+});
+
+export const LegislaturaOutputSchema = z.object({
+  numero: z.number().describe('Número da legislatura'),
+  dataInicio: z.string().optional(),
+  dataFim: z.string().optional(),
+  dataEleicao: z.string().optional(),
+  descricao: z.string().optional(),
+});
+
+export const ItemReferenciaOutputSchema = z.object({
+  codigo: z.number().optional(),
+  sigla: z.string().optional(),
+  descricao: z.string().optional(),
+  categoria: z.string().optional(),
+  ativo: z.boolean().optional(),
+});
+
+export const UfOutputSchema = z.object({
+  sigla: z.string(),
+  nome: z.string(),
+  regiao: z.string().optional(),
+});
+
 // ============================================================================
 // Validation Functions
 // ============================================================================
@@ -523,7 +971,7 @@ export const PlenaryResultsByMonthSchema = z.object({
  * Validate tool input using Zod schema
  */
 export function validateToolInput<T>(
-  schema: z.ZodSchema<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
   input: unknown,
   toolName: string
 ): T {
@@ -581,41 +1029,18 @@ function sanitizeInput<T>(input: T): T {
  * Convert Zod schema to JSON Schema for MCP protocol
  */
 export function zodToJsonSchema(schema: z.ZodSchema): Record<string, unknown> {
-  // This is a simplified conversion - for production, use zodToJsonSchema library
-  // For now, we'll create a basic structure
-
-  // Helper to get JSON Schema type
-  const getType = (zodType: z.ZodTypeAny): string => {
-    if (zodType instanceof z.ZodString) return 'string';
-    if (zodType instanceof z.ZodNumber) return 'number';
-    if (zodType instanceof z.ZodBoolean) return 'boolean';
-    if (zodType instanceof z.ZodObject) return 'object';
-    if (zodType instanceof z.ZodArray) return 'array';
-    return 'string';
-  };
-
+  // Properties share the recursive conversion of output schemas, which unwraps
+  // optional, default and effects wrappers down to the actual type
   if (schema instanceof z.ZodObject) {
     const properties: Record<string, unknown> = {};
     const required: string[] = [];
     const shape = schema.shape as Record<string, z.ZodTypeAny>;
 
     for (const [key, value] of Object.entries(shape)) {
-      const prop: Record<string, unknown> = {
-        type: getType(value),
-      };
-
-      // Add description if available
-      const zodValue = value as { description?: string };
-      if (zodValue.description) {
-        prop['description'] = zodValue.description;
-      }
-
-      // Check if optional
-      if (!(value instanceof z.ZodOptional)) {
+      properties[key] = zodToOutputJsonSchema(value);
+      if (!value.isOptional()) {
         required.push(key);
       }
-
-      properties[key] = prop;
     }
 
     return {
@@ -630,3 +1055,72 @@ export function zodToJsonSchema(schema: z.ZodSchema): Record<string, unknown> {
     properties: {},
   };
 }
+
+/**
+ * Convert a Zod output schema to JSON Schema (recursive, for MCP outputSchema)
+ */
+export function zodToOutputJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const withDescription = (json: Record<string, unknown>): Record<string, unknown> =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    const inner = zodToOutputJsonSchema(schema._def.innerType as z.ZodTypeAny);
+    return schema.description ? { ...inner, description: schema.description } : inner;
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    const inner = zodToOutputJsonSchema(schema.innerType() as z.ZodTypeAny);
+    return schema.description ? { ...inner, description: schema.description } : inner;
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToOutputJsonSchema(schema.unwrap() as z.ZodTypeAny);
+    return { ...inner, type: [inner['type'], 'null'] };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToOutputJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    return withDescription({
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    });
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: zodToOutputJsonSchema(schema.element as z.ZodTypeAny) });
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: [...(schema.options as string[])] });
+  }
+
+  if (schema instanceof z.ZodString) return withDescription({ type: 'string' });
+  if (schema instanceof z.ZodNumber) return withDescription({ type: 'number' });
+  if (schema instanceof z.ZodBoolean) return withDescription({ type: 'boolean' });
+
+  return withDescription({});
+}
+
+/**
+ * Derive MCP prompt arguments from a Zod object schema
+ */
+export function zodToPromptArguments(
+  schema: z.ZodObject<z.ZodRawShape>
+): Array<{ name: string; description?: string; required: boolean }> {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, value]) => ({
+    name,
+    description: value.description,
+    required: !value.isOptional(),
+  }));
+}
@@ -3,11 +3,21 @@
  *
  * Provides persistent LRU cache across all Cloudflare Workers instances.
  * Shared globally for all requests.
+ *
+ * Entries may carry upstream validators (ETag/Last-Modified); expired ones
+ * that do are kept until evicted, and GET /get?entry=1 returns them with
+ * their expiry so they can be revalidated.
  */
 
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
 export interface CacheEntry<T> {
   value: T;
   expiresAt: number;
+  validators?: CacheValidators;
 }
 
 export class CacheDurableObject {
@@ -67,6 +77,10 @@ export class CacheDurableObject {
         return this.handleDelete(request);
       }
 
+      if (request.method === 'DELETE' && path === '/delete-matching') {
+        return this.handleDeleteMatching(request);
+      }
+
       if (request.method === 'POST' && path === '/clear') {
         return this.handleClear();
       }
@@ -99,6 +113,16 @@ export class CacheDurableObject {
     }
 
     const entry = this.cache.get(key);
+    const withEntry = url.searchParams.get('entry') === '1';
+
+    // Whole entry, expired or not, for revalidation (not counted in stats)
+    if (withEntry) {
+      const found = !!entry && (entry.expiresAt >= Date.now() || !!entry.validators);
+      return new Response(
+        JSON.stringify(found ? { found, ...entry } : { found }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
     if (!entry) {
       this.stats.misses++;
@@ -108,11 +132,13 @@ export class CacheDurableObject {
       );
     }
 
-    // Check expiration
+    // Check expiration (entries with validators are kept for revalidation)
     if (entry.expiresAt < Date.now()) {
-      this.cache.delete(key);
       this.stats.misses++;
-      await this.persist();
+      if (!entry.validators) {
+        this.cache.delete(key);
+        await this.persist();
+      }
       return new Response(
         JSON.stringify({ found: false }),
         { status: 200, headers: { 'Content-Type': 'application/json' } }
@@ -130,7 +156,12 @@ export class CacheDurableObject {
    * Set value in cache
    */
   private async handleSet(request: Request): Promise<Response> {
-    const body = await request.json() as { key: string; value: unknown; ttl?: number };
+    const body = await request.json() as {
+      key: string;
+      value: unknown;
+      ttl?: number;
+      validators?: CacheValidators;
+    };
 
     if (!body.key || body.value === undefined) {
       return new Response(
@@ -151,7 +182,7 @@ export class CacheDurableObject {
       }
     }
 
-    this.cache.set(body.key, { value: body.value, expiresAt });
+    this.cache.set(body.key, { value: body.value, expiresAt, validators: body.validators });
     this.stats.sets++;
     await this.persist();
 
@@ -187,6 +218,45 @@ export class CacheDurableObject {
     );
   }
 
+  /**
+   * Delete the entries of `prefix:` keys whose params include every one of
+   * `params` (JSON), whatever their other params
+   */
+  private async handleDeleteMatching(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const prefix = url.searchParams.get('prefix');
+    const params = url.searchParams.get('params');
+
+    if (!prefix || !params) {
+      return new Response(
+        JSON.stringify({ error: 'Missing prefix or params parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const segments = Object.entries(JSON.parse(params) as Record<string, unknown>).map(
+      ([name, value]) => `${name}=${JSON.stringify(value)}`
+    );
+    let deleted = 0;
+    for (const key of Array.from(this.cache.keys())) {
+      const keySegments = key.startsWith(`${prefix}:`) ? key.slice(prefix.length + 1).split('&') : null;
+      if (keySegments && segments.every((segment) => keySegments.includes(segment))) {
+        this.cache.delete(key);
+        deleted++;
+      }
+    }
+
+    if (deleted > 0) {
+      this.stats.deletes += deleted;
+      await this.persist();
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, deleted }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
   /**
    * Clear all cache
    */
@@ -237,7 +307,7 @@ export class CacheDurableObject {
     let cleaned = 0;
 
     for (const [key, entry] of this.cache.entries()) {
-      if (entry.expiresAt < now) {
+      if (entry.expiresAt < now && !entry.validators) {
         this.cache.delete(key);
         cleaned++;
       }
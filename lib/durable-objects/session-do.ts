@@ -0,0 +1,356 @@
+/**
+ * Session Durable Object
+ *
+ * Stores one Streamable HTTP session (addressed by idFromName(sessionId)).
+ * Keeps the latest SSE events of each of its most recently active streams for
+ * Last-Event-ID resumption, queues server
+ * notifications until the client opens a GET stream, and removes itself
+ * with an alarm once the session is idle for longer than its TTL, along
+ * with the session's resource subscriptions.
+ */
+
+import type { LoggingLevel, MCPSession, MCPStreamEvent } from '../types/index.js';
+import { SUBSCRIPTIONS_INSTANCE } from './subscription-do.js';
+
+const MAX_STORED_EVENTS = 100; // Per stream
+const MAX_STORED_STREAMS = 20;
+const MAX_QUEUED_NOTIFICATIONS = 100;
+
+export interface SessionState {
+  session: MCPSession;
+  ttl: number;
+  events: MCPStreamEvent[];
+  sequence: number;
+  queued?: unknown[]; // Absent in state stored before notifications were queued
+}
+
+export interface SessionEnv {
+  SUBSCRIPTIONS?: DurableObjectNamespace; // Subscriptions removed when the session expires
+}
+
+export class SessionDurableObject {
+  private state: DurableObjectState;
+  private data: SessionState | null;
+  private subscriptions: DurableObjectNamespace | null;
+
+  constructor(state: DurableObjectState, env: SessionEnv) {
+    this.state = state;
+    this.data = null;
+    this.subscriptions = env.SUBSCRIPTIONS ?? null;
+
+    // Initialize from storage
+    const self = this;
+    this.state.blockConcurrencyWhile(async () => {
+      const stored = await self.state.storage.get<SessionState>("state");
+
+      if (stored) {
+        this.data = stored;
+      }
+    });
+  }
+
+  /**
+   * Handle fetch requests
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      if (request.method === 'POST' && path === '/create') {
+        return this.handleCreate(request);
+      }
+
+      if (request.method === 'POST' && path === '/touch') {
+        return this.handleTouch();
+      }
+
+      if (request.method === 'POST' && path === '/log-level') {
+        return this.handleSetLogLevel(request);
+      }
+
+      if (request.method === 'DELETE' && path === '/delete') {
+        return this.handleDelete();
+      }
+
+      if (request.method === 'POST' && path === '/events') {
+        return this.handleStoreEvent(request);
+      }
+
+      if (request.method === 'GET' && path === '/events') {
+        return this.handleReplay(request);
+      }
+
+      if (request.method === 'POST' && path === '/notifications') {
+        return this.handleQueueNotification(request);
+      }
+
+      if (request.method === 'POST' && path === '/notifications/take') {
+        return this.handleTakeNotifications();
+      }
+
+      return new Response('Not Found', { status: 404 });
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: (error as Error).message }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
+  /**
+   * Create the session
+   */
+  private async handleCreate(request: Request): Promise<Response> {
+    const body = await request.json() as { session: MCPSession; ttl: number };
+
+    if (!body.session?.id || !body.ttl) {
+      return new Response(
+        JSON.stringify({ error: 'Missing session or ttl' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    this.data = { session: body.session, ttl: body.ttl, events: [], sequence: 0 };
+    await this.persist();
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Return the live session and refresh its idle timeout
+   */
+  private async handleTouch(): Promise<Response> {
+    const data = await this.getLive();
+
+    if (!data) {
+      return new Response(
+        JSON.stringify({ found: false }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    data.session.lastActivityAt = Date.now();
+    await this.persist();
+
+    return new Response(
+      JSON.stringify({ found: true, session: data.session }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Store the minimum level of log messages sent to the session
+   */
+  private async handleSetLogLevel(request: Request): Promise<Response> {
+    const body = await request.json() as { level: LoggingLevel };
+    const data = await this.getLive();
+
+    if (!data) {
+      return new Response(
+        JSON.stringify({ found: false }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    data.session.logLevel = body.level;
+    await this.persist();
+
+    return new Response(
+      JSON.stringify({ found: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Terminate the session
+   */
+  private async handleDelete(): Promise<Response> {
+    const deleted = (await this.getLive()) !== null;
+    await this.destroy();
+
+    return new Response(
+      JSON.stringify({ success: true, deleted }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Store an event sent on an SSE stream
+   */
+  private async handleStoreEvent(request: Request): Promise<Response> {
+    const body = await request.json() as { streamId: string; message: unknown };
+
+    if (!body.streamId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing streamId parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const data = await this.getLive();
+    if (!data) {
+      // Session terminated mid-call: the event is still sent, but not kept
+      return new Response(
+        JSON.stringify({ id: `${body.streamId}:0` }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const id = `${body.streamId}:${++data.sequence}`;
+    data.events.push({ id, streamId: body.streamId, message: body.message });
+    data.events = this.trimEvents(data.events, body.streamId);
+    await this.persist();
+
+    return new Response(
+      JSON.stringify({ id }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Drop the oldest event of a stream over its bound, then the events of the
+   * least recently active stream; streams never lose events to other streams,
+   * so the response of a stream being resumed stays replayable
+   */
+  private trimEvents(events: MCPStreamEvent[], streamId: string): MCPStreamEvent[] {
+    const ofStream = events.filter((event) => event.streamId === streamId);
+    let trimmed = ofStream.length > MAX_STORED_EVENTS
+      ? events.filter((event) => event !== ofStream[0])
+      : events;
+
+    // Streams in order of their latest event
+    const byActivity = new Set<string>();
+    for (const event of trimmed) {
+      byActivity.delete(event.streamId);
+      byActivity.add(event.streamId);
+    }
+    if (byActivity.size > MAX_STORED_STREAMS) {
+      const [oldest] = byActivity;
+      trimmed = trimmed.filter((event) => event.streamId !== oldest);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Events after the given one on the same stream
+   */
+  private async handleReplay(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const after = url.searchParams.get('after');
+
+    if (!after) {
+      return new Response(
+        JSON.stringify({ error: 'Missing after parameter' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const events = (await this.getLive())?.events ?? [];
+    const index = events.findIndex((event) => event.id === after);
+    const replay = index < 0
+      ? []
+      : events.slice(index + 1).filter((event) => event.streamId === events[index]!.streamId);
+
+    return new Response(
+      JSON.stringify({ events: replay }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Queue a server notification for the next GET stream
+   */
+  private async handleQueueNotification(request: Request): Promise<Response> {
+    const body = await request.json() as { message: unknown };
+    const data = await this.getLive();
+
+    if (!data) {
+      return new Response(
+        JSON.stringify({ queued: false }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    data.queued = [...(data.queued ?? []), body.message].slice(-MAX_QUEUED_NOTIFICATIONS);
+    await this.persist();
+
+    return new Response(
+      JSON.stringify({ queued: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Return the queued notifications and empty the queue
+   */
+  private async handleTakeNotifications(): Promise<Response> {
+    const data = await this.getLive();
+    const notifications = data?.queued ?? [];
+
+    if (data && notifications.length > 0) {
+      data.queued = [];
+      await this.persist();
+    }
+
+    return new Response(
+      JSON.stringify({ notifications }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Session state unless expired (expired state is removed)
+   */
+  private async getLive(): Promise<SessionState | null> {
+    if (this.data && Date.now() - this.data.session.lastActivityAt > this.data.ttl) {
+      const sessionId = this.data.session.id;
+      await this.destroy();
+      await this.removeSubscriptions(sessionId);
+    }
+    return this.data;
+  }
+
+  /**
+   * Drop the resource subscriptions of an expired session
+   */
+  private async removeSubscriptions(sessionId: string): Promise<void> {
+    if (!this.subscriptions) {
+      return;
+    }
+
+    const url = new URL('http://do/subscriber');
+    url.searchParams.set('id', sessionId);
+    const stub = this.subscriptions.get(this.subscriptions.idFromName(SUBSCRIPTIONS_INSTANCE));
+    await stub.fetch(url.toString(), { method: 'DELETE' });
+  }
+
+  /**
+   * Persist session state and push the expiry alarm forward
+   */
+  private async persist(): Promise<void> {
+    if (!this.data) {
+      return;
+    }
+
+    await this.state.storage.put("state", this.data);
+    await this.state.storage.setAlarm(this.data.session.lastActivityAt + this.data.ttl);
+  }
+
+  private async destroy(): Promise<void> {
+    this.data = null;
+    await this.state.storage.deleteAlarm();
+    await this.state.storage.deleteAll();
+  }
+
+  /**
+   * Remove the session once idle for longer than its TTL
+   */
+  async alarm(): Promise<void> {
+    await this.getLive();
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Subscription Durable Object
+ *
+ * Stores the resource subscriptions of all Streamable HTTP sessions (one
+ * global instance) and the checkpoint of the updates poller run by the
+ * cron trigger.
+ */
+
+/**
+ * Name of the global instance (idFromName)
+ */
+export const SUBSCRIPTIONS_INSTANCE = 'global-subscriptions';
+
+export interface SubscriptionState {
+  subscriptions: Record<string, string[]>; // Subscriber IDs by URI
+  checkpoint: number | null;
+}
+
+export class SubscriptionDurableObject {
+  private state: DurableObjectState;
+  private data: SubscriptionState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+    this.data = { subscriptions: {}, checkpoint: null };
+
+    // Initialize from storage
+    const self = this;
+    this.state.blockConcurrencyWhile(async () => {
+      const stored = await self.state.storage.get<SubscriptionState>("state");
+
+      if (stored) {
+        this.data = stored;
+      }
+    });
+  }
+
+  /**
+   * Handle fetch requests
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      if (request.method === 'POST' && path === '/subscribe') {
+        return this.handleSubscribe(request);
+      }
+
+      if (request.method === 'POST' && path === '/unsubscribe') {
+        return this.handleUnsubscribe(request);
+      }
+
+      if (request.method === 'DELETE' && path === '/subscriber') {
+        return this.handleRemoveSubscriber(request);
+      }
+
+      if (request.method === 'GET' && path === '/subscriptions') {
+        return this.json({ subscriptions: this.data.subscriptions });
+      }
+
+      if (request.method === 'GET' && path === '/checkpoint') {
+        return this.json({ checkpoint: this.data.checkpoint });
+      }
+
+      if (request.method === 'POST' && path === '/checkpoint') {
+        return this.handleSetCheckpoint(request);
+      }
+
+      return new Response('Not Found', { status: 404 });
+    } catch (error) {
+      return this.json({ error: (error as Error).message }, 500);
+    }
+  }
+
+  /**
+   * Subscribe a session to a URI
+   */
+  private async handleSubscribe(request: Request): Promise<Response> {
+    const body = await request.json() as { subscriberId?: string; uri?: string };
+
+    if (!body.subscriberId || !body.uri) {
+      return this.json({ error: 'Missing subscriberId or uri' }, 400);
+    }
+
+    const subscribers = this.data.subscriptions[body.uri] ?? [];
+    if (!subscribers.includes(body.subscriberId)) {
+      this.data.subscriptions[body.uri] = [...subscribers, body.subscriberId];
+      await this.persist();
+    }
+
+    return this.json({ success: true });
+  }
+
+  /**
+   * Unsubscribe a session from a URI
+   */
+  private async handleUnsubscribe(request: Request): Promise<Response> {
+    const body = await request.json() as { subscriberId?: string; uri?: string };
+
+    if (!body.subscriberId || !body.uri) {
+      return this.json({ error: 'Missing subscriberId or uri' }, 400);
+    }
+
+    if (this.removeFrom(body.uri, body.subscriberId)) {
+      await this.persist();
+    }
+
+    return this.json({ success: true });
+  }
+
+  /**
+   * Drop every subscription of a session
+   */
+  private async handleRemoveSubscriber(request: Request): Promise<Response> {
+    const subscriberId = new URL(request.url).searchParams.get('id');
+
+    if (!subscriberId) {
+      return this.json({ error: 'Missing id parameter' }, 400);
+    }
+
+    let removed = false;
+    for (const uri of Object.keys(this.data.subscriptions)) {
+      removed = this.removeFrom(uri, subscriberId) || removed;
+    }
+    if (removed) {
+      await this.persist();
+    }
+
+    return this.json({ success: true });
+  }
+
+  /**
+   * Move the poller checkpoint
+   */
+  private async handleSetCheckpoint(request: Request): Promise<Response> {
+    const body = await request.json() as { checkpoint?: number };
+
+    if (typeof body.checkpoint !== 'number') {
+      return this.json({ error: 'Missing checkpoint' }, 400);
+    }
+
+    this.data.checkpoint = body.checkpoint;
+    await this.persist();
+
+    return this.json({ success: true });
+  }
+
+  private removeFrom(uri: string, subscriberId: string): boolean {
+    const subscribers = this.data.subscriptions[uri];
+    if (!subscribers?.includes(subscriberId)) {
+      return false;
+    }
+
+    const remaining = subscribers.filter((id) => id !== subscriberId);
+    if (remaining.length > 0) {
+      this.data.subscriptions[uri] = remaining;
+    } else {
+      delete this.data.subscriptions[uri];
+    }
+    return true;
+  }
+
+  private async persist(): Promise<void> {
+    await this.state.storage.put("state", this.data);
+  }
+
+  private json(data: unknown, status = 200): Response {
+    return new Response(JSON.stringify(data), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
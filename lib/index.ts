@@ -8,17 +8,36 @@ export { loadConfig, getDefaultConfig } from './config/config.js';
 // Infrastructure
 export { createLogger } from './infrastructure/logger.js';
 export { createHttpClient, SenadoAPIError } from './infrastructure/http-client.js';
+export { createFixtureFetch, HttpFixtureStore } from './infrastructure/http-fixtures.js';
 export { createCache, LRUCache, NoOpCache } from './infrastructure/cache.js';
 export { createCircuitBreaker, CircuitBreakerError } from './infrastructure/circuit-breaker.js';
 export { createRateLimiter, RateLimitError } from './infrastructure/rate-limiter.js';
+export { createSessionStore, InMemorySessionStore } from './infrastructure/session-store.js';
 
 // Core
 export { createToolRegistry, ToolRegistry } from './core/tools.js';
+export { createToolPipeline, ToolPipeline, executeTool } from './core/pipeline.js';
+export { createPromptRegistry, PromptRegistry } from './core/prompts.js';
+export { createResourceRegistry, ResourceRegistry } from './core/resources.js';
+export { createCompletionRegistry, CompletionRegistry } from './core/completions.js';
 export { createMCPServer, SenadoMCPServer } from './core/mcp-server.js';
+export { createStreamableHttpHandler, StreamableHttpHandler } from './core/streamable-http.js';
+export {
+  renderToolOutput,
+  summarizeData,
+  toMarkdown,
+  DEFAULT_MAX_CHARACTERS,
+} from './core/output.js';
 export {
   ValidationError,
   ToolNotFoundError,
+  OutputValidationError,
+  PromptNotFoundError,
+  ResourceNotFoundError,
+  ToolForbiddenError,
   ConfigurationError,
+  RequestCancelledError,
+  FixtureNotFoundError,
   errorToToolResult,
   isRetriableError,
 } from './core/errors.js';
@@ -31,7 +50,48 @@ export {
   CodeSchema,
   LegislatureSchema,
   UFSchema,
+  OutputOptionsSchema,
+  zodToOutputJsonSchema,
+  listOutputSchema,
 } from './core/validation.js';
 
+// Normalization
+export {
+  extractSenadores,
+  extractSenador,
+  mapSenador,
+  extractMaterias,
+  extractMateria,
+  mapMateria,
+  extractVotacoes,
+  extractVotacao,
+  mapVotacao,
+  extractVotos,
+  mapVoto,
+  extractVotingOrientations,
+  normalizeVoteValue,
+  extractComissoes,
+  extractComissaoDetalhada,
+  extractMembrosComissao,
+  mapComissao,
+  extractPartidos,
+  mapPartido,
+  extractBlocos,
+  extractBloco,
+  mapBloco,
+  extractSessoes,
+  extractSessao,
+  mapSessao,
+} from './mappers/index.js';
+
+// Prompts
+export { legislativePrompts } from './prompts/legislative-prompts.js';
+
+// Resources
+export { senadoResources, senadoResourceTemplates } from './resources/senado-resources.js';
+
+// Completions
+export { referenceCompletions } from './completions/reference-completions.js';
+
 // Types
 export type * from './types/index.js';
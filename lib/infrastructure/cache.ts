@@ -6,15 +6,30 @@
  * - Time-based expiration (TTL)
  * - Cache statistics tracking
  * - Automatic cleanup of expired entries
+ * - Upstream validators (ETag/Last-Modified) kept with values; expired
+ *   entries that have them stay until evicted, for conditional revalidation
  */
 
 import type {
   CacheInterface,
   CacheStats,
   CacheEntry,
+  CacheValidators,
   Logger,
 } from '../types/index.js';
 
+/**
+ * Whether a generateKey key has the prefix and includes every param
+ */
+export function keyMatches(key: string, prefix: string, params: Record<string, unknown>): boolean {
+  if (!key.startsWith(`${prefix}:`)) {
+    return false;
+  }
+
+  const segments = key.slice(prefix.length + 1).split('&');
+  return Object.entries(params).every(([name, value]) => segments.includes(`${name}=${JSON.stringify(value)}`));
+}
+
 export interface CacheConfig {
   ttl: number; // Default TTL in milliseconds
   maxSize: number; // Maximum number of entries
@@ -59,10 +74,12 @@ export class LRUCache implements CacheInterface {
       return null;
     }
 
-    // Cache miss - entry expired
+    // Cache miss - entry expired (kept while it can be revalidated)
     if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      this.removeFromAccessOrder(key);
+      if (!entry.validators) {
+        this.cache.delete(key);
+        this.removeFromAccessOrder(key);
+      }
       this.stats.misses++;
       this.logger.debug('Cache miss (expired)', { key });
       return null;
@@ -75,10 +92,26 @@ export class LRUCache implements CacheInterface {
     return entry.value;
   }
 
+  /**
+   * Get an entry with its expiry and validators, expired or not
+   *
+   * Expired entries are only returned while they have validators.
+   */
+  async getEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.cache.get(key) as CacheEntry<T> | undefined;
+
+    if (!entry || (Date.now() > entry.expiresAt && !entry.validators)) {
+      return null;
+    }
+
+    this.updateAccessOrder(key);
+    return entry;
+  }
+
   /**
    * Set value in cache
    */
-  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+  async set<T>(key: string, value: T, ttl?: number, validators?: CacheValidators): Promise<void> {
     const expiresAt = Date.now() + (ttl || this.config.ttl);
 
     // Check if cache is full
@@ -89,6 +122,7 @@ export class LRUCache implements CacheInterface {
     const entry: CacheEntry<T> = {
       value,
       expiresAt,
+      validators,
     };
 
     this.cache.set(key, entry as CacheEntry<unknown>);
@@ -114,6 +148,26 @@ export class LRUCache implements CacheInterface {
     }
   }
 
+  /**
+   * Delete every entry cached under the prefix with the given params,
+   * whatever its other params
+   */
+  async deleteMatching(prefix: string, params: Record<string, unknown>): Promise<number> {
+    let deleted = 0;
+    for (const key of Array.from(this.cache.keys())) {
+      if (keyMatches(key, prefix, params)) {
+        this.cache.delete(key);
+        this.removeFromAccessOrder(key);
+        deleted++;
+      }
+    }
+
+    if (deleted > 0) {
+      this.logger.debug('Cache delete matching', { prefix, params, deleted });
+    }
+    return deleted;
+  }
+
   /**
    * Clear entire cache
    */
@@ -163,7 +217,7 @@ export class LRUCache implements CacheInterface {
     let removed = 0;
 
     for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expiresAt) {
+      if (now > entry.expiresAt && !entry.validators) {
         this.cache.delete(key);
         this.removeFromAccessOrder(key);
         removed++;
@@ -251,10 +305,15 @@ export class NoOpCache implements CacheInterface {
     return null;
   }
 
+  async getEntry<T>(_key: string): Promise<CacheEntry<T> | null> {
+    return null;
+  }
+
   async set<T>(
     _key: string,
     _value: T,
-    _ttl?: number
+    _ttl?: number,
+    _validators?: CacheValidators
   ): Promise<void> {
     // No-op
   }
@@ -263,6 +322,10 @@ export class NoOpCache implements CacheInterface {
     // No-op
   }
 
+  async deleteMatching(_prefix: string, _params: Record<string, unknown>): Promise<number> {
+    return 0;
+  }
+
   async clear(): Promise<void> {
     // No-op
   }
@@ -20,6 +20,7 @@ import type {
   Logger,
 } from '../types/index.js';
 import { CircuitState as State } from '../types/index.js';
+import { RequestCancelledError } from '../core/errors.js';
 
 export class CircuitBreakerImpl implements CircuitBreaker {
   private state: CircuitState;
@@ -65,15 +66,21 @@ export class CircuitBreakerImpl implements CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // A request cancelled by the client says nothing about upstream health
+      if (!(error instanceof RequestCancelledError)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
 
   /**
-   * Get current circuit state
+   * Get current circuit state (HALF_OPEN once an open circuit may be retried)
    */
   getState(): CircuitState {
+    if (this.state === State.OPEN && this.shouldAttemptReset()) {
+      this.transitionTo(State.HALF_OPEN);
+    }
     return this.state;
   }
 
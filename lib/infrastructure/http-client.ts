@@ -2,26 +2,79 @@
  * HTTP Client for Senado Federal API
  *
  * Handles:
- * - XML to JSON parsing (Senado API returns XML)
+ * - XML or JSON responses (format per endpoint, see response-parsers.ts),
+ *   falling back to XML when a JSON body is malformed
  * - Retry logic with exponential backoff
  * - Timeout handling
+ * - Cancellation with an AbortSignal (request and retry backoff)
  * - Request/response logging
+ * - Pluggable fetch (record/replay fixtures, see http-fixtures.ts)
+ * - Coalescing of concurrent identical GETs into one upstream request
+ * - Conditional revalidation (ETag/Last-Modified) of cached responses
  */
 
-import { XMLParser } from 'fast-xml-parser';
 import type {
   HttpClient,
   HttpClientConfig,
+  HttpClientStats,
+  HttpRequestOptions,
   ApiResponse,
+  CacheValidators,
   Logger,
   CircuitBreaker,
+  ResponseFormat,
+  ResponseParser,
 } from '../types/index.js';
+import {
+  cancellationError,
+  FixtureNotFoundError,
+  RequestCancelledError,
+  ResponseParseError,
+  throwIfCancelled,
+} from '../core/errors.js';
+import { createResponseParser } from './response-parsers.js';
+
+const RESPONSE_CACHE_PREFIX = 'http';
+
+/**
+ * Validators of an upstream response, if it sent any
+ */
+function responseValidators(headers: Record<string, string> = {}): CacheValidators | undefined {
+  const etag = headers['etag'];
+  const lastModified = headers['last-modified'];
+  return etag || lastModified ? { etag, lastModified } : undefined;
+}
+
+function conditionalHeaders(validators?: CacheValidators): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators?.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+  return headers;
+}
+
+/**
+ * One upstream GET shared by the callers that asked for the same URL
+ */
+interface InFlightRequest {
+  promise: Promise<ApiResponse<unknown>>;
+  controller: AbortController; // Aborted once every caller has cancelled
+  waiters: number;
+}
 
 export class SenadoHttpClient implements HttpClient {
   private readonly config: HttpClientConfig;
   private readonly logger: Logger;
   private readonly circuitBreaker?: CircuitBreaker;
-  private readonly xmlParser: XMLParser;
+  private readonly parsers: Record<ResponseFormat, ResponseParser>;
+  private readonly fetch: typeof fetch;
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private requestCount = 0;
+  private coalescedCount = 0;
+  private revalidatedCount = 0;
 
   constructor(
     config: HttpClientConfig,
@@ -31,18 +84,11 @@ export class SenadoHttpClient implements HttpClient {
     this.config = config;
     this.logger = logger;
     this.circuitBreaker = circuitBreaker;
-
-    // Configure XML parser with options for Senado API
-    this.xmlParser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '@_',
-      textNodeName: '#text',
-      parseAttributeValue: true,
-      parseTagValue: true,
-      trimValues: true,
-      ignoreDeclaration: true,
-      ignorePiTags: true,
-    });
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init));
+    this.parsers = {
+      json: createResponseParser('json'),
+      xml: createResponseParser('xml'),
+    };
   }
 
   /**
@@ -50,20 +96,21 @@ export class SenadoHttpClient implements HttpClient {
    */
   async get<T>(
     endpoint: string,
-    params?: Record<string, unknown>
+    params?: Record<string, unknown>,
+    options: HttpRequestOptions = {}
   ): Promise<ApiResponse<T>> {
     const url = this.buildUrl(endpoint, params);
+    const format = this.formatFor(endpoint);
     const startTime = Date.now();
 
-    this.logger.debug('HTTP GET request', { url, params });
+    this.logger.debug('HTTP GET request', { url, params, format });
 
     try {
-      const response = await this.executeWithRetry(async () => {
-        return await this.performRequest<T>(url, {
-          method: 'GET',
-          headers: this.getHeaders(),
-        });
-      });
+      const response = await this.coalesce<T>(
+        url,
+        (signal) => this.getWithFallback<T>(url, format, signal),
+        options.signal
+      );
 
       const duration = Date.now() - startTime;
       this.logger.debug('HTTP GET response', {
@@ -75,6 +122,10 @@ export class SenadoHttpClient implements HttpClient {
       return response;
     } catch (error) {
       const duration = Date.now() - startTime;
+      if (error instanceof RequestCancelledError) {
+        this.logger.debug('HTTP GET cancelled', { url, duration });
+        throw error;
+      }
       this.logger.error('HTTP GET failed', error as Error, {
         url,
         duration,
@@ -83,12 +134,169 @@ export class SenadoHttpClient implements HttpClient {
     }
   }
 
+  /**
+   * Request and coalescing counters
+   */
+  getStats(): HttpClientStats {
+    return {
+      requests: this.requestCount,
+      coalesced: this.coalescedCount,
+      inFlight: this.inFlight.size,
+      revalidated: this.revalidatedCount,
+    };
+  }
+
+  /**
+   * GET in the given format, asking again for XML when a JSON body is malformed
+   *
+   * A JSON request answered with XML (endpoint without JSON) is parsed as XML
+   * already, by content type.
+   */
+  private async getWithFallback<T>(
+    url: string,
+    format: ResponseFormat,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<T>> {
+    try {
+      return await this.getWithRevalidation<T>(url, format, signal);
+    } catch (error) {
+      if (format === 'xml' || !(error instanceof ResponseParseError)) {
+        throw error;
+      }
+      this.logger.warn('Malformed JSON response, falling back to XML', {
+        url,
+        error: error.message,
+      });
+      return await this.getWithRevalidation<T>(url, 'xml', signal);
+    }
+  }
+
+  /**
+   * GET through the response cache (config.cache)
+   *
+   * Responses with an ETag or Last-Modified are cached with them, and asked
+   * for again with If-None-Match / If-Modified-Since; a 304 refreshes the
+   * cached entry. Freshness is left to the tool cache, so a stored response
+   * is never served without asking upstream. A 304 with nothing cached to
+   * revalidate is asked for again without validators. Entries are kept per
+   * format, so a JSON request never revalidates the XML fallback's response.
+   */
+  private async getWithRevalidation<T>(
+    url: string,
+    format: ResponseFormat,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<T>> {
+    const cache = this.config.cache;
+    const key = cache?.generateKey(RESPONSE_CACHE_PREFIX, { url, format });
+    const cached = cache && key ? await cache.getEntry<ApiResponse<T>>(key) : null;
+
+    const request = (validators?: CacheValidators) =>
+      this.executeWithRetry(async () => {
+        return await this.performRequest<T>(url, {
+          method: 'GET',
+          headers: { ...this.getHeaders(format), ...conditionalHeaders(validators) },
+        }, signal);
+      }, signal);
+
+    let response = await request(cached?.validators);
+
+    if (response.statusCode === 304) {
+      if (cached) {
+        this.revalidatedCount++;
+        this.logger.debug('HTTP GET revalidated', { url });
+        await cache!.set(key!, cached.value, undefined, responseValidators(response.headers) ?? cached.validators);
+        return cached.value;
+      }
+
+      this.logger.debug('HTTP GET not modified with nothing cached, asking for the body', { url });
+      response = await request();
+      if (response.statusCode === 304) {
+        throw new SenadoAPIError('Not Modified without a cached response', 304, url);
+      }
+    }
+
+    const validators = responseValidators(response.headers);
+    if (cache && key && validators) {
+      await cache.set(key, response, undefined, validators);
+    }
+    return response;
+  }
+
+  /**
+   * Run a GET, or join the identical one already in flight
+   *
+   * The shared request (retries and circuit breaker included) runs with its
+   * own signal, aborted only when every caller waiting on it has cancelled.
+   */
+  private coalesce<T>(
+    url: string,
+    request: (signal?: AbortSignal) => Promise<ApiResponse<T>>,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<T>> {
+    this.requestCount++;
+    throwIfCancelled(signal);
+
+    if (this.config.coalesce === false) {
+      return request(signal);
+    }
+
+    let flight = this.inFlight.get(url);
+    if (flight) {
+      this.coalescedCount++;
+      this.logger.debug('HTTP GET coalesced', { url, waiters: flight.waiters + 1 });
+    } else {
+      const controller = new AbortController();
+      const started: InFlightRequest = {
+        controller,
+        waiters: 0,
+        promise: request(controller.signal).finally(() => {
+          if (this.inFlight.get(url) === started) {
+            this.inFlight.delete(url);
+          }
+        }),
+      };
+      this.inFlight.set(url, started);
+      flight = started;
+    }
+
+    return this.join(url, flight, signal) as Promise<ApiResponse<T>>;
+  }
+
+  /**
+   * Wait for a shared request, leaving it when the caller cancels
+   */
+  private join(url: string, flight: InFlightRequest, signal?: AbortSignal): Promise<ApiResponse<unknown>> {
+    flight.waiters++;
+    if (!signal) {
+      return flight.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onCancel = () => {
+        flight.waiters--;
+        if (flight.waiters === 0) {
+          if (this.inFlight.get(url) === flight) {
+            this.inFlight.delete(url);
+          }
+          flight.controller.abort(signal.reason);
+        }
+        reject(cancellationError(signal));
+      };
+
+      signal.addEventListener('abort', onCancel, { once: true });
+      flight.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onCancel));
+    });
+  }
+
   /**
    * Perform POST request
    */
   async post<T>(
     endpoint: string,
-    data?: unknown
+    data?: unknown,
+    options: HttpRequestOptions = {}
   ): Promise<ApiResponse<T>> {
     const url = this.buildUrl(endpoint);
     const startTime = Date.now();
@@ -99,10 +307,10 @@ export class SenadoHttpClient implements HttpClient {
       const response = await this.executeWithRetry(async () => {
         return await this.performRequest<T>(url, {
           method: 'POST',
-          headers: this.getHeaders(),
+          headers: this.getHeaders(this.formatFor(endpoint)),
           body: JSON.stringify(data),
-        });
-      });
+        }, options.signal);
+      }, options.signal);
 
       const duration = Date.now() - startTime;
       this.logger.debug('HTTP POST response', {
@@ -114,6 +322,10 @@ export class SenadoHttpClient implements HttpClient {
       return response;
     } catch (error) {
       const duration = Date.now() - startTime;
+      if (error instanceof RequestCancelledError) {
+        this.logger.debug('HTTP POST cancelled', { url, duration });
+        throw error;
+      }
       this.logger.error('HTTP POST failed', error as Error, {
         url,
         duration,
@@ -123,17 +335,22 @@ export class SenadoHttpClient implements HttpClient {
   }
 
   /**
-   * Perform actual HTTP request with timeout
+   * Perform actual HTTP request with timeout, aborted early by the caller's signal
    */
   private async performRequest<T>(
     url: string,
-    options: RequestInit
+    options: RequestInit,
+    signal?: AbortSignal
   ): Promise<ApiResponse<T>> {
+    throwIfCancelled(signal);
+
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const onCancel = () => controller.abort();
+    signal?.addEventListener('abort', onCancel, { once: true });
 
     try {
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         ...options,
         signal: controller.signal,
       });
@@ -143,23 +360,29 @@ export class SenadoHttpClient implements HttpClient {
       // Get response text
       const text = await response.text();
 
-      // Parse response based on content type
+      // Not Modified: the caller keeps its cached response
+      if (response.status === 304) {
+        return {
+          data: undefined as T,
+          statusCode: response.status,
+          headers: Object.fromEntries(response.headers.entries()),
+        };
+      }
+
+      // Parse response based on content type (plain text kept as is)
       let data: T;
       const contentType = response.headers.get('content-type') || '';
+      const parser = [this.parsers.json, this.parsers.xml].find((candidate) =>
+        candidate.matches(contentType, text)
+      );
 
-      if (contentType.includes('application/json')) {
-        // JSON response
-        data = JSON.parse(text) as T;
-      } else if (
-        contentType.includes('application/xml') ||
-        contentType.includes('text/xml') ||
-        text.trim().startsWith('<?xml')
-      ) {
-        // XML response - parse to JSON
-        const parsed = this.xmlParser.parse(text);
-        data = parsed as T;
-      } else {
-        // Plain text response
+      try {
+        data = parser ? parser.parse<T>(text) : ({ text } as T);
+      } catch (error) {
+        // A malformed error page must not hide the HTTP status
+        if (response.ok) {
+          throw error;
+        }
         data = { text } as T;
       }
 
@@ -181,10 +404,16 @@ export class SenadoHttpClient implements HttpClient {
     } catch (error) {
       clearTimeout(timeoutId);
 
-      if (error instanceof SenadoAPIError) {
+      if (
+        error instanceof SenadoAPIError ||
+        error instanceof FixtureNotFoundError ||
+        error instanceof ResponseParseError
+      ) {
         throw error;
       }
 
+      throwIfCancelled(signal);
+
       if ((error as Error).name === 'AbortError') {
         throw new SenadoAPIError(
           `Request timeout after ${this.config.timeout}ms`,
@@ -199,6 +428,8 @@ export class SenadoHttpClient implements HttpClient {
         url,
         error
       );
+    } finally {
+      signal?.removeEventListener('abort', onCancel);
     }
   }
 
@@ -206,7 +437,8 @@ export class SenadoHttpClient implements HttpClient {
    * Execute request with retry logic and circuit breaker
    */
   private async executeWithRetry<T>(
-    fn: () => Promise<ApiResponse<T>>
+    fn: () => Promise<ApiResponse<T>>,
+    signal?: AbortSignal
   ): Promise<ApiResponse<T>> {
     const executeRequest = async (): Promise<ApiResponse<T>> => {
       let lastError: Error | undefined;
@@ -217,6 +449,15 @@ export class SenadoHttpClient implements HttpClient {
         } catch (error) {
           lastError = error as Error;
 
+          // Don't retry cancelled requests, replay misses or malformed bodies
+          if (
+            error instanceof RequestCancelledError ||
+            error instanceof FixtureNotFoundError ||
+            error instanceof ResponseParseError
+          ) {
+            throw error;
+          }
+
           // Don't retry on client errors (4xx except 429)
           if (
             error instanceof SenadoAPIError &&
@@ -235,7 +476,7 @@ export class SenadoHttpClient implements HttpClient {
               maxRetries: this.config.maxRetries,
               error: (error as Error).message,
             });
-            await this.sleep(delay);
+            await this.sleep(delay, signal);
           }
         }
       }
@@ -289,20 +530,54 @@ export class SenadoHttpClient implements HttpClient {
   }
 
   /**
-   * Get default headers
+   * Format to ask for: the longest matching config.endpointFormats prefix,
+   * else config.format
    */
-  private getHeaders(): Record<string, string> {
+  private formatFor(endpoint: string): ResponseFormat {
+    const path = endpoint.replace(/^\/+/, '');
+    let format = this.config.format ?? 'xml';
+    let matched = -1;
+
+    for (const [prefix, prefixFormat] of Object.entries(this.config.endpointFormats ?? {})) {
+      const clean = prefix.replace(/^\/+|\/+$/g, '');
+      if (clean.length > matched && (path === clean || path.startsWith(`${clean}/`))) {
+        format = prefixFormat;
+        matched = clean.length;
+      }
+    }
+    return format;
+  }
+
+  /**
+   * Get default headers, asking for the given format
+   */
+  private getHeaders(format: ResponseFormat): Record<string, string> {
     return {
-      'Accept': 'application/xml, application/json, text/xml, */*',
+      'Accept': this.parsers[format].accept,
       'User-Agent': 'MCP-Senado/1.0.0',
     };
   }
 
   /**
-   * Sleep utility
+   * Sleep utility, rejected with RequestCancelledError when the signal aborts
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+
+      const onCancel = () => {
+        clearTimeout(timer);
+        reject(new RequestCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onCancel);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onCancel, { once: true });
+    });
   }
 }
 
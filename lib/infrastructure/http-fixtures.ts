@@ -0,0 +1,230 @@
+/**
+ * HTTP Fixtures for Senado Federal API (record/replay)
+ *
+ * Node-only fetch wrappers for SenadoHttpClient (HttpClientConfig.fetch):
+ * - record: requests go to the network and every response is saved as a fixture
+ * - replay: responses come from the fixtures, without touching the network;
+ *   requests without a fixture fail or are fetched from the network (passthrough)
+ *
+ * One JSON file per request (method, URL, params, request body, status,
+ * validators, raw body), named after the endpoint and a hash of the method,
+ * endpoint, sorted params and request body, so fixtures do not depend on the
+ * base URL they were recorded from and requests differing only in their body
+ * do not share one. A 304 answering a conditional request is never recorded: it has no
+ * body to replay, and would replace the recorded response.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { HttpClientMode, HttpReplayMiss, Logger } from '../types/index.js';
+import { FixtureNotFoundError } from '../core/errors.js';
+
+/**
+ * One recorded upstream request and its response
+ */
+export interface HttpFixture {
+  method: string;
+  url: string;
+  endpoint: string; // Path relative to the base URL
+  params: Record<string, string>;
+  requestBody?: string; // Body sent with the request, when it had one
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  etag?: string | null; // Validators, replayed so responses can be revalidated
+  lastModified?: string | null;
+  body: string; // Raw response body (XML for most endpoints)
+  recordedAt: string;
+}
+
+export interface HttpFixtureOptions {
+  mode: HttpClientMode;
+  fixturesDir: string;
+  baseUrl: string;
+  replayMiss?: HttpReplayMiss; // Default: fail
+}
+
+const FIXTURE_SLUG_MAX_LENGTH = 80;
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Fixture files in a directory, keyed by request
+ */
+export class HttpFixtureStore {
+  private readonly dir: string;
+  private readonly basePath: string;
+
+  constructor(fixturesDir: string, baseUrl: string) {
+    this.dir = resolve(fixturesDir);
+    this.basePath = new URL(baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`).pathname;
+  }
+
+  /**
+   * Read the fixture of a request, or null when none was recorded
+   */
+  async read(method: string, url: string, requestBody?: string): Promise<HttpFixture | null> {
+    try {
+      const content = await readFile(this.pathFor(method, url, requestBody), 'utf-8');
+      return JSON.parse(content) as HttpFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save the response of a request, replacing an earlier recording
+   */
+  async write(
+    method: string,
+    url: string,
+    response: Response,
+    body: string,
+    requestBody?: string
+  ): Promise<HttpFixture> {
+    const { endpoint, params } = this.describe(url);
+    const fixture: HttpFixture = {
+      method,
+      url,
+      endpoint,
+      params,
+      requestBody,
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type'),
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+      body,
+      recordedAt: new Date().toISOString(),
+    };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(method, url, requestBody), `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8');
+    return fixture;
+  }
+
+  /**
+   * File of a request: endpoint slug plus a hash of method, endpoint, sorted params and body
+   *
+   * Requests without a body keep the hash of method, endpoint and params alone.
+   */
+  pathFor(method: string, url: string, requestBody?: string): string {
+    const { endpoint, params } = this.describe(url);
+    const query = new URLSearchParams(Object.entries(params).sort(([a], [b]) => a.localeCompare(b))).toString();
+    const request = `${method} ${endpoint}?${query}`;
+    const key = requestBody === undefined ? request : `${request}\n${requestBody}`;
+    const hash = createHash('sha256').update(key).digest('hex').slice(0, 12);
+    const slug =
+      endpoint
+        .replace(/[^a-zA-Z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .slice(0, FIXTURE_SLUG_MAX_LENGTH) || 'root';
+
+    return join(this.dir, `${slug}-${hash}.json`);
+  }
+
+  private describe(url: string): { endpoint: string; params: Record<string, string> } {
+    const parsed = new URL(url);
+    const endpoint = parsed.pathname.startsWith(this.basePath)
+      ? parsed.pathname.slice(this.basePath.length)
+      : parsed.pathname;
+
+    return { endpoint, params: Object.fromEntries(parsed.searchParams.entries()) };
+  }
+}
+
+function fixtureResponse(fixture: HttpFixture): Response {
+  const headers: Record<string, string> = {};
+  if (fixture.contentType) {
+    headers['Content-Type'] = fixture.contentType;
+  }
+  if (fixture.etag) {
+    headers['ETag'] = fixture.etag;
+  }
+  if (fixture.lastModified) {
+    headers['Last-Modified'] = fixture.lastModified;
+  }
+
+  return new Response(NULL_BODY_STATUSES.has(fixture.status) ? null : fixture.body, {
+    status: fixture.status,
+    statusText: fixture.statusText,
+    headers,
+  });
+}
+
+function requestMethod(init?: RequestInit): string {
+  return (init?.method ?? 'GET').toUpperCase();
+}
+
+/**
+ * Text of the request body, or undefined when the request has none
+ */
+async function requestBody(url: string, init?: RequestInit): Promise<string | undefined> {
+  if (init?.body === undefined || init.body === null) {
+    return undefined;
+  }
+
+  return typeof init.body === 'string' ? init.body : new Request(url, init).text();
+}
+
+/**
+ * Create the fetch used by SenadoHttpClient for a mode
+ *
+ * Returns undefined in live mode (the client uses the global fetch).
+ */
+export function createFixtureFetch(
+  options: HttpFixtureOptions,
+  logger: Logger,
+  fetchFn: typeof fetch = (input, init) => fetch(input, init)
+): typeof fetch | undefined {
+  if (options.mode === 'live') {
+    return undefined;
+  }
+
+  const store = new HttpFixtureStore(options.fixturesDir, options.baseUrl);
+  const replayMiss = options.replayMiss ?? 'fail';
+
+  logger.info('Senado API fixtures enabled', {
+    mode: options.mode,
+    fixturesDir: resolve(options.fixturesDir),
+    replayMiss: options.mode === 'replay' ? replayMiss : undefined,
+  });
+
+  if (options.mode === 'record') {
+    return async (input, init) => {
+      const url = String(input);
+      const body = await requestBody(url, init);
+      // The body is read once, so it goes on as text
+      const response = await fetchFn(url, body === undefined ? init : { ...init, body });
+      if (response.status === 304) {
+        logger.debug('HTTP fixture kept, response not modified', { url });
+        return response;
+      }
+      const fixture = await store.write(requestMethod(init), url, response, await response.text(), body);
+      logger.debug('HTTP fixture recorded', { url, status: fixture.status });
+      return fixtureResponse(fixture);
+    };
+  }
+
+  return async (input, init) => {
+    const url = String(input);
+    const method = requestMethod(init);
+    const body = await requestBody(url, init);
+    const fixture = await store.read(method, url, body);
+
+    if (fixture) {
+      logger.debug('HTTP fixture replayed', { url, status: fixture.status });
+      return fixtureResponse(fixture);
+    }
+
+    if (replayMiss === 'fail') {
+      throw new FixtureNotFoundError(method, url);
+    }
+
+    logger.warn('No HTTP fixture, fetching from the network', { url });
+    return fetchFn(url, body === undefined ? init : { ...init, body });
+  };
+}
@@ -7,9 +7,11 @@
  * - PII masking for sensitive data
  * - JSON and text output formats
  * - Specialized logging methods
+ * - Subscribers (MCP logging) receiving every entry, always PII-masked
+ * - Child loggers adding bound context (e.g. the client session) to their entries
  */
 
-import type { Logger, LogLevel, LogEntry } from '../types/index.js';
+import type { Logger, LogLevel, LogEntry, LogSink } from '../types/index.js';
 import { LogLevel as Level } from '../types/index.js';
 
 export interface LoggerConfig {
@@ -26,6 +28,8 @@ export class StructuredLogger implements Logger {
     [Level.WARN]: 2,
     [Level.ERROR]: 3,
   };
+  private sinks = new Set<LogSink>();
+  private bindings?: Record<string, unknown>;
 
   constructor(config: LoggerConfig) {
     this.config = config;
@@ -103,14 +107,51 @@ export class StructuredLogger implements Logger {
     this.debug('Cache miss', { key });
   }
 
+  /**
+   * Receive every log entry, whatever the configured level
+   *
+   * Entries are PII-masked even when maskPII is off, since subscribers send
+   * them out of the server. Returns the unsubscribe function.
+   */
+  subscribe(sink: LogSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  /**
+   * Logger adding the bindings to every entry's context
+   *
+   * The child shares this logger's configuration and subscribers.
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    const child = new StructuredLogger(this.config);
+    child.sinks = this.sinks;
+    child.bindings = { ...this.bindings, ...bindings };
+    return child;
+  }
+
   /**
    * Core logging method
    */
   private log(
     level: LogLevel,
     message: string,
-    context?: Record<string, unknown>
+    entryContext?: Record<string, unknown>
   ): void {
+    const context = this.bindings ? { ...this.bindings, ...entryContext } : entryContext;
+    const timestamp = new Date().toISOString();
+
+    if (this.sinks.size > 0) {
+      this.publish({
+        timestamp,
+        level,
+        message,
+        context: context ? (this.maskSensitiveData(context) as Record<string, unknown>) : undefined,
+      });
+    }
+
     // Check if message should be logged based on level
     if (
       this.levelPriority[level] < this.levelPriority[this.config.level]
@@ -120,7 +161,7 @@ export class StructuredLogger implements Logger {
 
     // Create log entry
     const entry: LogEntry = {
-      timestamp: new Date().toISOString(),
+      timestamp,
       level,
       message,
       context: context
@@ -134,6 +175,19 @@ export class StructuredLogger implements Logger {
     this.output(entry);
   }
 
+  /**
+   * Hand an entry to the subscribers; a failing subscriber never breaks logging
+   */
+  private publish(entry: LogEntry): void {
+    for (const sink of this.sinks) {
+      try {
+        sink(entry);
+      } catch {
+        // Ignore subscriber errors (logging them could loop back here)
+      }
+    }
+  }
+
   /**
    * Output log entry
    */
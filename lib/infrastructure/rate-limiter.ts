@@ -14,6 +14,7 @@ import type {
   RateLimiterConfig,
   Logger,
 } from '../types/index.js';
+import { cancellationError, throwIfCancelled } from '../core/errors.js';
 
 export class TokenBucketRateLimiter implements RateLimiter {
   private tokens: number;
@@ -129,19 +130,23 @@ export class TokenBucketRateLimiter implements RateLimiter {
 
   /**
    * Wait for rate limit to allow request
+   *
+   * Stops waiting with RequestCancelledError once the signal aborts, without
+   * taking a token.
    */
-  async waitForToken(): Promise<void> {
+  async waitForToken(signal?: AbortSignal): Promise<void> {
     const maxWaitTime = this.config.interval; // Wait at most one full interval
     const startTime = Date.now();
 
     while (Date.now() - startTime < maxWaitTime) {
+      throwIfCancelled(signal);
       if (await this.checkLimit()) {
         return;
       }
 
       // Wait for next refill
       const waitTime = this.getNextRefillTime();
-      await this.sleep(waitTime);
+      await this.sleep(waitTime, signal);
     }
 
     throw new RateLimitError(
@@ -151,10 +156,24 @@ export class TokenBucketRateLimiter implements RateLimiter {
   }
 
   /**
-   * Sleep utility
+   * Sleep utility, cut short when the signal aborts
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancellationError(signal));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancellationError(signal!));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
@@ -178,6 +197,10 @@ export class NoOpRateLimiter implements RateLimiter {
     return true;
   }
 
+  async waitForToken(signal?: AbortSignal): Promise<void> {
+    throwIfCancelled(signal);
+  }
+
   getStats(): RateLimiterStats {
     return {
       tokens: Infinity,
@@ -0,0 +1,181 @@
+/**
+ * Response Parsers for Senado Federal API
+ *
+ * Dados Abertos answers in XML or JSON (Accept header). Both parsers produce
+ * the same normalized tree, the one fast-xml-parser builds from the XML:
+ * - values trimmed; "true"/"false" and numeric strings typed the same way
+ * - attributes under "@_name", element text under "#text"
+ * - empty elements (JSON null or {}) as ""
+ *
+ * so tools and mappers work unchanged whichever format was asked for.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type { ResponseFormat, ResponseParser } from '../types/index.js';
+import { ResponseParseError } from '../core/errors.js';
+
+const ATTRIBUTE_PREFIX = '@_';
+
+const hexPattern = /^[-+]?0x[a-fA-F0-9]+$/;
+const eNotationPattern = /^([-+])?(0*)([0-9]*(\.[0-9]*)?[eE][-+]?[0-9]+)$/;
+const numberPattern = /^([-+])?(0*)([0-9]*(\.[0-9]*)?)$/;
+
+/**
+ * Parse XML bodies with the options the Senado API needs
+ */
+export class XmlResponseParser implements ResponseParser {
+  readonly format = 'xml' as const;
+  readonly accept = 'application/xml, application/json, text/xml, */*';
+  private readonly parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: ATTRIBUTE_PREFIX,
+    textNodeName: '#text',
+    parseAttributeValue: true,
+    parseTagValue: true,
+    trimValues: true,
+    ignoreDeclaration: true,
+    ignorePiTags: true,
+  });
+
+  matches(contentType: string, text: string): boolean {
+    return (
+      contentType.includes('application/xml') ||
+      contentType.includes('text/xml') ||
+      text.trim().startsWith('<?xml')
+    );
+  }
+
+  parse<T>(text: string): T {
+    try {
+      return this.parser.parse(text) as T;
+    } catch (error) {
+      throw new ResponseParseError(this.format, (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Parse JSON bodies into the tree XmlResponseParser builds
+ *
+ * Dados Abertos JSON keeps XML attributes as "@name" keys and leaf values as
+ * strings, so both are normalized like fast-xml-parser does.
+ */
+export class JsonResponseParser implements ResponseParser {
+  readonly format = 'json' as const;
+  readonly accept = 'application/json, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.8';
+
+  matches(contentType: string): boolean {
+    return contentType.includes('application/json');
+  }
+
+  parse<T>(text: string): T {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new ResponseParseError(this.format, (error as Error).message);
+    }
+    return normalizeJson(parsed) as T;
+  }
+}
+
+function normalizeJson(node: unknown): unknown {
+  if (typeof node === 'string') {
+    return parseScalar(node.trim());
+  }
+  if (node === null) {
+    return '';
+  }
+  if (Array.isArray(node)) {
+    return node.map(normalizeJson);
+  }
+  if (typeof node === 'object') {
+    const entries = Object.entries(node);
+    if (entries.length === 0) {
+      return '';
+    }
+    const normalized: Record<string, unknown> = {};
+    for (const [key, value] of entries) {
+      const name = key.startsWith('@') && !key.startsWith(ATTRIBUTE_PREFIX) ? ATTRIBUTE_PREFIX + key.slice(1) : key;
+      normalized[name] = normalizeJson(value);
+    }
+    return normalized;
+  }
+  return node;
+}
+
+/**
+ * Type a trimmed value the way fast-xml-parser does (parseValue and strnum
+ * with hex, leading zeros and e-notation enabled)
+ */
+function parseScalar(value: string): unknown {
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  if (!value) {
+    return value;
+  }
+  if (value === '0') {
+    return 0;
+  }
+  if (hexPattern.test(value)) {
+    return parseInt(value, 16);
+  }
+  if (/[eE]/.test(value)) {
+    const notation = eNotationPattern.exec(value);
+    return notation ? Number((notation[1] ?? '') + notation[3]) : value;
+  }
+
+  const match = numberPattern.exec(value);
+  if (!match) {
+    return value;
+  }
+
+  const sign = match[1] ?? '';
+  const leadingZeros = match[2]!;
+  const digits = trimZeros(match[3]!);
+  if (leadingZeros === value) {
+    return 0;
+  }
+
+  const number = Number(value);
+  const numberText = String(number);
+  if (/[eE]/.test(numberText)) {
+    return number;
+  }
+  if (value.includes('.')) {
+    if (numberText === '0' && digits === '') {
+      return number;
+    }
+    return numberText === digits || (sign && numberText === `-${digits}`) ? number : value;
+  }
+  if (leadingZeros) {
+    return digits === numberText || sign + digits === numberText ? number : value;
+  }
+  return value === numberText || value === sign + numberText ? number : value;
+}
+
+function trimZeros(digits: string): string {
+  if (!digits.includes('.')) {
+    return digits;
+  }
+
+  const trimmed = digits.replace(/0+$/, '');
+  if (trimmed === '.') {
+    return '0';
+  }
+  if (trimmed.startsWith('.')) {
+    return `0${trimmed}`;
+  }
+  return trimmed.endsWith('.') ? trimmed.slice(0, -1) : trimmed;
+}
+
+/**
+ * Factory function to create the parser for a format
+ */
+export function createResponseParser(format: ResponseFormat): ResponseParser {
+  return format === 'json' ? new JsonResponseParser() : new XmlResponseParser();
+}
@@ -0,0 +1,209 @@
+/**
+ * In-Memory Session Store
+ *
+ * Session storage for the Streamable HTTP transport on Node:
+ * - Sessions expire after an idle timeout (checked lazily), telling the
+ *   onExpired listeners
+ * - Keeps the latest SSE events of each stream, for the session's most recently
+ *   active streams, for Last-Event-ID resumption
+ * - Queues server notifications for sessions without an open GET stream
+ */
+
+import type { Logger, LoggingLevel, MCPSession, MCPStreamEvent, SessionStore } from '../types/index.js';
+
+export interface SessionStoreConfig {
+  ttl: number; // Idle session lifetime in milliseconds
+  maxEvents: number; // Events kept per stream for resumption (and queued notifications)
+  maxStreams?: number; // Streams of a session whose events are kept
+}
+
+const DEFAULT_MAX_STREAMS = 20;
+
+interface SessionEntry {
+  session: MCPSession;
+  events: MCPStreamEvent[];
+  sequence: number;
+  queued: unknown[];
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private readonly config: SessionStoreConfig;
+  private readonly logger: Logger;
+  private readonly sessions: Map<string, SessionEntry>;
+  private readonly expiredListeners: Array<(sessionId: string) => void> = [];
+
+  constructor(config: SessionStoreConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+    this.sessions = new Map();
+  }
+
+  onExpired(listener: (sessionId: string) => void): void {
+    this.expiredListeners.push(listener);
+  }
+
+  async create(session: MCPSession): Promise<void> {
+    this.sweep();
+    this.sessions.set(session.id, { session, events: [], sequence: 0, queued: [] });
+    this.logger.debug('Session created', { sessionId: session.id });
+  }
+
+  async touch(id: string): Promise<MCPSession | null> {
+    this.sweep();
+    const entry = this.getEntry(id);
+    if (!entry) {
+      return null;
+    }
+
+    entry.session.lastActivityAt = Date.now();
+    return { ...entry.session };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = this.sessions.delete(id);
+    if (deleted) {
+      this.logger.debug('Session deleted', { sessionId: id });
+    }
+    return deleted;
+  }
+
+  async setLogLevel(id: string, level: LoggingLevel): Promise<boolean> {
+    const entry = this.getEntry(id);
+    if (!entry) {
+      return false;
+    }
+
+    entry.session.logLevel = level;
+    return true;
+  }
+
+  async storeEvent(sessionId: string, streamId: string, message: unknown): Promise<string> {
+    const entry = this.getEntry(sessionId);
+    if (!entry) {
+      // Session terminated mid-call: the event is still sent, but not kept
+      return `${streamId}:0`;
+    }
+
+    const id = `${streamId}:${++entry.sequence}`;
+    entry.events.push({ id, streamId, message });
+    entry.events = trimEvents(
+      entry.events,
+      streamId,
+      this.config.maxEvents,
+      this.config.maxStreams ?? DEFAULT_MAX_STREAMS
+    );
+
+    return id;
+  }
+
+  async replayEventsAfter(sessionId: string, lastEventId: string): Promise<MCPStreamEvent[]> {
+    const events = this.getEntry(sessionId)?.events ?? [];
+    const index = events.findIndex((event) => event.id === lastEventId);
+    if (index < 0) {
+      return [];
+    }
+
+    const { streamId } = events[index]!;
+    return events.slice(index + 1).filter((event) => event.streamId === streamId);
+  }
+
+  async queueNotification(sessionId: string, message: unknown): Promise<boolean> {
+    const entry = this.getEntry(sessionId);
+    if (!entry) {
+      return false;
+    }
+
+    entry.queued.push(message);
+    if (entry.queued.length > this.config.maxEvents) {
+      entry.queued.shift();
+    }
+    return true;
+  }
+
+  async takeNotifications(sessionId: string): Promise<unknown[]> {
+    const entry = this.getEntry(sessionId);
+    if (!entry) {
+      return [];
+    }
+
+    const queued = entry.queued;
+    entry.queued = [];
+    return queued;
+  }
+
+  /**
+   * Get session count (live and not yet swept)
+   */
+  size(): number {
+    return this.sessions.size;
+  }
+
+  private getEntry(id: string): SessionEntry | undefined {
+    const entry = this.sessions.get(id);
+    if (entry && this.isExpired(entry)) {
+      this.expire(id);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private isExpired(entry: SessionEntry): boolean {
+    return Date.now() - entry.session.lastActivityAt > this.config.ttl;
+  }
+
+  /**
+   * Drop expired sessions (runs on session creation and activity, no timers)
+   */
+  private sweep(): void {
+    for (const [id, entry] of this.sessions) {
+      if (this.isExpired(entry)) {
+        this.expire(id);
+      }
+    }
+  }
+
+  private expire(id: string): void {
+    this.sessions.delete(id);
+    this.logger.debug('Session expired', { sessionId: id });
+    for (const listener of this.expiredListeners) {
+      listener(id);
+    }
+  }
+}
+
+/**
+ * Drop the oldest event of a stream over its bound, then the events of the
+ * least recently active stream when the session has too many
+ *
+ * Streams never lose events to other streams, so the response event of a
+ * stream being resumed stays replayable.
+ */
+function trimEvents(
+  events: MCPStreamEvent[],
+  streamId: string,
+  maxEvents: number,
+  maxStreams: number
+): MCPStreamEvent[] {
+  const ofStream = events.filter((event) => event.streamId === streamId);
+  let trimmed = ofStream.length > maxEvents ? events.filter((event) => event !== ofStream[0]) : events;
+
+  // Streams in order of their latest event
+  const byActivity = new Set<string>();
+  for (const event of trimmed) {
+    byActivity.delete(event.streamId);
+    byActivity.add(event.streamId);
+  }
+  if (byActivity.size > maxStreams) {
+    const [oldest] = byActivity;
+    trimmed = trimmed.filter((event) => event.streamId !== oldest);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Create session store
+ */
+export function createSessionStore(config: SessionStoreConfig, logger: Logger): SessionStore {
+  return new InMemorySessionStore(config, logger);
+}
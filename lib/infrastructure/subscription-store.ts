@@ -0,0 +1,69 @@
+/**
+ * In-Memory Subscription Store
+ *
+ * Resource subscriptions on Node (stdio and Streamable HTTP):
+ * - Subscribers of each resource URI
+ * - Checkpoint of the updates poller
+ */
+
+import type { Logger, SubscriptionStore } from '../types/index.js';
+
+export class InMemorySubscriptionStore implements SubscriptionStore {
+  private readonly logger: Logger;
+  private readonly subscribers: Map<string, Set<string>>; // By URI
+  private checkpoint: number | null;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    this.subscribers = new Map();
+    this.checkpoint = null;
+  }
+
+  async subscribe(subscriberId: string, uri: string): Promise<void> {
+    const subscribers = this.subscribers.get(uri) ?? new Set();
+    subscribers.add(subscriberId);
+    this.subscribers.set(uri, subscribers);
+    this.logger.debug('Resource subscribed', { subscriberId, uri });
+  }
+
+  async unsubscribe(subscriberId: string, uri: string): Promise<void> {
+    const subscribers = this.subscribers.get(uri);
+    if (!subscribers?.delete(subscriberId)) {
+      return;
+    }
+
+    if (subscribers.size === 0) {
+      this.subscribers.delete(uri);
+    }
+    this.logger.debug('Resource unsubscribed', { subscriberId, uri });
+  }
+
+  async removeSubscriber(subscriberId: string): Promise<void> {
+    for (const uri of Array.from(this.subscribers.keys())) {
+      await this.unsubscribe(subscriberId, uri);
+    }
+  }
+
+  async getSubscriptions(): Promise<Record<string, string[]>> {
+    const subscriptions: Record<string, string[]> = {};
+    for (const [uri, subscribers] of this.subscribers) {
+      subscriptions[uri] = Array.from(subscribers);
+    }
+    return subscriptions;
+  }
+
+  async getCheckpoint(): Promise<number | null> {
+    return this.checkpoint;
+  }
+
+  async setCheckpoint(time: number): Promise<void> {
+    this.checkpoint = time;
+  }
+}
+
+/**
+ * Create subscription store
+ */
+export function createSubscriptionStore(logger: Logger): SubscriptionStore {
+  return new InMemorySubscriptionStore(logger);
+}
@@ -0,0 +1,174 @@
+/**
+ * Committee Mappers
+ *
+ * Map committee payloads to {@link Comissao}, {@link MembroComissao} and
+ * {@link ParticipacaoComissao}:
+ * - /composicao/lista/{tipo} (lists)
+ * - /composicao/comissao/{codigo} (details and composition)
+ * - /senador/{codigo}/comissoes (a senator's memberships)
+ */
+
+import type {
+  Comissao,
+  ComissaoDetalhada,
+  MembroComissao,
+  OrgaoResumo,
+  ParticipacaoComissao,
+} from '../types/index.js';
+import {
+  findRecordList,
+  mapDefined,
+  pickDate,
+  pickNumber,
+  pickString,
+  unwrapRecord,
+  type UnknownRecord,
+} from './normalize.js';
+
+const COMMITTEE_LIST_KEYS = ['Colegiado', 'colegiado', 'Colegiados', 'colegiados'];
+const MEMBER_LIST_KEYS = ['Membro', 'membro', 'Membros', 'membros'];
+const MEMBERSHIP_LIST_KEYS = ['MembroComissoes', 'Comissao', 'comissao', 'comissoes'];
+
+/**
+ * Pick the body (comissão, colegiado or local) nested under the first prefix that names one.
+ * An empty prefix reads the fields from the record itself.
+ */
+export function pickOrgao(record: unknown, prefixes: string[]): OrgaoResumo | undefined {
+  for (const prefix of prefixes) {
+    const at = (fields: string[]) => fields.map((field) => (prefix ? `${prefix}.${field}` : field));
+    const sigla = pickString(record, at(['SiglaComissao', 'SiglaColegiado', 'SiglaLocal', 'siglaColegiado', 'siglaLocal']))
+      ?? (prefix ? pickString(record, at(['Sigla', 'sigla'])) : undefined);
+    const nome = pickString(record, at(['NomeComissao', 'NomeColegiado', 'NomeLocal', 'nomeColegiado', 'nomeLocal']))
+      ?? (prefix ? pickString(record, at(['Nome', 'nome'])) : undefined);
+
+    if (sigla || nome) {
+      return {
+        codigo: pickNumber(record, [
+          ...at(['CodigoComissao', 'CodigoColegiado', 'codigoColegiado']),
+          ...(prefix ? at(['Codigo', 'codigo']) : []),
+        ]),
+        sigla: sigla?.toUpperCase(),
+        nome,
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a single committee record (`Colegiado` or `IdentificacaoComissao` element)
+ */
+export function mapComissao(record: UnknownRecord): Comissao | undefined {
+  const codigo = pickNumber(record, ['Codigo', 'CodigoColegiado', 'CodigoComissao', 'codigo']);
+  if (codigo === undefined || codigo <= 0) {
+    return undefined;
+  }
+
+  const dataFim = pickDate(record, ['DataFim', 'DataExtincao', 'DataExtincaoComissao', 'dataFim']);
+
+  return {
+    codigo,
+    sigla: pickString(record, ['Sigla', 'SiglaColegiado', 'SiglaComissao', 'sigla'])?.toUpperCase(),
+    nome: pickString(record, ['Nome', 'NomeColegiado', 'NomeComissao', 'nome']),
+    tipo: pickString(record, [
+      'DescricaoTipoColegiado',
+      'descricaoTipoColegiado',
+      'NomeTipoColegiado',
+      'SiglaTipoColegiado',
+      'siglaTipoColegiado',
+    ]),
+    casa: pickString(record, ['SiglaCasa', 'SiglaCasaComissao', 'siglaCasa']),
+    dataInicio: pickDate(record, ['DataInicio', 'DataCriacao', 'DataCriacaoComissao', 'dataInicio']),
+    dataFim,
+    ativa: dataFim === undefined,
+  };
+}
+
+/**
+ * Map a single committee member record
+ */
+export function mapMembroComissao(record: UnknownRecord): MembroComissao | undefined {
+  const nome = pickString(record, [
+    'NomeParlamentar',
+    'IdentificacaoParlamentar.NomeParlamentar',
+    'nomeParlamentar',
+    'nome',
+  ]);
+  if (!nome) {
+    return undefined;
+  }
+
+  return {
+    codigoParlamentar: pickNumber(record, [
+      'CodigoParlamentar',
+      'IdentificacaoParlamentar.CodigoParlamentar',
+      'codigoParlamentar',
+    ]),
+    nome,
+    partido: pickString(record, [
+      'SiglaPartido',
+      'IdentificacaoParlamentar.SiglaPartidoParlamentar',
+      'siglaPartido',
+    ])?.toUpperCase(),
+    uf: pickString(record, ['UfParlamentar', 'SiglaUf', 'IdentificacaoParlamentar.UfParlamentar', 'uf']),
+    cargo: pickString(record, ['DescricaoCargo', 'NomeCargo', 'Cargo.DescricaoCargo', 'cargo']),
+    participacao: pickString(record, ['DescricaoParticipacao', 'TipoVaga', 'participacao']),
+    bloco: pickString(record, ['Bloco.NomeBloco', 'NomeBloco', 'bloco']),
+  };
+}
+
+/**
+ * Map a single committee membership of a senator
+ */
+export function mapParticipacaoComissao(record: UnknownRecord): ParticipacaoComissao | undefined {
+  const comissao = pickOrgao(record, ['IdentificacaoComissao', 'Comissao', 'colegiado', '']);
+  if (!comissao) {
+    return undefined;
+  }
+
+  return {
+    comissao,
+    participacao: pickString(record, ['DescricaoParticipacao', 'descricaoParticipacao', 'participacao']),
+    dataInicio: pickDate(record, ['DataInicio', 'dataInicio']),
+    dataFim: pickDate(record, ['DataFim', 'dataFim']),
+  };
+}
+
+/**
+ * Extract committees from a list response
+ */
+export function extractComissoes(data: unknown): Comissao[] {
+  return mapDefined(findRecordList(data, COMMITTEE_LIST_KEYS), mapComissao);
+}
+
+/**
+ * Extract committee members from a composition response
+ */
+export function extractMembrosComissao(data: unknown): MembroComissao[] {
+  return mapDefined(findRecordList(data, MEMBER_LIST_KEYS), mapMembroComissao);
+}
+
+/**
+ * Extract the committee and its members from a /composicao/comissao/{codigo} response
+ */
+export function extractComissaoDetalhada(data: unknown): ComissaoDetalhada | undefined {
+  const composicao = unwrapRecord(data, ['ComposicaoComissao']);
+  const identificacao = unwrapRecord(composicao, ['IdentificacaoComissao', 'Colegiado']);
+  const comissao = identificacao ? mapComissao(identificacao) : undefined;
+
+  if (!comissao) {
+    return undefined;
+  }
+
+  return {
+    ...comissao,
+    membros: extractMembrosComissao(composicao?.['Membros'] ?? composicao),
+  };
+}
+
+/**
+ * Extract a senator's committee memberships from a /senador/{codigo}/comissoes response
+ */
+export function extractParticipacoesComissao(data: unknown): ParticipacaoComissao[] {
+  return mapDefined(findRecordList(data, MEMBERSHIP_LIST_KEYS), mapParticipacaoComissao);
+}
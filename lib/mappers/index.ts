@@ -0,0 +1,15 @@
+/**
+ * Normalization Layer
+ *
+ * Per-endpoint mappers that turn raw Senado API payloads into the typed
+ * models declared in lib/types.
+ */
+
+export * from './normalize.js';
+export * from './senator-mappers.js';
+export * from './proposal-mappers.js';
+export * from './voting-mappers.js';
+export * from './committee-mappers.js';
+export * from './party-mappers.js';
+export * from './session-mappers.js';
+export * from './reference-mappers.js';
@@ -0,0 +1,243 @@
+/**
+ * Normalization Helpers
+ *
+ * Low-level helpers shared by the per-endpoint mappers and tools:
+ * - Safe record/array access over parsed XML/JSON payloads
+ * - Field lookup across alternative (legacy XML / newer JSON) key names
+ * - Date and scalar coercion
+ * - In-memory pagination
+ */
+
+export type UnknownRecord = Record<string, unknown>;
+
+export const asRecord = (value: unknown): UnknownRecord | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as UnknownRecord)
+    : undefined;
+
+/**
+ * Wrap single values in an array.
+ * The XML parser collapses one-element lists into a plain object.
+ */
+export function normalizeArray<T>(value: unknown): T[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    return value as T[];
+  }
+
+  return [value as T];
+}
+
+export function getNestedValue(source: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((current, key) => {
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    return (current as UnknownRecord)[key];
+  }, source);
+}
+
+/**
+ * Resolve a dotted path, following the first element of any array on the way
+ */
+export function getPath(source: unknown, path: string): unknown {
+  let current = source;
+  for (const key of path.split('.')) {
+    const record = asRecord(Array.isArray(current) ? current[0] : current);
+    if (!record) {
+      return undefined;
+    }
+    current = record[key];
+  }
+  return Array.isArray(current) ? current[0] : current;
+}
+
+/**
+ * Return the first defined, non-empty value among the given (dotted) paths
+ */
+export function pickFirst(record: unknown, paths: string[]): unknown {
+  for (const path of paths) {
+    const value = getPath(record, path);
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Return the list found at the first matching (dotted) path, always as an array
+ */
+export function pickList<T = UnknownRecord>(record: unknown, paths: string[]): T[] {
+  for (const path of paths) {
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    const parent = asRecord(keys.length > 0 ? getPath(record, keys.join('.')) : record);
+    const value = parent?.[last];
+    if (value !== undefined && value !== null && value !== '') {
+      return normalizeArray<T>(value);
+    }
+  }
+  return [];
+}
+
+export function pickString(record: unknown, paths: string[] = []): string | undefined {
+  for (const path of paths) {
+    const value = getPath(record, path);
+    if (value !== undefined && value !== null && typeof value !== 'object') {
+      const text = String(value).trim();
+      if (text !== '') {
+        return text;
+      }
+    }
+  }
+  return undefined;
+}
+
+export function pickNumber(record: unknown, paths: string[]): number | undefined {
+  for (const path of paths) {
+    const value = getPath(record, path);
+    if (value === undefined || value === null || value === '' || typeof value === 'object') {
+      continue;
+    }
+    const number = Number(value);
+    if (Number.isFinite(number)) {
+      return number;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Interpret the Senado API boolean flags ("Sim"/"Não", "S"/"N", true/false)
+ */
+export function pickBoolean(record: unknown, paths: string[]): boolean | undefined {
+  const value = pickFirst(record, paths);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = String(value).trim().toUpperCase();
+  if (['S', 'SIM', 'TRUE', '1'].includes(text)) {
+    return true;
+  }
+  if (['N', 'NAO', 'NÃO', 'FALSE', '0'].includes(text)) {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Convert the date formats returned by the Senado API to ISO (YYYY-MM-DD)
+ */
+export function toIsoDate(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const brazilian = text.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+  if (brazilian) {
+    return `${brazilian[3]}-${brazilian[2]}-${brazilian[1]}`;
+  }
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) {
+    return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  }
+
+  return undefined;
+}
+
+export function pickDate(record: unknown, paths: string[]): string | undefined {
+  return toIsoDate(pickString(record, paths));
+}
+
+/**
+ * Find the first list stored under one of the given keys, searching nested wrappers
+ * (e.g. `{ ListaX: { Xs: { X: [...] } } }`)
+ */
+export function findRecordList(data: unknown, keys: string[], depth = 0): UnknownRecord[] {
+  if (Array.isArray(data)) {
+    return data.filter((item): item is UnknownRecord => asRecord(item) !== undefined);
+  }
+
+  const record = asRecord(data);
+  if (!record || depth > 5) {
+    return [];
+  }
+
+  for (const key of keys) {
+    if (key in record) {
+      const value = record[key];
+      const nested = asRecord(value);
+      // Wrapper objects such as { Tramitacoes: { Tramitacao: [...] } }
+      if (nested && keys.some((k) => typeof nested[k] === 'object' && nested[k] !== null)) {
+        return findRecordList(nested, keys, depth + 1);
+      }
+      return normalizeArray<unknown>(value).filter(
+        (item): item is UnknownRecord => asRecord(item) !== undefined
+      );
+    }
+  }
+
+  for (const value of Object.values(record)) {
+    if (asRecord(value)) {
+      const found = findRecordList(value, keys, depth + 1);
+      if (found.length > 0) {
+        return found;
+      }
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Unwrap a single-record response by descending through the given wrapper keys
+ */
+export function unwrapRecord(data: unknown, wrappers: string[]): UnknownRecord | undefined {
+  let current = asRecord(data);
+  for (const key of wrappers) {
+    const next = asRecord(current?.[key]);
+    if (next) {
+      current = next;
+    }
+  }
+  return current;
+}
+
+export function paginateItems<T>(items: T[], pagina?: number, itens?: number): {
+  pageItems: T[];
+  total: number;
+} {
+  const total = items.length;
+  const page = Math.max(pagina ?? 1, 1);
+  const defaultPageSize = total > 0 ? total : 1;
+  const pageSize = Math.max(itens ?? defaultPageSize, 1);
+  const startIndex = (page - 1) * pageSize;
+  return {
+    pageItems: items.slice(startIndex, startIndex + pageSize),
+    total,
+  };
+}
+
+/**
+ * Map a list of raw records, dropping entries the mapper cannot identify
+ */
+export function mapDefined<T>(records: UnknownRecord[], mapper: (record: UnknownRecord) => T | undefined): T[] {
+  return records
+    .map(mapper)
+    .filter((item): item is T => item !== undefined);
+}
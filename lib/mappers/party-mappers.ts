@@ -0,0 +1,95 @@
+/**
+ * Party Mappers
+ *
+ * Map party and bloc payloads to {@link Partido} and {@link Bloco}:
+ * - /senador/partidos (parties)
+ * - /composicao/lista/blocos and /composicao/bloco/{codigo} (blocs)
+ */
+
+import type { Bloco, Partido } from '../types/index.js';
+import {
+  findRecordList,
+  mapDefined,
+  pickDate,
+  pickList,
+  pickNumber,
+  pickString,
+  unwrapRecord,
+  type UnknownRecord,
+} from './normalize.js';
+
+const PARTY_LIST_KEYS = ['Partido', 'partido', 'Partidos', 'partidos'];
+const BLOC_LIST_KEYS = ['Bloco', 'bloco', 'Blocos', 'blocos'];
+
+/**
+ * Map a single party record
+ */
+export function mapPartido(record: UnknownRecord): Partido | undefined {
+  const codigo = pickNumber(record, ['Codigo', 'CodigoPartido', 'codigo', 'codigoPartido']);
+  const sigla = pickString(record, ['Sigla', 'SiglaPartido', 'sigla', 'siglaPartido'])?.toUpperCase();
+  if (codigo === undefined || !sigla) {
+    return undefined;
+  }
+
+  const dataExtincao = pickDate(record, ['DataExtincao', 'dataExtincao']);
+
+  return {
+    codigo,
+    sigla,
+    nome: pickString(record, ['Nome', 'NomePartido', 'nome', 'nomePartido']),
+    dataCriacao: pickDate(record, ['DataCriacao', 'dataCriacao']),
+    dataExtincao,
+    ativo: dataExtincao === undefined,
+  };
+}
+
+/**
+ * Map a single bloc record
+ */
+export function mapBloco(record: UnknownRecord): Bloco | undefined {
+  const codigo = pickNumber(record, ['CodigoBloco', 'Codigo', 'codigoBloco', 'codigo']);
+  if (codigo === undefined) {
+    return undefined;
+  }
+
+  const partidos = pickList(record, ['Membros.Membro', 'Partidos.Partido', 'membros', 'partidos'])
+    .map((membro) => mapPartido((membro['Partido'] as UnknownRecord | undefined) ?? membro))
+    .filter((partido): partido is Partido => partido !== undefined)
+    .map(({ codigo: codigoPartido, sigla, nome }) => ({ codigo: codigoPartido, sigla, nome }));
+
+  const legislaturas = pickList(record, ['Legislaturas.Legislatura', 'Legislatura', 'legislaturas'])
+    .map((legislatura) => pickNumber(legislatura, ['NumeroLegislatura', 'numero']))
+    .filter((numero): numero is number => numero !== undefined);
+
+  return {
+    codigo,
+    nome: pickString(record, ['NomeBloco', 'Nome', 'nomeBloco', 'nome']) ?? String(codigo),
+    apelido: pickString(record, ['NomeApelido', 'nomeApelido', 'apelido']),
+    dataCriacao: pickDate(record, ['DataCriacao', 'dataCriacao']),
+    dataExtincao: pickDate(record, ['DataExtincao', 'dataExtincao']),
+    partidos,
+    legislaturas,
+  };
+}
+
+/**
+ * Extract parties from a /senador/partidos response
+ */
+export function extractPartidos(data: unknown): Partido[] {
+  return mapDefined(findRecordList(data, PARTY_LIST_KEYS), mapPartido);
+}
+
+/**
+ * Extract blocs from a list response
+ */
+export function extractBlocos(data: unknown): Bloco[] {
+  return mapDefined(findRecordList(data, BLOC_LIST_KEYS), mapBloco);
+}
+
+/**
+ * Extract the bloc from a /composicao/bloco/{codigo} response
+ */
+export function extractBloco(data: unknown): Bloco | undefined {
+  const bloco = unwrapRecord(data, ['DetalheBloco', 'BlocoParlamentar', 'Bloco']);
+  return bloco ? mapBloco(bloco) : undefined;
+}
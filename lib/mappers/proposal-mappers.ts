@@ -0,0 +1,331 @@
+/**
+ * Proposal Mappers
+ *
+ * Map /materia payloads to {@link Materia} and the proposal's records:
+ * - /materia/pesquisa/lista, /materia/tramitando, /materia/atualizadas, /materia/ano (lists)
+ * - /materia/lista/comissao (committee lists)
+ * - /materia/{codigo} (details)
+ * - /materia/{codigo}/tramitacoes, /textos, /autores, /relacionadas, /relatorias and /emendas
+ * - /senador/{codigo}/autorias and /senador/{codigo}/relatorias (the senator side)
+ */
+
+import type {
+  AutorMateria,
+  Emenda,
+  Materia,
+  MateriaRelacionada,
+  OrgaoResumo,
+  Relatoria,
+  TextoMateria,
+  Tramitacao,
+} from '../types/index.js';
+import { pickOrgao } from './committee-mappers.js';
+import { pickParlamentar } from './senator-mappers.js';
+import {
+  asRecord,
+  findRecordList,
+  mapDefined,
+  pickBoolean,
+  pickDate,
+  pickList,
+  pickNumber,
+  pickString,
+  unwrapRecord,
+  type UnknownRecord,
+} from './normalize.js';
+
+const PROPOSAL_LIST_KEYS = ['Materia', 'materia', 'Materias', 'materias'];
+const PROCESSING_LIST_KEYS = ['Tramitacao', 'tramitacao', 'Tramitacoes', 'tramitacoes'];
+const TEXT_LIST_KEYS = ['Texto', 'texto', 'Textos', 'textos'];
+const AUTHOR_LIST_KEYS = ['Autor', 'autor', 'Autores', 'autores'];
+const RELATED_LIST_KEYS = ['MateriaRelacionada', 'materiaRelacionada', 'materiasRelacionadas'];
+const RAPPORTEURSHIP_LIST_KEYS = ['Relator', 'relator', 'Relatoria', 'relatoria', 'Relatorias', 'relatorias'];
+const AMENDMENT_LIST_KEYS = ['Emenda', 'emenda', 'Emendas', 'emendas'];
+const AUTHORSHIP_LIST_KEYS = ['Autoria', 'autoria', 'Autorias', 'autorias'];
+
+function extractAuthors(record: UnknownRecord): string[] {
+  const autores = pickList<unknown>(record, ['Autoria.Autor', 'AutoresPrincipais.AutorPrincipal', 'autores'])
+    .map((autor) =>
+      typeof autor === 'object'
+        ? pickString(autor, ['NomeAutor', 'nomeAutor', 'nome'])
+        : String(autor).trim() || undefined
+    )
+    .filter((nome): nome is string => nome !== undefined);
+
+  if (autores.length > 0) {
+    return autores;
+  }
+
+  const autor = pickString(record, ['Autor', 'autor', 'AutorPrincipal.NomeAutor']);
+  return autor ? [autor] : [];
+}
+
+/**
+ * Map a single proposal record (`Materia` element)
+ */
+export function mapMateria(record: UnknownRecord): Materia | undefined {
+  const codigo = pickNumber(record, [
+    'IdentificacaoMateria.CodigoMateria',
+    'CodigoMateria',
+    'codigoMateria',
+    'Codigo',
+    'codigo',
+  ]);
+  if (codigo === undefined || codigo <= 0) {
+    return undefined;
+  }
+
+  const sigla = pickString(record, [
+    'IdentificacaoMateria.SiglaSubtipoMateria',
+    'SiglaSubtipoMateria',
+    'Sigla',
+    'sigla',
+    'siglaMateria',
+  ])?.toUpperCase();
+  const numero = pickNumber(record, ['IdentificacaoMateria.NumeroMateria', 'NumeroMateria', 'Numero', 'numero']);
+  const ano = pickNumber(record, ['IdentificacaoMateria.AnoMateria', 'AnoMateria', 'Ano', 'ano']);
+
+  return {
+    codigo,
+    sigla,
+    numero,
+    ano,
+    identificacao:
+      pickString(record, [
+        'IdentificacaoMateria.DescricaoIdentificacaoMateria',
+        'DescricaoIdentificacaoMateria',
+        'DescricaoIdentificacao',
+        'identificacao',
+      ]) ?? (sigla && numero !== undefined && ano !== undefined ? `${sigla} ${numero}/${ano}` : undefined),
+    ementa: pickString(record, ['DadosBasicosMateria.EmentaMateria', 'EmentaMateria', 'Ementa', 'ementa']),
+    explicacaoEmenta: pickString(record, [
+      'DadosBasicosMateria.ExplicacaoEmentaMateria',
+      'ExplicacaoEmentaMateria',
+      'explicacaoEmenta',
+    ]),
+    dataApresentacao: pickDate(record, [
+      'DadosBasicosMateria.DataApresentacao',
+      'DataApresentacao',
+      'Data',
+      'dataApresentacao',
+      'data',
+    ]),
+    autores: extractAuthors(record),
+    situacao: pickString(record, [
+      'SituacaoAtual.Autuacoes.Autuacao.Situacao.DescricaoSituacao',
+      'SituacaoAtual.DescricaoSituacao',
+      'Situacao.DescricaoSituacao',
+      'DescricaoSituacao',
+      'situacao',
+    ]),
+    tramitando: pickBoolean(record, ['IdentificacaoMateria.IndicadorTramitando', 'IndicadorTramitando', 'tramitando']),
+    url: pickString(record, ['UrlDetalheMateria', 'urlDetalheMateria', 'url']),
+  };
+}
+
+/**
+ * Extract proposals from a list response
+ */
+export function extractMaterias(data: unknown): Materia[] {
+  return mapDefined(findRecordList(data, PROPOSAL_LIST_KEYS), mapMateria);
+}
+
+/**
+ * Extract the proposal from a /materia/{codigo} response
+ */
+export function extractMateria(data: unknown): Materia | undefined {
+  const materia = unwrapRecord(data, ['DetalheMateria', 'Materia']);
+  return materia ? mapMateria(materia) : undefined;
+}
+
+/**
+ * Extract the proposals authored by a senator from a /senador/{codigo}/autorias response
+ */
+export function extractMateriasAutoria(data: unknown): Materia[] {
+  return mapDefined(findRecordList(data, AUTHORSHIP_LIST_KEYS), (autoria) =>
+    mapMateria(asRecord(autoria['Materia']) ?? autoria)
+  );
+}
+
+/**
+ * Flat JSON layout: siglaLocalOrigem/nomeLocalOrigem (or siglaLocal/nomeLocal for the origin)
+ */
+function pickLocal(record: UnknownRecord, lado: 'Origem' | 'Destino'): OrgaoResumo | undefined {
+  const sigla = pickString(record, [`siglaLocal${lado}`, ...(lado === 'Origem' ? ['siglaLocal'] : [])])?.toUpperCase();
+  const nome = pickString(record, [`nomeLocal${lado}`, ...(lado === 'Origem' ? ['nomeLocal'] : [])]);
+  return sigla || nome ? { sigla, nome } : undefined;
+}
+
+/**
+ * Map a single tramitação record. Records without a date are kept, so callers can count them.
+ */
+export function mapTramitacao(record: UnknownRecord): Tramitacao | undefined {
+  const at = (fields: string[]) => fields.flatMap((field) => [`IdentificacaoTramitacao.${field}`, field]);
+  const numero = pickNumber(record, [...at(['NumeroOrdemTramitacao', 'CodigoTramitacao']), 'codigo']);
+  const data = pickDate(record, [...at(['DataTramitacao']), 'dataTramitacao', 'data']);
+  const descricao = pickString(record, [...at(['TextoTramitacao']), 'textoTramitacao', 'descricao']);
+  if (numero === undefined && !data && !descricao) {
+    return undefined;
+  }
+
+  return {
+    numero,
+    data,
+    descricao,
+    situacao: pickString(record, [...at(['Situacao.DescricaoSituacao']), 'descricaoSituacao', 'situacao']),
+    origem:
+      pickOrgao(record, ['IdentificacaoTramitacao.OrigemTramitacao.Local', 'OrigemTramitacao.Local']) ??
+      pickLocal(record, 'Origem'),
+    destino:
+      pickOrgao(record, ['IdentificacaoTramitacao.DestinoTramitacao.Local', 'DestinoTramitacao.Local']) ??
+      pickLocal(record, 'Destino'),
+  };
+}
+
+/**
+ * Extract tramitações from a /materia/{codigo}/tramitacoes response
+ */
+export function extractTramitacoes(data: unknown): Tramitacao[] {
+  return mapDefined(findRecordList(data, PROCESSING_LIST_KEYS), mapTramitacao);
+}
+
+/**
+ * Map a single proposal text record
+ */
+export function mapTextoMateria(record: UnknownRecord): TextoMateria | undefined {
+  const codigo = pickNumber(record, ['CodigoTexto', 'codigoTexto', 'codigo']);
+  const tipo = pickString(record, ['DescricaoTipoTexto', 'descricaoTipoTexto', 'DescricaoTexto']);
+  const url = pickString(record, ['UrlTexto', 'urlTexto']);
+  if (codigo === undefined && !tipo && !url) {
+    return undefined;
+  }
+
+  return {
+    codigo,
+    tipo,
+    data: pickDate(record, ['DataTexto', 'dataTexto', 'data']),
+    autoria: pickString(record, ['AutoriaTexto', 'NomeAutor', 'autoriaTexto']),
+    orgao: pickOrgao(record, ['IdentificacaoComissao', '']),
+    url,
+  };
+}
+
+/**
+ * Extract texts from a /materia/{codigo}/textos response
+ */
+export function extractTextosMateria(data: unknown): TextoMateria[] {
+  return mapDefined(findRecordList(data, TEXT_LIST_KEYS), mapTextoMateria);
+}
+
+/**
+ * Map a single proposal author record
+ */
+export function mapAutorMateria(record: UnknownRecord): AutorMateria | undefined {
+  const parlamentar = pickParlamentar(record, ['IdentificacaoParlamentar']);
+  const nome = pickString(record, ['NomeAutor', 'nomeAutor', 'nome']) ?? parlamentar?.nome;
+  if (!nome) {
+    return undefined;
+  }
+
+  return {
+    nome,
+    tipo: pickString(record, ['DescricaoTipoAutor', 'descricaoTipoAutor', 'SiglaTipoAutor', 'tipo']),
+    codigoParlamentar: parlamentar?.codigoParlamentar ?? pickNumber(record, ['codigoParlamentar']),
+    partido: parlamentar?.partido ?? pickString(record, ['SiglaPartidoAutor', 'siglaPartido'])?.toUpperCase(),
+    uf: pickString(record, ['UfAutor', 'ufAutor', 'uf']) ?? parlamentar?.uf,
+  };
+}
+
+/**
+ * Extract authors from a /materia/{codigo}/autores response
+ */
+export function extractAutoresMateria(data: unknown): AutorMateria[] {
+  return mapDefined(findRecordList(data, AUTHOR_LIST_KEYS), mapAutorMateria);
+}
+
+/**
+ * Map a single related-proposal record
+ */
+export function mapMateriaRelacionada(record: UnknownRecord): MateriaRelacionada | undefined {
+  const materia = mapMateria(asRecord(record['Materia']) ?? record);
+  if (!materia) {
+    return undefined;
+  }
+
+  return {
+    relacao: pickString(record, ['DescricaoTipoRelacao', 'descricaoTipoRelacao', 'tipoRelacao']),
+    materia,
+  };
+}
+
+/**
+ * Extract related proposals from a /materia/{codigo}/relacionadas response
+ */
+export function extractMateriasRelacionadas(data: unknown): MateriaRelacionada[] {
+  return mapDefined(findRecordList(data, RELATED_LIST_KEYS), mapMateriaRelacionada);
+}
+
+/**
+ * Map a single rapporteurship record, as listed for a proposal (`Relator`)
+ * or for a senator (`Relatoria`, carrying the proposal)
+ */
+export function mapRelatoria(record: UnknownRecord): Relatoria | undefined {
+  const materiaRecord = asRecord(record['Materia']);
+  const materia = materiaRecord ? mapMateria(materiaRecord) : undefined;
+  const relator = pickParlamentar(record, ['IdentificacaoParlamentar', 'Relator', '']);
+  if (!materia && !relator) {
+    return undefined;
+  }
+
+  return {
+    materia: materia && { codigo: materia.codigo, identificacao: materia.identificacao, ementa: materia.ementa },
+    relator,
+    comissao: pickOrgao(record, ['IdentificacaoComissao', 'Comissao', 'colegiado', '']),
+    tipo: pickString(record, ['DescricaoTipoRelator', 'descricaoTipoRelator', 'DescricaoTipoRelatoria']),
+    dataDesignacao: pickDate(record, ['DataDesignacao', 'dataDesignacao', 'data']),
+    dataDestituicao: pickDate(record, ['DataDestituicao', 'dataDestituicao']),
+  };
+}
+
+/**
+ * Extract rapporteurships from a /materia/{codigo}/relatorias or /senador/{codigo}/relatorias response
+ */
+export function extractRelatorias(data: unknown): Relatoria[] {
+  return mapDefined(findRecordList(data, RAPPORTEURSHIP_LIST_KEYS), mapRelatoria);
+}
+
+/**
+ * Flat layout of the presenting body: SiglaColegiadoApresentacao/NomeColegiadoApresentacao
+ */
+function pickColegiadoApresentacao(record: UnknownRecord): OrgaoResumo | undefined {
+  const sigla = pickString(record, ['SiglaColegiadoApresentacao', 'siglaColegiadoApresentacao'])?.toUpperCase();
+  const nome = pickString(record, ['NomeColegiadoApresentacao', 'colegiadoApresentacao']);
+  return sigla || nome ? { sigla, nome } : undefined;
+}
+
+/**
+ * Map a single amendment record
+ */
+export function mapEmenda(record: UnknownRecord): Emenda | undefined {
+  const codigo = pickNumber(record, ['CodigoEmenda', 'codigoEmenda', 'codigo']);
+  if (codigo === undefined || codigo <= 0) {
+    return undefined;
+  }
+
+  return {
+    codigo,
+    numero: pickString(record, ['NumeroEmenda', 'numeroEmenda', 'numero']),
+    tipo: pickString(record, ['DescricaoTipoEmenda', 'descricaoTipoEmenda']),
+    data: pickDate(record, ['DataApresentacao', 'dataApresentacao', 'data']),
+    autor: pickString(record, ['AutoriaEmenda.Autor.NomeAutor', 'NomeAutor', 'autor']),
+    orgao: pickOrgao(record, ['ColegiadoApresentacao']) ?? pickColegiadoApresentacao(record),
+    url: pickString(record, ['TextosEmenda.TextoEmenda.UrlTexto', 'UrlTexto', 'urlTexto']),
+  };
+}
+
+/**
+ * Extract amendments from a /materia/{codigo}/emendas response
+ */
+export function extractEmendas(data: unknown): Emenda[] {
+  return mapDefined(findRecordList(data, AMENDMENT_LIST_KEYS), mapEmenda);
+}
@@ -0,0 +1,116 @@
+/**
+ * Reference Mappers
+ *
+ * Map reference tables to {@link Legislature}, {@link ItemReferencia} and {@link Uf}:
+ * - /plenario/lista/legislaturas (legislatures)
+ * - /tipoMateria, /situacaoMateria, /tipoComissao, /tipoAutor, /tipoSessao,
+ *   /tipoVotacao, /tipoDocumento and /assunto lists (code tables)
+ * - IBGE /localidades/estados (states)
+ */
+
+import type { ItemReferencia, Legislature, Uf } from '../types/index.js';
+import {
+  findRecordList,
+  mapDefined,
+  pickBoolean,
+  pickDate,
+  pickNumber,
+  pickString,
+  type UnknownRecord,
+} from './normalize.js';
+
+const LEGISLATURE_LIST_KEYS = ['Legislatura', 'legislatura', 'Legislaturas', 'legislaturas'];
+const REFERENCE_LIST_KEYS = [
+  'TipoMateria',
+  'Situacao',
+  'TipoComissao',
+  'TipoAutor',
+  'TipoSessao',
+  'TipoVotacao',
+  'TipoDocumento',
+  'Assunto',
+  'tiposMateria',
+  'situacoes',
+  'tiposComissao',
+  'tiposAutor',
+  'tiposSessao',
+  'tiposVotacao',
+  'tiposDocumento',
+  'assuntos',
+];
+const STATE_LIST_KEYS = ['estados'];
+
+/**
+ * Map a single legislature record
+ */
+export function mapLegislatura(record: UnknownRecord): Legislature | undefined {
+  const numero = pickNumber(record, ['NumeroLegislatura', 'numeroLegislatura', 'Codigo', 'numero']);
+  if (numero === undefined || numero <= 0) {
+    return undefined;
+  }
+
+  return {
+    numero,
+    dataInicio: pickDate(record, ['DataInicio', 'dataInicio']),
+    dataFim: pickDate(record, ['DataFim', 'dataFim']),
+    dataEleicao: pickDate(record, ['DataEleicao', 'dataEleicao']),
+    descricao: pickString(record, ['DescricaoLegislatura', 'descricao']),
+  };
+}
+
+/**
+ * Extract legislatures from a /plenario/lista/legislaturas response
+ */
+export function extractLegislaturas(data: unknown): Legislature[] {
+  return mapDefined(findRecordList(data, LEGISLATURE_LIST_KEYS), mapLegislatura);
+}
+
+/**
+ * Map a single code-table entry
+ */
+export function mapItemReferencia(record: UnknownRecord): ItemReferencia | undefined {
+  const codigo = pickNumber(record, ['Codigo', 'codigo']);
+  const sigla = pickString(record, ['Sigla', 'sigla']);
+  if (codigo === undefined && !sigla) {
+    return undefined;
+  }
+
+  return {
+    codigo,
+    sigla,
+    descricao: pickString(record, ['Descricao', 'AssuntoEspecifico', 'Nome', 'descricao', 'assuntoEspecifico']),
+    categoria: pickString(record, ['AssuntoGeral', 'assuntoGeral']),
+    ativo: pickBoolean(record, ['IndicadorAtivo', 'indicadorAtivo', 'ativo']),
+  };
+}
+
+/**
+ * Extract the entries of a code table (tipos, situações, assuntos)
+ */
+export function extractItensReferencia(data: unknown): ItemReferencia[] {
+  return mapDefined(findRecordList(data, REFERENCE_LIST_KEYS), mapItemReferencia);
+}
+
+/**
+ * Map a single IBGE state record
+ */
+export function mapUf(record: UnknownRecord): Uf | undefined {
+  const sigla = pickString(record, ['sigla'])?.toUpperCase();
+  const nome = pickString(record, ['nome']);
+  if (!sigla || !nome) {
+    return undefined;
+  }
+
+  return {
+    sigla,
+    nome,
+    regiao: pickString(record, ['regiao.nome']),
+  };
+}
+
+/**
+ * Extract states from an IBGE /localidades/estados response
+ */
+export function extractUfs(data: unknown): Uf[] {
+  return mapDefined(findRecordList(data, STATE_LIST_KEYS), mapUf);
+}
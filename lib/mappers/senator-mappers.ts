@@ -0,0 +1,388 @@
+/**
+ * Senator Mappers
+ *
+ * Map /senador payloads to {@link Senador} and the senator's records:
+ * - /senador/lista/atual, /senador/lista/legislatura and /senador/afastados (lists)
+ * - /senador/{codigo} (details, with contact and biography data)
+ * - /senador/{codigo}/mandatos, /licencas, /liderancas, /cargos and /filiacoes
+ */
+
+import type {
+  Cargo,
+  Filiacao,
+  FormacaoAcademica,
+  Licenca,
+  Lideranca,
+  Mandato,
+  ParlamentarResumo,
+  Senador,
+  SenadorDetalhado,
+  Telefone,
+} from '../types/index.js';
+import { pickOrgao } from './committee-mappers.js';
+import {
+  asRecord,
+  findRecordList,
+  mapDefined,
+  pickBoolean,
+  pickDate,
+  pickList,
+  pickNumber,
+  pickString,
+  unwrapRecord,
+  type UnknownRecord,
+} from './normalize.js';
+
+const SENATOR_LIST_KEYS = ['Parlamentar', 'parlamentar', 'Parlamentares', 'parlamentares'];
+const MANDATE_PATHS = ['Mandatos.Mandato', 'Mandato', 'mandato', 'mandatos'];
+const MANDATE_LIST_KEYS = ['Mandato', 'mandato', 'Mandatos', 'mandatos'];
+const LEAVE_LIST_KEYS = ['Licenca', 'licenca', 'Licencas', 'licencas', 'Afastamento', 'afastamentos'];
+const LEADERSHIP_LIST_KEYS = ['Lideranca', 'lideranca', 'Liderancas', 'liderancas'];
+const POSITION_LIST_KEYS = ['Cargo', 'cargo', 'Cargos', 'cargos'];
+const AFFILIATION_LIST_KEYS = ['Filiacao', 'filiacao', 'Filiacoes', 'filiacoes'];
+
+/**
+ * Listing context for {@link extractSenadoresListagem}
+ */
+export interface SenatorListingOptions {
+  /** Legislatures of the listing; the latest mandate in them defines the flags */
+  legislaturas?: number[];
+  /** Records come from /senador/afastados */
+  afastados?: boolean;
+}
+
+function pickMandates(record: unknown): UnknownRecord[] {
+  return pickList<unknown>(record, MANDATE_PATHS).filter(
+    (mandato): mandato is UnknownRecord => asRecord(mandato) !== undefined
+  );
+}
+
+export function mapMandato(record: UnknownRecord): Mandato {
+  const legislaturas = [
+    pickNumber(record, ['PrimeiraLegislaturaDoMandato.NumeroLegislatura', 'primeiraLegislatura']),
+    pickNumber(record, ['SegundaLegislaturaDoMandato.NumeroLegislatura', 'segundaLegislatura']),
+  ].filter((numero): numero is number => numero !== undefined);
+
+  return {
+    codigo: pickNumber(record, ['CodigoMandato', 'codigoMandato']),
+    uf: pickString(record, ['UfParlamentar', 'ufParlamentar', 'uf']),
+    participacao: pickString(record, ['DescricaoParticipacao', 'descricaoParticipacao']),
+    legislaturas,
+    dataInicio: pickDate(record, ['PrimeiraLegislaturaDoMandato.DataInicio', 'dataInicio']),
+    dataFim: pickDate(record, ['SegundaLegislaturaDoMandato.DataFim', 'PrimeiraLegislaturaDoMandato.DataFim', 'dataFim']),
+  };
+}
+
+/**
+ * Pick the senator nested under the first prefix that identifies one.
+ * An empty prefix reads the fields from the record itself.
+ */
+export function pickParlamentar(record: unknown, prefixes: string[]): ParlamentarResumo | undefined {
+  for (const prefix of prefixes) {
+    const at = (fields: string[]) => fields.map((field) => (prefix ? `${prefix}.${field}` : field));
+    const codigoParlamentar = pickNumber(record, at(['CodigoParlamentar', 'codigoParlamentar']));
+    const nome = pickString(record, at(['NomeParlamentar', 'nomeParlamentar']));
+
+    if (codigoParlamentar !== undefined || nome) {
+      return {
+        codigoParlamentar,
+        nome,
+        partido: pickString(record, at(['SiglaPartidoParlamentar', 'SiglaPartido', 'siglaPartido']))?.toUpperCase(),
+        uf: pickString(record, at(['UfParlamentar', 'SiglaUf', 'siglaUf'])),
+      };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a single senator record (`Parlamentar` element)
+ */
+export function mapSenador(record: UnknownRecord): Senador | undefined {
+  const id = (paths: string[]) => paths.flatMap((path) => [`IdentificacaoParlamentar.${path}`, path]);
+
+  const codigo = pickNumber(record, [...id(['CodigoParlamentar']), 'codigoParlamentar', 'codigo']);
+  if (codigo === undefined || codigo <= 0) {
+    return undefined;
+  }
+
+  const mandatos = pickMandates(record);
+
+  return {
+    codigo,
+    nome:
+      pickString(record, [...id(['NomeParlamentar']), 'nomeParlamentar', 'nome']) ?? String(codigo),
+    nomeCompleto: pickString(record, [...id(['NomeCompletoParlamentar']), 'nomeCompletoParlamentar']),
+    sexo: pickString(record, [...id(['SexoParlamentar']), 'sexoParlamentar']),
+    formaTratamento: pickString(record, [...id(['FormaTratamento']), 'formaTratamento']),
+    partido: pickString(record, [...id(['SiglaPartidoParlamentar']), 'siglaPartidoParlamentar', 'siglaPartido'])?.toUpperCase(),
+    uf: pickString(record, [...id(['UfParlamentar']), 'ufParlamentar', 'siglaUf']),
+    email: pickString(record, [...id(['EmailParlamentar']), 'emailParlamentar']),
+    urlFoto: pickString(record, [...id(['UrlFotoParlamentar']), 'urlFotoParlamentar']),
+    urlPagina: pickString(record, [...id(['UrlPaginaParlamentar']), 'urlPaginaParlamentar']),
+    dataNascimento: pickDate(record, ['DadosBasicosParlamentar.DataNascimento', 'dataNascimento']),
+    membroMesa: pickBoolean(record, [...id(['MembroMesa']), 'membroMesa']) ?? false,
+    membroLideranca: pickBoolean(record, [...id(['MembroLideranca']), 'membroLideranca']) ?? false,
+    mandatos: mandatos.map(mapMandato),
+  };
+}
+
+/**
+ * Extract senators from a list response
+ */
+export function extractSenadores(data: unknown): Senador[] {
+  return mapDefined(findRecordList(data, SENATOR_LIST_KEYS), mapSenador);
+}
+
+/**
+ * Mandate that defines the listing flags: the latest one within the listed legislatures
+ */
+function pickListingMandate(record: UnknownRecord, legislaturas?: number[]): UnknownRecord | undefined {
+  const mandatos = pickMandates(record);
+  const latest = (numeros: number[]) => Math.max(0, ...numeros);
+
+  const inRange = legislaturas?.length
+    ? mandatos.filter((mandato) => mapMandato(mandato).legislaturas.some((numero) => legislaturas.includes(numero)))
+    : mandatos;
+
+  return [...(inRange.length > 0 ? inRange : mandatos)].sort(
+    (a, b) => latest(mapMandato(b).legislaturas) - latest(mapMandato(a).legislaturas)
+  )[0];
+}
+
+/**
+ * Whether the last exercise of a titular mandate ended early with a cause (licença, renúncia, cassação...)
+ */
+function isAfastado(mandato: UnknownRecord | undefined): boolean {
+  const exercicios = pickList<unknown>(mandato, ['Exercicios.Exercicio', 'exercicios'])
+    .filter((exercicio): exercicio is UnknownRecord => asRecord(exercicio) !== undefined)
+    .sort((a, b) => (pickDate(b, ['DataInicio', 'dataInicio']) ?? '').localeCompare(pickDate(a, ['DataInicio', 'dataInicio']) ?? ''));
+
+  const ultimo = exercicios[0];
+  if (!ultimo || !pickString(ultimo, ['SiglaCausaAfastamento', 'DescricaoCausaAfastamento', 'causaAfastamento'])) {
+    return false;
+  }
+
+  const fimExercicio = pickDate(ultimo, ['DataFim', 'dataFim']);
+  const fimMandato = mandato ? mapMandato(mandato).dataFim : undefined;
+  return fimExercicio !== undefined && (fimMandato === undefined || fimExercicio < fimMandato);
+}
+
+/**
+ * Map a senator record from a listing with the titular / suplente em exercício / afastado flags
+ */
+export function mapSenadorListagem(
+  record: UnknownRecord,
+  options: SenatorListingOptions = {}
+): Senador | undefined {
+  const senador = mapSenador(record);
+  if (!senador) {
+    return undefined;
+  }
+
+  const mandato = pickListingMandate(record, options.legislaturas);
+  const participacao = pickString(mandato, ['DescricaoParticipacao', 'descricaoParticipacao']) ?? '';
+  const suplente = /suplente/i.test(participacao);
+
+  return {
+    ...senador,
+    titular: !suplente,
+    suplenteEmExercicio: suplente,
+    afastado: options.afastados === true || (!suplente && isAfastado(mandato)),
+  };
+}
+
+/**
+ * Extract senators from a listing response, one entry per senator, with listing flags
+ */
+export function extractSenadoresListagem(data: unknown, options: SenatorListingOptions = {}): Senador[] {
+  const seen = new Set<number>();
+
+  return mapDefined(findRecordList(data, SENATOR_LIST_KEYS), (record) =>
+    mapSenadorListagem(record, options)
+  ).filter((senador) => {
+    if (seen.has(senador.codigo)) {
+      return false;
+    }
+    seen.add(senador.codigo);
+    return true;
+  });
+}
+
+/**
+ * Extract the senator from a /senador/{codigo} response
+ */
+export function extractSenador(data: unknown): Senador | undefined {
+  const parlamentar = unwrapRecord(data, ['DetalheParlamentar', 'Parlamentar']);
+  return parlamentar ? mapSenador(parlamentar) : undefined;
+}
+
+const pickTexts = (record: unknown, paths: string[], fields: string[]): string[] =>
+  pickList<unknown>(record, paths)
+    .map((item) => (typeof item === 'object' ? pickString(item, fields) : String(item).trim() || undefined))
+    .filter((text): text is string => text !== undefined);
+
+/**
+ * Extract the senator with contact and biography data from a /senador/{codigo} response
+ */
+export function extractSenadorDetalhado(data: unknown): SenadorDetalhado | undefined {
+  const parlamentar = unwrapRecord(data, ['DetalheParlamentar', 'Parlamentar']);
+  const senador = parlamentar ? mapSenador(parlamentar) : undefined;
+  if (!senador) {
+    return undefined;
+  }
+
+  const telefones: Telefone[] = pickList(parlamentar, ['Telefones.Telefone', 'telefones'])
+    .map((telefone) => ({
+      numero: pickString(telefone, ['NumeroTelefone', 'numeroTelefone', 'numero']),
+      fax: pickBoolean(telefone, ['IndicadorFax', 'indicadorFax', 'fax']) ?? false,
+    }))
+    .filter((telefone): telefone is Telefone => telefone.numero !== undefined);
+
+  const formacao = mapDefined(
+    pickList(parlamentar, ['HistoricoAcademico.Curso', 'historicoAcademico', 'formacao']),
+    (curso): FormacaoAcademica | undefined => {
+      const nome = pickString(curso, ['NomeCurso', 'nomeCurso', 'curso']);
+      return nome
+        ? {
+            curso: nome,
+            grau: pickString(curso, ['GrauInstrucao', 'grauInstrucao', 'grau']),
+            instituicao: pickString(curso, ['Estabelecimento', 'estabelecimento', 'instituicao']),
+            local: pickString(curso, ['Local', 'local']),
+          }
+        : undefined;
+    }
+  );
+
+  const enderecos = [
+    pickString(parlamentar, ['DadosBasicosParlamentar.EnderecoParlamentar', 'enderecoParlamentar']),
+    ...pickTexts(parlamentar, ['Enderecos.Endereco', 'enderecos'], ['DescricaoEndereco', 'endereco']),
+  ].filter((endereco): endereco is string => endereco !== undefined);
+
+  const emails = [
+    senador.email,
+    ...pickTexts(parlamentar, ['Emails.Email', 'emails'], ['EnderecoEmail', 'email']),
+  ].filter((email): email is string => email !== undefined);
+
+  return {
+    ...senador,
+    naturalidade: pickString(parlamentar, ['DadosBasicosParlamentar.Naturalidade', 'naturalidade']),
+    ufNaturalidade: pickString(parlamentar, ['DadosBasicosParlamentar.UfNaturalidade', 'ufNaturalidade']),
+    telefones,
+    enderecos: Array.from(new Set(enderecos)),
+    emails: Array.from(new Set(emails)),
+    formacao,
+    profissoes: pickTexts(parlamentar, ['Profissoes.Profissao', 'profissoes'], ['NomeProfissao', 'nomeProfissao']),
+    biografia: pickString(parlamentar, ['DadosBasicosParlamentar.Biografia', 'Biografia', 'biografia']),
+  };
+}
+
+/**
+ * Extract a senator's mandates from a /senador/{codigo}/mandatos response
+ */
+export function extractMandatos(data: unknown): Mandato[] {
+  return findRecordList(data, MANDATE_LIST_KEYS).map(mapMandato);
+}
+
+/**
+ * Map a single leave record
+ */
+export function mapLicenca(record: UnknownRecord): Licenca | undefined {
+  const dataInicio = pickDate(record, ['DataInicio', 'dataInicio']);
+  const tipo = pickString(record, ['DescricaoTipoAfastamento', 'DescricaoTipoLicenca', 'descricaoTipoAfastamento', 'tipo']);
+  if (!dataInicio && !tipo) {
+    return undefined;
+  }
+
+  return {
+    codigo: pickNumber(record, ['Codigo', 'CodigoLicenca', 'codigo']),
+    sigla: pickString(record, ['SiglaTipoAfastamento', 'SiglaTipoLicenca', 'siglaTipoAfastamento']),
+    tipo,
+    dataInicio,
+    dataFim: pickDate(record, ['DataFim', 'dataFim']),
+  };
+}
+
+/**
+ * Extract a senator's leaves from a /senador/{codigo}/licencas response
+ */
+export function extractLicencas(data: unknown): Licenca[] {
+  return mapDefined(findRecordList(data, LEAVE_LIST_KEYS), mapLicenca);
+}
+
+/**
+ * Map a single leadership record
+ */
+export function mapLideranca(record: UnknownRecord): Lideranca | undefined {
+  const unidade = pickString(record, ['UnidadeLideranca', 'DescricaoUnidadeLideranca', 'unidadeLideranca', 'unidade']);
+  const tipo = pickString(record, ['DescricaoTipoLideranca', 'descricaoTipoLideranca', 'tipo']);
+  if (!unidade && !tipo) {
+    return undefined;
+  }
+
+  return {
+    unidade,
+    tipo,
+    dataInicio: pickDate(record, ['DataDesignacao', 'DataInicio', 'dataDesignacao', 'dataInicio']),
+    dataFim: pickDate(record, ['DataTermino', 'DataFim', 'dataTermino', 'dataFim']),
+  };
+}
+
+/**
+ * Extract a senator's leadership positions from a /senador/{codigo}/liderancas response
+ */
+export function extractLiderancas(data: unknown): Lideranca[] {
+  return mapDefined(findRecordList(data, LEADERSHIP_LIST_KEYS), mapLideranca);
+}
+
+/**
+ * Map a single position record
+ */
+export function mapCargo(record: UnknownRecord): Cargo | undefined {
+  const cargo = pickString(record, ['DescricaoCargo', 'NomeCargo', 'descricaoCargo', 'cargo']);
+  if (!cargo) {
+    return undefined;
+  }
+
+  return {
+    cargo,
+    comissao: pickOrgao(record, ['IdentificacaoComissao', 'Comissao', 'colegiado']),
+    dataInicio: pickDate(record, ['DataInicio', 'dataInicio']),
+    dataFim: pickDate(record, ['DataFim', 'dataFim']),
+  };
+}
+
+/**
+ * Extract a senator's positions from a /senador/{codigo}/cargos response
+ */
+export function extractCargos(data: unknown): Cargo[] {
+  return mapDefined(findRecordList(data, POSITION_LIST_KEYS), mapCargo);
+}
+
+/**
+ * Map a single party affiliation record
+ */
+export function mapFiliacao(record: UnknownRecord): Filiacao | undefined {
+  const at = (fields: string[]) => fields.flatMap((field) => [`Partido.${field}`, field]);
+  const sigla = pickString(record, at(['SiglaPartido', 'siglaPartido', 'Sigla']))?.toUpperCase();
+  if (!sigla) {
+    return undefined;
+  }
+
+  return {
+    partido: {
+      codigo: pickNumber(record, at(['CodigoPartido', 'codigoPartido'])),
+      sigla,
+      nome: pickString(record, at(['NomePartido', 'nomePartido'])),
+    },
+    dataFiliacao: pickDate(record, ['DataFiliacao', 'dataFiliacao']),
+    dataDesfiliacao: pickDate(record, ['DataDesfiliacao', 'dataDesfiliacao']),
+  };
+}
+
+/**
+ * Extract a senator's party affiliations from a /senador/{codigo}/filiacoes response
+ */
+export function extractFiliacoes(data: unknown): Filiacao[] {
+  return mapDefined(findRecordList(data, AFFILIATION_LIST_KEYS), mapFiliacao);
+}
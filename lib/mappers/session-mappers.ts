@@ -0,0 +1,129 @@
+/**
+ * Session Mappers
+ *
+ * Map plenary session payloads to {@link Sessao}, {@link ResultadoSessao} and {@link Discurso}:
+ * - /sessao/lista (lists)
+ * - /sessao/{codigo} (details)
+ * - /plenario/resultado/mes/{data} (sessions with their results)
+ * - /sessao/{codigo}/discursos, /senador/{codigo}/discursos and /senador/{codigo}/apartes (lists)
+ * - /discurso/{codigo} (details)
+ */
+
+import type { Discurso, ResultadoSessao, Sessao } from '../types/index.js';
+import { pickParlamentar } from './senator-mappers.js';
+import {
+  findRecordList,
+  mapDefined,
+  pickDate,
+  pickList,
+  pickNumber,
+  pickString,
+  unwrapRecord,
+  type UnknownRecord,
+} from './normalize.js';
+
+const SESSION_LIST_KEYS = ['Sessao', 'sessao', 'Sessoes', 'sessoes', 'SessaoPlenaria'];
+const SPEECH_LIST_KEYS = [
+  'Pronunciamento',
+  'pronunciamento',
+  'Pronunciamentos',
+  'pronunciamentos',
+  'Aparte',
+  'aparte',
+  'Apartes',
+  'apartes',
+];
+
+/**
+ * Map a single plenary session record
+ */
+export function mapSessao(record: UnknownRecord): Sessao | undefined {
+  const codigo = pickNumber(record, ['CodigoSessao', 'codigoSessao', 'Codigo', 'codigo']);
+  if (codigo === undefined || codigo <= 0) {
+    return undefined;
+  }
+
+  return {
+    codigo,
+    numero: pickNumber(record, ['NumeroSessao', 'numeroSessao', 'numero']),
+    tipo: pickString(record, ['DescricaoTipoSessao', 'TipoSessao', 'SiglaTipoSessao', 'tipoSessao', 'tipo']),
+    data: pickDate(record, ['DataSessao', 'dataSessao', 'data']),
+    hora: pickString(record, ['HoraInicioSessao', 'HoraSessao', 'horaInicio', 'hora']),
+    casa: pickString(record, ['SiglaCasaSessao', 'SiglaCasa', 'siglaCasa', 'casa']),
+    situacao: pickString(record, ['DescricaoSituacaoSessao', 'SituacaoSessao', 'situacao']),
+    legislatura: pickNumber(record, ['NumeroLegislatura', 'numeroLegislatura', 'legislatura']),
+    descricao: pickString(record, ['DescricaoSessao', 'IdentificacaoSessao', 'descricao']),
+  };
+}
+
+/**
+ * Extract plenary sessions from a list response
+ */
+export function extractSessoes(data: unknown): Sessao[] {
+  return mapDefined(findRecordList(data, SESSION_LIST_KEYS), mapSessao);
+}
+
+/**
+ * Extract the session from a /sessao/{codigo} response
+ */
+export function extractSessao(data: unknown): Sessao | undefined {
+  const sessao = unwrapRecord(data, ['DetalheSessao', 'SessaoPlenaria', 'Sessao']);
+  return sessao ? mapSessao(sessao) : undefined;
+}
+
+/**
+ * Extract the sessions of a /plenario/resultado/mes/{data} response with their deliberations
+ */
+export function extractResultadosPlenario(data: unknown): ResultadoSessao[] {
+  return mapDefined(findRecordList(data, SESSION_LIST_KEYS), (record) => {
+    const sessao = mapSessao(record);
+    if (!sessao) {
+      return undefined;
+    }
+
+    return {
+      ...sessao,
+      itens: pickList(record, ['Itens.Item', 'itens']).map((item) => ({
+        materia: pickString(item, ['IdentificacaoMateria', 'DescricaoIdentificacaoMateria', 'identificacao']),
+        ementa: pickString(item, ['Ementa', 'ementa']),
+        resultado: pickString(item, ['Resultado', 'resultado']),
+      })),
+    };
+  });
+}
+
+/**
+ * Map a single speech (`Pronunciamento`) or aparte record
+ */
+export function mapDiscurso(record: UnknownRecord): Discurso | undefined {
+  const codigo = pickNumber(record, ['CodigoPronunciamento', 'codigoPronunciamento', 'codigo']);
+  if (codigo === undefined || codigo <= 0) {
+    return undefined;
+  }
+
+  return {
+    codigo,
+    data: pickDate(record, ['DataPronunciamento', 'dataPronunciamento', 'data']),
+    casa: pickString(record, ['SiglaCasaPronunciamento', 'siglaCasaPronunciamento', 'casa']),
+    tipo: pickString(record, ['TipoUsoPalavra.Descricao', 'DescricaoTipoUsoPalavra', 'tipoUsoPalavra']),
+    resumo: pickString(record, ['TextoResumo', 'textoResumo', 'resumo']),
+    indexacao: pickString(record, ['Indexacao', 'indexacao']),
+    orador: pickParlamentar(record, ['Orador', 'orador']),
+    url: pickString(record, ['UrlTexto', 'urlTexto', 'url']),
+  };
+}
+
+/**
+ * Extract speeches or apartes from a list response
+ */
+export function extractDiscursos(data: unknown): Discurso[] {
+  return mapDefined(findRecordList(data, SPEECH_LIST_KEYS), mapDiscurso);
+}
+
+/**
+ * Extract the speech from a /discurso/{codigo} response
+ */
+export function extractDiscurso(data: unknown): Discurso | undefined {
+  const discurso = unwrapRecord(data, ['DetalheDiscurso', 'Pronunciamento']);
+  return discurso ? mapDiscurso(discurso) : undefined;
+}
@@ -0,0 +1,245 @@
+/**
+ * Voting Mappers
+ *
+ * Map /votacao payloads to {@link Votacao}, {@link Voto} and {@link VotingOrientation}:
+ * - /votacao and /sessao/{codigo}/votacoes (lists)
+ * - /votacao/{codigo} (details)
+ * - /votacao/{codigo}/votos (individual votes)
+ * - /votacao/{codigo}/orientacoes (party/bloc orientations)
+ * - /votacao/{codigo}/estatisticas (totals)
+ * - /senador/{codigo}/votacoes (a senator's own votes)
+ */
+
+import type {
+  EstatisticaVotacao,
+  NormalizedVote,
+  SenatorVotingRecord,
+  Votacao,
+  VotingOrientation,
+  Voto,
+} from '../types/index.js';
+import {
+  asRecord,
+  findRecordList,
+  mapDefined,
+  pickBoolean,
+  pickDate,
+  pickFirst,
+  pickList,
+  pickNumber,
+  pickString,
+  unwrapRecord,
+  type UnknownRecord,
+} from './normalize.js';
+import { pickOrgao } from './committee-mappers.js';
+
+const VOTING_LIST_KEYS = ['sessaoVotacao', 'sessoesVotacao', 'Votacao', 'votacao', 'Votacoes', 'votacoes'];
+const VOTE_LIST_KEYS = ['votos', 'Votos', 'VotoParlamentar', 'VotosParlamentares'];
+const ORIENTATION_LIST_KEYS = ['orientacao', 'Orientacao', 'OrientacaoBancada', 'orientacoes', 'Orientacoes'];
+
+/**
+ * Normalize a vote or orientation description ("Sim", "NÃO", "Abstenção", ...)
+ */
+export function normalizeVoteValue(value: unknown): NormalizedVote {
+  const normalized = String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toUpperCase();
+
+  if (normalized === 'SIM' || normalized === 'S') return 'SIM';
+  if (normalized === 'NAO' || normalized === 'N') return 'NAO';
+  if (normalized.startsWith('ABST')) return 'ABSTENCAO';
+  if (normalized.startsWith('OBSTR')) return 'OBSTRUCAO';
+  if (normalized.startsWith('LIBER')) return 'LIBERADO';
+  return 'OUTRO';
+}
+
+/**
+ * Map a single senator vote record
+ */
+export function mapVoto(record: UnknownRecord): Voto | undefined {
+  const codigoParlamentar = pickNumber(record, [
+    'codigoParlamentar',
+    'CodigoParlamentar',
+    'IdentificacaoParlamentar.CodigoParlamentar',
+  ]);
+  if (codigoParlamentar === undefined || codigoParlamentar <= 0) {
+    return undefined;
+  }
+
+  const votoOriginal = pickString(record, [
+    'siglaVotoParlamentar',
+    'voto',
+    'Voto',
+    'siglaVoto',
+    'SiglaVoto',
+    'qualidadeVoto',
+    'SiglaDescricaoVoto',
+    'descricaoVotoParlamentar',
+    'DescricaoVoto',
+  ]);
+
+  return {
+    codigoParlamentar,
+    nomeParlamentar: pickString(record, [
+      'nomeParlamentar',
+      'NomeParlamentar',
+      'IdentificacaoParlamentar.NomeParlamentar',
+    ]),
+    partido: pickString(record, [
+      'siglaPartidoParlamentar',
+      'siglaPartido',
+      'SiglaPartido',
+      'SiglaPartidoParlamentar',
+      'IdentificacaoParlamentar.SiglaPartidoParlamentar',
+    ])?.toUpperCase(),
+    uf: pickString(record, ['siglaUFParlamentar', 'siglaUf', 'UfParlamentar', 'IdentificacaoParlamentar.UfParlamentar']),
+    voto: normalizeVoteValue(votoOriginal),
+    votoOriginal,
+  };
+}
+
+/**
+ * Extract individual votes from a /votacao/{codigo}/votos response
+ */
+export function extractVotos(data: unknown): Voto[] {
+  return mapDefined(findRecordList(data, VOTE_LIST_KEYS), mapVoto);
+}
+
+/**
+ * Map a single voting session record
+ */
+export function mapVotacao(record: UnknownRecord): Votacao | undefined {
+  const codigo = pickNumber(record, [
+    'codigoSessaoVotacao',
+    'CodigoSessaoVotacao',
+    'codigoVotacao',
+    'CodigoVotacao',
+    'codigo',
+  ]);
+  if (codigo === undefined || codigo <= 0) {
+    return undefined;
+  }
+
+  const codigoMateria = pickNumber(record, [
+    'codigoMateria',
+    'CodigoMateria',
+    'IdentificacaoMateria.CodigoMateria',
+  ]);
+  const sigla = pickString(record, ['sigla', 'IdentificacaoMateria.SiglaSubtipoMateria']);
+  const numero = pickString(record, ['numero', 'IdentificacaoMateria.NumeroMateria']);
+  const ano = pickString(record, ['ano', 'IdentificacaoMateria.AnoMateria']);
+  const identificacao =
+    pickString(record, ['identificacao', 'IdentificacaoMateria.DescricaoIdentificacaoMateria']) ??
+    (sigla && numero && ano ? `${sigla} ${numero}/${ano}` : undefined);
+
+  const votos = pickList<unknown>(record, ['votos', 'Votos.VotoParlamentar', 'VotosParlamentares.VotoParlamentar'])
+    .filter((voto): voto is UnknownRecord => asRecord(voto) !== undefined);
+
+  return {
+    codigo,
+    codigoSessao: pickNumber(record, ['codigoSessao', 'CodigoSessao', 'SessaoPlenaria.CodigoSessao']),
+    data: pickDate(record, ['dataSessao', 'DataSessao', 'SessaoPlenaria.DataSessao', 'data']),
+    descricao: pickString(record, ['descricaoVotacao', 'DescricaoVotacao', 'descricao']),
+    resultado: pickString(record, ['resultadoVotacao', 'DescricaoResultado', 'Resultado', 'resultado']),
+    secreta: pickBoolean(record, ['votacaoSecreta', 'Secreta', 'IndicadorVotacaoSecreta']),
+    colegiado: pickOrgao(record, ['', 'Colegiado']),
+    materia:
+      codigoMateria !== undefined || identificacao
+        ? {
+            codigo: codigoMateria ?? 0,
+            identificacao,
+            ementa: pickString(record, ['ementa', 'IdentificacaoMateria.EmentaMateria']),
+          }
+        : undefined,
+    totais: {
+      sim: pickNumber(record, ['totalVotosSim', 'TotalVotosSim']),
+      nao: pickNumber(record, ['totalVotosNao', 'TotalVotosNao']),
+      abstencao: pickNumber(record, ['totalVotosAbstencao', 'TotalVotosAbstencao']),
+    },
+    votos: mapDefined(votos, mapVoto),
+  };
+}
+
+/**
+ * Extract voting sessions from a list response
+ */
+export function extractVotacoes(data: unknown): Votacao[] {
+  return mapDefined(findRecordList(data, VOTING_LIST_KEYS), mapVotacao);
+}
+
+/**
+ * Extract the voting session from a /votacao/{codigo} response
+ */
+export function extractVotacao(data: unknown): Votacao | undefined {
+  const record = Array.isArray(data)
+    ? asRecord(data[0])
+    : unwrapRecord(data, ['VotacaoDetalhe', 'Votacao', 'votacao', 'sessaoVotacao']);
+  return record ? mapVotacao(record) : undefined;
+}
+
+/**
+ * Extract party/bloc orientations from a /votacao/{codigo}/orientacoes response
+ */
+export function extractVotingOrientations(data: unknown): VotingOrientation[] {
+  return findRecordList(data, ORIENTATION_LIST_KEYS)
+    .map((record) => ({
+      sigla: (
+        pickString(record, ['siglaPartido', 'SiglaPartido', 'siglaBancada', 'SiglaBancada', 'partido', 'bancada']) ?? ''
+      ).toUpperCase(),
+      orientacao: normalizeVoteValue(
+        pickFirst(record, ['orientacao', 'Orientacao', 'voto', 'Voto', 'siglaOrientacao'])
+      ),
+    }))
+    .filter((orientation) => orientation.sigla.length > 0);
+}
+
+/**
+ * Extract the totals from a /votacao/{codigo}/estatisticas response
+ */
+export function extractEstatisticaVotacao(data: unknown): EstatisticaVotacao | undefined {
+  const record = unwrapRecord(data, ['EstatisticaVotacao', 'estatisticaVotacao']);
+  const codigoVotacao = pickNumber(record, ['CodigoSessaoVotacao', 'codigoSessaoVotacao', 'codigoVotacao', 'codigo']);
+  if (codigoVotacao === undefined || codigoVotacao <= 0) {
+    return undefined;
+  }
+
+  return {
+    codigoVotacao,
+    totais: {
+      sim: pickNumber(record, ['TotalVotosSim', 'totalVotosSim']),
+      nao: pickNumber(record, ['TotalVotosNao', 'totalVotosNao']),
+      abstencao: pickNumber(record, ['TotalVotosAbstencao', 'totalVotosAbstencao']),
+    },
+    presentes: pickNumber(record, ['TotalPresentes', 'totalPresentes']),
+    quorum: pickNumber(record, ['Quorum', 'quorum']),
+  };
+}
+
+/**
+ * Extract a senator's votes from a /senador/{codigo}/votacoes response
+ *
+ * Each entry is a voting session carrying the senator's vote, mapped with
+ * {@link mapVotacao} and {@link mapVoto}.
+ */
+export function extractSenatorVotingRecord(data: unknown, codigoParlamentar: number): SenatorVotingRecord {
+  const parlamentar = unwrapRecord(data, ['VotacaoParlamentar', 'Parlamentar']);
+  const identificacao = asRecord(parlamentar?.['IdentificacaoParlamentar']);
+  const entries = pickList<unknown>(parlamentar, ['Votacoes.Votacao', 'Votacoes', 'votacoes'])
+    .filter((entry): entry is UnknownRecord => asRecord(entry) !== undefined);
+
+  const votos: SenatorVotingRecord['votos'] = [];
+  for (const entry of entries) {
+    const votacao = mapVotacao(entry);
+    const voto = mapVoto({ IdentificacaoParlamentar: identificacao, ...entry, codigoParlamentar });
+    if (votacao && voto) {
+      votos.push({ votacao, voto });
+    }
+  }
+
+  return {
+    partido: pickString(identificacao, ['SiglaPartidoParlamentar'])?.toUpperCase(),
+    votos,
+  };
+}
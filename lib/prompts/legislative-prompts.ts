@@ -0,0 +1,275 @@
+/**
+ * Legislative Analysis Prompts
+ *
+ * Prompt templates that guide the assistant through the tools:
+ * - Analyze a legislative proposal
+ * - Senator profile
+ * - Voting summary
+ * - Weekly plenary agenda
+ * - Compare senators
+ */
+
+import type { PromptDefinition, PromptMessage, PromptResult } from '../types/index.js';
+import {
+  AnalyzeProposalPromptSchema,
+  SenatorProfilePromptSchema,
+  VotingSummaryPromptSchema,
+  WeeklyAgendaPromptSchema,
+  CompareSenatorsPromptSchema,
+  validateToolInput,
+  zodToPromptArguments,
+} from '../core/validation.js';
+
+function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function formatPeriod(dataInicio?: string, dataFim?: string): string {
+  if (dataInicio && dataFim) return `entre ${dataInicio} e ${dataFim}`;
+  if (dataInicio) return `a partir de ${dataInicio}`;
+  if (dataFim) return `até ${dataFim}`;
+  return 'nos últimos 12 meses';
+}
+
+function periodArgs(dataInicio?: string, dataFim?: string): string {
+  const args = [
+    dataInicio ? `"dataInicio": "${dataInicio}"` : undefined,
+    dataFim ? `"dataFim": "${dataFim}"` : undefined,
+  ].filter((arg): arg is string => arg !== undefined);
+  return args.length > 0 ? args.join(', ') : 'o período correspondente aos últimos 12 meses';
+}
+
+function describeSenator(senador: string): string {
+  return /^\d+$/.test(senador)
+    ? `o senador de código ${senador} (\`senador_detalhes\` com "codigo": ${senador})`
+    : `o senador "${senador}" (localize o código com \`senadores_listar\` usando "nome": "${senador}")`;
+}
+
+/**
+ * Monday and Sunday (YYYY-MM-DD) of the week containing the given date
+ */
+function weekRange(date: string | undefined): { inicio: string; fim: string } {
+  const reference = date ? new Date(`${date}T00:00:00Z`) : new Date();
+  const day = reference.getUTCDay();
+  const monday = new Date(
+    Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate() - ((day + 6) % 7))
+  );
+  const sunday = new Date(monday.getTime() + 6 * 24 * 60 * 60 * 1000);
+
+  return {
+    inicio: monday.toISOString().slice(0, 10),
+    fim: sunday.toISOString().slice(0, 10),
+  };
+}
+
+// ============================================================================
+// Analyze Proposal Prompt
+// ============================================================================
+
+async function analyzeProposalHandler(args: unknown): Promise<PromptResult> {
+  const params = validateToolInput(AnalyzeProposalPromptSchema, args, 'analisar_materia');
+  const foco = params.foco ? `\n\nDê atenção especial a: ${params.foco}.` : '';
+
+  return {
+    description: `Análise da matéria ${params.codigo}`,
+    messages: [
+      userMessage(
+        `Analise a matéria legislativa de código ${params.codigo} no Senado Federal.
+
+Use as ferramentas nesta ordem:
+1. \`materia_detalhes\` ("codigo": ${params.codigo}) para identificação, ementa, autoria e situação atual.
+2. \`materia_linha_do_tempo\` ("codigo": ${params.codigo}) para a sequência de tramitação, votações, relatorias e emendas, incluindo o tempo em cada órgão.
+3. \`materia_textos\` e \`materia_emendas\` se precisar do conteúdo do texto ou das alterações propostas.
+4. \`votacao_detalhes\` e \`votacao_orientacoes\` para cada votação relevante encontrada na linha do tempo.
+
+Entregue:
+- Resumo em linguagem simples do que a matéria propõe.
+- Autoria, relatoria e onde a matéria está agora.
+- Principais marcos da tramitação, com datas.
+- Resultado e orientação partidária das votações, se houver.
+- Próximos passos prováveis.${foco}
+
+Cite apenas dados retornados pelas ferramentas e indique quando alguma informação não estiver disponível.`
+      ),
+    ],
+  };
+}
+
+export const analyzeProposalPrompt: PromptDefinition = {
+  name: 'analisar_materia',
+  description:
+    'Análise completa de uma matéria legislativa: conteúdo, autoria, tramitação, votações e próximos passos.',
+  arguments: zodToPromptArguments(AnalyzeProposalPromptSchema),
+  handler: analyzeProposalHandler,
+  category: 'proposal',
+};
+
+// ============================================================================
+// Senator Profile Prompt
+// ============================================================================
+
+async function senatorProfileHandler(args: unknown): Promise<PromptResult> {
+  const params = validateToolInput(SenatorProfilePromptSchema, args, 'perfil_senador');
+  const periodo = formatPeriod(params.dataInicio, params.dataFim);
+
+  return {
+    description: `Perfil do senador ${params.senador}`,
+    messages: [
+      userMessage(
+        `Monte o perfil parlamentar de ${describeSenator(params.senador)}.
+
+Use as ferramentas:
+1. \`senador_detalhes\` para dados pessoais, partido, UF e mandatos.
+2. \`senador_filiacoes\` e \`senador_mandatos\` para a trajetória partidária e eleitoral.
+3. \`senador_comissoes\`, \`senador_liderancas\` e \`senador_cargos\` para atuação institucional.
+4. \`senador_autorias\` e \`senador_relatorias\` para a produção legislativa.
+5. \`senador_alinhamento_partido\` com ${periodArgs(params.dataInicio, params.dataFim)} para medir o alinhamento com o partido.
+
+Entregue um perfil com: identificação, trajetória, comissões e cargos atuais, principais matérias de autoria e relatoria, e comportamento de voto ${periodo} (percentual de alinhamento e votações em que divergiu do partido).
+
+Cite apenas dados retornados pelas ferramentas e indique quando alguma informação não estiver disponível.`
+      ),
+    ],
+  };
+}
+
+export const senatorProfilePrompt: PromptDefinition = {
+  name: 'perfil_senador',
+  description:
+    'Perfil parlamentar de um senador: trajetória, comissões, produção legislativa e alinhamento partidário.',
+  arguments: zodToPromptArguments(SenatorProfilePromptSchema),
+  handler: senatorProfileHandler,
+  category: 'senator',
+};
+
+// ============================================================================
+// Voting Summary Prompt
+// ============================================================================
+
+async function votingSummaryHandler(args: unknown): Promise<PromptResult> {
+  const params = validateToolInput(VotingSummaryPromptSchema, args, 'resumo_votacao');
+
+  return {
+    description: `Resumo da votação ${params.codigo}`,
+    messages: [
+      userMessage(
+        `Resuma a votação de código ${params.codigo} no Plenário do Senado Federal.
+
+Use as ferramentas:
+1. \`votacao_detalhes\` ("codigo": ${params.codigo}) para data, matéria votada, resultado e totais.
+2. \`votacao_orientacoes\` ("codigo": ${params.codigo}) para a orientação de cada partido ou bloco.
+3. \`votacao_votos\` ("codigo": ${params.codigo}) para os votos individuais.
+4. \`materia_detalhes\` com o código da matéria votada, se precisar explicar o conteúdo.
+
+Entregue:
+- O que estava em votação, em linguagem simples.
+- Resultado e placar (sim, não, abstenções).
+- Orientação dos partidos e blocos.
+- Senadores que votaram contra a orientação do próprio partido.
+- Divisão dos votos por partido e por UF, se for relevante.
+
+Cite apenas dados retornados pelas ferramentas e indique quando alguma informação não estiver disponível.`
+      ),
+    ],
+  };
+}
+
+export const votingSummaryPrompt: PromptDefinition = {
+  name: 'resumo_votacao',
+  description:
+    'Resumo de uma votação: matéria votada, resultado, orientações partidárias e votos divergentes.',
+  arguments: zodToPromptArguments(VotingSummaryPromptSchema),
+  handler: votingSummaryHandler,
+  category: 'voting',
+};
+
+// ============================================================================
+// Weekly Agenda Prompt
+// ============================================================================
+
+async function weeklyAgendaHandler(args: unknown): Promise<PromptResult> {
+  const params = validateToolInput(WeeklyAgendaPromptSchema, args, 'agenda_da_semana');
+  const { inicio, fim } = weekRange(params.data);
+
+  return {
+    description: `Agenda do Senado de ${inicio} a ${fim}`,
+    messages: [
+      userMessage(
+        `Prepare a agenda do Senado Federal para a semana de ${inicio} a ${fim}.
+
+Use as ferramentas:
+1. \`sessoes_listar\` ("dataInicio": "${inicio}", "dataFim": "${fim}") para as sessões plenárias da semana.
+2. \`sessao_detalhes\` e \`sessao_votacoes\` para a pauta e as votações de cada sessão.
+3. \`comissoes_listar\` e \`comissao_reunioes\` ("dataInicio": "${inicio}", "dataFim": "${fim}") para as reuniões das comissões permanentes.
+4. \`materias_atualizadas\` para as matérias com movimentação recente.
+
+Entregue a agenda organizada por dia, com sessões, reuniões de comissão e matérias em destaque. Para sessões já realizadas, inclua os resultados das votações.
+
+Cite apenas dados retornados pelas ferramentas e indique quando alguma informação não estiver disponível.`
+      ),
+    ],
+  };
+}
+
+export const weeklyAgendaPrompt: PromptDefinition = {
+  name: 'agenda_da_semana',
+  description:
+    'Agenda semanal do Senado: sessões plenárias, reuniões de comissões e matérias em destaque.',
+  arguments: zodToPromptArguments(WeeklyAgendaPromptSchema),
+  handler: weeklyAgendaHandler,
+  category: 'session',
+};
+
+// ============================================================================
+// Compare Senators Prompt
+// ============================================================================
+
+async function compareSenatorsHandler(args: unknown): Promise<PromptResult> {
+  const params = validateToolInput(CompareSenatorsPromptSchema, args, 'comparar_senadores');
+  const periodo = formatPeriod(params.dataInicio, params.dataFim);
+  const senadores = params.senadores.map((senador) => `- ${describeSenator(senador)}`).join('\n');
+
+  return {
+    description: `Comparação entre ${params.senadores.length} senadores`,
+    messages: [
+      userMessage(
+        `Compare a atuação dos seguintes senadores ${periodo}:
+${senadores}
+
+Use as ferramentas:
+1. \`senador_detalhes\` para partido, UF e mandato de cada um.
+2. \`senador_alinhamento_partido\` com ${periodArgs(params.dataInicio, params.dataFim)} para cada senador.
+3. \`votacoes_similaridade\` com ${periodArgs(params.dataInicio, params.dataFim)} e use a matriz apenas para os pares de senadores listados.
+4. \`senador_autorias\`, \`senador_relatorias\` e \`senador_comissoes\` para comparar a produção legislativa e a atuação em comissões.
+
+Entregue:
+- Tabela comparativa com partido, UF, alinhamento partidário e número de autorias e relatorias.
+- Concordância de votos entre cada par de senadores e as votações em que mais divergiram.
+- Áreas temáticas e comissões em que cada um atua.
+
+Cite apenas dados retornados pelas ferramentas e indique quando alguma informação não estiver disponível.`
+      ),
+    ],
+  };
+}
+
+export const compareSenatorsPrompt: PromptDefinition = {
+  name: 'comparar_senadores',
+  description:
+    'Comparação entre senadores: alinhamento partidário, concordância de votos e produção legislativa.',
+  arguments: zodToPromptArguments(CompareSenatorsPromptSchema),
+  handler: compareSenatorsHandler,
+  category: 'senator',
+};
+
+// ============================================================================
+// Export all legislative prompts
+// ============================================================================
+
+export const legislativePrompts: PromptDefinition[] = [
+  analyzeProposalPrompt,
+  senatorProfilePrompt,
+  votingSummaryPrompt,
+  weeklyAgendaPrompt,
+  compareSenatorsPrompt,
+];
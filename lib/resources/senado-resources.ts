@@ -0,0 +1,122 @@
+/**
+ * Senado Resources
+ *
+ * MCP resources resolved through the tools:
+ * - Reference lists (legislaturas, UFs, tipos de matéria, partidos)
+ * - Templates for senators, proposals, votings and committees
+ */
+
+import type {
+  ResourceDefinition,
+  ResourceTemplateDefinition,
+  ToolExecutor,
+  ToolResult,
+} from '../types/index.js';
+import { ResourceNotFoundError } from '../core/errors.js';
+
+const JSON_MIME_TYPE = 'application/json';
+
+/**
+ * Resource backed by a single tool call
+ */
+function fromTool(
+  toolName: string,
+  toArgs: (params: Record<string, string>) => Record<string, unknown> = () => ({})
+) {
+  return (params: Record<string, string>, execute: ToolExecutor): Promise<ToolResult> =>
+    execute(toolName, toArgs(params));
+}
+
+/**
+ * Find a committee code by its sigla using the committee list
+ */
+async function readCommitteeBySigla(
+  params: Record<string, string>,
+  execute: ToolExecutor
+): Promise<ToolResult> {
+  const sigla = params['sigla'] ?? '';
+
+  if (/^\d+$/.test(sigla)) {
+    return execute('comissao_detalhes', { codigo: Number(sigla) });
+  }
+
+  const list = await execute('comissoes_listar', { sigla });
+  const itens = (list.structuredContent?.['itens'] ?? []) as Array<{ codigo: number; sigla?: string }>;
+  const committee = itens.find((item) => item.sigla?.toUpperCase() === sigla.toUpperCase());
+
+  if (!committee) {
+    throw new ResourceNotFoundError(`senado://comissao/${sigla}`);
+  }
+
+  return execute('comissao_detalhes', { codigo: committee.codigo });
+}
+
+// ============================================================================
+// Reference Resources
+// ============================================================================
+
+export const senadoResources: ResourceDefinition[] = [
+  {
+    uri: 'senado://reference/legislaturas',
+    name: 'Legislaturas do Senado Federal',
+    description: 'Lista completa de todas as legislaturas',
+    mimeType: JSON_MIME_TYPE,
+    read: fromTool('legislaturas_listar'),
+  },
+  {
+    uri: 'senado://reference/ufs',
+    name: 'Estados Brasileiros',
+    description: 'Lista de todos os estados e o Distrito Federal',
+    mimeType: JSON_MIME_TYPE,
+    read: fromTool('ufs_listar'),
+  },
+  {
+    uri: 'senado://reference/tipos-materia',
+    name: 'Tipos de Matéria Legislativa',
+    description: 'Lista de tipos de proposições legislativas',
+    mimeType: JSON_MIME_TYPE,
+    read: fromTool('tipos_materia_listar'),
+  },
+  {
+    uri: 'senado://reference/partidos',
+    name: 'Partidos Políticos',
+    description: 'Lista de partidos políticos brasileiros',
+    mimeType: JSON_MIME_TYPE,
+    read: fromTool('partidos_listar'),
+  },
+];
+
+// ============================================================================
+// Resource Templates
+// ============================================================================
+
+export const senadoResourceTemplates: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: 'senado://senador/{codigo}',
+    name: 'Senador',
+    description: 'Dados de um senador pelo código parlamentar (senador_detalhes)',
+    mimeType: JSON_MIME_TYPE,
+    read: fromTool('senador_detalhes', (params) => ({ codigo: Number(params['codigo']) })),
+  },
+  {
+    uriTemplate: 'senado://materia/{codigo}',
+    name: 'Matéria legislativa',
+    description: 'Dados de uma matéria legislativa pelo código (materia_detalhes)',
+    mimeType: JSON_MIME_TYPE,
+    read: fromTool('materia_detalhes', (params) => ({ codigo: Number(params['codigo']) })),
+  },
+  {
+    uriTemplate: 'senado://votacao/{codigo}',
+    name: 'Votação',
+    description: 'Dados de uma votação nominal pelo código (votacao_detalhes)',
+    mimeType: JSON_MIME_TYPE,
+    read: fromTool('votacao_detalhes', (params) => ({ codigo: Number(params['codigo']) })),
+  },
+  {
+    uriTemplate: 'senado://comissao/{sigla}',
+    name: 'Comissão',
+    description: 'Dados de uma comissão pela sigla, por exemplo CCJ (comissao_detalhes)',
+    mimeType: JSON_MIME_TYPE,
+    read: readCommitteeBySigla,
+  },
+];
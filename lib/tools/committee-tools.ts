@@ -9,16 +9,32 @@
  * - Get committee proposals
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import type { ToolDefinition, ToolContext, ToolOutput, Comissao } from '../types/index.js';
+import { READ_ONLY_TOOL_ANNOTATIONS } from '../core/tools.js';
 import {
   ListCommitteesSchema,
   CommitteeDetailsSchema,
   CommitteeMembersSchema,
   CommitteeMeetingsSchema,
   CommitteeProposalsSchema,
+  ComissaoDetalhadaOutputSchema,
+  ComissaoOutputSchema,
+  MateriaOutputSchema,
+  MembroComissaoOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
 } from '../core/validation.js';
+import {
+  asRecord,
+  extractComissaoDetalhada,
+  extractComissoes,
+  extractMaterias,
+  extractMembrosComissao,
+  getNestedValue,
+  normalizeArray,
+  paginateItems,
+} from '../mappers/index.js';
 
 const COMMITTEE_LIST_BASE_ENDPOINT = '/composicao/lista';
 const COMMITTEE_TYPES = ['permanente', 'temporaria', 'cpi', 'cpmi', 'orgaos'] as const;
@@ -26,74 +42,7 @@ const COMMITTEE_COMPOSITION_ENDPOINT = '/composicao/comissao';
 const COMMITTEE_AGENDA_ENDPOINT = '/comissao/agenda';
 const COMMITTEE_PROPOSALS_ENDPOINT = '/materia/lista/comissao';
 
-type CommitteeRecord = Record<string, unknown>;
 type MeetingRecord = Record<string, unknown>;
-type ProposalRecord = Record<string, unknown>;
-
-const asRecord = (value: unknown): Record<string, unknown> | undefined =>
-  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : undefined;
-
-const getNestedValue = (source: unknown, path: string[]): unknown =>
-  path.reduce<unknown>((current, key) => {
-    if (!current || typeof current !== 'object') {
-      return undefined;
-    }
-    return (current as Record<string, unknown>)[key];
-  }, source);
-
-const normalizeArray = <T>(value: unknown): T[] => {
-  if (!value) {
-    return [];
-  }
-
-  if (Array.isArray(value)) {
-    return value as T[];
-  }
-
-  return [value as T];
-};
-
-function extractCommittees(data: unknown): CommitteeRecord[] {
-  let root: unknown = data;
-
-  const wrappers = [
-    'ListaColegiados',
-    'ComissoesPermanentes',
-    'ComissoesTemporarias',
-    'ComissoesCPI',
-    'ComissoesCPMI',
-    'OrgaosColegiados',
-  ];
-
-  for (const key of wrappers) {
-    const container = asRecord(root);
-    if (container && container[key]) {
-      root = container[key];
-      break;
-    }
-  }
-
-  const nested =
-    getNestedValue(root, ['Colegiados', 'Colegiado']) ??
-    getNestedValue(root, ['Colegiados']) ??
-    getNestedValue(root, ['Colegiado']) ??
-    root;
-
-  return normalizeArray<CommitteeRecord>(nested);
-}
-
-const paginateItems = <T>(items: T[], pagina?: number, itens?: number) => {
-  const total = items.length;
-  const page = Math.max(pagina ?? 1, 1);
-  const defaultPageSize = total > 0 ? total : 1;
-  const pageSize = Math.max(itens ?? defaultPageSize, 1);
-  const startIndex = (page - 1) * pageSize;
-
-  return {
-    pageItems: items.slice(startIndex, startIndex + pageSize),
-    total,
-  };
-};
 
 const matchesFilter = (value: unknown, filter?: string): boolean => {
   if (!filter) {
@@ -104,32 +53,6 @@ const matchesFilter = (value: unknown, filter?: string): boolean => {
   return normalized.includes(filter.toLowerCase());
 };
 
-const sanitizeCommitteeSigla = (committee: CommitteeRecord | undefined): string | undefined => {
-  const record = asRecord(committee);
-  if (!record) {
-    return undefined;
-  }
-
-  const sigla = record['Sigla'] ?? record['SiglaComissao'] ?? record['SiglaColegiado'] ?? record['sigla'];
-  return sigla ? String(sigla).toUpperCase() : undefined;
-};
-
-const findCommitteeByCode = (committees: CommitteeRecord[], codigo: number): CommitteeRecord | undefined =>
-  committees.find((committee) => {
-    const record = asRecord(committee);
-    if (!record) {
-      return false;
-    }
-
-    const value =
-      record['Codigo'] ??
-      record['CodigoColegiado'] ??
-      record['CodigoComissao'] ??
-      record['codigo'];
-
-    return Number(value) === codigo;
-  });
-
 const toAgendaDate = (value: string | Date): string => {
   if (value instanceof Date) {
     return value.toISOString().slice(0, 10).replace(/-/g, '');
@@ -147,7 +70,8 @@ const getDefaultDateRange = () => {
   };
 };
 
-async function fetchAllCommittees(context: ToolContext): Promise<CommitteeRecord[]> {
+async function fetchAllCommittees(context: ToolContext): Promise<Comissao[]> {
+  let loaded = 0;
   const results = await Promise.all(
     COMMITTEE_TYPES.map(async (type) => {
       const response = await context.httpClient.get<unknown>(
@@ -155,7 +79,13 @@ async function fetchAllCommittees(context: ToolContext): Promise<CommitteeRecord
         {}
       );
 
-      return extractCommittees(response.data);
+      context.progress?.({
+        progress: ++loaded,
+        total: COMMITTEE_TYPES.length,
+        message: `Comissões carregadas: ${type}`,
+      });
+
+      return extractComissoes(response.data);
     })
   );
 
@@ -165,9 +95,9 @@ async function fetchAllCommittees(context: ToolContext): Promise<CommitteeRecord
 async function fetchCommitteeMetadata(
   context: ToolContext,
   codigo: number
-): Promise<{ committee?: CommitteeRecord; committees: CommitteeRecord[] }> {
+): Promise<{ committee?: Comissao; committees: Comissao[] }> {
   const committees = await fetchAllCommittees(context);
-  const committee = findCommitteeByCode(committees, codigo);
+  const committee = committees.find((entry) => entry.codigo === codigo);
   return { committee, committees };
 }
 
@@ -181,7 +111,7 @@ async function fetchCommitteeMetadata(
 async function listCommitteesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListCommitteesSchema,
@@ -194,23 +124,11 @@ async function listCommitteesHandler(
   try {
     const committees = await fetchAllCommittees(context);
 
-    const filtered = committees.filter((committee) => {
-      const record = asRecord(committee);
-      if (!record) {
-        return false;
-      }
-
-      const matchesSigla = matchesFilter(
-        record['Sigla'] ?? record['SiglaColegiado'] ?? record['sigla'],
-        params.sigla
-      );
-      const matchesTipo = params.tipo
-        ? matchesFilter(record['SiglaTipoColegiado'] ?? record['siglaTipoColegiado'], params.tipo) ||
-          matchesFilter(record['DescricaoTipoColegiado'] ?? record['descricaoTipoColegiado'] ?? record['NomeTipoColegiado'], params.tipo)
-        : true;
-
-      return matchesSigla && matchesTipo;
-    });
+    const filtered = committees.filter(
+      (committee) =>
+        matchesFilter(committee.sigla, params.sigla) &&
+        matchesFilter(committee.tipo, params.tipo)
+    );
 
     const { pageItems, total } = paginateItems(
       filtered,
@@ -218,15 +136,9 @@ async function listCommitteesHandler(
       params.itens
     );
 
-    const text = JSON.stringify(pageItems, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Comissões do Senado Federal (${pageItems.length} de ${total}):\n\n${text}`,
-        },
-      ],
+      title: `Comissões do Senado Federal (${pageItems.length} de ${total})`,
+      data: pageItems,
     };
   } catch (error) {
     context.logger.error('Failed to list committees', error as Error);
@@ -236,11 +148,14 @@ async function listCommitteesHandler(
 
 export const listCommitteesTool: ToolDefinition = {
   name: 'comissoes_listar',
+  title: 'Listar comissões',
   description:
     'Lista todas as comissões do Senado Federal. Permite filtrar por tipo (permanente, temporária, mista, parlamentar de inquérito, etc.) e sigla. Retorna informações básicas sobre cada comissão.',
   inputSchema: zodToJsonSchema(ListCommitteesSchema),
+  outputSchema: listOutputSchema(ComissaoOutputSchema),
   handler: listCommitteesHandler,
   category: 'committee',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -253,7 +168,7 @@ export const listCommitteesTool: ToolDefinition = {
 async function committeeDetailsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     CommitteeDetailsSchema,
@@ -269,15 +184,15 @@ async function committeeDetailsHandler(
       {}
     );
 
-    const text = JSON.stringify(response.data, null, 2);
+    const committee = extractComissaoDetalhada(response.data);
+
+    if (!committee) {
+      throw new Error(`Comissão com código ${params.codigo} não encontrada`);
+    }
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Detalhes da Comissão:\n\n${text}`,
-        },
-      ],
+      title: 'Detalhes da Comissão',
+      data: committee,
     };
   } catch (error) {
     context.logger.error('Failed to get committee details', error as Error);
@@ -287,11 +202,14 @@ async function committeeDetailsHandler(
 
 export const committeeDetailsTool: ToolDefinition = {
   name: 'comissao_detalhes',
+  title: 'Detalhes da comissão',
   description:
     'Obtém informações detalhadas sobre uma comissão específica. Inclui nome completo, sigla, tipo, finalidade, competências, composição atual, telefones, e-mails, endereços e outras informações relevantes.',
   inputSchema: zodToJsonSchema(CommitteeDetailsSchema),
+  outputSchema: ComissaoDetalhadaOutputSchema,
   handler: committeeDetailsHandler,
   category: 'committee',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -304,7 +222,7 @@ export const committeeDetailsTool: ToolDefinition = {
 async function committeeMembersHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     CommitteeMembersSchema,
@@ -320,21 +238,9 @@ async function committeeMembersHandler(
       {}
     );
 
-    const members =
-      getNestedValue(response.data, ['ComposicaoComissao', 'Membros', 'Membro']) ??
-      getNestedValue(response.data, ['Membros', 'Membro']) ??
-      getNestedValue(response.data, ['Membros']) ??
-      response.data;
-
-    const text = JSON.stringify(normalizeArray(members), null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Membros da Comissão:\n\n${text}`,
-        },
-      ],
+      title: 'Membros da Comissão',
+      data: extractMembrosComissao(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get committee members', error as Error);
@@ -344,11 +250,14 @@ async function committeeMembersHandler(
 
 export const committeeMembersTool: ToolDefinition = {
   name: 'comissao_membros',
+  title: 'Membros da comissão',
   description:
     'Lista todos os membros de uma comissão específica. Mostra senadores que compõem a comissão, seus cargos (presidente, vice-presidente, titular, suplente) e partidos. Permite filtrar por legislatura.',
   inputSchema: zodToJsonSchema(CommitteeMembersSchema),
+  outputSchema: listOutputSchema(MembroComissaoOutputSchema),
   handler: committeeMembersHandler,
   category: 'committee',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -361,7 +270,7 @@ export const committeeMembersTool: ToolDefinition = {
 async function committeeMeetingsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     CommitteeMeetingsSchema,
@@ -405,15 +314,9 @@ async function committeeMeetingsHandler(
       );
     });
 
-    const text = JSON.stringify(meetingList, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Reuniões da Comissão:\n\n${text}`,
-        },
-      ],
+      title: 'Reuniões da Comissão',
+      data: meetingList,
     };
   } catch (error) {
     context.logger.error('Failed to get committee meetings', error as Error);
@@ -423,11 +326,13 @@ async function committeeMeetingsHandler(
 
 export const committeeMeetingsTool: ToolDefinition = {
   name: 'comissao_reunioes',
+  title: 'Reuniões da comissão',
   description:
     'Lista todas as reuniões realizadas por uma comissão específica. Inclui data, hora, tipo de reunião (ordinária, extraordinária, audiência pública, etc.), pauta, e resultados. Permite filtrar por período.',
   inputSchema: zodToJsonSchema(CommitteeMeetingsSchema),
   handler: committeeMeetingsHandler,
   category: 'committee',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -440,7 +345,7 @@ export const committeeMeetingsTool: ToolDefinition = {
 async function committeeProposalsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     CommitteeProposalsSchema,
@@ -457,7 +362,7 @@ async function committeeProposalsHandler(
       throw new Error(`Comissão com código ${params.codigo} não encontrada`);
     }
 
-    const sigla = sanitizeCommitteeSigla(committee);
+    const sigla = committee.sigla;
     const query: Record<string, unknown> = {
       codigo: params.codigo,
     };
@@ -479,28 +384,15 @@ async function committeeProposalsHandler(
       query
     );
 
-    const proposals =
-      getNestedValue(response.data, ['ListaMateriasEmComissao', 'Materias', 'Materia']) ??
-      getNestedValue(response.data, ['Materias', 'Materia']) ??
-      getNestedValue(response.data, ['Materia']) ??
-      response.data;
-
-    const normalized = normalizeArray<ProposalRecord>(proposals);
     const { pageItems, total } = paginateItems(
-      normalized,
+      extractMaterias(response.data),
       params.pagina,
       params.itens
     );
 
-    const text = JSON.stringify(pageItems, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Matérias em Análise na Comissão (${pageItems.length} de ${total}):\n\n${text}`,
-        },
-      ],
+      title: `Matérias em Análise na Comissão (${pageItems.length} de ${total})`,
+      data: pageItems,
     };
   } catch (error) {
     context.logger.error('Failed to get committee proposals', error as Error);
@@ -510,11 +402,14 @@ async function committeeProposalsHandler(
 
 export const committeeProposalsTool: ToolDefinition = {
   name: 'comissao_materias',
+  title: 'Matérias da comissão',
   description:
     'Lista todas as matérias legislativas que estão ou estiveram sob análise de uma comissão específica. Mostra o status de tramitação, relator designado, e parecer emitido (se houver).',
   inputSchema: zodToJsonSchema(CommitteeProposalsSchema),
+  outputSchema: listOutputSchema(MateriaOutputSchema),
   handler: committeeProposalsHandler,
   category: 'committee',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -9,129 +9,40 @@
  * - Get bloc details
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import type { ToolDefinition, ToolContext, ToolOutput, Senador, Bloco } from '../types/index.js';
+import { READ_ONLY_TOOL_ANNOTATIONS } from '../core/tools.js';
 import {
   ListPartiesSchema,
   PartyDetailsSchema,
   PartySenatorsSchema,
   ListBlocsSchema,
   BlocDetailsSchema,
+  BlocoOutputSchema,
+  PartidoOutputSchema,
+  SenadorOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
 } from '../core/validation.js';
+import {
+  extractBloco,
+  extractBlocos,
+  extractPartidos,
+  extractSenadores,
+  paginateItems,
+} from '../mappers/index.js';
 
 const PARTY_LIST_ENDPOINT = '/senador/partidos';
 const SENATORS_LIST_ENDPOINT = '/senador/lista/atual';
 const BLOC_LIST_ENDPOINT = '/composicao/lista/blocos';
 
-type PartyRecord = Record<string, unknown>;
-type SenatorRecord = Record<string, unknown>;
-type BlocRecord = Record<string, unknown>;
-
-const asRecord = (value: unknown): Record<string, unknown> | undefined =>
-  typeof value === 'object' && value !== null ? value as Record<string, unknown> : undefined;
-
-function normalizeArray<T>(value: unknown): T[] {
-  if (!value) {
-    return [];
-  }
-
-  if (Array.isArray(value)) {
-    return value as T[];
-  }
-
-  return [value as T];
-}
-
-function getNestedValue(source: unknown, path: string[]): unknown {
-  return path.reduce<unknown>((current, key) => {
-    if (!current || typeof current !== 'object') {
-      return undefined;
-    }
-    return (current as Record<string, unknown>)[key];
-  }, source);
-}
-
-function extractParties(data: unknown): PartyRecord[] {
-  const rootContainer = asRecord(data);
-  const root = rootContainer ? rootContainer['ListaPartidos'] ?? data : data;
-  const nested =
-    getNestedValue(root, ['Partidos', 'Partido']) ??
-    getNestedValue(root, ['Partidos']) ??
-    getNestedValue(root, ['Partido']) ??
-    root;
-  return normalizeArray<PartyRecord>(nested);
-}
-
-function extractSenators(data: unknown): SenatorRecord[] {
-  const rootContainer = asRecord(data);
-  const root = rootContainer ? rootContainer['ListaParlamentarEmExercicio'] ?? data : data;
-  const nested =
-    getNestedValue(root, ['Parlamentares', 'Parlamentar']) ??
-    getNestedValue(root, ['Parlamentares']) ??
-    getNestedValue(root, ['Parlamentar']) ??
-    root;
-  return normalizeArray<SenatorRecord>(nested);
-}
-
-function extractBlocs(data: unknown): BlocRecord[] {
-  const rootContainer = asRecord(data);
-  const root = rootContainer ? rootContainer['ListaBlocoParlamentar'] ?? data : data;
-  const nested =
-    getNestedValue(root, ['Blocos', 'Bloco']) ??
-    getNestedValue(root, ['Blocos']) ??
-    getNestedValue(root, ['Bloco']) ??
-    root;
-  return normalizeArray<BlocRecord>(nested);
-}
-
-function paginateItems<T>(items: T[], pagina?: number, itens?: number): {
-  pageItems: T[];
-  total: number;
-} {
-  const total = items.length;
-  const page = Math.max(pagina ?? 1, 1);
-  const defaultPageSize = total > 0 ? total : 1;
-  const pageSize = Math.max(itens ?? defaultPageSize, 1);
-  const startIndex = (page - 1) * pageSize;
-  return {
-    pageItems: items.slice(startIndex, startIndex + pageSize),
-    total,
-  };
-}
-
-function findPartyByCode(parties: PartyRecord[], codigo: number): PartyRecord | undefined {
-  return parties.find((party) => Number(asRecord(party)?.['Codigo']) === codigo);
+function matchesLegislature(senator: Senador, legislatura: number): boolean {
+  return senator.mandatos.some((mandato) => mandato.legislaturas.includes(legislatura));
 }
 
-function matchesLegislature(mandato: unknown, legislatura: number): boolean {
-  const record = asRecord(mandato);
-  if (!record) {
-    return false;
-  }
-
-  const primeira = asRecord(record['PrimeiraLegislaturaDoMandato']);
-  const segunda = asRecord(record['SegundaLegislaturaDoMandato']);
-
-  const toNumber = (value: Record<string, unknown> | undefined) =>
-    value ? Number(value['NumeroLegislatura']) : NaN;
-
-  return toNumber(primeira) === legislatura || toNumber(segunda) === legislatura;
-}
-
-function blocMatchesLegislatura(bloc: BlocRecord, legislatura: number): boolean {
-  const legislaturas =
-    getNestedValue(bloc, ['Legislaturas', 'Legislatura']) ??
-    getNestedValue(bloc, ['Legislaturas']) ??
-    getNestedValue(bloc, ['Legislatura']);
-
-  if (!legislaturas) {
-    return true;
-  }
-
-  return normalizeArray<Record<string, unknown>>(legislaturas).some(
-    (entry) => Number(entry?.['NumeroLegislatura']) === legislatura
-  );
+function blocMatchesLegislatura(bloc: Bloco, legislatura: number): boolean {
+  // Blocs without legislature information are kept
+  return bloc.legislaturas.length === 0 || bloc.legislaturas.includes(legislatura);
 }
 
 // ============================================================================
@@ -144,7 +55,7 @@ function blocMatchesLegislatura(bloc: BlocRecord, legislatura: number): boolean
 async function listPartiesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListPartiesSchema,
@@ -160,22 +71,16 @@ async function listPartiesHandler(
       {}
     );
 
-    const parties = extractParties(response.data);
+    const parties = extractPartidos(response.data);
     const { pageItems, total } = paginateItems(
       parties,
       params.pagina,
       params.itens
     );
 
-    const text = JSON.stringify(pageItems, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Partidos Políticos do Senado Federal (${pageItems.length} de ${total}):\n\n${text}`,
-        },
-      ],
+      title: `Partidos Políticos do Senado Federal (${pageItems.length} de ${total})`,
+      data: pageItems,
     };
   } catch (error) {
     context.logger.error('Failed to list parties', error as Error);
@@ -185,11 +90,14 @@ async function listPartiesHandler(
 
 export const listPartiesTool: ToolDefinition = {
   name: 'partidos_listar',
+  title: 'Listar partidos',
   description:
     'Lista todos os partidos políticos com representação no Senado Federal. Retorna informações básicas como sigla, nome completo, e número de senadores filiados.',
   inputSchema: zodToJsonSchema(ListPartiesSchema),
+  outputSchema: listOutputSchema(PartidoOutputSchema),
   handler: listPartiesHandler,
   category: 'party',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -202,7 +110,7 @@ export const listPartiesTool: ToolDefinition = {
 async function partyDetailsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     PartyDetailsSchema,
@@ -218,22 +126,16 @@ async function partyDetailsHandler(
       {}
     );
 
-    const parties = extractParties(response.data);
-    const party = findPartyByCode(parties, params.codigo);
+    const parties = extractPartidos(response.data);
+    const party = parties.find((entry) => entry.codigo === params.codigo);
 
     if (!party) {
       throw new Error(`Partido com código ${params.codigo} não encontrado`);
     }
 
-    const text = JSON.stringify(party, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Detalhes do Partido:\n\n${text}`,
-        },
-      ],
+      title: 'Detalhes do Partido',
+      data: party,
     };
   } catch (error) {
     context.logger.error('Failed to get party details', error as Error);
@@ -243,11 +145,14 @@ async function partyDetailsHandler(
 
 export const partyDetailsTool: ToolDefinition = {
   name: 'partido_detalhes',
+  title: 'Detalhes do partido',
   description:
     'Obtém informações detalhadas sobre um partido político específico. Inclui sigla, nome completo, número de registro, data de fundação, número de senadores filiados, líderes, e bloco parlamentar ao qual pertence.',
   inputSchema: zodToJsonSchema(PartyDetailsSchema),
+  outputSchema: PartidoOutputSchema,
   handler: partyDetailsHandler,
   category: 'party',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -260,7 +165,7 @@ export const partyDetailsTool: ToolDefinition = {
 async function partySenatorsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     PartySenatorsSchema,
@@ -276,50 +181,35 @@ async function partySenatorsHandler(
       {}
     );
 
-    const parties = extractParties(partyResponse.data);
-    const party = findPartyByCode(parties, params.codigo);
+    const parties = extractPartidos(partyResponse.data);
+    const party = parties.find((entry) => entry.codigo === params.codigo);
+    context.progress?.({ progress: 1, total: 2, message: 'Partidos carregados' });
 
     if (!party) {
       throw new Error(`Partido com código ${params.codigo} não encontrado`);
     }
 
-    const partySigla = String(asRecord(party)?.['Sigla'] || '').toUpperCase();
-
-    if (!partySigla) {
-      throw new Error('Partido sem sigla associada na base de dados');
-    }
+    const partySigla = party.sigla;
 
     const senatorsResponse = await context.httpClient.get<unknown>(
       SENATORS_LIST_ENDPOINT,
       {}
     );
 
-    const senators = extractSenators(senatorsResponse.data);
+    const senators = extractSenadores(senatorsResponse.data);
+    context.progress?.({ progress: 2, total: 2, message: 'Senadores carregados' });
 
-    const filtered = senators.filter((senator) => {
-      const identificacao = asRecord(asRecord(senator)?.['IdentificacaoParlamentar']);
-      const sigla = String(identificacao?.['SiglaPartidoParlamentar'] || '').toUpperCase();
-      return sigla === partySigla;
-    });
+    const filtered = senators.filter((senator) => senator.partido === partySigla);
 
     const finalList = params.legislatura
       ? filtered.filter((senator) =>
-          matchesLegislature(
-            asRecord(senator)?.['Mandato'],
-            params.legislatura!
-          )
+          matchesLegislature(senator, params.legislatura!)
         )
       : filtered;
 
-    const text = JSON.stringify(finalList, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Senadores do Partido:\n\n${text}`,
-        },
-      ],
+      title: 'Senadores do Partido',
+      data: finalList,
     };
   } catch (error) {
     context.logger.error('Failed to get party senators', error as Error);
@@ -329,11 +219,14 @@ async function partySenatorsHandler(
 
 export const partySenatorsTool: ToolDefinition = {
   name: 'partido_senadores',
+  title: 'Senadores do partido',
   description:
     'Lista todos os senadores filiados a um partido político específico. Mostra nome, UF, situação (em exercício, licenciado, etc.) e mandato. Permite filtrar por legislatura.',
   inputSchema: zodToJsonSchema(PartySenatorsSchema),
+  outputSchema: listOutputSchema(SenadorOutputSchema),
   handler: partySenatorsHandler,
   category: 'party',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -346,7 +239,7 @@ export const partySenatorsTool: ToolDefinition = {
 async function listBlocsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListBlocsSchema,
@@ -362,7 +255,7 @@ async function listBlocsHandler(
       {}
     );
 
-    const blocs = extractBlocs(response.data);
+    const blocs = extractBlocos(response.data);
     const filtered = params.legislatura
       ? blocs.filter((bloc) =>
           blocMatchesLegislatura(bloc, params.legislatura!)
@@ -375,15 +268,9 @@ async function listBlocsHandler(
       params.itens
     );
 
-    const text = JSON.stringify(pageItems, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Blocos Parlamentares do Senado Federal (${pageItems.length} de ${total}):\n\n${text}`,
-        },
-      ],
+      title: `Blocos Parlamentares do Senado Federal (${pageItems.length} de ${total})`,
+      data: pageItems,
     };
   } catch (error) {
     context.logger.error('Failed to list parliamentary blocs', error as Error);
@@ -393,11 +280,14 @@ async function listBlocsHandler(
 
 export const listBlocsTool: ToolDefinition = {
   name: 'blocos_listar',
+  title: 'Listar blocos parlamentares',
   description:
     'Lista todos os blocos parlamentares no Senado Federal. Blocos são agrupamentos de partidos políticos para atuação coordenada. Retorna informações sobre cada bloco e os partidos que o compõem. Permite filtrar por legislatura.',
   inputSchema: zodToJsonSchema(ListBlocsSchema),
+  outputSchema: listOutputSchema(BlocoOutputSchema),
   handler: listBlocsHandler,
   category: 'party',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -410,7 +300,7 @@ export const listBlocsTool: ToolDefinition = {
 async function blocDetailsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     BlocDetailsSchema,
@@ -426,15 +316,15 @@ async function blocDetailsHandler(
       {}
     );
 
-    const text = JSON.stringify(response.data, null, 2);
+    const bloc = extractBloco(response.data);
+
+    if (!bloc) {
+      throw new Error(`Bloco com código ${params.codigo} não encontrado`);
+    }
 
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Detalhes do Bloco Parlamentar:\n\n${text}`,
-        },
-      ],
+      title: 'Detalhes do Bloco Parlamentar',
+      data: bloc,
     };
   } catch (error) {
     context.logger.error('Failed to get bloc details', error as Error);
@@ -444,11 +334,14 @@ async function blocDetailsHandler(
 
 export const blocDetailsTool: ToolDefinition = {
   name: 'bloco_detalhes',
+  title: 'Detalhes do bloco parlamentar',
   description:
     'Obtém informações detalhadas sobre um bloco parlamentar específico. Inclui nome, sigla, partidos que o compõem, número de senadores, líderes, data de criação, e outras informações relevantes.',
   inputSchema: zodToJsonSchema(BlocDetailsSchema),
+  outputSchema: BlocoOutputSchema,
   handler: blocDetailsHandler,
   category: 'party',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -7,9 +7,12 @@
  * - Get voting history
  * - Get processing history
  * - Get proposal texts
+ * - Build a unified proposal timeline
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import type { OrgaoResumo, ToolDefinition, ToolContext, ToolOutput } from '../types/index.js';
+import { READ_ONLY_TOOL_ANNOTATIONS } from '../core/tools.js';
+import { RequestCancelledError } from '../core/errors.js';
 import {
   SearchProposalsSchema,
   ProposalDetailsSchema,
@@ -23,9 +26,31 @@ import {
   ListUpdatedProposalsSchema,
   ProposalsByYearSchema,
   ProposalAmendmentsSchema,
+  ProposalTimelineSchema,
+  MateriaOutputSchema,
+  MateriaRelacionadaOutputSchema,
+  AutorMateriaOutputSchema,
+  TramitacaoOutputSchema,
+  TextoMateriaOutputSchema,
+  EmendaOutputSchema,
+  RelatoriaOutputSchema,
+  VotacaoOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
 } from '../core/validation.js';
+import {
+  extractAutoresMateria,
+  extractEmendas,
+  extractMateria,
+  extractMaterias,
+  extractMateriasRelacionadas,
+  extractRelatorias,
+  extractTextosMateria,
+  extractTramitacoes,
+  extractVotacoes,
+  paginateItems,
+} from '../mappers/index.js';
 
 // ============================================================================
 // Search Proposals Tool
@@ -37,7 +62,7 @@ import {
 async function searchProposalsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     SearchProposalsSchema,
@@ -55,15 +80,9 @@ async function searchProposalsHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Resultado da Pesquisa de Matérias:\n\n${text}`,
-        },
-      ],
+      title: 'Resultado da Pesquisa de Matérias',
+      data: extractMaterias(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to search proposals', error as Error);
@@ -73,11 +92,14 @@ async function searchProposalsHandler(
 
 export const searchProposalsTool: ToolDefinition = {
   name: 'materias_pesquisar',
+  title: 'Pesquisar matérias',
   description:
     'Pesquisa matérias legislativas no Senado Federal. Permite filtrar por tipo (PLS, PEC, PLP, etc.), número, ano, autor, assunto e palavras-chave. Também permite filtrar apenas matérias em tramitação ou por período específico.',
   inputSchema: zodToJsonSchema(SearchProposalsSchema),
+  outputSchema: listOutputSchema(MateriaOutputSchema),
   handler: searchProposalsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -90,7 +112,7 @@ export const searchProposalsTool: ToolDefinition = {
 async function proposalDetailsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ProposalDetailsSchema,
@@ -107,16 +129,16 @@ async function proposalDetailsHandler(
       {}
     );
 
-    // Format response
-    const text = JSON.stringify(response.data, null, 2);
+    const proposal = extractMateria(response.data);
 
+    if (!proposal) {
+      throw new Error(`Matéria com código ${params.codigo} não encontrada`);
+    }
+
+    // Format response
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Detalhes da Matéria:\n\n${text}`,
-        },
-      ],
+      title: 'Detalhes da Matéria',
+      data: proposal,
     };
   } catch (error) {
     context.logger.error('Failed to get proposal details', error as Error);
@@ -126,11 +148,14 @@ async function proposalDetailsHandler(
 
 export const proposalDetailsTool: ToolDefinition = {
   name: 'materia_detalhes',
+  title: 'Detalhes da matéria',
   description:
     'Obtém informações detalhadas sobre uma matéria legislativa específica. Inclui tipo, número, ano, ementa, explicação da ementa, autores, local de tramitação, situação atual, e outras informações relevantes.',
   inputSchema: zodToJsonSchema(ProposalDetailsSchema),
+  outputSchema: MateriaOutputSchema,
   handler: proposalDetailsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -143,7 +168,7 @@ export const proposalDetailsTool: ToolDefinition = {
 async function proposalVotingHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ProposalVotingSchema,
@@ -161,15 +186,9 @@ async function proposalVotingHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Votações da Matéria:\n\n${text}`,
-        },
-      ],
+      title: 'Votações da Matéria',
+      data: extractVotacoes(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get proposal voting history', error as Error);
@@ -179,11 +198,14 @@ async function proposalVotingHandler(
 
 export const proposalVotingTool: ToolDefinition = {
   name: 'materia_votacoes',
+  title: 'Votações da matéria',
   description:
     'Lista todas as votações realizadas sobre uma matéria legislativa específica. Inclui data, resultado, placar (votos sim, não, abstenções), e o tipo de votação (nominal, simbólica, etc.).',
   inputSchema: zodToJsonSchema(ProposalVotingSchema),
+  outputSchema: listOutputSchema(VotacaoOutputSchema),
   handler: proposalVotingHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -196,7 +218,7 @@ export const proposalVotingTool: ToolDefinition = {
 async function proposalProcessingHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ProposalProcessingSchema,
@@ -214,15 +236,9 @@ async function proposalProcessingHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Tramitações da Matéria:\n\n${text}`,
-        },
-      ],
+      title: 'Tramitações da Matéria',
+      data: extractTramitacoes(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get proposal processing history', error as Error);
@@ -232,11 +248,14 @@ async function proposalProcessingHandler(
 
 export const proposalProcessingTool: ToolDefinition = {
   name: 'materia_tramitacoes',
+  title: 'Tramitação da matéria',
   description:
     'Obtém o histórico completo de tramitação de uma matéria legislativa. Mostra cada movimentação da matéria, incluindo data, origem, destino, ação realizada e situação. Permite filtrar por período.',
   inputSchema: zodToJsonSchema(ProposalProcessingSchema),
+  outputSchema: listOutputSchema(TramitacaoOutputSchema),
   handler: proposalProcessingHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -249,7 +268,7 @@ export const proposalProcessingTool: ToolDefinition = {
 async function proposalTextsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ProposalTextsSchema,
@@ -267,15 +286,9 @@ async function proposalTextsHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Textos da Matéria:\n\n${text}`,
-        },
-      ],
+      title: 'Textos da Matéria',
+      data: extractTextosMateria(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get proposal texts', error as Error);
@@ -285,26 +298,29 @@ async function proposalTextsHandler(
 
 export const proposalTextsTool: ToolDefinition = {
   name: 'materia_textos',
+  title: 'Textos da matéria',
   description:
     'Lista todos os textos disponíveis de uma matéria legislativa. Inclui texto inicial, substitutivos, pareceres, emendas, e versões finais. Fornece URLs para download dos documentos em diversos formatos (PDF, RTF, etc.).',
   inputSchema: zodToJsonSchema(ProposalTextsSchema),
+  outputSchema: listOutputSchema(TextoMateriaOutputSchema),
   handler: proposalTextsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Proposal Authors Tool
 // ============================================================================
 
-async function proposalAuthorsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function proposalAuthorsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ProposalAuthorsSchema, args, 'materia_autores');
   context.logger.debug('Getting proposal authors', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/materia/${params.codigo}/autores`, {});
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Autores da Matéria:\n\n${text}` }],
+      title: 'Autores da Matéria',
+      data: extractAutoresMateria(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get proposal authors', error as Error);
@@ -314,26 +330,29 @@ async function proposalAuthorsHandler(args: unknown, context: ToolContext): Prom
 
 export const proposalAuthorsTool: ToolDefinition = {
   name: 'materia_autores',
+  title: 'Autores da matéria',
   description:
     'Lista todos os autores de uma matéria legislativa. Inclui autor principal e coautores, com informações sobre cada parlamentar.',
   inputSchema: zodToJsonSchema(ProposalAuthorsSchema),
+  outputSchema: listOutputSchema(AutorMateriaOutputSchema),
   handler: proposalAuthorsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Related Proposals Tool
 // ============================================================================
 
-async function relatedProposalsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function relatedProposalsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(RelatedProposalsSchema, args, 'materia_relacionadas');
   context.logger.debug('Getting related proposals', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/materia/${params.codigo}/relacionadas`, {});
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Matérias Relacionadas:\n\n${text}` }],
+      title: 'Matérias Relacionadas',
+      data: extractMateriasRelacionadas(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get related proposals', error as Error);
@@ -343,26 +362,29 @@ async function relatedProposalsHandler(args: unknown, context: ToolContext): Pro
 
 export const relatedProposalsTool: ToolDefinition = {
   name: 'materia_relacionadas',
+  title: 'Matérias relacionadas',
   description:
     'Lista todas as matérias relacionadas a uma matéria específica. Inclui matérias apensadas, substitutivos, e outras relações legislativas.',
   inputSchema: zodToJsonSchema(RelatedProposalsSchema),
+  outputSchema: listOutputSchema(MateriaRelacionadaOutputSchema),
   handler: relatedProposalsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Proposal Rapporteurships Tool
 // ============================================================================
 
-async function proposalRapporteurshipsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function proposalRapporteurshipsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ProposalRapporteurshipsSchema, args, 'materia_relatorias');
   context.logger.debug('Getting proposal rapporteurships', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/materia/${params.codigo}/relatorias`, {});
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Relatorias da Matéria:\n\n${text}` }],
+      title: 'Relatorias da Matéria',
+      data: extractRelatorias(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get proposal rapporteurships', error as Error);
@@ -372,26 +394,29 @@ async function proposalRapporteurshipsHandler(args: unknown, context: ToolContex
 
 export const proposalRapporteurshipsTool: ToolDefinition = {
   name: 'materia_relatorias',
+  title: 'Relatorias da matéria',
   description:
     'Lista todos os relatores designados para uma matéria, incluindo relator atual e histórico de relatores em diferentes comissões.',
   inputSchema: zodToJsonSchema(ProposalRapporteurshipsSchema),
+  outputSchema: listOutputSchema(RelatoriaOutputSchema),
   handler: proposalRapporteurshipsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // List Proposals In Process Tool
 // ============================================================================
 
-async function listProposalsInProcessHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listProposalsInProcessHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListProposalsInProcessSchema, args, 'materias_tramitando');
   context.logger.debug('Listing proposals in process', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/materia/tramitando', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Matérias em Tramitação:\n\n${text}` }],
+      title: 'Matérias em Tramitação',
+      data: extractMaterias(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list proposals in process', error as Error);
@@ -401,26 +426,29 @@ async function listProposalsInProcessHandler(args: unknown, context: ToolContext
 
 export const listProposalsInProcessTool: ToolDefinition = {
   name: 'materias_tramitando',
+  title: 'Matérias em tramitação',
   description:
     'Lista todas as matérias legislativas que estão atualmente em tramitação no Senado Federal. Permite filtrar por data e hora de referência.',
   inputSchema: zodToJsonSchema(ListProposalsInProcessSchema),
+  outputSchema: listOutputSchema(MateriaOutputSchema),
   handler: listProposalsInProcessHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // List Updated Proposals Tool
 // ============================================================================
 
-async function listUpdatedProposalsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listUpdatedProposalsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListUpdatedProposalsSchema, args, 'materias_atualizadas');
   context.logger.debug('Listing updated proposals', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/materia/atualizadas', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Matérias Recentemente Atualizadas:\n\n${text}` }],
+      title: 'Matérias Recentemente Atualizadas',
+      data: extractMaterias(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list updated proposals', error as Error);
@@ -430,26 +458,29 @@ async function listUpdatedProposalsHandler(args: unknown, context: ToolContext):
 
 export const listUpdatedProposalsTool: ToolDefinition = {
   name: 'materias_atualizadas',
+  title: 'Matérias atualizadas',
   description:
     'Lista todas as matérias legislativas que foram recentemente atualizadas. Útil para acompanhar mudanças e movimentações recentes.',
   inputSchema: zodToJsonSchema(ListUpdatedProposalsSchema),
+  outputSchema: listOutputSchema(MateriaOutputSchema),
   handler: listUpdatedProposalsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Proposals By Year Tool
 // ============================================================================
 
-async function proposalsByYearHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function proposalsByYearHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ProposalsByYearSchema, args, 'materias_ano');
   context.logger.debug('Getting proposals by year', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/materia/ano', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Matérias por Ano:\n\n${text}` }],
+      title: 'Matérias por Ano',
+      data: extractMaterias(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get proposals by year', error as Error);
@@ -459,26 +490,29 @@ async function proposalsByYearHandler(args: unknown, context: ToolContext): Prom
 
 export const proposalsByYearTool: ToolDefinition = {
   name: 'materias_ano',
+  title: 'Matérias por ano',
   description:
     'Lista todas as matérias legislativas de um ano específico. Permite filtrar por tipo de matéria (PLS, PEC, PLP, etc.).',
   inputSchema: zodToJsonSchema(ProposalsByYearSchema),
+  outputSchema: listOutputSchema(MateriaOutputSchema),
   handler: proposalsByYearHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Proposal Amendments Tool
 // ============================================================================
 
-async function proposalAmendmentsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function proposalAmendmentsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ProposalAmendmentsSchema, args, 'materia_emendas');
   context.logger.debug('Getting proposal amendments', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/materia/${params.codigo}/emendas`, params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Emendas da Matéria:\n\n${text}` }],
+      title: 'Emendas da Matéria',
+      data: extractEmendas(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get proposal amendments', error as Error);
@@ -488,11 +522,369 @@ async function proposalAmendmentsHandler(args: unknown, context: ToolContext): P
 
 export const proposalAmendmentsTool: ToolDefinition = {
   name: 'materia_emendas',
+  title: 'Emendas da matéria',
   description:
     'Lista todas as emendas apresentadas a uma matéria legislativa. Inclui emendas de plenário, de comissão, e substitutivos.',
   inputSchema: zodToJsonSchema(ProposalAmendmentsSchema),
+  outputSchema: listOutputSchema(EmendaOutputSchema),
   handler: proposalAmendmentsHandler,
   category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
+};
+
+// ============================================================================
+// Proposal Timeline Tool
+// ============================================================================
+
+type TimelineEventType = 'tramitacao' | 'votacao' | 'relatoria' | 'emenda' | 'texto';
+type TimelineBodyType = 'comissao' | 'plenario' | 'outro';
+
+interface TimelineBody {
+  sigla?: string;
+  nome?: string;
+  tipo: TimelineBodyType;
+}
+
+/**
+ * Single event in a proposal timeline, linked back to the tool/endpoint it came from
+ */
+interface TimelineEvent {
+  tipo: TimelineEventType;
+  data: string;
+  descricao?: string;
+  orgao?: TimelineBody;
+  destino?: TimelineBody;
+  ator?: string;
+  fonte: {
+    ferramenta: string;
+    endpoint: string;
+    codigo?: string;
+    url?: string;
+  };
+}
+
+/**
+ * Event as read from one source, before it is placed in the timeline.
+ * `sequencia` orders same-day events of one source (tramitação number, record code).
+ */
+type TimelineEntry = Omit<TimelineEvent, 'tipo' | 'data' | 'fonte'> & {
+  data?: string;
+  sequencia?: number;
+  codigo?: number;
+  url?: string;
+};
+
+/**
+ * Upstream source merged into the timeline, mapped with the same mapper as its own tool
+ */
+interface TimelineSource {
+  tipo: TimelineEventType;
+  ferramenta: string;
+  recurso: string;
+  eventos: (data: unknown) => TimelineEntry[];
+}
+
+const PLENARY_BODY: TimelineBody = { sigla: 'PLEN', nome: 'Plenário do Senado Federal', tipo: 'plenario' };
+
+/**
+ * Sources in the order same-day events are listed
+ */
+const TIMELINE_SOURCES: TimelineSource[] = [
+  {
+    tipo: 'tramitacao',
+    ferramenta: 'materia_tramitacoes',
+    recurso: 'tramitacoes',
+    eventos: (data) =>
+      extractTramitacoes(data).map((tramitacao) => ({
+        data: tramitacao.data,
+        descricao: tramitacao.descricao,
+        orgao: toBody(tramitacao.origem),
+        destino: toBody(tramitacao.destino),
+        ator: tramitacao.origem?.nome,
+        sequencia: tramitacao.numero,
+        codigo: tramitacao.numero,
+      })),
+  },
+  {
+    tipo: 'votacao',
+    ferramenta: 'materia_votacoes',
+    recurso: 'votacoes',
+    eventos: (data) =>
+      extractVotacoes(data).map((votacao) => ({
+        data: votacao.data,
+        descricao: votacao.descricao ?? votacao.resultado,
+        orgao: toBody(votacao.colegiado) ?? PLENARY_BODY,
+        ator: votacao.colegiado?.nome,
+        sequencia: votacao.codigo,
+        codigo: votacao.codigo,
+      })),
+  },
+  {
+    tipo: 'relatoria',
+    ferramenta: 'materia_relatorias',
+    recurso: 'relatorias',
+    eventos: (data) =>
+      extractRelatorias(data).map((relatoria) => ({
+        data: relatoria.dataDesignacao,
+        descricao: relatoria.tipo,
+        orgao: toBody(relatoria.comissao),
+        ator: relatoria.relator?.nome,
+        sequencia: relatoria.relator?.codigoParlamentar,
+        codigo: relatoria.relator?.codigoParlamentar,
+      })),
+  },
+  {
+    tipo: 'emenda',
+    ferramenta: 'materia_emendas',
+    recurso: 'emendas',
+    eventos: (data) =>
+      extractEmendas(data).map((emenda) => ({
+        data: emenda.data,
+        descricao: emenda.tipo ?? (emenda.numero ? `Emenda ${emenda.numero}` : undefined),
+        orgao: toBody(emenda.orgao),
+        ator: emenda.autor,
+        sequencia: emenda.codigo,
+        codigo: emenda.codigo,
+        url: emenda.url,
+      })),
+  },
+  {
+    tipo: 'texto',
+    ferramenta: 'materia_textos',
+    recurso: 'textos',
+    eventos: (data) =>
+      extractTextosMateria(data).map((texto) => ({
+        data: texto.data,
+        descricao: texto.tipo,
+        orgao: toBody(texto.orgao),
+        ator: texto.autoria,
+        sequencia: texto.codigo,
+        codigo: texto.codigo,
+        url: texto.url,
+      })),
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function classifyBody(sigla?: string, nome?: string): TimelineBodyType {
+  const label = `${sigla ?? ''} ${nome ?? ''}`.toUpperCase();
+  if (/PLEN/.test(label)) {
+    return 'plenario';
+  }
+  if (/COMISS|^C[A-Z]{1,5}\b/.test(label)) {
+    return 'comissao';
+  }
+  return 'outro';
+}
+
+function toBody(orgao?: OrgaoResumo): TimelineBody | undefined {
+  if (!orgao?.sigla && !orgao?.nome) {
+    return undefined;
+  }
+  return { sigla: orgao.sigla, nome: orgao.nome, tipo: classifyBody(orgao.sigla, orgao.nome) };
+}
+
+/**
+ * Timeline event with the position of its source and its sequence within the source
+ */
+interface RankedTimelineEvent {
+  evento: TimelineEvent;
+  fonte: number;
+  sequencia?: number;
+}
+
+/**
+ * Same-day order: source order first, then the sequence within the source (records without one last)
+ */
+function compareTimelineEvents(a: RankedTimelineEvent, b: RankedTimelineEvent): number {
+  return (
+    a.evento.data.localeCompare(b.evento.data) ||
+    a.fonte - b.fonte ||
+    (a.sequencia ?? Number.MAX_SAFE_INTEGER) - (b.sequencia ?? Number.MAX_SAFE_INTEGER)
+  );
+}
+
+/**
+ * Split the tramitação history into stages, one per consecutive stay in a body
+ */
+function computeStages(eventos: TimelineEvent[], today: string) {
+  const stages: Array<{ orgao: TimelineBody; inicio: string; fim: string | null; dias: number }> = [];
+
+  for (const evento of eventos) {
+    if (evento.tipo !== 'tramitacao') {
+      continue;
+    }
+
+    const local = evento.destino ?? evento.orgao;
+    if (!local) {
+      continue;
+    }
+
+    const current = stages[stages.length - 1];
+    const key = local.sigla ?? local.nome;
+    if (current && (current.orgao.sigla ?? current.orgao.nome) === key) {
+      continue;
+    }
+
+    if (current) {
+      current.fim = evento.data;
+    }
+    stages.push({ orgao: local, inicio: evento.data, fim: null, dias: 0 });
+  }
+
+  for (const stage of stages) {
+    const end = stage.fim ?? today;
+    stage.dias = Math.max(0, Math.round((Date.parse(end) - Date.parse(stage.inicio)) / DAY_MS));
+  }
+
+  const totals = new Map<string, { orgao: TimelineBody; dias: number; passagens: number }>();
+  for (const stage of stages) {
+    const key = stage.orgao.sigla ?? stage.orgao.nome ?? '';
+    const total = totals.get(key) ?? { orgao: stage.orgao, dias: 0, passagens: 0 };
+    total.dias += stage.dias;
+    total.passagens++;
+    totals.set(key, total);
+  }
+
+  return {
+    etapas: stages.map((stage, index) => ({
+      ...stage,
+      emAndamento: index === stages.length - 1,
+    })),
+    tempoPorOrgao: Array.from(totals.values()).sort((a, b) => b.dias - a.dias),
+  };
+}
+
+/**
+ * Merge tramitações, votações, relatorias, emendas and textos into one chronological timeline
+ */
+async function proposalTimelineHandler(
+  args: unknown,
+  context: ToolContext
+): Promise<ToolOutput> {
+  const params = validateToolInput(
+    ProposalTimelineSchema,
+    args,
+    'materia_linha_do_tempo'
+  );
+
+  context.logger.debug('Building proposal timeline', { params });
+
+  try {
+    const ranked: RankedTimelineEvent[] = [];
+    const fontesIndisponiveis: string[] = [];
+    let eventosSemData = 0;
+    let lastError: unknown;
+
+    for (const [index, source] of TIMELINE_SOURCES.entries()) {
+      await context.rateLimiter?.waitForToken(context.signal);
+
+      try {
+        const response = await context.httpClient.get<unknown>(
+          `/materia/${params.codigo}/${source.recurso}`,
+          {}
+        );
+        for (const { data, sequencia, codigo, url, ...entry } of source.eventos(response.data)) {
+          if (!data) {
+            eventosSemData++;
+            continue;
+          }
+
+          ranked.push({
+            evento: {
+              tipo: source.tipo,
+              data,
+              ...entry,
+              fonte: {
+                ferramenta: source.ferramenta,
+                endpoint: `/materia/${params.codigo}/${source.recurso}`,
+                codigo: codigo?.toString(),
+                url,
+              },
+            },
+            fonte: index,
+            sequencia,
+          });
+        }
+      } catch (error) {
+        if (error instanceof RequestCancelledError) {
+          throw error;
+        }
+        lastError = error;
+        fontesIndisponiveis.push(source.ferramenta);
+        context.logger.warn('Failed to get proposal timeline source', {
+          codigo: params.codigo,
+          fonte: source.ferramenta,
+          error: (error as Error).message,
+        });
+      }
+
+      context.progress?.({
+        progress: index + 1,
+        total: TIMELINE_SOURCES.length,
+        message: `Fonte consultada: ${source.ferramenta}`,
+      });
+    }
+
+    if (fontesIndisponiveis.length === TIMELINE_SOURCES.length) {
+      throw lastError;
+    }
+
+    const eventos = ranked.sort(compareTimelineEvents).map(({ evento }) => evento);
+
+    const { etapas, tempoPorOrgao } = computeStages(
+      eventos,
+      new Date().toISOString().slice(0, 10)
+    );
+
+    const filtered = eventos.filter(
+      (evento) =>
+        (!params.dataInicio || evento.data >= params.dataInicio) &&
+        (!params.dataFim || evento.data <= params.dataFim)
+    );
+
+    const eventosPorTipo: Record<string, number> = {};
+    for (const evento of filtered) {
+      eventosPorTipo[evento.tipo] = (eventosPorTipo[evento.tipo] ?? 0) + 1;
+    }
+
+    const { pageItems } = paginateItems(filtered, params.pagina, params.itens);
+
+    const summary = {
+      codigo: params.codigo,
+      periodo: {
+        dataInicio: params.dataInicio ?? null,
+        dataFim: params.dataFim ?? null,
+      },
+      totalEventos: filtered.length,
+      eventosPorTipo,
+      eventosSemData,
+      fontesIndisponiveis,
+      etapas,
+      tempoPorOrgao,
+      eventos: pageItems,
+    };
+
+    return {
+      title: `Linha do Tempo da Matéria (${filtered.length} eventos)`,
+      data: summary,
+    };
+  } catch (error) {
+    context.logger.error('Failed to build proposal timeline', error as Error);
+    throw error;
+  }
+}
+
+export const proposalTimelineTool: ToolDefinition = {
+  name: 'materia_linha_do_tempo',
+  title: 'Linha do tempo da matéria',
+  description:
+    'Monta a linha do tempo completa de uma matéria legislativa, unificando tramitações, votações, relatorias, emendas e textos em uma única lista cronológica. Cada evento traz tipo, data (ISO), órgão (comissão ou plenário), autor/ator e a referência ao registro de origem. Também informa o tempo que a matéria permaneceu em cada etapa.',
+  inputSchema: zodToJsonSchema(ProposalTimelineSchema),
+  handler: proposalTimelineHandler,
+  category: 'proposal',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -512,4 +904,5 @@ export const proposalTools: ToolDefinition[] = [
   listUpdatedProposalsTool,
   proposalsByYearTool,
   proposalAmendmentsTool,
+  proposalTimelineTool,
 ];
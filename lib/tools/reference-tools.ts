@@ -9,7 +9,8 @@
  * - Brazilian states
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import type { ToolDefinition, ToolContext, ToolOutput } from '../types/index.js';
+import { READ_ONLY_TOOL_ANNOTATIONS } from '../core/tools.js';
 import {
   ListLegislaturesSchema,
   ListProposalTypesSchema,
@@ -21,24 +22,23 @@ import {
   ListVotingTypesSchema,
   ListDocumentTypesSchema,
   ListSubjectsSchema,
+  ItemReferenciaOutputSchema,
+  LegislaturaOutputSchema,
+  UfOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
 } from '../core/validation.js';
+import {
+  extractItensReferencia,
+  extractLegislaturas,
+  extractUfs,
+  paginateItems,
+} from '../mappers/index.js';
 
 const IBGE_STATES_ENDPOINT =
   'https://servicodados.ibge.gov.br/api/v1/localidades/estados';
 
-type IBGEState = {
-  id: number;
-  sigla: string;
-  nome: string;
-  regiao?: {
-    id: number;
-    sigla: string;
-    nome: string;
-  };
-};
-
 // ============================================================================
 // List Legislatures Tool
 // ============================================================================
@@ -49,7 +49,7 @@ type IBGEState = {
 async function listLegislaturesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListLegislaturesSchema,
@@ -67,15 +67,9 @@ async function listLegislaturesHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Legislaturas do Senado Federal:\n\n${text}`,
-        },
-      ],
+      title: 'Legislaturas do Senado Federal',
+      data: extractLegislaturas(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list legislatures', error as Error);
@@ -85,11 +79,14 @@ async function listLegislaturesHandler(
 
 export const listLegislaturesTool: ToolDefinition = {
   name: 'legislaturas_listar',
+  title: 'Listar legislaturas',
   description:
     'Lista todas as legislaturas do Senado Federal. Uma legislatura corresponde a um período de 4 anos de mandato dos senadores.',
   inputSchema: zodToJsonSchema(ListLegislaturesSchema),
+  outputSchema: listOutputSchema(LegislaturaOutputSchema),
   handler: listLegislaturesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -102,7 +99,7 @@ export const listLegislaturesTool: ToolDefinition = {
 async function listProposalTypesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListProposalTypesSchema,
@@ -120,15 +117,9 @@ async function listProposalTypesHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Tipos de Matérias Legislativas:\n\n${text}`,
-        },
-      ],
+      title: 'Tipos de Matérias Legislativas',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list proposal types', error as Error);
@@ -138,11 +129,14 @@ async function listProposalTypesHandler(
 
 export const listProposalTypesTool: ToolDefinition = {
   name: 'tipos_materia_listar',
+  title: 'Listar tipos de matéria',
   description:
     'Lista todos os tipos de matérias legislativas (PLS, PEC, PLP, etc.). Útil para entender as diferentes categorias de proposições.',
   inputSchema: zodToJsonSchema(ListProposalTypesSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listProposalTypesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -155,7 +149,7 @@ export const listProposalTypesTool: ToolDefinition = {
 async function listProposalStatusesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListProposalStatusesSchema,
@@ -173,15 +167,9 @@ async function listProposalStatusesHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Situações de Matérias Legislativas:\n\n${text}`,
-        },
-      ],
+      title: 'Situações de Matérias Legislativas',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list proposal statuses', error as Error);
@@ -191,11 +179,14 @@ async function listProposalStatusesHandler(
 
 export const listProposalStatusesTool: ToolDefinition = {
   name: 'situacoes_materia_listar',
+  title: 'Listar situações de matéria',
   description:
     'Lista todas as situações possíveis de matérias legislativas (em tramitação, arquivada, aprovada, etc.).',
   inputSchema: zodToJsonSchema(ListProposalStatusesSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listProposalStatusesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -208,7 +199,7 @@ export const listProposalStatusesTool: ToolDefinition = {
 async function listCommitteeTypesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListCommitteeTypesSchema,
@@ -226,15 +217,9 @@ async function listCommitteeTypesHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Tipos de Comissões:\n\n${text}`,
-        },
-      ],
+      title: 'Tipos de Comissões',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list committee types', error as Error);
@@ -244,11 +229,14 @@ async function listCommitteeTypesHandler(
 
 export const listCommitteeTypesTool: ToolDefinition = {
   name: 'tipos_comissao_listar',
+  title: 'Listar tipos de comissão',
   description:
     'Lista todos os tipos de comissões do Senado (permanentes, temporárias, mistas, etc.).',
   inputSchema: zodToJsonSchema(ListCommitteeTypesSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listCommitteeTypesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -261,7 +249,7 @@ export const listCommitteeTypesTool: ToolDefinition = {
 async function listStatesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(
     ListStatesSchema,
     args,
@@ -271,51 +259,23 @@ async function listStatesHandler(
   context.logger.debug('Listing states', { params });
 
   try {
-    const response = await context.httpClient.get<IBGEState[]>(
+    const response = await context.httpClient.get<unknown>(
       IBGE_STATES_ENDPOINT,
       {}
     );
 
-    if (!Array.isArray(response.data)) {
-      context.logger.warn('Unexpected response format from IBGE states API');
-      const fallbackText = JSON.stringify(response.data, null, 2);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Estados Brasileiros (dados brutos):\n\n${fallbackText}`,
-          },
-        ],
-      };
-    }
-
-    const sortedStates = [...response.data].sort((a, b) =>
+    const sortedStates = extractUfs(response.data).sort((a, b) =>
       a.sigla.localeCompare(b.sigla)
     );
-
-    const totalStates = sortedStates.length;
-    const page = Math.max(params.pagina ?? 1, 1);
-    const pageSize = Math.max(params.itens ?? totalStates, 1);
-    const startIndex = (page - 1) * pageSize;
-    const paginatedStates = sortedStates.slice(
-      startIndex,
-      startIndex + pageSize
+    const { pageItems, total } = paginateItems(
+      sortedStates,
+      params.pagina,
+      params.itens
     );
 
-    const lines = paginatedStates.map((state, index) => {
-      const regionName = state.regiao?.nome || 'Não informado';
-      return `${startIndex + index + 1}. ${state.nome} (${state.sigla}) - Região: ${regionName}`;
-    });
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Estados Brasileiros (${paginatedStates.length} de ${totalStates}):\n\n${lines.join(
-            '\n'
-          )}`,
-        },
-      ],
+      title: `Estados Brasileiros (${pageItems.length} de ${total})`,
+      data: pageItems,
     };
   } catch (error) {
     context.logger.error('Failed to list states', error as Error);
@@ -325,26 +285,29 @@ async function listStatesHandler(
 
 export const listStatesTool: ToolDefinition = {
   name: 'ufs_listar',
+  title: 'Listar UFs',
   description:
     'Lista todas as Unidades Federativas (estados) do Brasil. Cada estado elege 3 senadores.',
   inputSchema: zodToJsonSchema(ListStatesSchema),
+  outputSchema: listOutputSchema(UfOutputSchema),
   handler: listStatesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // List Author Types Tool
 // ============================================================================
 
-async function listAuthorTypesHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listAuthorTypesHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListAuthorTypesSchema, args, 'tipos_autor_listar');
   context.logger.debug('Listing author types', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/tipoAutor/lista', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Tipos de Autores:\n\n${text}` }],
+      title: 'Tipos de Autores',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list author types', error as Error);
@@ -354,26 +317,29 @@ async function listAuthorTypesHandler(args: unknown, context: ToolContext): Prom
 
 export const listAuthorTypesTool: ToolDefinition = {
   name: 'tipos_autor_listar',
+  title: 'Listar tipos de autor',
   description:
     'Lista todos os tipos de autores de matérias legislativas (senador, comissão, mesa, etc.).',
   inputSchema: zodToJsonSchema(ListAuthorTypesSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listAuthorTypesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // List Session Types Tool
 // ============================================================================
 
-async function listSessionTypesHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listSessionTypesHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListSessionTypesSchema, args, 'tipos_sessao_listar');
   context.logger.debug('Listing session types', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/tipoSessao/lista', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Tipos de Sessão:\n\n${text}` }],
+      title: 'Tipos de Sessão',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list session types', error as Error);
@@ -383,26 +349,29 @@ async function listSessionTypesHandler(args: unknown, context: ToolContext): Pro
 
 export const listSessionTypesTool: ToolDefinition = {
   name: 'tipos_sessao_listar',
+  title: 'Listar tipos de sessão',
   description:
     'Lista todos os tipos de sessões plenárias do Senado (ordinária, extraordinária, solene, etc.).',
   inputSchema: zodToJsonSchema(ListSessionTypesSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listSessionTypesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // List Voting Types Tool
 // ============================================================================
 
-async function listVotingTypesHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listVotingTypesHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListVotingTypesSchema, args, 'tipos_votacao_listar');
   context.logger.debug('Listing voting types', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/tipoVotacao/lista', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Tipos de Votação:\n\n${text}` }],
+      title: 'Tipos de Votação',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list voting types', error as Error);
@@ -412,26 +381,29 @@ async function listVotingTypesHandler(args: unknown, context: ToolContext): Prom
 
 export const listVotingTypesTool: ToolDefinition = {
   name: 'tipos_votacao_listar',
+  title: 'Listar tipos de votação',
   description:
     'Lista todos os tipos de votação do Senado (nominal, simbólica, secreta, etc.).',
   inputSchema: zodToJsonSchema(ListVotingTypesSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listVotingTypesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // List Document Types Tool
 // ============================================================================
 
-async function listDocumentTypesHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listDocumentTypesHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListDocumentTypesSchema, args, 'tipos_documento_listar');
   context.logger.debug('Listing document types', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/tipoDocumento/lista', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Tipos de Documento:\n\n${text}` }],
+      title: 'Tipos de Documento',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list document types', error as Error);
@@ -441,26 +413,29 @@ async function listDocumentTypesHandler(args: unknown, context: ToolContext): Pr
 
 export const listDocumentTypesTool: ToolDefinition = {
   name: 'tipos_documento_listar',
+  title: 'Listar tipos de documento',
   description:
     'Lista todos os tipos de documentos legislativos (parecer, emenda, relatório, etc.).',
   inputSchema: zodToJsonSchema(ListDocumentTypesSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listDocumentTypesHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // List Subjects Tool
 // ============================================================================
 
-async function listSubjectsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listSubjectsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListSubjectsSchema, args, 'assuntos_listar');
   context.logger.debug('Listing subjects', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/assunto/lista', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Assuntos Legislativos:\n\n${text}` }],
+      title: 'Assuntos Legislativos',
+      data: extractItensReferencia(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list subjects', error as Error);
@@ -470,11 +445,14 @@ async function listSubjectsHandler(args: unknown, context: ToolContext): Promise
 
 export const listSubjectsTool: ToolDefinition = {
   name: 'assuntos_listar',
+  title: 'Listar assuntos',
   description:
     'Lista todos os assuntos/áreas temáticas das matérias legislativas (saúde, educação, economia, etc.).',
   inputSchema: zodToJsonSchema(ListSubjectsSchema),
+  outputSchema: listOutputSchema(ItemReferenciaOutputSchema),
   handler: listSubjectsHandler,
   category: 'reference',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
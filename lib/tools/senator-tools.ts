@@ -2,14 +2,26 @@
  * Senator Tools
  *
  * Tools for accessing senator information:
- * - List senators with filters
+ * - List senators with filters (current or by legislature)
  * - Get senator details
  * - Get voting history
  * - Get authored proposals
  * - Get committee memberships
+ * - Compute party alignment index
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import type {
+  Bloco,
+  ToolDefinition,
+  ToolContext,
+  ToolOutput,
+  NormalizedVote,
+  VotingOrientation,
+  Senador,
+  SenatorVotingRecord,
+} from '../types/index.js';
+import { READ_ONLY_TOOL_ANNOTATIONS } from '../core/tools.js';
+import { RequestCancelledError, ValidationError } from '../core/errors.js';
 import {
   ListSenatorsSchema,
   SenatorDetailsSchema,
@@ -24,21 +36,86 @@ import {
   SenatorSpeechesSchema,
   SenatorRapporteurshipsSchema,
   SenatorAffiliationsSchema,
+  SenatorPartyAlignmentSchema,
+  SenadorOutputSchema,
+  SenadorDetalhadoOutputSchema,
+  SenatorVotingRecordOutputSchema,
+  MateriaOutputSchema,
+  ParticipacaoComissaoOutputSchema,
+  LicencaOutputSchema,
+  MandatoOutputSchema,
+  LiderancaOutputSchema,
+  CargoOutputSchema,
+  DiscursoOutputSchema,
+  RelatoriaOutputSchema,
+  FiliacaoOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
 } from '../core/validation.js';
+import {
+  extractBlocos,
+  extractCargos,
+  extractDiscursos,
+  extractFiliacoes,
+  extractLicencas,
+  extractLiderancas,
+  extractMandatos,
+  extractMateriasAutoria,
+  extractParticipacoesComissao,
+  extractRelatorias,
+  extractSenadorDetalhado,
+  extractSenatorVotingRecord,
+  extractSenadoresListagem,
+  extractVotingOrientations,
+  paginateItems,
+} from '../mappers/index.js';
 
 // ============================================================================
 // List Senators Tool
 // ============================================================================
 
+const CURRENT_SENATORS_ENDPOINT = '/senador/lista/atual';
+const LEGISLATURE_SENATORS_ENDPOINT = '/senador/lista/legislatura';
+const ABSENT_SENATORS_ENDPOINT = '/senador/afastados';
+const BLOC_LIST_ENDPOINT = '/composicao/lista/blocos';
+
+const normalizeName = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const matchesSenator = (
+  senador: Senador,
+  filters: { nome?: string; partido?: string; uf?: string }
+): boolean => {
+  if (filters.nome) {
+    const nome = normalizeName(filters.nome);
+    const names = [senador.nome, senador.nomeCompleto ?? ''].map(normalizeName);
+    if (!names.some((name) => name.includes(nome))) {
+      return false;
+    }
+  }
+
+  if (filters.partido && senador.partido !== filters.partido.toUpperCase()) {
+    return false;
+  }
+
+  return !filters.uf || senador.uf === filters.uf;
+};
+
 /**
  * List senators with optional filters
+ *
+ * Without `legislatura`, lists senators currently in office (optionally with the afastados).
+ * With `legislatura` (and `legislaturaFim`), lists everyone who took office in those
+ * legislatures: titulares, afastados and suplentes em exercício.
  */
 async function listSenatorsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     ListSenatorsSchema,
@@ -46,25 +123,70 @@ async function listSenatorsHandler(
     'senadores_listar'
   );
 
+  if (params.legislaturaFim !== undefined && params.legislatura === undefined) {
+    throw new ValidationError(
+      'Invalid input for senadores_listar: "legislaturaFim" requer "legislatura"',
+      'legislaturaFim',
+      args
+    );
+  }
+
+  if (params.legislatura !== undefined && (params.legislaturaFim ?? params.legislatura) < params.legislatura) {
+    throw new ValidationError(
+      'Invalid input for senadores_listar: "legislaturaFim" deve ser maior ou igual a "legislatura"',
+      'legislaturaFim',
+      args
+    );
+  }
+
   context.logger.debug('Listing senators', { params });
 
   try {
-    // Call Senado API
-    const response = await context.httpClient.get<unknown>(
-      '/senador/lista/atual',
-      params as Record<string, unknown>
+    let senadores: Senador[];
+    let title: string;
+
+    if (params.legislatura !== undefined) {
+      const inicio = params.legislatura;
+      const fim = params.legislaturaFim ?? inicio;
+      const endpoint =
+        fim === inicio
+          ? `${LEGISLATURE_SENATORS_ENDPOINT}/${inicio}`
+          : `${LEGISLATURE_SENATORS_ENDPOINT}/${inicio}/${fim}`;
+
+      // exercicio=S keeps the suplentes who took office and drops the ones who never did
+      const response = await context.httpClient.get<unknown>(endpoint, { exercicio: 'S' });
+
+      senadores = extractSenadoresListagem(response.data, {
+        legislaturas: Array.from({ length: fim - inicio + 1 }, (_, index) => inicio + index),
+      });
+      title = fim === inicio ? `Senadores da ${inicio}ª legislatura` : `Senadores das legislaturas ${inicio} a ${fim}`;
+    } else {
+      const response = await context.httpClient.get<unknown>(CURRENT_SENATORS_ENDPOINT);
+      senadores = extractSenadoresListagem(response.data);
+
+      if (params.incluirAfastados) {
+        const afastados = await context.httpClient.get<unknown>(ABSENT_SENATORS_ENDPOINT);
+        const codes = new Set(senadores.map((senador) => senador.codigo));
+        senadores = [
+          ...senadores,
+          ...extractSenadoresListagem(afastados.data, { afastados: true }).filter(
+            (senador) => !codes.has(senador.codigo)
+          ),
+        ];
+      }
+      title = 'Senadores do Senado Federal';
+    }
+
+    const { pageItems, total } = paginateItems(
+      senadores.filter((senador) => matchesSenator(senador, params)),
+      params.pagina,
+      params.itens
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Senadores do Senado Federal:\n\n${text}`,
-        },
-      ],
+      title: `${title} (${pageItems.length} de ${total})`,
+      data: pageItems,
     };
   } catch (error) {
     context.logger.error('Failed to list senators', error as Error);
@@ -74,11 +196,14 @@ async function listSenatorsHandler(
 
 export const listSenatorsTool: ToolDefinition = {
   name: 'senadores_listar',
+  title: 'Listar senadores',
   description:
-    'Lista senadores em exercício no Senado Federal. Permite filtrar por nome, partido, UF (estado) e legislatura. Retorna informações básicas como nome completo, nome parlamentar, partido, UF e situação.',
+    'Lista senadores do Senado Federal. Sem legislatura, retorna os senadores em exercício (e os afastados com incluirAfastados). Com legislatura (ou o intervalo legislatura a legislaturaFim), retorna todos que exerceram o mandato no período, com as marcações titular, suplenteEmExercicio e afastado. Permite filtrar por nome, partido e UF.',
   inputSchema: zodToJsonSchema(ListSenatorsSchema),
+  outputSchema: listOutputSchema(SenadorOutputSchema),
   handler: listSenatorsHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -91,7 +216,7 @@ export const listSenatorsTool: ToolDefinition = {
 async function senatorDetailsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     SenatorDetailsSchema,
@@ -108,16 +233,16 @@ async function senatorDetailsHandler(
       {}
     );
 
-    // Format response
-    const text = JSON.stringify(response.data, null, 2);
+    const senator = extractSenadorDetalhado(response.data);
+
+    if (!senator) {
+      throw new Error(`Senador com código ${params.codigo} não encontrado`);
+    }
 
+    // Format response
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Detalhes do Senador:\n\n${text}`,
-        },
-      ],
+      title: 'Detalhes do Senador',
+      data: senator,
     };
   } catch (error) {
     context.logger.error('Failed to get senator details', error as Error);
@@ -127,11 +252,14 @@ async function senatorDetailsHandler(
 
 export const senatorDetailsTool: ToolDefinition = {
   name: 'senador_detalhes',
+  title: 'Detalhes do senador',
   description:
     'Obtém informações detalhadas sobre um senador específico. Inclui dados pessoais, biografia, formação acadêmica, telefones, endereços, e-mails, mandato atual, partido, UF, e outras informações relevantes.',
   inputSchema: zodToJsonSchema(SenatorDetailsSchema),
+  outputSchema: SenadorDetalhadoOutputSchema,
   handler: senatorDetailsHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -144,7 +272,7 @@ export const senatorDetailsTool: ToolDefinition = {
 async function senatorVotingHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     SenatorVotingSchema,
@@ -162,15 +290,9 @@ async function senatorVotingHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Histórico de Votações do Senador:\n\n${text}`,
-        },
-      ],
+      title: 'Histórico de Votações do Senador',
+      data: extractSenatorVotingRecord(response.data, params.codigo),
     };
   } catch (error) {
     context.logger.error('Failed to get senator voting history', error as Error);
@@ -180,11 +302,14 @@ async function senatorVotingHandler(
 
 export const senatorVotingTool: ToolDefinition = {
   name: 'senador_votacoes',
+  title: 'Votações do senador',
   description:
     'Obtém o histórico de votações de um senador específico. Lista todas as votações em que o senador participou, incluindo a matéria votada, data, resultado da votação, e o voto do senador. Permite filtrar por período.',
   inputSchema: zodToJsonSchema(SenatorVotingSchema),
+  outputSchema: SenatorVotingRecordOutputSchema,
   handler: senatorVotingHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -197,7 +322,7 @@ export const senatorVotingTool: ToolDefinition = {
 async function senatorAuthorshipsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     SenatorAuthorshipsSchema,
@@ -215,15 +340,9 @@ async function senatorAuthorshipsHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Matérias de Autoria do Senador:\n\n${text}`,
-        },
-      ],
+      title: 'Matérias de Autoria do Senador',
+      data: extractMateriasAutoria(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator authorships', error as Error);
@@ -233,11 +352,14 @@ async function senatorAuthorshipsHandler(
 
 export const senatorAuthorshipsTool: ToolDefinition = {
   name: 'senador_autorias',
+  title: 'Autorias do senador',
   description:
     'Lista todas as matérias legislativas (projetos de lei, emendas, requerimentos, etc.) de autoria de um senador específico. Permite filtrar por tipo de matéria e período. Útil para analisar a produção legislativa do senador.',
   inputSchema: zodToJsonSchema(SenatorAuthorshipsSchema),
+  outputSchema: listOutputSchema(MateriaOutputSchema),
   handler: senatorAuthorshipsHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -250,7 +372,7 @@ export const senatorAuthorshipsTool: ToolDefinition = {
 async function senatorCommitteesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     SenatorCommitteesSchema,
@@ -268,15 +390,9 @@ async function senatorCommitteesHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Participação em Comissões do Senador:\n\n${text}`,
-        },
-      ],
+      title: 'Participação em Comissões do Senador',
+      data: extractParticipacoesComissao(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator committees', error as Error);
@@ -286,11 +402,14 @@ async function senatorCommitteesHandler(
 
 export const senatorCommitteesTool: ToolDefinition = {
   name: 'senador_comissoes',
+  title: 'Comissões do senador',
   description:
     'Lista todas as comissões das quais um senador é ou foi membro. Inclui informação sobre o cargo ocupado (presidente, vice-presidente, titular, suplente) e o período de participação. Permite filtrar por legislatura.',
   inputSchema: zodToJsonSchema(SenatorCommitteesSchema),
+  outputSchema: listOutputSchema(ParticipacaoComissaoOutputSchema),
   handler: senatorCommitteesHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -300,7 +419,7 @@ export const senatorCommitteesTool: ToolDefinition = {
 async function senatorLeavesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorLeavesSchema, args, 'senador_licencas');
   context.logger.debug('Getting senator leaves', { params });
 
@@ -309,12 +428,9 @@ async function senatorLeavesHandler(
       `/senador/${params.codigo}/licencas`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Licenças e Afastamentos do Senador:\n\n${text}`,
-      }],
+      title: 'Licenças e Afastamentos do Senador',
+      data: extractLicencas(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator leaves', error as Error);
@@ -324,11 +440,14 @@ async function senatorLeavesHandler(
 
 export const senatorLeavesTool: ToolDefinition = {
   name: 'senador_licencas',
+  title: 'Licenças do senador',
   description:
     'Lista todas as licenças e afastamentos de um senador. Inclui tipo de licença (saúde, particular, etc.), período de afastamento, e motivo quando disponível.',
   inputSchema: zodToJsonSchema(SenatorLeavesSchema),
+  outputSchema: listOutputSchema(LicencaOutputSchema),
   handler: senatorLeavesHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -338,7 +457,7 @@ export const senatorLeavesTool: ToolDefinition = {
 async function senatorMandatesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorMandatesSchema, args, 'senador_mandatos');
   context.logger.debug('Getting senator mandates', { params });
 
@@ -347,12 +466,9 @@ async function senatorMandatesHandler(
       `/senador/${params.codigo}/mandatos`,
       {}
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Histórico de Mandatos do Senador:\n\n${text}`,
-      }],
+      title: 'Histórico de Mandatos do Senador',
+      data: extractMandatos(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator mandates', error as Error);
@@ -362,11 +478,14 @@ async function senatorMandatesHandler(
 
 export const senatorMandatesTool: ToolDefinition = {
   name: 'senador_mandatos',
+  title: 'Mandatos do senador',
   description:
     'Obtém o histórico completo de mandatos de um senador. Lista todos os mandatos exercidos, incluindo períodos, UF representada, e suplências.',
   inputSchema: zodToJsonSchema(SenatorMandatesSchema),
+  outputSchema: listOutputSchema(MandatoOutputSchema),
   handler: senatorMandatesHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -376,7 +495,7 @@ export const senatorMandatesTool: ToolDefinition = {
 async function senatorLeadershipHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorLeadershipSchema, args, 'senador_liderancas');
   context.logger.debug('Getting senator leadership positions', { params });
 
@@ -385,12 +504,9 @@ async function senatorLeadershipHandler(
       `/senador/${params.codigo}/liderancas`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Lideranças Exercidas pelo Senador:\n\n${text}`,
-      }],
+      title: 'Lideranças Exercidas pelo Senador',
+      data: extractLiderancas(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator leadership', error as Error);
@@ -400,11 +516,14 @@ async function senatorLeadershipHandler(
 
 export const senatorLeadershipTool: ToolDefinition = {
   name: 'senador_liderancas',
+  title: 'Lideranças do senador',
   description:
     'Lista todas as posições de liderança exercidas por um senador. Inclui liderança de partido, de bloco parlamentar, de governo ou de oposição, com períodos de exercício.',
   inputSchema: zodToJsonSchema(SenatorLeadershipSchema),
+  outputSchema: listOutputSchema(LiderancaOutputSchema),
   handler: senatorLeadershipHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -414,7 +533,7 @@ export const senatorLeadershipTool: ToolDefinition = {
 async function senatorPositionsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorPositionsSchema, args, 'senador_cargos');
   context.logger.debug('Getting senator positions', { params });
 
@@ -423,12 +542,9 @@ async function senatorPositionsHandler(
       `/senador/${params.codigo}/cargos`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Cargos e Funções do Senador:\n\n${text}`,
-      }],
+      title: 'Cargos e Funções do Senador',
+      data: extractCargos(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator positions', error as Error);
@@ -438,11 +554,14 @@ async function senatorPositionsHandler(
 
 export const senatorPositionsTool: ToolDefinition = {
   name: 'senador_cargos',
+  title: 'Cargos do senador',
   description:
     'Lista todos os cargos e funções exercidos por um senador no Senado Federal. Inclui cargos na Mesa Diretora, em comissões, e outras funções institucionais.',
   inputSchema: zodToJsonSchema(SenatorPositionsSchema),
+  outputSchema: listOutputSchema(CargoOutputSchema),
   handler: senatorPositionsHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -452,7 +571,7 @@ export const senatorPositionsTool: ToolDefinition = {
 async function senatorRemarksHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorRemarksSchema, args, 'senador_apartes');
   context.logger.debug('Getting senator remarks', { params });
 
@@ -461,12 +580,9 @@ async function senatorRemarksHandler(
       `/senador/${params.codigo}/apartes`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Apartes do Senador:\n\n${text}`,
-      }],
+      title: 'Apartes do Senador',
+      data: extractDiscursos(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator remarks', error as Error);
@@ -476,11 +592,14 @@ async function senatorRemarksHandler(
 
 export const senatorRemarksTool: ToolDefinition = {
   name: 'senador_apartes',
+  title: 'Apartes do senador',
   description:
     'Lista todos os apartes (interrupções e comentários) realizados por um senador durante discursos de outros parlamentares. Permite filtrar por período.',
   inputSchema: zodToJsonSchema(SenatorRemarksSchema),
+  outputSchema: listOutputSchema(DiscursoOutputSchema),
   handler: senatorRemarksHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -490,7 +609,7 @@ export const senatorRemarksTool: ToolDefinition = {
 async function senatorSpeechesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorSpeechesSchema, args, 'senador_discursos');
   context.logger.debug('Getting senator speeches', { params });
 
@@ -499,12 +618,9 @@ async function senatorSpeechesHandler(
       `/senador/${params.codigo}/discursos`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Discursos do Senador:\n\n${text}`,
-      }],
+      title: 'Discursos do Senador',
+      data: extractDiscursos(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator speeches', error as Error);
@@ -514,11 +630,14 @@ async function senatorSpeechesHandler(
 
 export const senatorSpeechesTool: ToolDefinition = {
   name: 'senador_discursos',
+  title: 'Discursos do senador',
   description:
     'Lista todos os discursos proferidos por um senador no plenário do Senado Federal. Inclui data, tipo de sessão, e resumo do discurso. Permite filtrar por período.',
   inputSchema: zodToJsonSchema(SenatorSpeechesSchema),
+  outputSchema: listOutputSchema(DiscursoOutputSchema),
   handler: senatorSpeechesHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -528,7 +647,7 @@ export const senatorSpeechesTool: ToolDefinition = {
 async function senatorRapporteurshipsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorRapporteurshipsSchema, args, 'senador_relatorias');
   context.logger.debug('Getting senator rapporteurships', { params });
 
@@ -537,12 +656,9 @@ async function senatorRapporteurshipsHandler(
       `/senador/${params.codigo}/relatorias`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Relatorias do Senador:\n\n${text}`,
-      }],
+      title: 'Relatorias do Senador',
+      data: extractRelatorias(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator rapporteurships', error as Error);
@@ -552,11 +668,14 @@ async function senatorRapporteurshipsHandler(
 
 export const senatorRapporteurshipsTool: ToolDefinition = {
   name: 'senador_relatorias',
+  title: 'Relatorias do senador',
   description:
     'Lista todas as matérias legislativas das quais o senador foi relator. Inclui informações sobre a matéria, comissão, e status do parecer.',
   inputSchema: zodToJsonSchema(SenatorRapporteurshipsSchema),
+  outputSchema: listOutputSchema(RelatoriaOutputSchema),
   handler: senatorRapporteurshipsHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -566,7 +685,7 @@ export const senatorRapporteurshipsTool: ToolDefinition = {
 async function senatorAffiliationsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(SenatorAffiliationsSchema, args, 'senador_filiacoes');
   context.logger.debug('Getting senator party affiliations', { params });
 
@@ -575,12 +694,9 @@ async function senatorAffiliationsHandler(
       `/senador/${params.codigo}/filiacoes`,
       {}
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{
-        type: 'text',
-        text: `Histórico de Filiações Partidárias do Senador:\n\n${text}`,
-      }],
+      title: 'Histórico de Filiações Partidárias do Senador',
+      data: extractFiliacoes(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get senator affiliations', error as Error);
@@ -590,11 +706,294 @@ async function senatorAffiliationsHandler(
 
 export const senatorAffiliationsTool: ToolDefinition = {
   name: 'senador_filiacoes',
+  title: 'Filiações partidárias do senador',
   description:
     'Obtém o histórico completo de filiações partidárias de um senador. Lista todos os partidos pelos quais o senador passou, com datas de filiação e desfiliação.',
   inputSchema: zodToJsonSchema(SenatorAffiliationsSchema),
+  outputSchema: listOutputSchema(FiliacaoOutputSchema),
   handler: senatorAffiliationsHandler,
   category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
+};
+
+// ============================================================================
+// Senator Party Alignment Tool
+// ============================================================================
+
+/**
+ * Senator vote on a single voting session, from the Votacao/Voto mappers
+ */
+interface SenatorVote {
+  codigoVotacao: number;
+  data?: string;
+  descricao?: string;
+  materia?: string;
+  tipoMateria: string;
+  partido?: string;
+  voto: NormalizedVote;
+  votoOriginal?: string;
+}
+
+/**
+ * Orientation that applied to a vote and the bench (party or bloc) that gave it
+ */
+interface AppliedOrientation {
+  bancada: string;
+  orientacao: NormalizedVote;
+}
+
+/**
+ * Vote values that can be compared against a party orientation
+ */
+const COMPARABLE_VOTES: NormalizedVote[] = ['SIM', 'NAO', 'ABSTENCAO', 'OBSTRUCAO'];
+
+function toSenatorVote({ votacao, voto }: SenatorVotingRecord['votos'][number]): SenatorVote {
+  const materia = votacao.materia?.identificacao;
+  return {
+    codigoVotacao: votacao.codigo,
+    data: votacao.data,
+    descricao: votacao.descricao,
+    materia,
+    tipoMateria: materia?.split(' ')[0]?.toUpperCase() || 'OUTROS',
+    partido: voto.partido,
+    voto: voto.voto,
+    votoOriginal: voto.votoOriginal,
+  };
+}
+
+const isWithinRange = (date: string | undefined, dataInicio?: string, dataFim?: string): boolean => {
+  if (!date) {
+    return true;
+  }
+
+  const day = date.slice(0, 10);
+  return (!dataInicio || day >= dataInicio) && (!dataFim || day <= dataFim);
+};
+
+const toPercentage = (part: number, total: number): number =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+
+/**
+ * Bench names a bloc may be listed under in the orientations of a votação
+ */
+function blocBenchNames(bloc: Bloco): string[] {
+  return [bloc.apelido, bloc.nome]
+    .filter((name): name is string => Boolean(name))
+    .map((name) => name.toUpperCase());
+}
+
+/**
+ * Orientation of the party, or of a bloc the party was part of on the day of the vote
+ *
+ * Blocs are only looked up (once) when the party itself is not among the benches.
+ */
+async function findOrientation(
+  orientations: VotingOrientation[],
+  partido: string,
+  date: string | undefined,
+  loadBlocs: () => Promise<Bloco[]>
+): Promise<AppliedOrientation | undefined> {
+  const own = orientations.find((orientation) => orientation.sigla === partido);
+  if (own) {
+    // A party that freed its bench ("Liberado") still gave the orientation for the vote
+    return COMPARABLE_VOTES.includes(own.orientacao) ? { bancada: partido, orientacao: own.orientacao } : undefined;
+  }
+
+  const benches = new Map(orientations.map((orientation) => [orientation.sigla, orientation.orientacao]));
+  if (!Array.from(benches.values()).some((orientacao) => COMPARABLE_VOTES.includes(orientacao))) {
+    return undefined;
+  }
+
+  for (const bloc of await loadBlocs()) {
+    if (
+      !bloc.partidos.some((member) => member.sigla === partido) ||
+      !isWithinRange(date, bloc.dataCriacao, bloc.dataExtincao)
+    ) {
+      continue;
+    }
+
+    for (const bancada of blocBenchNames(bloc)) {
+      const orientacao = benches.get(bancada);
+      if (orientacao && COMPARABLE_VOTES.includes(orientacao)) {
+        return { bancada, orientacao };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compute how often a senator follows the party/bloc orientation
+ */
+async function senatorPartyAlignmentHandler(
+  args: unknown,
+  context: ToolContext
+): Promise<ToolOutput> {
+  const params = validateToolInput(
+    SenatorPartyAlignmentSchema,
+    args,
+    'senador_alinhamento_partido'
+  );
+
+  context.logger.debug('Computing senator party alignment', { params });
+
+  try {
+    await context.rateLimiter?.waitForToken(context.signal);
+    const response = await context.httpClient.get<unknown>(
+      `/senador/${params.codigo}/votacoes`,
+      {
+        dataInicio: params.dataInicio,
+        dataFim: params.dataFim,
+      }
+    );
+
+    const record = extractSenatorVotingRecord(response.data, params.codigo);
+    const partidoFixo = params.partido?.toUpperCase();
+    const partido = partidoFixo ?? record.partido;
+
+    if (!partido) {
+      throw new Error(`Não foi possível identificar o partido do senador ${params.codigo}`);
+    }
+
+    const votes = record.votos.map(toSenatorVote).filter((vote) =>
+      isWithinRange(vote.data, params.dataInicio, params.dataFim)
+    );
+
+    let blocs: Promise<Bloco[]> | undefined;
+    const loadBlocs = (): Promise<Bloco[]> => {
+      blocs ??= (async () => {
+        await context.rateLimiter?.waitForToken(context.signal);
+        try {
+          const blocsResponse = await context.httpClient.get<unknown>(BLOC_LIST_ENDPOINT, {});
+          return extractBlocos(blocsResponse.data);
+        } catch (error) {
+          if (error instanceof RequestCancelledError) {
+            throw error;
+          }
+          context.logger.warn('Failed to get blocs for orientation fallback', {
+            error: (error as Error).message,
+          });
+          return [];
+        }
+      })();
+      return blocs;
+    };
+
+    const dissents: Array<SenatorVote & AppliedOrientation> = [];
+    const byType = new Map<string, { total: number; alinhados: number }>();
+    const toCheck = votes.filter((vote) => COMPARABLE_VOTES.includes(vote.voto)).length;
+    let checked = 0;
+    let considered = 0;
+    let aligned = 0;
+    let withoutOrientation = 0;
+
+    for (const vote of votes) {
+      if (!COMPARABLE_VOTES.includes(vote.voto)) {
+        continue;
+      }
+
+      // The party the senator belonged to on that day, unless the caller fixed one
+      const partidoVoto = partidoFixo ?? vote.partido ?? partido;
+      let orientations: VotingOrientation[] = [];
+      await context.rateLimiter?.waitForToken(context.signal);
+      try {
+        const orientationsResponse = await context.httpClient.get<unknown>(
+          `/votacao/${vote.codigoVotacao}/orientacoes`,
+          {}
+        );
+        orientations = extractVotingOrientations(orientationsResponse.data);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) {
+          throw error;
+        }
+        context.logger.warn('Failed to get orientations for voting session', {
+          codigoVotacao: vote.codigoVotacao,
+          error: (error as Error).message,
+        });
+      }
+
+      context.progress?.({
+        progress: ++checked,
+        total: toCheck,
+        message: `Orientação da votação ${vote.codigoVotacao} consultada`,
+      });
+
+      const applied = await findOrientation(orientations, partidoVoto, vote.data, loadBlocs);
+      if (!applied) {
+        withoutOrientation++;
+        continue;
+      }
+
+      const isAligned = applied.orientacao === vote.voto;
+      const typeStats = byType.get(vote.tipoMateria) ?? { total: 0, alinhados: 0 };
+      typeStats.total++;
+      considered++;
+
+      if (isAligned) {
+        typeStats.alinhados++;
+        aligned++;
+      } else {
+        dissents.push({ ...vote, ...applied, partido: partidoVoto });
+      }
+
+      byType.set(vote.tipoMateria, typeStats);
+    }
+
+    const { pageItems } = paginateItems(dissents, params.pagina, params.itens);
+
+    const summary = {
+      codigo: params.codigo,
+      partido,
+      periodo: {
+        dataInicio: params.dataInicio ?? null,
+        dataFim: params.dataFim ?? null,
+      },
+      totalVotacoes: votes.length,
+      votacoesComparadas: considered,
+      votacoesSemOrientacao: withoutOrientation,
+      votosAlinhados: aligned,
+      percentualAlinhamento: toPercentage(aligned, considered),
+      porTipoMateria: Array.from(byType.entries())
+        .map(([tipo, stats]) => ({
+          tipo,
+          total: stats.total,
+          alinhados: stats.alinhados,
+          percentualAlinhamento: toPercentage(stats.alinhados, stats.total),
+        }))
+        .sort((a, b) => b.total - a.total),
+      totalDivergencias: dissents.length,
+      divergencias: pageItems.map((dissent) => ({
+        codigoVotacao: dissent.codigoVotacao,
+        data: dissent.data,
+        materia: dissent.materia,
+        descricao: dissent.descricao,
+        partido: dissent.partido,
+        voto: dissent.votoOriginal,
+        orientacao: dissent.orientacao,
+        bancada: dissent.bancada,
+      })),
+    };
+
+    return {
+      title: `Alinhamento Partidário do Senador (${summary.percentualAlinhamento}% com ${partido})`,
+      data: summary,
+    };
+  } catch (error) {
+    context.logger.error('Failed to compute senator party alignment', error as Error);
+    throw error;
+  }
+}
+
+export const senatorPartyAlignmentTool: ToolDefinition = {
+  name: 'senador_alinhamento_partido',
+  title: 'Alinhamento partidário do senador',
+  description:
+    'Calcula o índice de alinhamento de um senador com a orientação do seu partido ou bloco. Cruza os votos do senador no período com as orientações de bancada de cada votação, usando o partido do senador na data de cada voto (ou a orientação do bloco quando o partido não orientou), e retorna o percentual de alinhamento, a lista de votos divergentes e o detalhamento por tipo de matéria.',
+  inputSchema: zodToJsonSchema(SenatorPartyAlignmentSchema),
+  handler: senatorPartyAlignmentHandler,
+  category: 'senator',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -615,4 +1014,5 @@ export const senatorTools: ToolDefinition[] = [
   senatorSpeechesTool,
   senatorRapporteurshipsTool,
   senatorAffiliationsTool,
+  senatorPartyAlignmentTool,
 ];
@@ -10,7 +10,8 @@
  * - Get plenary results by month
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import type { ToolDefinition, ToolContext, ToolOutput } from '../types/index.js';
+import { READ_ONLY_TOOL_ANNOTATIONS } from '../core/tools.js';
 import {
   ListSessionsSchema,
   SessionDetailsSchema,
@@ -18,23 +19,36 @@ import {
   SessionSpeechesSchema,
   SpeechDetailsSchema,
   PlenaryResultsByMonthSchema,
+  SessaoOutputSchema,
+  ResultadoSessaoOutputSchema,
+  DiscursoOutputSchema,
+  VotacaoOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
 } from '../core/validation.js';
+import {
+  extractDiscurso,
+  extractDiscursos,
+  extractResultadosPlenario,
+  extractSessao,
+  extractSessoes,
+  extractVotacoes,
+} from '../mappers/index.js';
 
 // ============================================================================
 // List Sessions Tool
 // ============================================================================
 
-async function listSessionsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function listSessionsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(ListSessionsSchema, args, 'sessoes_listar');
   context.logger.debug('Listing plenary sessions', { params });
 
   try {
     const response = await context.httpClient.get<unknown>('/sessao/lista', params as Record<string, unknown>);
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Sessões Plenárias:\n\n${text}` }],
+      title: 'Sessões Plenárias',
+      data: extractSessoes(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to list plenary sessions', error as Error);
@@ -44,26 +58,33 @@ async function listSessionsHandler(args: unknown, context: ToolContext): Promise
 
 export const listSessionsTool: ToolDefinition = {
   name: 'sessoes_listar',
+  title: 'Listar sessões plenárias',
   description:
     'Lista as sessões plenárias do Senado Federal. Permite filtrar por período e tipo de sessão (ordinária, extraordinária, solene, etc.).',
   inputSchema: zodToJsonSchema(ListSessionsSchema),
+  outputSchema: listOutputSchema(SessaoOutputSchema),
   handler: listSessionsHandler,
   category: 'session',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Session Details Tool
 // ============================================================================
 
-async function sessionDetailsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function sessionDetailsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(SessionDetailsSchema, args, 'sessao_detalhes');
   context.logger.debug('Getting session details', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/sessao/${params.codigo}`, {});
-    const text = JSON.stringify(response.data, null, 2);
+    const session = extractSessao(response.data);
+    if (!session) {
+      throw new Error(`Sessão com código ${params.codigo} não encontrada`);
+    }
     return {
-      content: [{ type: 'text', text: `Detalhes da Sessão:\n\n${text}` }],
+      title: 'Detalhes da Sessão',
+      data: session,
     };
   } catch (error) {
     context.logger.error('Failed to get session details', error as Error);
@@ -73,18 +94,21 @@ async function sessionDetailsHandler(args: unknown, context: ToolContext): Promi
 
 export const sessionDetailsTool: ToolDefinition = {
   name: 'sessao_detalhes',
+  title: 'Detalhes da sessão plenária',
   description:
     'Obtém informações detalhadas sobre uma sessão plenária específica. Inclui data, hora, tipo, pauta, e presidência da sessão.',
   inputSchema: zodToJsonSchema(SessionDetailsSchema),
+  outputSchema: SessaoOutputSchema,
   handler: sessionDetailsHandler,
   category: 'session',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Session Votings Tool
 // ============================================================================
 
-async function sessionVotingsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function sessionVotingsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(SessionVotingsSchema, args, 'sessao_votacoes');
   context.logger.debug('Getting session votings', { params });
 
@@ -93,9 +117,9 @@ async function sessionVotingsHandler(args: unknown, context: ToolContext): Promi
       `/sessao/${params.codigo}/votacoes`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Votações da Sessão:\n\n${text}` }],
+      title: 'Votações da Sessão',
+      data: extractVotacoes(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get session votings', error as Error);
@@ -105,18 +129,21 @@ async function sessionVotingsHandler(args: unknown, context: ToolContext): Promi
 
 export const sessionVotingsTool: ToolDefinition = {
   name: 'sessao_votacoes',
+  title: 'Votações da sessão plenária',
   description:
     'Lista todas as votações realizadas em uma sessão plenária específica. Mostra as matérias votadas e os resultados.',
   inputSchema: zodToJsonSchema(SessionVotingsSchema),
+  outputSchema: listOutputSchema(VotacaoOutputSchema),
   handler: sessionVotingsHandler,
   category: 'session',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Session Speeches Tool
 // ============================================================================
 
-async function sessionSpeechesHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function sessionSpeechesHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(SessionSpeechesSchema, args, 'sessao_discursos');
   context.logger.debug('Getting session speeches', { params });
 
@@ -125,9 +152,9 @@ async function sessionSpeechesHandler(args: unknown, context: ToolContext): Prom
       `/sessao/${params.codigo}/discursos`,
       params as Record<string, unknown>
     );
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Discursos da Sessão:\n\n${text}` }],
+      title: 'Discursos da Sessão',
+      data: extractDiscursos(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get session speeches', error as Error);
@@ -137,26 +164,33 @@ async function sessionSpeechesHandler(args: unknown, context: ToolContext): Prom
 
 export const sessionSpeechesTool: ToolDefinition = {
   name: 'sessao_discursos',
+  title: 'Discursos da sessão plenária',
   description:
     'Lista todos os discursos proferidos em uma sessão plenária específica. Inclui informações sobre cada orador e resumo dos discursos.',
   inputSchema: zodToJsonSchema(SessionSpeechesSchema),
+  outputSchema: listOutputSchema(DiscursoOutputSchema),
   handler: sessionSpeechesHandler,
   category: 'session',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Speech Details Tool
 // ============================================================================
 
-async function speechDetailsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function speechDetailsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(SpeechDetailsSchema, args, 'discurso_detalhes');
   context.logger.debug('Getting speech details', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/discurso/${params.codigo}`, {});
-    const text = JSON.stringify(response.data, null, 2);
+    const speech = extractDiscurso(response.data);
+    if (!speech) {
+      throw new Error(`Discurso com código ${params.codigo} não encontrado`);
+    }
     return {
-      content: [{ type: 'text', text: `Detalhes do Discurso:\n\n${text}` }],
+      title: 'Detalhes do Discurso',
+      data: speech,
     };
   } catch (error) {
     context.logger.error('Failed to get speech details', error as Error);
@@ -166,26 +200,29 @@ async function speechDetailsHandler(args: unknown, context: ToolContext): Promis
 
 export const speechDetailsTool: ToolDefinition = {
   name: 'discurso_detalhes',
+  title: 'Detalhes do discurso',
   description:
     'Obtém informações detalhadas sobre um discurso específico. Inclui texto completo ou resumo, orador, data, sessão, e indexação temática.',
   inputSchema: zodToJsonSchema(SpeechDetailsSchema),
+  outputSchema: DiscursoOutputSchema,
   handler: speechDetailsHandler,
   category: 'session',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Plenary Results By Month Tool
 // ============================================================================
 
-async function plenaryResultsByMonthHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function plenaryResultsByMonthHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(PlenaryResultsByMonthSchema, args, 'plenario_resultados_mes');
   context.logger.debug('Getting plenary results by month', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/plenario/resultado/mes/${params.data}`, {});
-    const text = JSON.stringify(response.data, null, 2);
     return {
-      content: [{ type: 'text', text: `Resultados do Plenário:\n\n${text}` }],
+      title: 'Resultados do Plenário',
+      data: extractResultadosPlenario(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get plenary results by month', error as Error);
@@ -195,11 +232,14 @@ async function plenaryResultsByMonthHandler(args: unknown, context: ToolContext)
 
 export const plenaryResultsByMonthTool: ToolDefinition = {
   name: 'plenario_resultados_mes',
+  title: 'Resultados do plenário no mês',
   description:
     'Obtém um resumo dos resultados e atividades do plenário do Senado em um mês específico. Formato da data: YYYYMMDD.',
   inputSchema: zodToJsonSchema(PlenaryResultsByMonthSchema),
+  outputSchema: listOutputSchema(ResultadoSessaoOutputSchema),
   handler: plenaryResultsByMonthHandler,
   category: 'session',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -6,18 +6,35 @@
  * - Get voting details
  * - Get individual votes
  * - Get party orientations
+ * - Compute pairwise voting similarity
  */
 
-import type { ToolDefinition, ToolContext, ToolResult } from '../types/index.js';
+import type { ToolDefinition, ToolContext, ToolOutput, NormalizedVote } from '../types/index.js';
+import { READ_ONLY_TOOL_ANNOTATIONS } from '../core/tools.js';
+import { RequestCancelledError, ValidationError } from '../core/errors.js';
 import {
   ListVotingsSchema,
   VotingDetailsSchema,
   VotingVotesSchema,
   VotingOrientationsSchema,
   VotingStatisticsSchema,
+  VotingSimilaritySchema,
+  VotacaoOutputSchema,
+  EstatisticaVotacaoOutputSchema,
+  VotingOrientationOutputSchema,
+  VotoOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
 } from '../core/validation.js';
+import {
+  extractVotacao,
+  extractEstatisticaVotacao,
+  extractVotacoes,
+  extractVotingOrientations,
+  extractVotos,
+  paginateItems,
+} from '../mappers/index.js';
 
 // ============================================================================
 // List Voting Sessions Tool
@@ -26,63 +43,10 @@ import {
 /**
  * List voting sessions by date
  */
-type VotingSession = Record<string, unknown>;
-
-const asRecord = (value: unknown): Record<string, unknown> | undefined =>
-  typeof value === 'object' && value !== null ? value as Record<string, unknown> : undefined;
-
-function normalizeArray<T>(value: unknown): T[] {
-  if (!value) {
-    return [];
-  }
-
-  if (Array.isArray(value)) {
-    return value as T[];
-  }
-
-  return [value as T];
-}
-
-function getVotingSessions(data: unknown): VotingSession[] {
-  if (!data) {
-    return [];
-  }
-
-  if (Array.isArray(data)) {
-    return data as VotingSession[];
-  }
-
-  const root = asRecord(data);
-
-  if (root) {
-    const topLevel = root['sessoesVotacao'];
-
-    if (Array.isArray(topLevel)) {
-      return topLevel as VotingSession[];
-    }
-
-    const nested = asRecord(topLevel);
-    if (nested) {
-      if (Array.isArray(nested['sessaoVotacao'])) {
-        return nested['sessaoVotacao'] as VotingSession[];
-      }
-      if (nested['sessaoVotacao']) {
-        return [nested['sessaoVotacao'] as VotingSession];
-      }
-    }
-
-    if (root['sessaoVotacao']) {
-      return normalizeArray<VotingSession>(root['sessaoVotacao']);
-    }
-  }
-
-  return normalizeArray<VotingSession>(data);
-}
-
 async function listVotingsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   const params = validateToolInput(
     ListVotingsSchema,
     args,
@@ -104,26 +68,16 @@ async function listVotingsHandler(
       query
     );
 
-    const sessions = getVotingSessions(response.data);
-    const totalSessions = sessions.length;
-    const page = Math.max(params.pagina ?? 1, 1);
-    const defaultPageSize = totalSessions > 0 ? totalSessions : 1;
-    const pageSize = Math.max(params.itens ?? defaultPageSize, 1);
-    const startIndex = (page - 1) * pageSize;
-    const paginatedSessions = sessions.slice(
-      startIndex,
-      startIndex + pageSize
+    const sessions = extractVotacoes(response.data);
+    const { pageItems, total } = paginateItems(
+      sessions,
+      params.pagina,
+      params.itens
     );
 
-    const text = JSON.stringify(paginatedSessions, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Votações do Senado Federal (${paginatedSessions.length} de ${totalSessions}):\n\n${text}`,
-        },
-      ],
+      title: `Votações do Senado Federal (${pageItems.length} de ${total})`,
+      data: pageItems,
     };
   } catch (error) {
     context.logger.error('Failed to list voting sessions', error as Error);
@@ -133,11 +87,14 @@ async function listVotingsHandler(
 
 export const listVotingsTool: ToolDefinition = {
   name: 'votacoes_listar',
+  title: 'Listar votações',
   description:
     'Lista todas as votações realizadas no Senado Federal em uma data específica. Retorna informações sobre cada votação, incluindo a matéria votada, resultado, e tipo de votação.',
   inputSchema: zodToJsonSchema(ListVotingsSchema),
+  outputSchema: listOutputSchema(VotacaoOutputSchema),
   handler: listVotingsHandler,
   category: 'voting',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -150,7 +107,7 @@ export const listVotingsTool: ToolDefinition = {
 async function votingDetailsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     VotingDetailsSchema,
@@ -167,16 +124,16 @@ async function votingDetailsHandler(
       {}
     );
 
-    // Format response
-    const text = JSON.stringify(response.data, null, 2);
+    const voting = extractVotacao(response.data);
+
+    if (!voting) {
+      throw new Error(`Votação com código ${params.codigo} não encontrada`);
+    }
 
+    // Format response
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Detalhes da Votação:\n\n${text}`,
-        },
-      ],
+      title: 'Detalhes da Votação',
+      data: voting,
     };
   } catch (error) {
     context.logger.error('Failed to get voting details', error as Error);
@@ -186,11 +143,14 @@ async function votingDetailsHandler(
 
 export const votingDetailsTool: ToolDefinition = {
   name: 'votacao_detalhes',
+  title: 'Detalhes da votação',
   description:
     'Obtém informações detalhadas sobre uma votação específica. Inclui matéria votada, data e hora, tipo de votação, resultado, placar (votos sim, não, abstenções), e sessão na qual ocorreu.',
   inputSchema: zodToJsonSchema(VotingDetailsSchema),
+  outputSchema: VotacaoOutputSchema,
   handler: votingDetailsHandler,
   category: 'voting',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -203,7 +163,7 @@ export const votingDetailsTool: ToolDefinition = {
 async function votingVotesHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     VotingVotesSchema,
@@ -221,15 +181,9 @@ async function votingVotesHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Votos Individuais da Votação:\n\n${text}`,
-        },
-      ],
+      title: 'Votos Individuais da Votação',
+      data: extractVotos(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get individual votes', error as Error);
@@ -239,11 +193,14 @@ async function votingVotesHandler(
 
 export const votingVotesTool: ToolDefinition = {
   name: 'votacao_votos',
+  title: 'Votos da votação',
   description:
     'Lista todos os votos individuais de uma votação específica. Mostra como cada senador votou (sim, não, abstenção, obstrução, etc.), permitindo análise detalhada do comportamento parlamentar.',
   inputSchema: zodToJsonSchema(VotingVotesSchema),
+  outputSchema: listOutputSchema(VotoOutputSchema),
   handler: votingVotesHandler,
   category: 'voting',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -256,7 +213,7 @@ export const votingVotesTool: ToolDefinition = {
 async function votingOrientationsHandler(
   args: unknown,
   context: ToolContext
-): Promise<ToolResult> {
+): Promise<ToolOutput> {
   // Validate input
   const params = validateToolInput(
     VotingOrientationsSchema,
@@ -274,15 +231,9 @@ async function votingOrientationsHandler(
     );
 
     // Format response
-    const text = JSON.stringify(response.data, null, 2);
-
     return {
-      content: [
-        {
-          type: 'text',
-          text: `Orientações Partidárias da Votação:\n\n${text}`,
-        },
-      ],
+      title: 'Orientações Partidárias da Votação',
+      data: extractVotingOrientations(response.data),
     };
   } catch (error) {
     context.logger.error('Failed to get party orientations', error as Error);
@@ -292,26 +243,33 @@ async function votingOrientationsHandler(
 
 export const votingOrientationsTool: ToolDefinition = {
   name: 'votacao_orientacoes',
+  title: 'Orientações de bancada da votação',
   description:
     'Obtém as orientações de voto de cada bancada partidária em uma votação específica. Mostra como cada partido orientou seus senadores a votarem, permitindo análise de coesão partidária e alinhamentos políticos.',
   inputSchema: zodToJsonSchema(VotingOrientationsSchema),
+  outputSchema: listOutputSchema(VotingOrientationOutputSchema),
   handler: votingOrientationsHandler,
   category: 'voting',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
 // Voting Statistics Tool
 // ============================================================================
 
-async function votingStatisticsHandler(args: unknown, context: ToolContext): Promise<ToolResult> {
+async function votingStatisticsHandler(args: unknown, context: ToolContext): Promise<ToolOutput> {
   const params = validateToolInput(VotingStatisticsSchema, args, 'votacao_estatisticas');
   context.logger.debug('Getting voting statistics', { params });
 
   try {
     const response = await context.httpClient.get<unknown>(`/votacao/${params.codigo}/estatisticas`, {});
-    const text = JSON.stringify(response.data, null, 2);
+    const statistics = extractEstatisticaVotacao(response.data);
+    if (!statistics) {
+      throw new Error(`Estatísticas da votação ${params.codigo} não encontradas`);
+    }
     return {
-      content: [{ type: 'text', text: `Estatísticas da Votação:\n\n${text}` }],
+      title: 'Estatísticas da Votação',
+      data: statistics,
     };
   } catch (error) {
     context.logger.error('Failed to get voting statistics', error as Error);
@@ -321,11 +279,254 @@ async function votingStatisticsHandler(args: unknown, context: ToolContext): Pro
 
 export const votingStatisticsTool: ToolDefinition = {
   name: 'votacao_estatisticas',
+  title: 'Estatísticas de votações',
   description:
     'Obtém estatísticas detalhadas de uma votação. Inclui análises por partido, UF, gênero, e outras métricas estatísticas sobre o comportamento dos senadores na votação.',
   inputSchema: zodToJsonSchema(VotingStatisticsSchema),
+  outputSchema: EstatisticaVotacaoOutputSchema,
   handler: votingStatisticsHandler,
   category: 'voting',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
+};
+
+// ============================================================================
+// Voting Similarity Tool
+// ============================================================================
+
+const DEFAULT_SIMILARITY_LIMIT = 50;
+const DEFAULT_MINIMUM_COMMON_VOTES = 3;
+const DEFAULT_BLOC_THRESHOLD = 0.8;
+const SIMILARITY_COMPARABLE_VOTES: NormalizedVote[] = ['SIM', 'NAO', 'ABSTENCAO', 'OBSTRUCAO'];
+const TOP_PAIRS = 5;
+
+interface SenatorSummary {
+  codigo: number;
+  nome?: string;
+  partido?: string;
+}
+
+interface SimilarityPair {
+  senadorA: number;
+  senadorB: number;
+  concordancia: number;
+  votacoesComuns: number;
+}
+
+const roundRatio = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Group senators with average-linkage agglomerative clustering
+ */
+function clusterSenators(matrix: Array<Array<number | null>>, threshold: number): number[][] {
+  let clusters = matrix.map((_, index) => [index]);
+
+  const averageSimilarity = (a: number[], b: number[]): number | null => {
+    let sum = 0;
+    let count = 0;
+    for (const i of a) {
+      for (const j of b) {
+        const value = matrix[i]?.[j];
+        if (value !== null && value !== undefined) {
+          sum += value;
+          count++;
+        }
+      }
+    }
+    return count > 0 ? sum / count : null;
+  };
+
+  for (;;) {
+    let best: { a: number; b: number; similarity: number } | undefined;
+
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const similarity = averageSimilarity(clusters[a]!, clusters[b]!);
+        if (similarity !== null && similarity >= threshold && (!best || similarity > best.similarity)) {
+          best = { a, b, similarity };
+        }
+      }
+    }
+
+    if (!best) {
+      return clusters;
+    }
+
+    const merged = [...clusters[best.a]!, ...clusters[best.b]!];
+    clusters = clusters.filter((_, index) => index !== best!.a && index !== best!.b);
+    clusters.push(merged);
+  }
+}
+
+/**
+ * Build an N×N agreement matrix between senators across nominal votações
+ */
+async function votingSimilarityHandler(
+  args: unknown,
+  context: ToolContext
+): Promise<ToolOutput> {
+  const params = validateToolInput(
+    VotingSimilaritySchema,
+    args,
+    'votacoes_similaridade'
+  );
+
+  if (!params.votacoes && !params.dataInicio) {
+    throw new ValidationError(
+      'Invalid input for votacoes_similaridade: informe "votacoes" ou "dataInicio"',
+      'votacoes',
+      args
+    );
+  }
+
+  context.logger.debug('Computing voting similarity matrix', { params });
+
+  try {
+    const limit = params.limite ?? DEFAULT_SIMILARITY_LIMIT;
+    let codes = params.votacoes ?? [];
+
+    if (codes.length === 0) {
+      await context.rateLimiter?.waitForToken(context.signal);
+      const response = await context.httpClient.get<unknown>('/votacao', {
+        dataInicio: params.dataInicio,
+        dataFim: params.dataFim ?? params.dataInicio,
+      });
+
+      // Chronological order, so the same period always selects the same votações
+      codes = extractVotacoes(response.data)
+        .sort((a, b) => (a.data ?? '').localeCompare(b.data ?? '') || a.codigo - b.codigo)
+        .map((votacao) => votacao.codigo);
+    }
+
+    const foundCodes = Array.from(new Set(codes));
+    const selectedCodes = foundCodes.slice(0, limit);
+    const senators = new Map<number, SenatorSummary>();
+    const ballotsByVoting: Array<Map<number, NormalizedVote>> = [];
+
+    for (const [index, codigo] of selectedCodes.entries()) {
+      await context.rateLimiter?.waitForToken(context.signal);
+
+      try {
+        const response = await context.httpClient.get<unknown>(
+          `/votacao/${codigo}/votos`,
+          {}
+        );
+
+        const ballots = new Map<number, NormalizedVote>();
+        for (const ballot of extractVotos(response.data)) {
+          senators.set(ballot.codigoParlamentar, {
+            codigo: ballot.codigoParlamentar,
+            nome: ballot.nomeParlamentar ?? senators.get(ballot.codigoParlamentar)?.nome,
+            partido: ballot.partido ?? senators.get(ballot.codigoParlamentar)?.partido,
+          });
+
+          if (SIMILARITY_COMPARABLE_VOTES.includes(ballot.voto)) {
+            ballots.set(ballot.codigoParlamentar, ballot.voto);
+          }
+        }
+
+        ballotsByVoting.push(ballots);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) {
+          throw error;
+        }
+        context.logger.warn('Failed to get votes for voting session', {
+          codigoVotacao: codigo,
+          error: (error as Error).message,
+        });
+      }
+
+      context.logger.debug('Voting similarity progress', {
+        step: index + 1,
+        total: selectedCodes.length,
+      });
+      context.progress?.({
+        progress: index + 1,
+        total: selectedCodes.length,
+        message: `Votação ${codigo} processada`,
+      });
+    }
+
+    const senatorList = Array.from(senators.values()).sort((a, b) => a.codigo - b.codigo);
+    const minimumCommon = params.minimoVotacoesComuns ?? DEFAULT_MINIMUM_COMMON_VOTES;
+    const matrix: Array<Array<number | null>> = senatorList.map(() =>
+      senatorList.map(() => null)
+    );
+    const pairs: SimilarityPair[] = [];
+
+    for (let i = 0; i < senatorList.length; i++) {
+      matrix[i]![i] = 1;
+
+      for (let j = i + 1; j < senatorList.length; j++) {
+        const a = senatorList[i]!.codigo;
+        const b = senatorList[j]!.codigo;
+        let common = 0;
+        let agreements = 0;
+
+        for (const ballots of ballotsByVoting) {
+          const voteA = ballots.get(a);
+          const voteB = ballots.get(b);
+          if (voteA && voteB) {
+            common++;
+            if (voteA === voteB) {
+              agreements++;
+            }
+          }
+        }
+
+        if (common >= minimumCommon) {
+          const concordancia = roundRatio(agreements / common);
+          matrix[i]![j] = concordancia;
+          matrix[j]![i] = concordancia;
+          pairs.push({ senadorA: a, senadorB: b, concordancia, votacoesComuns: common });
+        }
+      }
+    }
+
+    const byAgreement = [...pairs].sort(
+      (x, y) => y.concordancia - x.concordancia || y.votacoesComuns - x.votacoesComuns
+    );
+    // Least similar pairs come from those not already ranked as most similar
+    const mostSimilar = byAgreement.slice(0, TOP_PAIRS);
+    const leastSimilar = byAgreement.slice(mostSimilar.length).slice(-TOP_PAIRS).reverse();
+    const clusters = clusterSenators(matrix, params.limiarBloco ?? DEFAULT_BLOC_THRESHOLD)
+      .map((cluster) => cluster.map((index) => senatorList[index]!))
+      .sort((a, b) => b.length - a.length);
+
+    const summary = {
+      votacoesEncontradas: foundCodes.length,
+      votacoesSolicitadas: selectedCodes.length,
+      votacoesAnalisadas: ballotsByVoting.length,
+      votacoesForaDoLimite: foundCodes.length - selectedCodes.length,
+      senadores: senatorList,
+      matriz: matrix,
+      paresMaisSimilares: mostSimilar,
+      paresMenosSimilares: leastSimilar,
+      blocos: clusters.map((members, index) => ({
+        bloco: index + 1,
+        tamanho: members.length,
+        senadores: members,
+      })),
+    };
+
+    return {
+      title: `Similaridade de Votos entre Senadores (${senatorList.length} senadores, ${ballotsByVoting.length} de ${foundCodes.length} votações)`,
+      data: summary,
+    };
+  } catch (error) {
+    context.logger.error('Failed to compute voting similarity', error as Error);
+    throw error;
+  }
+}
+
+export const votingSimilarityTool: ToolDefinition = {
+  name: 'votacoes_similaridade',
+  title: 'Similaridade de votos entre senadores',
+  description:
+    'Calcula a matriz de similaridade de votos entre todos os pares de senadores em um conjunto de votações nominais (por período ou códigos de votação). No período, as votações são analisadas em ordem cronológica até o limite, e o resultado informa quantas foram encontradas e quantas foram analisadas. Retorna a matriz N×N de concordância, os pares mais e menos similares e o agrupamento dos senadores em blocos de votação.',
+  inputSchema: zodToJsonSchema(VotingSimilaritySchema),
+  handler: votingSimilarityHandler,
+  category: 'voting',
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
 };
 
 // ============================================================================
@@ -338,4 +539,5 @@ export const votingTools: ToolDefinition[] = [
   votingVotesTool,
   votingOrientationsTool,
   votingStatisticsTool,
+  votingSimilarityTool,
 ];
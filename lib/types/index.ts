@@ -2,6 +2,8 @@
  * Shared types for MCP Senado Federal
  */
 
+import type { ZodTypeAny } from 'zod';
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -25,10 +27,23 @@ export interface ApiError {
 
 export interface ToolDefinition {
   name: string;
+  title?: string; // Human-readable name shown by clients
   description: string;
   inputSchema: Record<string, unknown>; // JSON Schema
-  handler: (args: unknown, context: ToolContext) => Promise<ToolResult>;
+  handler: (args: unknown, context: ToolContext) => Promise<ToolResult | ToolOutput>;
   category: string;
+  outputSchema?: ZodTypeAny; // Validates structuredContent, advertised as JSON Schema
+  annotations?: ToolAnnotations;
+}
+
+/**
+ * Hints on tool behavior, used by clients to decide on auto-approval
+ */
+export interface ToolAnnotations {
+  readOnlyHint?: boolean; // Does not modify its environment
+  destructiveHint?: boolean; // May perform destructive updates (when not read-only)
+  idempotentHint?: boolean; // Repeated calls with the same arguments have no additional effect
+  openWorldHint?: boolean; // Interacts with external entities (the Senado API)
 }
 
 export interface ToolContext {
@@ -36,20 +51,188 @@ export interface ToolContext {
   cache: CacheInterface;
   config: MCPServerConfig;
   logger: Logger;
+  rateLimiter?: RateLimiter; // Throttles upstream calls made by aggregation tools
+  signal?: AbortSignal; // Aborted when the client cancels the request or disconnects
+  progress?: ProgressReporter; // Set when the caller asked for progress (progressToken)
+  scopes?: string[]; // Tool categories or names the caller may run (all when absent)
+  sessionId?: string; // Client session served; its log entries are forwarded to that session only
+}
+
+/**
+ * Middleware of the tool invocation pipeline, outermost first
+ */
+export const TOOL_MIDDLEWARE_NAMES = [
+  'logging',
+  'metrics',
+  'validation',
+  'scope',
+  'rateLimit',
+  'cache',
+  'circuitBreaker',
+] as const;
+
+export type ToolMiddlewareName = (typeof TOOL_MIDDLEWARE_NAMES)[number];
+
+/**
+ * One tool invocation, as seen by the metrics middleware
+ */
+export interface ToolMetric {
+  tool: string;
+  category: string;
+  duration: number; // Milliseconds
+  outcome: 'success' | 'error' | 'cancelled';
+  cached?: boolean; // Undefined when the cache was not consulted
+}
+
+export type ToolMetricsRecorder = (metric: ToolMetric) => void;
+
+/**
+ * Progress of a long-running tool, sent to the client as notifications/progress
+ */
+export interface ProgressUpdate {
+  progress: number; // Steps done so far; increases with every update
+  total?: number;
+  message?: string;
 }
 
+export type ProgressReporter = (update: ProgressUpdate) => void;
+
 export interface ToolResult {
   content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
+/**
+ * Structured handler result, rendered by the ToolRegistry output layer
+ */
+export interface ToolOutput {
+  title: string;
+  data: unknown;
+}
+
+export type OutputFormat = 'resumo' | 'completo' | 'markdown' | 'json';
+
+export interface OutputOptions {
+  formato: OutputFormat;
+  maxCaracteres: number;
+  continuarDe: number; // Item index, for lists paged by item
+  continuarDoCaractere: number; // Character offset, when the text is cut by characters
+}
+
+// ============================================================================
+// MCP Prompt Types
+// ============================================================================
+
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// Results sent to the client are type aliases, not interfaces, so they are
+// assignable to the SDK result types (GetPromptResult, ReadResourceResult, CompleteResult)
+
+export type PromptMessage = {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+};
+
+export type PromptResult = {
+  description?: string;
+  messages: PromptMessage[];
+};
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  handler: (args: unknown) => Promise<PromptResult>;
+  category: string;
+}
+
+// ============================================================================
+// MCP Resource Types
+// ============================================================================
+
+/**
+ * Runs a tool through the server pipeline (rate limiting, cache, output layer)
+ */
+export type ToolExecutor = (name: string, args: Record<string, unknown>) => Promise<ToolResult>;
+
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: (params: Record<string, string>, execute: ToolExecutor) => Promise<ToolResult>;
+}
+
+export interface ResourceTemplateDefinition {
+  uriTemplate: string; // RFC 6570 level 1, e.g. senado://senador/{codigo}
+  name: string;
+  description: string;
+  mimeType: string;
+  read: (params: Record<string, string>, execute: ToolExecutor) => Promise<ToolResult>;
+}
+
+export type ResourceContents = {
+  uri: string;
+  mimeType: string;
+  text: string;
+};
+
+export type ResourceReadResult = {
+  contents: ResourceContents[];
+};
+
+// ============================================================================
+// MCP Completion Types
+// ============================================================================
+
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+export interface CompletionCandidate {
+  value: string;
+  label?: string; // Also matched against the typed text (e.g. the full name of a UF)
+}
+
+export interface CompletionSource {
+  argument: string;
+  refs?: string[]; // Prompt names or resource URI templates; replaces the generic sources for them
+  multiple?: boolean; // Comma-separated argument: completes the last item
+  load: (execute: ToolExecutor) => Promise<CompletionCandidate[]>;
+}
+
+export type CompletionResult = {
+  completion: {
+    values: string[];
+    total: number;
+    hasMore: boolean;
+  };
+};
+
 // ============================================================================
 // HTTP Client Interface
 // ============================================================================
 
 export interface HttpClient {
-  get<T>(endpoint: string, params?: Record<string, unknown>): Promise<ApiResponse<T>>;
-  post<T>(endpoint: string, data?: unknown): Promise<ApiResponse<T>>;
+  get<T>(endpoint: string, params?: Record<string, unknown>, options?: HttpRequestOptions): Promise<ApiResponse<T>>;
+  post<T>(endpoint: string, data?: unknown, options?: HttpRequestOptions): Promise<ApiResponse<T>>;
+  getStats?(): HttpClientStats;
+}
+
+export interface HttpClientStats {
+  requests: number; // GET calls, coalesced or not
+  coalesced: number; // GET calls served by an identical in-flight request
+  inFlight: number; // Distinct GET requests in flight
+  revalidated: number; // Stale responses confirmed by a 304 Not Modified
+}
+
+export interface HttpRequestOptions {
+  signal?: AbortSignal; // Stops the request and its retries
 }
 
 export interface HttpClientConfig {
@@ -57,16 +240,54 @@ export interface HttpClientConfig {
   timeout: number;
   maxRetries: number;
   retryDelay: number;
+  fetch?: typeof fetch; // Sends the requests (global fetch by default; see createFixtureFetch)
+  coalesce?: boolean; // Share one request among concurrent identical GETs (default: true)
+  cache?: CacheInterface; // Keeps responses with ETag/Last-Modified for conditional revalidation (not the tool cache)
+  format?: ResponseFormat; // Format asked from upstream (default: xml)
+  endpointFormats?: Record<string, ResponseFormat>; // Per endpoint prefix, e.g. { 'senador/lista': 'json' }
 }
 
+/**
+ * Formats the Senado API answers in; both parse to the same normalized tree
+ */
+export const RESPONSE_FORMATS = ['xml', 'json'] as const;
+
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+/**
+ * Turns an upstream response body into the normalized tree tools map from
+ */
+export interface ResponseParser {
+  readonly format: ResponseFormat;
+  readonly accept: string; // Accept header asking upstream for this format
+  matches(contentType: string, text: string): boolean;
+  parse<T>(text: string): T; // Throws ResponseParseError on malformed bodies
+}
+
+/**
+ * Where Senado API responses come from: the network (live), the network
+ * saved to fixtures (record) or the fixtures alone (replay)
+ */
+export const HTTP_CLIENT_MODES = ['live', 'record', 'replay'] as const;
+
+export type HttpClientMode = (typeof HTTP_CLIENT_MODES)[number];
+
+/**
+ * Replay behavior for requests without a fixture
+ */
+export type HttpReplayMiss = 'fail' | 'passthrough';
+
 // ============================================================================
 // Cache Interface
 // ============================================================================
 
 export interface CacheInterface {
   get<T>(key: string): Promise<T | null>;
-  set<T>(key: string, value: T, ttl?: number): Promise<void>;
+  set<T>(key: string, value: T, ttl?: number, validators?: CacheValidators): Promise<void>;
+  getEntry<T>(key: string): Promise<CacheEntry<T> | null>; // Also expired entries kept for revalidation
   delete(key: string): Promise<void>;
+  /** Delete the generateKey(prefix, …) entries whose params include these; returns how many */
+  deleteMatching(prefix: string, params: Record<string, unknown>): Promise<number>;
   clear(): Promise<void>;
   generateKey(prefix: string, params: Record<string, unknown>): string;
   getStats(): CacheStats;
@@ -82,6 +303,16 @@ export interface CacheStats {
 export interface CacheEntry<T> {
   value: T;
   expiresAt: number;
+  validators?: CacheValidators;
+}
+
+/**
+ * Upstream validators of a cached response, sent back as
+ * If-None-Match / If-Modified-Since to revalidate it once expired
+ */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
 }
 
 // ============================================================================
@@ -119,6 +350,7 @@ export interface CircuitBreakerConfig {
 
 export interface RateLimiter {
   checkLimit(): Promise<boolean>;
+  waitForToken(signal?: AbortSignal): Promise<void>; // Rejects with RequestCancelledError once the signal aborts
   getStats(): RateLimiterStats;
 }
 
@@ -154,8 +386,14 @@ export interface Logger {
   logToolInvocation(toolName: string, args: unknown, duration: number): void;
   logCacheHit(key: string): void;
   logCacheMiss(key: string): void;
+  /** Receive every entry, PII-masked, whatever the configured level; returns the unsubscribe function */
+  subscribe?(sink: LogSink): () => void;
+  /** Logger adding the bindings to the context of every entry, sharing the subscribers */
+  child?(bindings: Record<string, unknown>): Logger;
 }
 
+export type LogSink = (entry: LogEntry) => void;
+
 export interface LogEntry {
   timestamp: string;
   level: LogLevel;
@@ -187,12 +425,18 @@ export interface MCPServerConfig {
   apiTimeout: number;
   apiMaxRetries: number;
   apiRetryDelay: number;
+  apiMode: HttpClientMode; // live, record or replay (fixtures in apiFixturesDir)
+  apiFixturesDir: string;
+  apiReplayMiss: HttpReplayMiss; // Replay without a fixture: fail or fetch from the network
+  apiFormat: ResponseFormat; // Format asked from the Senado API
+  apiEndpointFormats: Record<string, ResponseFormat>; // apiFormat overrides by endpoint prefix
 
   // Cache
   cacheEnabled: boolean;
   cacheTTL: number;
   cacheMaxSize: number;
   cacheCleanupInterval: number;
+  responseCacheMaxSize: number; // Senado API responses kept for revalidation, apart from tool results
 
   // Rate Limiting
   rateLimitEnabled: boolean;
@@ -206,6 +450,12 @@ export interface MCPServerConfig {
   circuitBreakerSuccessThreshold: number;
   circuitBreakerTimeout: number;
 
+  // Resource subscriptions
+  resourcePollInterval: number; // materias_atualizadas polling in milliseconds (0 disables)
+
+  // Tool invocation pipeline
+  toolMiddleware: ToolMiddlewareName[]; // Enabled middleware (see TOOL_MIDDLEWARE_NAMES)
+
   // Logging
   logLevel: LogLevel;
   logFormat: 'json' | 'text';
@@ -224,95 +474,427 @@ export interface MCPServerConfig {
 // ============================================================================
 // Senado API Data Models
 // ============================================================================
+//
+// Normalized shapes returned by the tools. Produced by the mappers in
+// lib/mappers from the raw XML/JSON payloads; lists are always arrays, even
+// when the upstream collection has a single element.
 
-export interface Senator {
+/**
+ * Normalized vote/orientation value
+ */
+export type NormalizedVote = 'SIM' | 'NAO' | 'ABSTENCAO' | 'OBSTRUCAO' | 'LIBERADO' | 'OUTRO';
+
+/**
+ * Senator mandate
+ */
+export interface Mandato {
+  codigo?: number;
+  uf?: string;
+  participacao?: string;
+  legislaturas: number[];
+  dataInicio?: string;
+  dataFim?: string;
+}
+
+/**
+ * Senator
+ */
+export interface Senador {
   codigo: number;
   nome: string;
-  nomeCompleto: string;
-  sexo: 'M' | 'F';
-  dataNascimento: string;
-  uf: string;
-  partido: {
-    codigo: number;
-    sigla: string;
-    nome: string;
-  };
-  situacao: string;
+  nomeCompleto?: string;
+  sexo?: string;
+  formaTratamento?: string;
+  partido?: string;
+  uf?: string;
   email?: string;
-  telefone?: string;
   urlFoto?: string;
   urlPagina?: string;
+  dataNascimento?: string;
+  membroMesa: boolean;
+  membroLideranca: boolean;
+  mandatos: Mandato[];
+  /** Listing flags (senadores_listar) */
+  titular?: boolean;
+  suplenteEmExercicio?: boolean;
+  afastado?: boolean;
 }
 
-export interface Proposal {
-  codigo: number;
-  sigla: string;
-  numero: number;
-  ano: number;
-  ementa: string;
-  explicacao?: string;
-  dataApresentacao: string;
-  situacao: {
-    codigo: number;
-    descricao: string;
-  };
-  autores: Array<{
-    codigo: number;
-    nome: string;
-    tipo: 'SENADOR' | 'COMISSAO';
-  }>;
-  tipo: {
-    codigo: number;
-    sigla: string;
-    descricao: string;
-  };
+/**
+ * Senator contact phone
+ */
+export interface Telefone {
+  numero: string;
+  fax: boolean;
+}
+
+/**
+ * Academic background entry
+ */
+export interface FormacaoAcademica {
+  curso: string;
+  grau?: string;
+  instituicao?: string;
+  local?: string;
+}
+
+/**
+ * Senator with the contact and biography data of /senador/{codigo}
+ */
+export interface SenadorDetalhado extends Senador {
+  naturalidade?: string;
+  ufNaturalidade?: string;
+  telefones: Telefone[];
+  enderecos: string[];
+  emails: string[];
+  formacao: FormacaoAcademica[];
+  profissoes: string[];
+  biografia?: string;
+}
+
+/**
+ * Body (comissão, plenário, secretaria...) referenced by another record
+ */
+export interface OrgaoResumo {
+  codigo?: number;
+  sigla?: string;
+  nome?: string;
+}
+
+/**
+ * Senator referenced by another record (orador, relator, autor)
+ */
+export interface ParlamentarResumo {
+  codigoParlamentar?: number;
+  nome?: string;
+  partido?: string;
+  uf?: string;
+}
+
+/**
+ * Senator leave (licença/afastamento)
+ */
+export interface Licenca {
+  codigo?: number;
+  sigla?: string;
+  tipo?: string;
+  dataInicio?: string;
+  dataFim?: string;
+}
+
+/**
+ * Leadership position held by a senator
+ */
+export interface Lideranca {
+  unidade?: string;
+  tipo?: string;
+  dataInicio?: string;
+  dataFim?: string;
+}
+
+/**
+ * Position held by a senator in a committee or the Mesa
+ */
+export interface Cargo {
+  cargo: string;
+  comissao?: OrgaoResumo;
+  dataInicio?: string;
+  dataFim?: string;
+}
+
+/**
+ * A senator's membership in a committee
+ */
+export interface ParticipacaoComissao {
+  comissao: OrgaoResumo;
+  participacao?: string;
+  dataInicio?: string;
+  dataFim?: string;
 }
 
-export interface Voting {
+/**
+ * Party affiliation of a senator
+ */
+export interface Filiacao {
+  partido: Pick<Partido, 'sigla'> & Partial<Pick<Partido, 'codigo' | 'nome'>>;
+  dataFiliacao?: string;
+  dataDesfiliacao?: string;
+}
+
+/**
+ * Speech (pronunciamento) or aparte
+ */
+export interface Discurso {
   codigo: number;
-  data: string;
-  hora: string;
-  descricao: string;
-  resultado: 'APROVADO' | 'REJEITADO' | 'RETIRADO';
-  tipoVotacao: 'NOMINAL' | 'SIMBÓLICA' | 'SECRETA';
-  materia?: {
-    codigo: number;
-    sigla: string;
-    numero: number;
-    ano: number;
-  };
-  totalSim: number;
-  totalNao: number;
-  totalAbstencao: number;
-  totalObstrucao: number;
+  data?: string;
+  casa?: string;
+  tipo?: string;
+  resumo?: string;
+  indexacao?: string;
+  orador?: ParlamentarResumo;
+  url?: string;
 }
 
-export interface Committee {
+/**
+ * Legislative proposal (matéria)
+ */
+export interface Materia {
   codigo: number;
-  sigla: string;
+  sigla?: string;
+  numero?: number;
+  ano?: number;
+  /** Human-readable identification, e.g. "PL 2338/2023" */
+  identificacao?: string;
+  ementa?: string;
+  explicacaoEmenta?: string;
+  dataApresentacao?: string;
+  autores: string[];
+  situacao?: string;
+  tramitando?: boolean;
+  url?: string;
+}
+
+/**
+ * Proposal related to another one (apensada, tramitando em conjunto...)
+ */
+export interface MateriaRelacionada {
+  relacao?: string;
+  materia: Materia;
+}
+
+/**
+ * Author of a proposal
+ */
+export interface AutorMateria {
   nome: string;
+  tipo?: string;
+  codigoParlamentar?: number;
+  partido?: string;
+  uf?: string;
+}
+
+/**
+ * Processing step (tramitação) of a proposal
+ */
+export interface Tramitacao {
+  numero?: number;
+  data?: string;
   descricao?: string;
-  tipo: string;
+  situacao?: string;
+  origem?: OrgaoResumo;
+  destino?: OrgaoResumo;
+}
+
+/**
+ * Document (texto) of a proposal
+ */
+export interface TextoMateria {
+  codigo?: number;
+  tipo?: string;
+  data?: string;
+  autoria?: string;
+  orgao?: OrgaoResumo;
+  url?: string;
+}
+
+/**
+ * Amendment (emenda) to a proposal
+ */
+export interface Emenda {
+  codigo: number;
+  numero?: string;
+  tipo?: string;
+  data?: string;
+  autor?: string;
+  orgao?: OrgaoResumo;
+  url?: string;
+}
+
+/**
+ * Rapporteurship (relatoria), from the proposal or from the senator side
+ */
+export interface Relatoria {
+  materia?: Pick<Materia, 'codigo' | 'identificacao' | 'ementa'>;
+  relator?: ParlamentarResumo;
+  comissao?: OrgaoResumo;
+  tipo?: string;
+  dataDesignacao?: string;
+  dataDestituicao?: string;
+}
+
+/**
+ * Individual senator vote in a voting session
+ */
+export interface Voto {
+  codigoParlamentar: number;
+  nomeParlamentar?: string;
+  partido?: string;
+  uf?: string;
+  voto: NormalizedVote;
+  votoOriginal?: string;
+}
+
+/**
+ * Voting session (votação)
+ */
+export interface Votacao {
+  codigo: number;
+  codigoSessao?: number;
+  data?: string;
+  descricao?: string;
+  resultado?: string;
+  secreta?: boolean;
+  /** Body (committee or plenary) that held the vote */
+  colegiado?: OrgaoResumo;
+  materia?: Pick<Materia, 'codigo' | 'identificacao' | 'ementa'>;
+  totais: {
+    sim?: number;
+    nao?: number;
+    abstencao?: number;
+  };
+  votos: Voto[];
+}
+
+/**
+ * Party/bloc orientation for a voting session
+ */
+export interface VotingOrientation {
+  sigla: string;
+  orientacao: NormalizedVote;
+}
+
+/**
+ * Totals of a voting session, from /votacao/{codigo}/estatisticas
+ */
+export interface EstatisticaVotacao {
+  codigoVotacao: number;
+  totais: Votacao['totais'];
+  presentes?: number;
+  quorum?: number;
+}
+
+/**
+ * A senator's own votes, from /senador/{codigo}/votacoes
+ */
+export interface SenatorVotingRecord {
+  partido?: string;
+  votos: Array<{ votacao: Votacao; voto: Voto }>;
+}
+
+/**
+ * Committee (comissão/colegiado)
+ */
+export interface Comissao {
+  codigo: number;
+  sigla?: string;
+  nome?: string;
+  tipo?: string;
+  casa?: string;
   dataInicio?: string;
   dataFim?: string;
-  situacao: string;
+  ativa: boolean;
+}
+
+/**
+ * Committee member
+ */
+export interface MembroComissao {
+  codigoParlamentar?: number;
+  nome: string;
+  partido?: string;
+  uf?: string;
+  cargo?: string;
+  participacao?: string;
+  bloco?: string;
 }
 
-export interface Party {
+/**
+ * Committee with its current composition
+ */
+export interface ComissaoDetalhada extends Comissao {
+  membros: MembroComissao[];
+}
+
+/**
+ * Political party
+ */
+export interface Partido {
   codigo: number;
   sigla: string;
+  nome?: string;
+  dataCriacao?: string;
+  dataExtincao?: string;
+  ativo: boolean;
+}
+
+/**
+ * Parliamentary bloc
+ */
+export interface Bloco {
+  codigo: number;
   nome: string;
-  dataFundacao?: string;
-  totalSenadores: number;
+  apelido?: string;
+  dataCriacao?: string;
+  dataExtincao?: string;
+  partidos: Array<Pick<Partido, 'codigo' | 'sigla' | 'nome'>>;
+  legislaturas: number[];
+}
+
+/**
+ * Plenary session
+ */
+export interface Sessao {
+  codigo: number;
+  numero?: number;
+  tipo?: string;
+  data?: string;
+  hora?: string;
+  casa?: string;
+  situacao?: string;
+  legislatura?: number;
+  descricao?: string;
+}
+
+/**
+ * Plenary session with the results of its deliberations, from /plenario/resultado/mes
+ */
+export interface ResultadoSessao extends Sessao {
+  itens: Array<{
+    materia?: string;
+    ementa?: string;
+    resultado?: string;
+  }>;
 }
 
 export interface Legislature {
   numero: number;
-  dataInicio: string;
-  dataFim: string;
+  dataInicio?: string;
+  dataFim?: string;
+  dataEleicao?: string;
   descricao?: string;
 }
 
+/**
+ * Entry of a reference table (tipos, situações, assuntos)
+ */
+export interface ItemReferencia {
+  codigo?: number;
+  sigla?: string;
+  descricao?: string;
+  /** Broader group, e.g. the general subject of an assunto */
+  categoria?: string;
+  ativo?: boolean;
+}
+
+/**
+ * Brazilian state (UF), from the IBGE localidades API
+ */
+export interface Uf {
+  sigla: string;
+  nome: string;
+  regiao?: string;
+}
+
 // ============================================================================
 // Service Metadata
 // ============================================================================
@@ -337,6 +919,12 @@ export interface MCPTransportRequest {
   params?: unknown;
 }
 
+export interface MCPTransportNotification {
+  jsonrpc: string;
+  method: string;
+  params?: unknown;
+}
+
 export interface MCPTransportError {
   code: number;
   message: string;
@@ -349,3 +937,71 @@ export interface MCPTransportResponse {
   result?: unknown;
   error?: MCPTransportError;
 }
+
+/**
+ * Streamable HTTP session, identified by the Mcp-Session-Id header
+ */
+export interface MCPSession {
+  id: string;
+  createdAt: number;
+  lastActivityAt: number;
+  protocolVersion?: string;
+  clientInfo?: { name: string; version: string };
+  logLevel?: LoggingLevel; // Set with logging/setLevel
+}
+
+/**
+ * MCP logging levels (RFC 5424 severities), least severe first
+ */
+export type LoggingLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
+/**
+ * Message sent on an SSE stream, kept for Last-Event-ID resumption
+ */
+export interface MCPStreamEvent {
+  id: string;
+  streamId: string;
+  message: unknown;
+}
+
+export interface SessionStore {
+  create(session: MCPSession): Promise<void>;
+  /** Get a live session and refresh its idle timeout */
+  touch(id: string): Promise<MCPSession | null>;
+  delete(id: string): Promise<boolean>;
+  /** Store the session's minimum notifications/message level; false when the session is gone */
+  setLogLevel(id: string, level: LoggingLevel): Promise<boolean>;
+  storeEvent(sessionId: string, streamId: string, message: unknown): Promise<string>;
+  /** Events sent after lastEventId on the same stream */
+  replayEventsAfter(sessionId: string, lastEventId: string): Promise<MCPStreamEvent[]>;
+  /** Keep a server notification until the session opens a GET stream; false when the session is gone */
+  queueNotification(sessionId: string, message: unknown): Promise<boolean>;
+  /** Queued notifications, oldest first, removed from the queue */
+  takeNotifications(sessionId: string): Promise<unknown[]>;
+  /** Be told when a session expires (stores expiring sessions in this process) */
+  onExpired?(listener: (sessionId: string) => void): void;
+}
+
+/**
+ * Resource subscriptions (resources/subscribe) by subscriber: a Streamable
+ * HTTP session ID, or the stdio client
+ */
+export interface SubscriptionStore {
+  subscribe(subscriberId: string, uri: string): Promise<void>;
+  unsubscribe(subscriberId: string, uri: string): Promise<void>;
+  /** Drop every subscription of a subscriber (session terminated) */
+  removeSubscriber(subscriberId: string): Promise<void>;
+  /** Subscribers of each subscribed URI */
+  getSubscriptions(): Promise<Record<string, string[]>>;
+  /** Time (ms) up to which updates were already checked */
+  getCheckpoint(): Promise<number | null>;
+  setCheckpoint(time: number): Promise<void>;
+}
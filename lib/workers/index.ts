@@ -7,20 +7,40 @@
 import { createLogger } from '../infrastructure/logger.js';
 import { createHttpClient } from '../infrastructure/http-client.js';
 import { createToolRegistry } from '../core/tools.js';
+import { createPromptRegistry } from '../core/prompts.js';
+import { createResourceRegistry } from '../core/resources.js';
+import { createCompletionRegistry } from '../core/completions.js';
 import { createWorkersAdapter } from '../adapters/workers.js';
+import { createResourcePoller } from '../core/subscriptions.js';
+import { createToolPipeline } from '../core/pipeline.js';
+import { SUBSCRIPTIONS_INSTANCE } from '../durable-objects/subscription-do.js';
+import { CircuitBreakerError, RequestCancelledError, cancellationError, throwIfCancelled } from '../core/errors.js';
 
 const SERVICE_DESCRIPTION = 'Model Context Protocol server for the Brazilian Federal Senate Open Data API.';
 const DEFAULT_DOCS_URL = 'https://github.com/cristianoaredes/mcp-senado#readme';
 const DEFAULT_REPO_URL = 'https://github.com/cristianoaredes/mcp-senado';
+const RATE_LIMIT_MAX_WAIT = 60000; // Longest waitForToken wait, as the token bucket interval
 import type {
   ToolContext,
   LogLevel,
   Logger,
+  LoggingLevel,
   CacheInterface,
+  CacheEntry,
   CacheStats,
+  CacheValidators,
   CircuitBreaker,
   CircuitBreakerStats,
   CircuitState,
+  MCPSession,
+  RateLimiter,
+  RateLimiterStats,
+  ResponseFormat,
+  MCPStreamEvent,
+  SessionStore,
+  SubscriptionStore,
+  ToolMetric,
+  ToolMiddlewareName,
 } from '../types/index.js';
 
 // Import all tools
@@ -32,11 +52,18 @@ import { committeeTools } from '../tools/committee-tools.js';
 import { partyTools } from '../tools/party-tools.js';
 import { sessionTools } from '../tools/session-tools.js';
 
+// Import prompts, resources and completions
+import { legislativePrompts } from '../prompts/legislative-prompts.js';
+import { senadoResources, senadoResourceTemplates } from '../resources/senado-resources.js';
+import { referenceCompletions } from '../completions/reference-completions.js';
+
 // Export Durable Objects so Cloudflare can find them
 export { CacheDurableObject } from '../durable-objects/cache-do.js';
 export { RateLimiterDurableObject } from '../durable-objects/rate-limiter-do.js';
 export { CircuitBreakerDurableObject } from '../durable-objects/circuit-breaker-do.js';
 export { MetricsDurableObject } from '../durable-objects/metrics-do.js';
+export { SessionDurableObject } from '../durable-objects/session-do.js';
+export { SubscriptionDurableObject } from '../durable-objects/subscription-do.js';
 
 // Environment variables interface for Cloudflare Workers
 interface Env {
@@ -45,6 +72,8 @@ interface Env {
   RATE_LIMITER: DurableObjectNamespace;
   CIRCUIT_BREAKER: DurableObjectNamespace;
   METRICS: DurableObjectNamespace;
+  SESSIONS: DurableObjectNamespace;
+  SUBSCRIPTIONS: DurableObjectNamespace;
 
   // Workers KV Namespace (for static/long-lived cache data)
   STATIC_CACHE_KV: KVNamespace;
@@ -59,6 +88,10 @@ interface Env {
   WORKERS_CORS_ORIGIN?: string;
   WORKERS_AUTH_ENABLED?: string;
   WORKERS_AUTH_TOKEN?: string;
+  WORKERS_AUTH_SCOPES?: string;
+  MCP_SESSION_TTL?: string;
+  MCP_BATCH_CONCURRENCY?: string;
+  MCP_TOOL_MIDDLEWARE?: string;
 
   // Cache Configuration
   MCP_CACHE_ENABLED?: string;
@@ -79,6 +112,8 @@ interface Env {
   MCP_HTTP_TIMEOUT?: string;
   MCP_HTTP_RETRY_ATTEMPTS?: string;
   MCP_HTTP_RETRY_DELAY?: string;
+  MCP_HTTP_FORMAT?: string;
+  MCP_HTTP_ENDPOINT_FORMATS?: string;
 
   // Logging
   MCP_LOG_LEVEL?: string;
@@ -116,6 +151,34 @@ function getEnvBoolean(env: Env, key: keyof Env, defaultValue: boolean): boolean
   return typeof value === 'string' ? value === 'true' : defaultValue;
 }
 
+/**
+ * Get environment variable as comma-separated list
+ */
+function getEnvList(env: Env, key: keyof Env): string[] | undefined {
+  const value = env[key];
+  if (typeof value !== 'string' || !value) return undefined;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Get environment variable as response format (anything but json is xml)
+ */
+function getEnvFormat(env: Env, key: keyof Env): ResponseFormat {
+  return getEnv(env, key, 'xml') === 'json' ? 'json' : 'xml';
+}
+
+/**
+ * Get environment variable as endpoint formats ("senador/lista=json,materia=xml")
+ */
+function getEnvEndpointFormats(env: Env, key: keyof Env): Record<string, ResponseFormat> {
+  return Object.fromEntries(
+    (getEnvList(env, key) ?? []).map((item) => {
+      const [prefix = '', format] = item.split('=').map((part) => part.trim());
+      return [prefix, format === 'json' ? 'json' : 'xml'];
+    })
+  );
+}
+
 /**
  * Map log level string to LogLevel enum
  */
@@ -133,11 +196,17 @@ function mapLogLevel(level: string): LogLevel {
   return levelMap[level] || ('INFO' as LogLevel);
 }
 
+interface KVEntryMetadata {
+  expiresAt: number;
+  validators?: CacheValidators;
+}
+
 /**
  * Hybrid Cache Adapter
  *
  * Uses Workers KV for static/long-lived data (reference data)
- * and Durable Objects for dynamic/short-lived data
+ * and Durable Objects for dynamic/short-lived data. Validators are kept in
+ * the KV metadata and in the DO entries.
  */
 class HybridCacheAdapter implements CacheInterface {
   private stub: DurableObjectStub;
@@ -199,7 +268,36 @@ class HybridCacheAdapter implements CacheInterface {
     }
   }
 
-  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+  async getEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    try {
+      if (this.isStaticKey(key) && this.kv) {
+        const { value, metadata } = await this.kv.getWithMetadata<T, KVEntryMetadata>(key, { type: 'json' });
+        if (value !== null && metadata) {
+          return { value, expiresAt: metadata.expiresAt, validators: metadata.validators };
+        }
+      }
+
+      const url = new URL('http://do/get');
+      url.searchParams.set('key', key);
+      url.searchParams.set('entry', '1');
+      const response = await this.stub.fetch(url.toString());
+      const data = await response.json() as { found: boolean } & Partial<CacheEntry<T>>;
+
+      if (data.found && data.value !== undefined && data.expiresAt !== undefined) {
+        return { value: data.value, expiresAt: data.expiresAt, validators: data.validators };
+      }
+      return null;
+    } catch (error) {
+      this.logger.error('Cache get entry error', error as Error, { key });
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttl?: number, validators?: CacheValidators): Promise<void> {
     if (!this.enabled) {
       return;
     }
@@ -208,8 +306,10 @@ class HybridCacheAdapter implements CacheInterface {
       // Use KV for static data with long TTL (24 hours default)
       if (this.isStaticKey(key) && this.kv) {
         const expirationTtl = ttl ? Math.floor(ttl / 1000) : 86400; // 24h in seconds
+        const metadata: KVEntryMetadata = { expiresAt: Date.now() + expirationTtl * 1000, validators };
         await this.kv.put(key, JSON.stringify(value), {
           expirationTtl,
+          metadata,
         });
         this.logger.debug('Cache set (KV)', { key, ttl: expirationTtl });
         return;
@@ -219,7 +319,7 @@ class HybridCacheAdapter implements CacheInterface {
       await this.stub.fetch('http://do/set', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ key, value, ttl }),
+        body: JSON.stringify({ key, value, ttl, validators }),
       });
       this.logger.debug('Cache set (DO)', { key, ttl });
     } catch (error) {
@@ -248,6 +348,26 @@ class HybridCacheAdapter implements CacheInterface {
     }
   }
 
+  async deleteMatching(prefix: string, params: Record<string, unknown>): Promise<number> {
+    if (!this.enabled) {
+      return 0;
+    }
+
+    try {
+      // Only the DO: KV holds static reference data, never invalidated by params
+      const url = new URL('http://do/delete-matching');
+      url.searchParams.set('prefix', prefix);
+      url.searchParams.set('params', JSON.stringify(params));
+      const response = await this.stub.fetch(url.toString(), { method: 'DELETE' });
+      const { deleted } = await response.json() as { deleted: number };
+      this.logger.debug('Cache delete matching (DO)', { prefix, params, deleted });
+      return deleted;
+    } catch (error) {
+      this.logger.error('Cache delete matching error', error as Error, { prefix });
+      return 0;
+    }
+  }
+
   async clear(): Promise<void> {
     if (!this.enabled) {
       return;
@@ -319,6 +439,7 @@ class DurableObjectCircuitBreakerAdapter implements CircuitBreaker {
     }
 
     // Check if circuit allows request
+    let checkData: { allowed: boolean; state: CircuitState; lastFailureTime?: number };
     try {
       const checkResponse = await this.stub.fetch('http://do/check', {
         method: 'POST',
@@ -331,42 +452,41 @@ class DurableObjectCircuitBreakerAdapter implements CircuitBreaker {
         }),
       });
 
-      const checkData = await checkResponse.json() as {
-        allowed: boolean;
-        state: CircuitState;
-      };
-
-      if (!checkData.allowed) {
-        this.logger.warn('Circuit breaker OPEN (DO)', { state: checkData.state });
-        throw new Error('Circuit breaker is OPEN');
-      }
-
-      // Execute function
-      try {
-        const result = await fn();
-
-        // Record success
-        await this.stub.fetch('http://do/recordSuccess', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ key: this.circuitKey }),
-        });
+      checkData = await checkResponse.json() as typeof checkData;
+    } catch (error) {
+      this.logger.error('Circuit breaker error (DO)', error as Error);
+      // Fallback to executing function on DO errors
+      return await fn();
+    }
 
-        return result;
-      } catch (error) {
-        // Record failure
-        await this.stub.fetch('http://do/recordFailure', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ key: this.circuitKey }),
-        });
+    if (!checkData.allowed) {
+      this.logger.warn('Circuit breaker OPEN (DO)', { state: checkData.state });
+      throw new CircuitBreakerError('Circuit breaker is OPEN', checkData.lastFailureTime);
+    }
 
-        throw error;
+    // Execute function; its own failure is never retried here
+    try {
+      const result = await fn();
+      await this.record('recordSuccess');
+      return result;
+    } catch (error) {
+      // A request cancelled by the client says nothing about upstream health
+      if (!(error instanceof RequestCancelledError)) {
+        await this.record('recordFailure');
       }
+      throw error;
+    }
+  }
+
+  private async record(outcome: 'recordSuccess' | 'recordFailure'): Promise<void> {
+    try {
+      await this.stub.fetch(`http://do/${outcome}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: this.circuitKey }),
+      });
     } catch (error) {
       this.logger.error('Circuit breaker error (DO)', error as Error);
-      // Fallback to executing function on DO errors
-      return await fn();
     }
   }
 
@@ -386,6 +506,249 @@ class DurableObjectCircuitBreakerAdapter implements CircuitBreaker {
   }
 }
 
+/**
+ * Durable Object Rate Limiter Adapter
+ *
+ * Wraps Durable Object HTTP calls to implement RateLimiter interface, so
+ * every Workers instance takes its tokens from the same bucket
+ */
+class DurableObjectRateLimiterAdapter implements RateLimiter {
+  private stub: DurableObjectStub;
+  private logger: Logger;
+  private maxTokens: number;
+  private bucketKey: string;
+  private tokens: number;
+  private lastRefillTime: number;
+
+  constructor(stub: DurableObjectStub, logger: Logger, maxTokens: number) {
+    this.stub = stub;
+    this.logger = logger;
+    this.maxTokens = maxTokens;
+    this.bucketKey = 'tools';
+    this.tokens = maxTokens;
+    this.lastRefillTime = Date.now();
+  }
+
+  async checkLimit(): Promise<boolean> {
+    return (await this.take()).allowed;
+  }
+
+  async waitForToken(signal?: AbortSignal): Promise<void> {
+    const maxWaitTime = RATE_LIMIT_MAX_WAIT;
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < maxWaitTime) {
+      throwIfCancelled(signal);
+      const { allowed, retryAfter } = await this.take();
+      if (allowed) {
+        return;
+      }
+
+      // Wait until the bucket has refilled a token
+      await this.sleep(retryAfter * 1000, signal);
+    }
+
+    const error = new Error('Rate limit exceeded, max wait time reached');
+    error.name = 'RateLimitError';
+    throw error;
+  }
+
+  getStats(): RateLimiterStats {
+    // Last counts the DO reported
+    return {
+      tokens: this.tokens,
+      maxTokens: this.maxTokens,
+      refillRate: 0,
+      lastRefillTime: this.lastRefillTime,
+    };
+  }
+
+  private async take(): Promise<{ allowed: boolean; retryAfter: number }> {
+    try {
+      const response = await this.stub.fetch('http://do/check', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: this.bucketKey, maxTokens: this.maxTokens }),
+      });
+
+      const data = await response.json() as {
+        allowed: boolean;
+        remainingTokens: number;
+        retryAfter?: number;
+      };
+
+      this.tokens = data.remainingTokens;
+      this.lastRefillTime = Date.now();
+      return { allowed: data.allowed, retryAfter: data.retryAfter ?? 1 };
+    } catch (error) {
+      this.logger.error('Rate limiter error (DO)', error as Error);
+      // Allow requests on DO errors
+      return { allowed: true, retryAfter: 0 };
+    }
+  }
+
+  /**
+   * Sleep utility, cut short when the signal aborts
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(cancellationError(signal));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancellationError(signal!));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Durable Object Session Store
+ *
+ * One Durable Object per Streamable HTTP session, so every Workers
+ * instance sees the same session and its resumable events
+ */
+class DurableObjectSessionStore implements SessionStore {
+  private namespace: DurableObjectNamespace;
+  private ttl: number;
+
+  constructor(namespace: DurableObjectNamespace, ttl: number) {
+    this.namespace = namespace;
+    this.ttl = ttl;
+  }
+
+  private stub(sessionId: string): DurableObjectStub {
+    return this.namespace.get(this.namespace.idFromName(sessionId));
+  }
+
+  async create(session: MCPSession): Promise<void> {
+    await this.stub(session.id).fetch('http://do/create', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ session, ttl: this.ttl }),
+    });
+  }
+
+  async touch(id: string): Promise<MCPSession | null> {
+    const response = await this.stub(id).fetch('http://do/touch', { method: 'POST' });
+    const data = await response.json() as { found: boolean; session?: MCPSession };
+    return data.found && data.session ? data.session : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const response = await this.stub(id).fetch('http://do/delete', { method: 'DELETE' });
+    const data = await response.json() as { deleted: boolean };
+    return data.deleted;
+  }
+
+  async setLogLevel(id: string, level: LoggingLevel): Promise<boolean> {
+    const response = await this.stub(id).fetch('http://do/log-level', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ level }),
+    });
+    const data = await response.json() as { found: boolean };
+    return data.found;
+  }
+
+  async storeEvent(sessionId: string, streamId: string, message: unknown): Promise<string> {
+    const response = await this.stub(sessionId).fetch('http://do/events', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ streamId, message }),
+    });
+    const data = await response.json() as { id: string };
+    return data.id;
+  }
+
+  async replayEventsAfter(sessionId: string, lastEventId: string): Promise<MCPStreamEvent[]> {
+    const url = new URL('http://do/events');
+    url.searchParams.set('after', lastEventId);
+    const response = await this.stub(sessionId).fetch(url.toString());
+    const data = await response.json() as { events: MCPStreamEvent[] };
+    return data.events;
+  }
+
+  async queueNotification(sessionId: string, message: unknown): Promise<boolean> {
+    const response = await this.stub(sessionId).fetch('http://do/notifications', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message }),
+    });
+    const data = await response.json() as { queued: boolean };
+    return data.queued;
+  }
+
+  async takeNotifications(sessionId: string): Promise<unknown[]> {
+    const response = await this.stub(sessionId).fetch('http://do/notifications/take', { method: 'POST' });
+    const data = await response.json() as { notifications: unknown[] };
+    return data.notifications;
+  }
+}
+
+/**
+ * Durable Object Subscription Store
+ *
+ * One global Durable Object holds the resource subscriptions of every
+ * session and the checkpoint of the cron-triggered poller
+ */
+class DurableObjectSubscriptionStore implements SubscriptionStore {
+  private stub: DurableObjectStub;
+
+  constructor(stub: DurableObjectStub) {
+    this.stub = stub;
+  }
+
+  async subscribe(subscriberId: string, uri: string): Promise<void> {
+    await this.stub.fetch('http://do/subscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ subscriberId, uri }),
+    });
+  }
+
+  async unsubscribe(subscriberId: string, uri: string): Promise<void> {
+    await this.stub.fetch('http://do/unsubscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ subscriberId, uri }),
+    });
+  }
+
+  async removeSubscriber(subscriberId: string): Promise<void> {
+    const url = new URL('http://do/subscriber');
+    url.searchParams.set('id', subscriberId);
+    await this.stub.fetch(url.toString(), { method: 'DELETE' });
+  }
+
+  async getSubscriptions(): Promise<Record<string, string[]>> {
+    const response = await this.stub.fetch('http://do/subscriptions');
+    const data = await response.json() as { subscriptions: Record<string, string[]> };
+    return data.subscriptions;
+  }
+
+  async getCheckpoint(): Promise<number | null> {
+    const response = await this.stub.fetch('http://do/checkpoint');
+    const data = await response.json() as { checkpoint: number | null };
+    return data.checkpoint;
+  }
+
+  async setCheckpoint(time: number): Promise<void> {
+    await this.stub.fetch('http://do/checkpoint', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ checkpoint: time }),
+    });
+  }
+}
+
 /**
  * Initialize MCP Senado for Cloudflare Workers with Durable Objects
  */
@@ -403,12 +766,23 @@ function initializeMCPSenado(env: Env) {
   const cacheId = env.CACHE.idFromName('global-cache');
   const cacheStub = env.CACHE.get(cacheId);
 
+  // Senado API responses kept for revalidation live in their own cache DO,
+  // so they never crowd out tool results
+  const responseCacheId = env.CACHE.idFromName('global-response-cache');
+  const responseCacheStub = env.CACHE.get(responseCacheId);
+
   const circuitBreakerId = env.CIRCUIT_BREAKER.idFromName('global-circuit-breaker');
   const circuitBreakerStub = env.CIRCUIT_BREAKER.get(circuitBreakerId);
 
+  const rateLimiterId = env.RATE_LIMITER.idFromName('global-rate-limiter');
+  const rateLimiterStub = env.RATE_LIMITER.get(rateLimiterId);
+
   const metricsId = env.METRICS.idFromName('global-metrics');
   const metricsStub = env.METRICS.get(metricsId);
 
+  const subscriptionsId = env.SUBSCRIPTIONS.idFromName(SUBSCRIPTIONS_INSTANCE);
+  const subscriptionStore = new DurableObjectSubscriptionStore(env.SUBSCRIPTIONS.get(subscriptionsId));
+
   // Create infrastructure components using Hybrid Cache (KV + Durable Objects)
   const cache = new HybridCacheAdapter(
     cacheStub,
@@ -417,6 +791,17 @@ function initializeMCPSenado(env: Env) {
     getEnvBoolean(env, 'MCP_CACHE_ENABLED', true)
   );
 
+  // Only the cache DO, which keeps validators with each entry and holds on to
+  // expired entries that have them; KV drops entries once their TTL ends, so
+  // they could not be revalidated
+  const responseCache = new HybridCacheAdapter(
+    responseCacheStub,
+    null,
+    logger,
+    getEnvBoolean(env, 'MCP_CACHE_ENABLED', true)
+  );
+
+  // Wraps every Senado API request; the tool pipeline fails fast while it is open
   const circuitBreaker = new DurableObjectCircuitBreakerAdapter(
     circuitBreakerStub,
     logger,
@@ -434,11 +819,21 @@ function initializeMCPSenado(env: Env) {
       timeout: getEnvNumber(env, 'MCP_HTTP_TIMEOUT', 30000),
       maxRetries: getEnvNumber(env, 'MCP_HTTP_RETRY_ATTEMPTS', 3),
       retryDelay: getEnvNumber(env, 'MCP_HTTP_RETRY_DELAY', 1000),
+      cache: responseCache,
+      format: getEnvFormat(env, 'MCP_HTTP_FORMAT'),
+      endpointFormats: getEnvEndpointFormats(env, 'MCP_HTTP_ENDPOINT_FORMATS'),
     },
     logger,
     circuitBreaker
   );
 
+  // Takes the tokens of the rateLimit middleware and of multi-request tools
+  const rateLimiter = new DurableObjectRateLimiterAdapter(
+    rateLimiterStub,
+    logger,
+    getEnvNumber(env, 'MCP_RATE_LIMIT_MAX_TOKENS', 30)
+  );
+
   // Create tool registry
   const toolRegistry = createToolRegistry();
 
@@ -456,6 +851,19 @@ function initializeMCPSenado(env: Env) {
     categories: toolRegistry.getCategories(),
   });
 
+  // Create prompt registry
+  const promptRegistry = createPromptRegistry();
+  promptRegistry.registerMany(legislativePrompts);
+
+  // Create resource registry
+  const resourceRegistry = createResourceRegistry();
+  resourceRegistry.registerMany(senadoResources);
+  resourceRegistry.registerTemplates(senadoResourceTemplates);
+
+  // Create completion registry
+  const completionRegistry = createCompletionRegistry();
+  completionRegistry.registerMany(referenceCompletions);
+
   // Create tool context
   const toolContext = {
     httpClient,
@@ -477,55 +885,48 @@ function initializeMCPSenado(env: Env) {
       logLevel: getEnv(env, 'MCP_LOG_LEVEL', 'info'),
     },
     logger,
+    rateLimiter,
+    scopes: getEnvList(env, 'WORKERS_AUTH_SCOPES'),
   } as unknown as ToolContext;
 
-  // Override tool registry invoke to inject context and track metrics
-  const originalInvoke = toolRegistry.invoke.bind(toolRegistry);
-  toolRegistry.invoke = async (name: string, args: unknown) => {
-    const startTime = Date.now();
-    let success = true;
-
-    try {
-      const result = await originalInvoke(name, args, toolContext);
-      return result;
-    } catch (error) {
-      success = false;
-      throw error;
-    } finally {
-      const duration = Date.now() - startTime;
-
-      // Record metrics to Durable Object (fire and forget)
-      const tool = toolRegistry.get(name);
-      if (tool) {
-        metricsStub.fetch('http://do/record', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            tool: name,
-            category: tool.category,
-            success,
-            duration,
-          }),
-        }).catch((error) => {
-          logger.warn('Failed to record metrics to DO', { error });
+  // Record invocations to Durable Object (fire and forget) and Analytics Engine
+  const recordToolMetric = (metric: ToolMetric) => {
+    const success = metric.outcome === 'success';
+
+    metricsStub.fetch('http://do/record', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        tool: metric.tool,
+        category: metric.category,
+        success,
+        duration: metric.duration,
+      }),
+    }).catch((error) => {
+      logger.warn('Failed to record metrics to DO', { error });
+    });
+
+    if (env.ANALYTICS) {
+      try {
+        env.ANALYTICS.writeDataPoint({
+          blobs: [metric.tool, metric.category, metric.outcome],
+          doubles: [metric.duration],
+          indexes: [success ? '1' : '0'],
         });
-
-        // Record to Analytics Engine for detailed tracking
-        if (env.ANALYTICS) {
-          try {
-            env.ANALYTICS.writeDataPoint({
-              blobs: [name, tool.category, success ? 'success' : 'error'],
-              doubles: [duration],
-              indexes: [success ? '1' : '0'],
-            });
-          } catch (error) {
-            logger.warn('Failed to record to Analytics Engine', { error });
-          }
-        }
+      } catch (error) {
+        logger.warn('Failed to record to Analytics Engine', { error });
       }
     }
   };
 
+  // Shared pipeline of /mcp and the REST tool endpoints
+  const toolPipeline = createToolPipeline(toolRegistry, {
+    middleware: getEnvList(env, 'MCP_TOOL_MIDDLEWARE') as ToolMiddlewareName[] | undefined,
+    logger,
+    metrics: recordToolMetric,
+    circuitBreaker,
+  });
+
   // Create Workers adapter
   const workersAdapter = createWorkersAdapter(toolRegistry, logger, {
     corsOrigin: getEnv(env, 'WORKERS_CORS_ORIGIN', '*'),
@@ -539,24 +940,62 @@ function initializeMCPSenado(env: Env) {
       documentationUrl: getEnv(env, 'MCP_DOCUMENTATION_URL', DEFAULT_DOCS_URL),
       repositoryUrl: getEnv(env, 'MCP_REPOSITORY_URL', DEFAULT_REPO_URL),
     },
-  });
+    toolContext,
+    toolPipeline,
+    sessionStore: new DurableObjectSessionStore(
+      env.SESSIONS,
+      getEnvNumber(env, 'MCP_SESSION_TTL', 1800000) // 30 minutes idle
+    ),
+    batchConcurrency: getEnvNumber(env, 'MCP_BATCH_CONCURRENCY', 4),
+    subscriptionStore,
+  }, promptRegistry, resourceRegistry, completionRegistry);
 
   logger.info('Workers adapter initialized with Durable Objects');
 
-  return workersAdapter;
+  // Resource update poller, run by the cron trigger (notifications wait in
+  // the session Durable Objects until the session opens a GET stream)
+  const resourcePoller = createResourcePoller(
+    subscriptionStore,
+    toolRegistry,
+    toolContext,
+    (sessionId, notification) => workersAdapter.notifySession(sessionId, notification),
+    logger
+  );
+
+  return { adapter: workersAdapter, resourcePoller, logger };
 }
 
 /**
- * Cloudflare Workers fetch handler
+ * Adapter of this isolate
+ *
+ * Durable Objects keep the state shared by all isolates; reusing the adapter
+ * lets cancellations and log messages reach requests and streams served by
+ * the same isolate.
+ */
+let senado: ReturnType<typeof initializeMCPSenado> | undefined;
+
+/**
+ * Cloudflare Workers fetch and scheduled handlers
  */
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
-    // Initialize adapter
-    // Note: In production, this initialization happens on each request
-    // but Durable Objects maintain persistent state across requests
-    const adapter = initializeMCPSenado(env);
+    // Initialize adapter on the first request of the isolate
+    senado ??= initializeMCPSenado(env);
 
     // Handle request
-    return adapter.fetch(request);
+    return senado.adapter.fetch(request);
+  },
+
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    senado ??= initializeMCPSenado(env);
+    const { resourcePoller, logger } = senado;
+
+    // Check subscribed matérias for updates
+    ctx.waitUntil(
+      resourcePoller.poll().then(
+        () => undefined,
+        (error) => logger.error('Resource update poll failed', error as Error)
+      )
+    );
   },
 };
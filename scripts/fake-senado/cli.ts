@@ -0,0 +1,59 @@
+/**
+ * Run the fake Senado Dados Abertos server
+ *
+ *   npm run fake-senado -- --port 8787 --latency 200 --fail "/votacao/*=503"
+ *
+ * then start a server against it:
+ *
+ *   SENADO_API_BASE_URL=http://127.0.0.1:8787/dadosabertos npm run dev
+ */
+
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { createFakeSenadoServer, type FakeSenadoFault } from './server.js';
+
+const DEFAULT_SCENARIO = fileURLToPath(new URL('./scenarios/default.json', import.meta.url));
+
+function parseFault(spec: string): FakeSenadoFault {
+  const [path, status] = spec.split('=');
+  if (!path || (status !== undefined && !/^\d+$/.test(status))) {
+    throw new Error(`Invalid --fail "${spec}", expected <path>[=<status>]`);
+  }
+  return { path, status: status === undefined ? undefined : Number(status) };
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '8787' },
+      host: { type: 'string', default: '127.0.0.1' },
+      scenario: { type: 'string', default: DEFAULT_SCENARIO },
+      latency: { type: 'string', default: '0' },
+      fail: { type: 'string', multiple: true, default: [] },
+    },
+  });
+
+  const server = await createFakeSenadoServer(values.scenario, {
+    latency: Number(values.latency),
+    faults: values.fail.map(parseFault),
+  });
+  const baseUrl = await server.start(Number(values.port), values.host);
+
+  console.log(`Fake Senado API listening on ${baseUrl}`);
+  console.log(`Scenario: ${values.scenario}`);
+
+  const shutdown = () => {
+    server.stop().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error: Error) => {
+  console.error(error.message);
+  process.exit(1);
+});
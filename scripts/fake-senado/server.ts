@@ -0,0 +1,363 @@
+/**
+ * Fake Senado Dados Abertos server
+ *
+ * A local stand-in for https://legis.senado.leg.br/dadosabertos, for
+ * end-to-end tests and offline development. Point apiBaseUrl
+ * (SENADO_API_BASE_URL) at the URL returned by start() and both bins run
+ * without network access.
+ *
+ * Responses come from a scenario file: a map of routes to JSON trees that are
+ * rendered as XML, the way the real API answers, or as Dados Abertos JSON
+ * (string leaves, "@name" attributes) when the Accept header asks for JSON
+ * first. Routes are exact paths
+ * ("/senador/5008") or templates with ":param" segments
+ * ("/senador/:codigo/mandatos"); exact paths win, and "{{param}}" placeholders
+ * in a template response are replaced with the request values (escaped by
+ * the XML builder).
+ *
+ * Latency and faults can be set up front or injected while the server runs,
+ * to exercise timeouts, retries and the circuit breaker.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import { XMLBuilder } from 'fast-xml-parser';
+
+/**
+ * Routes served by the fake server, keyed by path or path template
+ */
+export interface FakeSenadoScenario {
+  description?: string;
+  routes: Record<string, unknown>;
+}
+
+/**
+ * Failure (or slowdown) of the requests matching a path
+ */
+export interface FakeSenadoFault {
+  path: string; // Path, template or prefix ending in "*"
+  status?: number; // Default: 503 unless only latency is set; 0 drops the connection
+  latency?: number; // Extra delay in ms before answering
+  times?: number; // Requests affected; default: all
+}
+
+export interface FakeSenadoOptions {
+  scenario: FakeSenadoScenario;
+  basePath?: string; // Default: /dadosabertos
+  latency?: number; // Delay in ms for every request
+  faults?: FakeSenadoFault[];
+}
+
+/**
+ * One request received by the fake server
+ */
+export interface FakeSenadoRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  status: number;
+}
+
+interface CompiledRoute {
+  template: string;
+  segments: string[];
+  body: unknown;
+}
+
+const DEFAULT_BASE_PATH = '/dadosabertos';
+const DEFAULT_FAULT_STATUS = 503;
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+const xmlBuilder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  format: true,
+  suppressEmptyNode: true,
+});
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a response tree as the API's XML
+ */
+export function renderXml(body: unknown): string {
+  return XML_DECLARATION + xmlBuilder.build(body);
+}
+
+/**
+ * Render a response tree as the API's JSON: leaf values as strings and
+ * attributes as "@name"
+ */
+export function renderJson(body: unknown): string {
+  return JSON.stringify(toApiJson(body));
+}
+
+function toApiJson(node: unknown): unknown {
+  if (Array.isArray(node)) {
+    return node.map(toApiJson);
+  }
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key.startsWith('@_') ? `@${key.slice(2)}` : key, toApiJson(value)])
+    );
+  }
+  return node === null || node === undefined ? null : String(node);
+}
+
+function wantsJson(req: IncomingMessage): boolean {
+  return (req.headers.accept ?? '').trim().startsWith('application/json');
+}
+
+/**
+ * Replace "{{param}}" placeholders in every string of a response tree
+ */
+function fillPlaceholders(node: unknown, params: Record<string, string>): unknown {
+  if (typeof node === 'string') {
+    return node.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => params[name] ?? placeholder);
+  }
+  if (Array.isArray(node)) {
+    return node.map((item) => fillPlaceholders(item, params));
+  }
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, fillPlaceholders(value, params)])
+    );
+  }
+  return node;
+}
+
+/**
+ * Load a scenario from a JSON file
+ */
+export async function loadScenario(file: string): Promise<FakeSenadoScenario> {
+  const scenario = JSON.parse(await readFile(file, 'utf-8')) as FakeSenadoScenario;
+  if (!scenario.routes || typeof scenario.routes !== 'object') {
+    throw new Error(`Scenario ${file} has no routes`);
+  }
+  return scenario;
+}
+
+/**
+ * Local HTTP server answering like the Senado Dados Abertos API
+ */
+export class FakeSenadoServer {
+  private readonly basePath: string;
+  private readonly exact = new Map<string, unknown>();
+  private readonly templates: CompiledRoute[] = [];
+  private readonly latency: number;
+  private faults: Array<FakeSenadoFault & { remaining: number }> = [];
+  private server: Server | null = null;
+
+  /**
+   * Requests received since start, oldest first
+   */
+  readonly requests: FakeSenadoRequest[] = [];
+
+  constructor(options: FakeSenadoOptions) {
+    this.basePath = `/${splitPath(options.basePath ?? DEFAULT_BASE_PATH).join('/')}`.replace(/\/$/, '');
+    this.latency = options.latency ?? 0;
+
+    for (const [route, body] of Object.entries(options.scenario.routes)) {
+      if (route.includes('/:')) {
+        this.templates.push({ template: route, segments: splitPath(route), body });
+      } else {
+        this.exact.set(`/${splitPath(route).join('/')}`, body);
+      }
+    }
+    // More literal segments first, so /senador/partidos beats /senador/:codigo
+    this.templates.sort((a, b) => literalCount(b) - literalCount(a));
+
+    for (const fault of options.faults ?? []) {
+      this.inject(fault);
+    }
+  }
+
+  /**
+   * Start listening; resolves to the base URL to use as apiBaseUrl
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    if (this.server) {
+      throw new Error('Fake Senado server already started');
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error: Error) => {
+        if (!res.headersSent) {
+          this.sendError(res, 500, error.message);
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}${this.basePath}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * Make the requests matching a path fail or slow down
+   */
+  inject(fault: FakeSenadoFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? Number.POSITIVE_INFINITY });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const path = url.pathname.startsWith(`${this.basePath}/`) ? url.pathname.slice(this.basePath.length) : url.pathname;
+    const record: FakeSenadoRequest = { method, path, query: Object.fromEntries(url.searchParams), status: 0 };
+    this.requests.push(record);
+
+    const fault = this.takeFault(path);
+    const delay = this.latency + (fault?.latency ?? 0);
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    if (fault?.status === 0) {
+      record.status = 0;
+      req.socket.destroy();
+      return;
+    }
+
+    if (fault && (fault.status !== undefined || fault.latency === undefined)) {
+      record.status = fault.status ?? DEFAULT_FAULT_STATUS;
+      this.sendError(res, record.status, 'Falha injetada no servidor de testes');
+      return;
+    }
+
+    if (method !== 'GET') {
+      record.status = 405;
+      this.sendError(res, 405, `Método ${method} não suportado`);
+      return;
+    }
+
+    const body = this.resolve(path);
+    if (body === undefined) {
+      record.status = 404;
+      this.sendError(res, 404, `Recurso ${path} não encontrado`);
+      return;
+    }
+
+    record.status = 200;
+    if (wantsJson(req)) {
+      this.sendJson(res, 200, body);
+    } else {
+      this.sendXml(res, 200, body);
+    }
+  }
+
+  private resolve(path: string): unknown {
+    const normalized = `/${splitPath(path).join('/')}`;
+    if (this.exact.has(normalized)) {
+      return this.exact.get(normalized);
+    }
+
+    const segments = splitPath(path);
+    for (const route of this.templates) {
+      const params = matchSegments(route.segments, segments);
+      if (params) {
+        return fillPlaceholders(route.body, params);
+      }
+    }
+    return undefined;
+  }
+
+  private takeFault(path: string): FakeSenadoFault | undefined {
+    const fault = this.faults.find((candidate) => candidate.remaining > 0 && faultMatches(candidate.path, path));
+    if (fault) {
+      fault.remaining -= 1;
+    }
+    return fault;
+  }
+
+  private sendXml(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'text/xml; charset=UTF-8' });
+    res.end(renderXml(body));
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=UTF-8' });
+    res.end(renderJson(body));
+  }
+
+  private sendError(res: ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/xml; charset=UTF-8' });
+    res.end(`${XML_DECLARATION}<Erro><Codigo>${status}</Codigo><Mensagem>${escapeXml(message)}</Mensagem></Erro>\n`);
+  }
+}
+
+function literalCount(route: CompiledRoute): number {
+  return route.segments.filter((segment) => !segment.startsWith(':')).length;
+}
+
+function matchSegments(template: string[], segments: string[]): Record<string, string> | null {
+  if (template.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [index, part] of template.entries()) {
+    const value = decodeURIComponent(segments[index]!);
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = value;
+    } else if (part !== value) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function faultMatches(pattern: string, path: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith('*')) {
+    return path.startsWith(pattern.slice(0, -1));
+  }
+  return matchSegments(splitPath(pattern), splitPath(path)) !== null;
+}
+
+/**
+ * Create a fake server from a scenario file
+ */
+export async function createFakeSenadoServer(
+  scenarioFile: string,
+  options: Omit<FakeSenadoOptions, 'scenario'> = {}
+): Promise<FakeSenadoServer> {
+  return new FakeSenadoServer({ ...options, scenario: await loadScenario(scenarioFile) });
+}
@@ -0,0 +1,103 @@
+/**
+ * Compare the XML and JSON response parsers on a large listing
+ *
+ *   npm run bench:parsers -- --items 20000 --runs 20 --route /votacao
+ *
+ * Grows the first list of a fake-senado scenario route to --items entries,
+ * renders it as the API's XML and JSON, checks both parse to the same tree
+ * and times each parser.
+ */
+
+import process from 'node:process';
+import { performance } from 'node:perf_hooks';
+import { fileURLToPath } from 'node:url';
+import { isDeepStrictEqual, parseArgs } from 'node:util';
+import { createResponseParser } from '../lib/infrastructure/response-parsers.js';
+import { RESPONSE_FORMATS } from '../lib/types/index.js';
+import { loadScenario, renderJson, renderXml } from './fake-senado/server.js';
+
+const DEFAULT_SCENARIO = fileURLToPath(new URL('./fake-senado/scenarios/default.json', import.meta.url));
+
+interface Grown {
+  tree: unknown;
+  grown: boolean;
+}
+
+/**
+ * Copy of a response tree whose first list holds `items` entries
+ */
+function growFirstList(node: unknown, items: number): Grown {
+  if (Array.isArray(node)) {
+    const tree = Array.from({ length: items }, (_, index) => node[index % node.length]);
+    return { tree, grown: true };
+  }
+  if (node && typeof node === 'object') {
+    const tree: Record<string, unknown> = {};
+    let grown = false;
+    for (const [key, value] of Object.entries(node)) {
+      const child: Grown = grown ? { tree: value, grown } : growFirstList(value, items);
+      tree[key] = child.tree;
+      grown = child.grown;
+    }
+    return { tree, grown };
+  }
+  return { tree: node, grown: false };
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      scenario: { type: 'string', default: DEFAULT_SCENARIO },
+      route: { type: 'string', default: '/senador/lista/atual' },
+      items: { type: 'string', default: '10000' },
+      runs: { type: 'string', default: '10' },
+    },
+  });
+
+  const scenario = await loadScenario(values.scenario);
+  const route = scenario.routes[values.route];
+  if (route === undefined) {
+    throw new Error(`Route ${values.route} not found in ${values.scenario}`);
+  }
+
+  const { tree, grown } = growFirstList(route, Number(values.items));
+  if (!grown) {
+    throw new Error(`Route ${values.route} has no list to grow`);
+  }
+
+  const runs = Number(values.runs);
+  const bodies = { xml: renderXml(tree), json: renderJson(tree) };
+  const results = RESPONSE_FORMATS.map((format) => {
+    const parser = createResponseParser(format);
+    const parsed = parser.parse(bodies[format]); // Also warms up
+    const started = performance.now();
+    for (let run = 0; run < runs; run++) {
+      parser.parse(bodies[format]);
+    }
+    const perParse = (performance.now() - started) / runs;
+    const size = Buffer.byteLength(bodies[format]);
+
+    return {
+      format,
+      parsed,
+      row: {
+        format,
+        'size (KB)': Math.round(size / 1024),
+        'ms/parse': Number(perParse.toFixed(2)),
+        'MB/s': Number((size / 1024 / 1024 / (perParse / 1000)).toFixed(1)),
+      },
+    };
+  });
+
+  console.log(`${values.route}: ${values.items} items, ${runs} runs`);
+  console.table(results.map((result) => result.row));
+
+  const identical = isDeepStrictEqual(results[0]!.parsed, results[1]!.parsed);
+  console.log(identical ? 'XML and JSON parse to the same tree' : 'XML and JSON parse to DIFFERENT trees');
+  process.exitCode = identical ? 0 : 1;
+}
+
+main().catch((error: Error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -11,6 +11,20 @@ type TestDefinition = {
 };
 
 const tests: TestDefinition[] = [
+  {
+    name: 'mcp_initialize',
+    path: '/mcp',
+    body: {
+      jsonrpc: '2.0',
+      id: 'smoke-init',
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-03-26',
+        capabilities: {},
+        clientInfo: { name: 'smoke-test', version: '1.0.0' },
+      },
+    },
+  },
   {
     name: 'mcp_tools_list',
     path: '/mcp',
@@ -41,14 +55,25 @@ const tests: TestDefinition[] = [
   { name: 'votacoes', path: '/api/tools/votacoes_listar', body: { data: '2023-12-12', itens: 1 } },
 ];
 
+// Streamable HTTP session opened by mcp_initialize
+let sessionId: string | null = null;
+
 async function runTest(test: TestDefinition): Promise<void> {
   const method = test.method ?? 'POST';
   const url = new URL(test.path, BASE_URL);
   const response = await fetch(url.toString(), {
     method,
-    headers: method === 'POST' ? { 'Content-Type': 'application/json' } : undefined,
+    headers:
+      method === 'POST'
+        ? {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
+            ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+          }
+        : undefined,
     body: method === 'POST' ? JSON.stringify(test.body ?? {}) : undefined,
   });
+  sessionId = response.headers.get('Mcp-Session-Id') ?? sessionId;
 
   if (!response.ok) {
     const text = await response.text();
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { forwardLogs, isLevelEnabled, isLoggingLevel, sessionLogger } from '../../lib/core/logging.js';
+import { createLogger } from '../../lib/infrastructure/logger.js';
+import { LogLevel, type LoggingLevel } from '../../lib/types/index.js';
+
+const createQuietLogger = () => createLogger({ level: LogLevel.ERROR, format: 'json', maskPII: false });
+
+describe('MCP logging', () => {
+  it('should order levels by severity', () => {
+    expect(isLoggingLevel('notice')).toBe(true);
+    expect(isLoggingLevel('WARN')).toBe(false);
+    expect(isLevelEnabled('error', 'warning')).toBe(true);
+    expect(isLevelEnabled('info', 'warning')).toBe(false);
+    expect(isLevelEnabled('warning', 'warning')).toBe(true);
+  });
+
+  it('should forward entries below the logger level, at or above the minimum level', () => {
+    const logger = createQuietLogger();
+    const send = vi.fn();
+    let level: LoggingLevel = 'warning';
+    const stop = forwardLogs(logger, () => level, send);
+
+    logger.info('Cache limpo');
+    logger.warn('Nova tentativa', { tentativa: 1 });
+    level = 'debug';
+    logger.debug('Cache miss', { key: 'senadores' });
+    stop();
+    logger.warn('Depois do fim');
+
+    expect(send.mock.calls.map(([notification]) => notification.params)).toEqual([
+      { level: 'warning', logger: 'mcp-senado', data: { message: 'Nova tentativa', tentativa: 1 } },
+      { level: 'debug', logger: 'mcp-senado', data: { message: 'Cache miss', key: 'senadores' } },
+    ]);
+  });
+
+  it('should forward only the entries logged for the session', () => {
+    const logger = createQuietLogger();
+    const send = vi.fn();
+    forwardLogs(logger, () => 'debug', send, 'sessao-1');
+
+    logger.info('Servidor');
+    sessionLogger(logger, 'sessao-2').info('Outra sessão');
+    sessionLogger(logger, 'sessao-1').info('Consulta', { tool: 'senador_obter' });
+
+    expect(send.mock.calls.map(([notification]) => notification.params.data)).toEqual([
+      { message: 'Consulta', sessionId: 'sessao-1', tool: 'senador_obter' },
+    ]);
+  });
+
+  it('should not loop when sending logs, nor fail when sending fails', () => {
+    const logger = createQuietLogger();
+    const send = vi.fn(() => {
+      logger.warn('Falha ao enviar');
+      throw new Error('Not connected');
+    });
+    forwardLogs(logger, () => 'debug', send);
+
+    expect(() => logger.warn('Nova tentativa')).not.toThrow();
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should do nothing for loggers without subscribers', () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+    expect(() => forwardLogs(logger, () => 'debug', vi.fn())()).not.toThrow();
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_MAX_CHARACTERS,
+  renderToolOutput,
+  splitOutputOptions,
+  summarizeData,
+  toMarkdown,
+  withOutputOptions,
+} from '../../lib/core/output.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { OutputValidationError, ValidationError } from '../../lib/core/errors.js';
+import { processMCPRequest } from '../../lib/core/mcp-transport.js';
+import { PartidoOutputSchema, listOutputSchema } from '../../lib/core/validation.js';
+import type { OutputOptions, ToolContext } from '../../lib/types/index.js';
+
+const options = (overrides: Partial<OutputOptions> = {}): OutputOptions => ({
+  formato: 'completo',
+  maxCaracteres: DEFAULT_MAX_CHARACTERS,
+  continuarDe: 0,
+  continuarDoCaractere: 0,
+  ...overrides,
+});
+
+const senators = Array.from({ length: 50 }, (_, index) => ({
+  codigo: index + 1,
+  nome: `Senador ${index + 1}`,
+  partido: index % 2 === 0 ? 'PT' : 'PL',
+  mandatos: [{ legislaturas: [57] }],
+}));
+
+describe('Tool Output Layer', () => {
+  describe('splitOutputOptions', () => {
+    it('should return defaults and untouched args when no option is given', () => {
+      const args = { codigo: 1 };
+      const result = splitOutputOptions(args, 'senador_detalhes');
+
+      expect(result.args).toBe(args);
+      expect(result.options).toEqual(options());
+    });
+
+    it('should remove output options from tool args', () => {
+      const result = splitOutputOptions(
+        { codigo: 1, formato: 'markdown', maxCaracteres: 1000, continuarDe: 10, continuarDoCaractere: 5 },
+        'senador_detalhes'
+      );
+
+      expect(result.args).toEqual({ codigo: 1 });
+      expect(result.options).toEqual({
+        formato: 'markdown',
+        maxCaracteres: 1000,
+        continuarDe: 10,
+        continuarDoCaractere: 5,
+      });
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => splitOutputOptions({ formato: 'xml' }, 'senador_detalhes')).toThrow(ValidationError);
+    });
+  });
+
+  describe('withOutputOptions', () => {
+    it('should add the common options without overriding tool properties', () => {
+      const schema = withOutputOptions({
+        type: 'object',
+        properties: { codigo: { type: 'number' } },
+        required: ['codigo'],
+      });
+
+      expect(schema['required']).toEqual(['codigo']);
+      expect(Object.keys(schema['properties'] as object)).toEqual(
+        expect.arrayContaining(['codigo', 'formato', 'maxCaracteres', 'continuarDe'])
+      );
+    });
+  });
+
+  describe('formats', () => {
+    it('should render completo with title and pretty JSON', () => {
+      const result = renderToolOutput({ title: 'Detalhes', data: { codigo: 1 } }, options());
+      expect(result.content[0]!.text).toBe('Detalhes:\n\n{\n  "codigo": 1\n}');
+    });
+
+    it('should render json without title', () => {
+      const result = renderToolOutput({ title: 'Detalhes', data: { codigo: 1 } }, options({ formato: 'json' }));
+      expect(JSON.parse(result.content[0]!.text)).toEqual({ codigo: 1 });
+    });
+
+    it('should summarize nested lists as counts', () => {
+      expect(summarizeData([{ codigo: 1, mandatos: [{ a: 1 }, { a: 2 }], email: null }])).toEqual([
+        { codigo: 1, mandatos: '2 itens' },
+      ]);
+    });
+
+    it('should render record lists as markdown tables', () => {
+      const result = renderToolOutput(
+        { title: 'Senadores', data: senators.slice(0, 2) },
+        options({ formato: 'markdown' })
+      );
+      const text = result.content[0]!.text;
+
+      expect(text).toContain('## Senadores');
+      expect(text).toContain('| codigo | nome | partido | mandatos |');
+      expect(text).toContain('| 1 | Senador 1 | PT | 1 itens |');
+    });
+
+    it('should render objects as bullets and sections', () => {
+      const markdown = toMarkdown({ codigo: 1, nome: 'A | B', votos: [{ voto: 'SIM' }] });
+
+      expect(markdown).toContain('- **nome**: A \\| B');
+      expect(markdown).toContain('### votos');
+    });
+  });
+
+  describe('budget', () => {
+    it('should page list items and give a continuation hint', () => {
+      const first = renderToolOutput({ title: 'Senadores', data: senators }, options({ maxCaracteres: 1000 }));
+      const text = first.content[0]!.text;
+      const next = Number(/"continuarDe": (\d+)/.exec(text)![1]);
+
+      expect(text).toContain('Resultado truncado');
+      expect(next).toBeGreaterThan(0);
+      expect(text.split('\n---\n')[0]!.length).toBeLessThanOrEqual(1000);
+
+      const second = renderToolOutput(
+        { title: 'Senadores', data: senators },
+        options({ maxCaracteres: 1000, continuarDe: next })
+      );
+      expect(second.content[0]!.text).toContain(`"codigo": ${next + 1}`);
+    });
+
+    it('should truncate non-list output by characters', () => {
+      const data = { texto: 'x'.repeat(3000) };
+      const result = renderToolOutput({ title: 'Texto', data }, options({ maxCaracteres: 1000 }));
+
+      expect(result.content[0]!.text).toContain('exibidos os caracteres 1–1000');
+      expect(result.content[0]!.text).toContain('"continuarDoCaractere": 1000');
+
+      const next = renderToolOutput({ title: 'Texto', data }, options({ maxCaracteres: 1000, continuarDoCaractere: 1000 }));
+      expect(next.content[0]!.text).toContain('exibidos os caracteres 1001–2000');
+    });
+
+    it('should page structuredContent like the text', () => {
+      const structured = { itens: senators };
+
+      const first = renderToolOutput({ title: 'Senadores', data: senators }, options({ maxCaracteres: 1000 }), structured);
+      const next = Number(/"continuarDe": (\d+)/.exec(first.content[0]!.text)![1]);
+
+      expect(first.structuredContent?.['itens']).toEqual(senators.slice(0, next));
+      expect(first.structuredContent?.['continuacao']).toEqual({
+        itens: { inicio: 1, fim: next, total: 50 },
+        continuarDe: next,
+      });
+
+      const last = renderToolOutput(
+        { title: 'Senadores', data: senators },
+        options({ maxCaracteres: 1000, continuarDe: 48 }),
+        structured
+      );
+      expect(last.structuredContent).toEqual({
+        itens: senators.slice(48),
+        continuacao: { itens: { inicio: 49, fim: 50, total: 50 } },
+      });
+    });
+
+    it('should fit structuredContent to the budget when the text is cut by characters', () => {
+      const data = { codigo: 1, nome: 'Matéria', textos: Array.from({ length: 100 }, (_, index) => ({ texto: `${index}`.repeat(40) })) };
+
+      const result = renderToolOutput({ title: 'Matéria', data }, options({ maxCaracteres: 1000 }), data);
+      const structured = result.structuredContent!;
+
+      expect(JSON.stringify(structured).length).toBeLessThanOrEqual(1200);
+      expect(structured).toMatchObject({ codigo: 1, nome: 'Matéria' });
+      expect((structured['textos'] as unknown[]).length).toBeGreaterThan(0);
+      expect((structured['textos'] as unknown[]).length).toBeLessThan(100);
+      expect(structured['continuacao']).toMatchObject({ continuarDoCaractere: 1000 });
+    });
+
+    it('should leave structuredContent whole when the result fits', () => {
+      const structured = { itens: senators.slice(0, 2) };
+
+      const result = renderToolOutput({ title: 'Senadores', data: structured.itens }, options(), structured);
+
+      expect(result.structuredContent).toBe(structured);
+    });
+
+    it('should apply the budget to legacy text results', () => {
+      const result = renderToolOutput(
+        { content: [{ type: 'text', text: 'y'.repeat(2000) }] },
+        options({ maxCaracteres: 500 })
+      );
+
+      expect(result.content[0]!.text).toContain('"continuarDoCaractere": 500');
+    });
+  });
+
+  describe('ToolRegistry integration', () => {
+    it('should render handler output and strip output options from args', async () => {
+      const registry = new ToolRegistry();
+      const handler = vi.fn().mockResolvedValue({ title: 'Partidos', data: [{ sigla: 'PT' }] });
+
+      registry.register({
+        name: 'partidos_teste',
+        description: 'Test',
+        inputSchema: { type: 'object', properties: {} },
+        handler,
+        category: 'test',
+      });
+
+      const result = await registry.invoke('partidos_teste', { pagina: 1, formato: 'json' }, {} as ToolContext);
+
+      expect(handler).toHaveBeenCalledWith({ pagina: 1 }, {});
+      expect(JSON.parse(result.content[0]!.text)).toEqual([{ sigla: 'PT' }]);
+      expect(registry.get('partidos_teste').inputSchema['properties']).toHaveProperty('formato');
+    });
+
+    it('should attach structuredContent validated against the outputSchema', async () => {
+      const registry = new ToolRegistry();
+      registry.register({
+        name: 'partidos_teste',
+        description: 'Test',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: listOutputSchema(PartidoOutputSchema),
+        handler: vi.fn().mockResolvedValue({
+          title: 'Partidos',
+          data: [{ codigo: 11, sigla: 'PT', ativo: true, extra: 'x' }],
+        }),
+        category: 'test',
+      });
+
+      const result = await registry.invoke('partidos_teste', { formato: 'markdown' }, {} as ToolContext);
+
+      expect(result.content[0]!.text).toContain('## Partidos');
+      expect(result.structuredContent).toEqual({ itens: [{ codigo: 11, sigla: 'PT', ativo: true }] });
+      expect(registry.getOutputSchema('partidos_teste')).toMatchObject({
+        type: 'object',
+        properties: { itens: { type: 'array' } },
+      });
+    });
+
+    it('should reject output that does not match the outputSchema', async () => {
+      const registry = new ToolRegistry();
+      registry.register({
+        name: 'partido_teste',
+        description: 'Test',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: PartidoOutputSchema,
+        handler: vi.fn().mockResolvedValue({ title: 'Partido', data: { codigo: 'onze' } }),
+        category: 'test',
+      });
+
+      await expect(registry.invoke('partido_teste', {}, {} as ToolContext)).rejects.toThrow(OutputValidationError);
+    });
+
+    it('should advertise outputSchema in the JSON-RPC tools/list', async () => {
+      const registry = new ToolRegistry();
+      registry.register({
+        name: 'partido_teste',
+        description: 'Test',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: PartidoOutputSchema,
+        handler: vi.fn(),
+        category: 'test',
+      });
+
+      const response = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+        { toolRegistry: registry, logger: {} as any }
+      );
+
+      expect((response.result as any).tools[0].outputSchema.required).toEqual(['codigo', 'sigla', 'ativo']);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createToolPipeline, type ToolMiddleware, ToolPipeline } from '../../lib/core/pipeline.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { CircuitBreakerError, SenadoAPIError, ToolForbiddenError, ValidationError } from '../../lib/core/errors.js';
+import { createCircuitBreaker } from '../../lib/infrastructure/circuit-breaker.js';
+import { LRUCache } from '../../lib/infrastructure/cache.js';
+import { SenadoHttpClient } from '../../lib/infrastructure/http-client.js';
+import type { Logger, RateLimiter, ToolContext, ToolMetric } from '../../lib/types/index.js';
+
+const createMockLogger = () =>
+  ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    logToolInvocation: vi.fn(),
+    logCacheHit: vi.fn(),
+    logCacheMiss: vi.fn(),
+  }) as unknown as Logger & Record<string, ReturnType<typeof vi.fn>>;
+
+describe('Tool pipeline', () => {
+  let registry: ToolRegistry;
+  let handler: ReturnType<typeof vi.fn>;
+  let logger: ReturnType<typeof createMockLogger>;
+  let context: ToolContext;
+
+  beforeEach(() => {
+    handler = vi.fn(async () => ({ content: [{ type: 'text', text: 'ok' }] }));
+    registry = new ToolRegistry();
+    registry.register({
+      name: 'senador_detalhes',
+      description: 'Details of a senator',
+      inputSchema: { type: 'object', properties: { codigo: { type: 'number' } }, required: ['codigo'] },
+      handler,
+      category: 'senator',
+    });
+    logger = createMockLogger();
+    context = {
+      logger,
+      cache: new LRUCache({ ttl: 60000, maxSize: 10, cleanupInterval: 60000 }, logger),
+      config: { cacheEnabled: true, rateLimitEnabled: true },
+    } as unknown as ToolContext;
+  });
+
+  it('should run the middleware in order around the tool', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): ToolMiddleware =>
+      async (invocation, next) => {
+        calls.push(`${name}:before`);
+        const result = await next(invocation);
+        calls.push(`${name}:after`);
+        return result;
+      };
+    handler.mockImplementation(async () => {
+      calls.push('tool');
+      return { content: [{ type: 'text', text: 'ok' }] };
+    });
+
+    await new ToolPipeline(registry, [trace('outer'), trace('inner')]).execute('senador_detalhes', { codigo: 1 }, context);
+
+    expect(calls).toEqual(['outer:before', 'inner:before', 'tool', 'inner:after', 'outer:after']);
+  });
+
+  it('should serve repeated calls from the cache and report it', async () => {
+    const pipeline = createToolPipeline(registry, { logger });
+
+    const first = await pipeline.execute('senador_detalhes', { codigo: 1 }, context);
+    const second = await pipeline.execute('senador_detalhes', { codigo: 1 }, context);
+
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ cached: true, result: first.result });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(logger.logCacheMiss).toHaveBeenCalledTimes(1);
+    expect(logger.logCacheHit).toHaveBeenCalledWith(second.cacheKey);
+  });
+
+  it('should skip disabled middleware', async () => {
+    const pipeline = createToolPipeline(registry, { middleware: ['logging'], logger });
+
+    await pipeline.execute('senador_detalhes', { codigo: 1 }, context);
+    const second = await pipeline.execute('senador_detalhes', { codigo: 1 }, context);
+
+    expect(second.cached).toBe(false);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(logger.logToolInvocation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject arguments without required properties before the rate limiter', async () => {
+    const rateLimiter = { checkLimit: vi.fn(async () => true) } as unknown as RateLimiter;
+    const pipeline = createToolPipeline(registry);
+
+    await expect(pipeline.execute('senador_detalhes', {}, { ...context, rateLimiter })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(pipeline.execute('senador_detalhes', [1], { ...context, rateLimiter })).rejects.toThrow(
+      'arguments must be an object'
+    );
+    expect(rateLimiter.checkLimit).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should only run tools within the caller scopes', async () => {
+    const pipeline = createToolPipeline(registry);
+
+    await expect(
+      pipeline.execute('senador_detalhes', { codigo: 1 }, { ...context, scopes: ['voting'] })
+    ).rejects.toThrow(ToolForbiddenError);
+    await pipeline.execute('senador_detalhes', { codigo: 1 }, { ...context, scopes: ['senator'] });
+    await pipeline.execute('senador_detalhes', { codigo: 2 }, { ...context, scopes: ['*'] });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject calls over the rate limit', async () => {
+    const rateLimiter = { checkLimit: vi.fn(async () => false) } as unknown as RateLimiter;
+
+    await expect(
+      createToolPipeline(registry).execute('senador_detalhes', { codigo: 1 }, { ...context, rateLimiter })
+    ).rejects.toThrow('Rate limit exceeded');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should record one metric per invocation', async () => {
+    const metrics: ToolMetric[] = [];
+    const pipeline = createToolPipeline(registry, { metrics: (metric) => metrics.push(metric) });
+
+    await pipeline.execute('senador_detalhes', { codigo: 1 }, context);
+    await pipeline.execute('senador_detalhes', { codigo: 1 }, context);
+    handler.mockRejectedValueOnce(new Error('boom'));
+    await expect(pipeline.execute('senador_detalhes', { codigo: 2 }, context)).rejects.toThrow('boom');
+
+    expect(metrics.map(({ tool, category, outcome, cached }) => ({ tool, category, outcome, cached }))).toEqual([
+      { tool: 'senador_detalhes', category: 'senator', outcome: 'success', cached: false },
+      { tool: 'senador_detalhes', category: 'senator', outcome: 'success', cached: true },
+      { tool: 'senador_detalhes', category: 'senator', outcome: 'error', cached: false },
+    ]);
+  });
+
+  it('should count each upstream failure of multi-request tools and fail fast once the circuit opens', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}', { status: 503, statusText: 'Service Unavailable' }));
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 2, successThreshold: 1, timeout: 60000 }, logger);
+    const httpClient = new SenadoHttpClient(
+      { baseUrl: 'https://legis.senado.leg.br/dadosabertos', timeout: 5000, maxRetries: 0, retryDelay: 1, fetch: fetchMock },
+      logger,
+      circuitBreaker
+    );
+    // Like the aggregation tools: failed requests are skipped, the invocation succeeds
+    handler.mockImplementation(async () => {
+      for (const codigo of [1, 2]) {
+        await httpClient.get(`/senador/${codigo}`).catch(() => undefined);
+      }
+      return { content: [{ type: 'text', text: 'ok' }] };
+    });
+    const pipeline = createToolPipeline(registry, { middleware: ['circuitBreaker'], circuitBreaker });
+
+    await pipeline.execute('senador_detalhes', { codigo: 1 }, context);
+    expect(circuitBreaker.getState()).toBe('OPEN');
+
+    await expect(pipeline.execute('senador_detalhes', { codigo: 1 }, context)).rejects.toThrow(CircuitBreakerError);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let invocations through once the open circuit may be retried', async () => {
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 1, successThreshold: 1, timeout: 0 }, logger);
+    await expect(circuitBreaker.execute(async () => {
+      throw new SenadoAPIError('Service Unavailable', 503, '/senador/1');
+    })).rejects.toThrow(SenadoAPIError);
+
+    await createToolPipeline(registry, { middleware: ['circuitBreaker'], circuitBreaker })
+      .execute('senador_detalhes', { codigo: 1 }, context);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(circuitBreaker.getState()).toBe('HALF_OPEN');
+  });
+
+  it('should log failures once', async () => {
+    handler.mockRejectedValue(new Error('boom'));
+
+    await expect(
+      createToolPipeline(registry, { logger }).execute('senador_detalhes', { codigo: 1 }, context)
+    ).rejects.toThrow('boom');
+
+    expect(logger.error).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith('Tool invocation failed', expect.any(Error), expect.objectContaining({
+      tool: 'senador_detalhes',
+    }));
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createProgressReporter, getProgressToken } from '../../lib/core/progress.js';
+import type { Logger } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+describe('Progress notifications', () => {
+  it('should read the progressToken from the request _meta', () => {
+    expect(getProgressToken({ _meta: { progressToken: 'abc' } })).toBe('abc');
+    expect(getProgressToken({ _meta: { progressToken: 7 } })).toBe(7);
+    expect(getProgressToken({ _meta: { progressToken: { id: 1 } } })).toBeUndefined();
+    expect(getProgressToken({ name: 'comissoes_listar' })).toBeUndefined();
+    expect(getProgressToken(undefined)).toBeUndefined();
+  });
+
+  it('should send notifications/progress and drop updates that do not move forward', () => {
+    const send = vi.fn();
+    const report = createProgressReporter('abc', send, logger);
+
+    report({ progress: 1, total: 5, message: 'Comissões carregadas: cpi' });
+    report({ progress: 1, total: 5 });
+    report({ progress: 2 });
+
+    expect(send.mock.calls.map(([notification]) => notification)).toEqual([
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken: 'abc', progress: 1, total: 5, message: 'Comissões carregadas: cpi' },
+      },
+      { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'abc', progress: 2 } },
+    ]);
+  });
+
+  it('should not fail the tool when sending fails', async () => {
+    const report = createProgressReporter(
+      1,
+      () => Promise.reject(new Error('Not connected')),
+      logger
+    );
+    const throwing = createProgressReporter(
+      2,
+      () => {
+        throw new Error('Not connected');
+      },
+      logger
+    );
+
+    expect(() => report({ progress: 1 })).not.toThrow();
+    expect(() => throwing({ progress: 1 })).not.toThrow();
+    await vi.waitFor(() => expect(logger.debug).toHaveBeenCalledTimes(2));
+  });
+});
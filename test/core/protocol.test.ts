@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LATEST_PROTOCOL_VERSION,
+  capabilitiesForVersion,
+  negotiateProtocolVersion,
+  supportsFeature,
+  toolMetadataForVersion,
+  toolResultForVersion,
+} from '../../lib/core/protocol.js';
+import { processMCPRequest } from '../../lib/core/mcp-transport.js';
+import { READ_ONLY_TOOL_ANNOTATIONS, ToolRegistry } from '../../lib/core/tools.js';
+import { CompletionRegistry } from '../../lib/core/completions.js';
+import { ComissaoOutputSchema, listOutputSchema } from '../../lib/core/validation.js';
+import type { Logger } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+function createToolRegistry() {
+  const registry = new ToolRegistry();
+  registry.register({
+    name: 'comissoes_listar',
+    description: 'Test',
+    inputSchema: { type: 'object', properties: {} },
+    outputSchema: listOutputSchema(ComissaoOutputSchema),
+    handler: vi.fn(async () => ({
+      title: 'Comissões',
+      data: [{ codigo: 34, sigla: 'CAE', ativa: true }],
+    })),
+    category: 'committee',
+  });
+  return registry;
+}
+
+describe('Protocol version negotiation', () => {
+  it('should accept supported revisions as requested', () => {
+    expect(negotiateProtocolVersion('2025-06-18')).toBe('2025-06-18');
+    expect(negotiateProtocolVersion('2025-03-26')).toBe('2025-03-26');
+    expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05');
+  });
+
+  it('should fall back to the newest older revision, or the latest one', () => {
+    expect(negotiateProtocolVersion('2025-09-01')).toBe('2025-06-18');
+    expect(negotiateProtocolVersion('2025-04-01')).toBe('2025-03-26');
+    expect(negotiateProtocolVersion('2024-10-07')).toBe(LATEST_PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion('draft')).toBe(LATEST_PROTOCOL_VERSION);
+    expect(negotiateProtocolVersion(undefined)).toBe(LATEST_PROTOCOL_VERSION);
+  });
+
+  it('should gate features on the revision', () => {
+    expect(supportsFeature('2024-11-05', 'streamableHttp')).toBe(false);
+    expect(supportsFeature('2025-03-26', 'streamableHttp')).toBe(true);
+    expect(supportsFeature('2025-03-26', 'structuredContent')).toBe(false);
+    expect(supportsFeature('2025-06-18', 'structuredContent')).toBe(true);
+
+    expect(capabilitiesForVersion({ tools: {}, completions: {} }, '2024-11-05')).toEqual({ tools: {} });
+    expect(
+      toolResultForVersion({ content: [], structuredContent: { itens: [] } }, '2025-03-26')
+    ).toEqual({ content: [] });
+  });
+
+  it('should list tool titles and annotations on the revisions that have them', () => {
+    const tool = createToolRegistry().get('comissoes_listar');
+    const annotated = { ...tool, title: 'Listar comissões', annotations: READ_ONLY_TOOL_ANNOTATIONS };
+
+    expect(toolMetadataForVersion(annotated, '2025-06-18')).toEqual({
+      title: 'Listar comissões',
+      annotations: { title: 'Listar comissões', ...READ_ONLY_TOOL_ANNOTATIONS },
+    });
+    expect(toolMetadataForVersion(annotated, '2025-03-26')).toEqual({
+      annotations: { title: 'Listar comissões', ...READ_ONLY_TOOL_ANNOTATIONS },
+    });
+    expect(toolMetadataForVersion(annotated, '2024-11-05')).toEqual({});
+    expect(toolMetadataForVersion(tool, '2025-06-18')).toEqual({});
+  });
+
+  describe('JSON-RPC transport', () => {
+    const initialize = (protocolVersion?: string) =>
+      processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion } },
+        { toolRegistry: createToolRegistry(), completionRegistry: new CompletionRegistry(), logger }
+      );
+
+    it('should answer initialize with the negotiated revision', async () => {
+      const latest = (await initialize('2025-06-18')).result as any;
+      expect(latest.protocolVersion).toBe('2025-06-18');
+      expect(latest.capabilities.completions).toEqual({});
+
+      const legacy = (await initialize('2024-11-05')).result as any;
+      expect(legacy.protocolVersion).toBe('2024-11-05');
+      expect(legacy.capabilities.completions).toBeUndefined();
+    });
+
+    it('should leave out output schemas and structured content before 2025-06-18', async () => {
+      const toolRegistry = createToolRegistry();
+      const list = (protocolVersion: string) =>
+        processMCPRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { toolRegistry, logger, protocolVersion });
+      const call = (protocolVersion: string) =>
+        processMCPRequest(
+          { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'comissoes_listar', arguments: {} } },
+          { toolRegistry, logger, protocolVersion }
+        );
+
+      expect(((await list('2025-06-18')).result as any).tools[0].outputSchema).toBeDefined();
+      expect(((await list('2025-03-26')).result as any).tools[0]).not.toHaveProperty('outputSchema');
+
+      expect(((await call('2025-06-18')).result as any).structuredContent).toBeDefined();
+      const legacy = (await call('2025-03-26')).result as any;
+      expect(legacy).not.toHaveProperty('structuredContent');
+      expect(legacy.content[0].type).toBe('text');
+    });
+
+    it('should not serve completions before 2025-03-26', async () => {
+      const response = await processMCPRequest(
+        {
+          jsonrpc: '2.0',
+          id: 4,
+          method: 'completion/complete',
+          params: { ref: { type: 'ref/prompt', name: 'x' }, argument: { name: 'uf', value: 's' } },
+        },
+        {
+          toolRegistry: createToolRegistry(),
+          completionRegistry: new CompletionRegistry(),
+          logger,
+          protocolVersion: '2024-11-05',
+        }
+      );
+
+      expect(response.error?.code).toBe(-32601);
+    });
+  });
+});
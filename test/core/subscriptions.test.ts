@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createResourcePoller,
+  isSubscribableUri,
+  materiaCodeFromUri,
+  toSenadoDateTime,
+} from '../../lib/core/subscriptions.js';
+import { createSubscriptionStore } from '../../lib/infrastructure/subscription-store.js';
+import type { ToolRegistry } from '../../lib/core/tools.js';
+import type { CacheInterface, Logger, SubscriptionStore, ToolContext, ToolResult } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+const updates = (...codigos: number[]): ToolResult => ({
+  content: [{ type: 'text', text: JSON.stringify(codigos.map((codigo) => ({ codigo }))) }],
+  structuredContent: { itens: codigos.map((codigo) => ({ codigo })) },
+});
+
+describe('Resource subscriptions', () => {
+  it('should read the código of matéria URIs', () => {
+    expect(materiaCodeFromUri('senado://materia/123')).toBe(123);
+    expect(materiaCodeFromUri('senado://materia/abc')).toBeUndefined();
+    expect(isSubscribableUri('senado://senadores')).toBe(false);
+  });
+
+  it('should format times in Brasília time', () => {
+    expect(toSenadoDateTime(Date.UTC(2024, 0, 1, 2, 30, 5))).toEqual({ data: '2023-12-31', hora: '233005' });
+  });
+
+  describe('ResourcePoller', () => {
+    let store: SubscriptionStore;
+    let invoke: ReturnType<typeof vi.fn>;
+    let cache: CacheInterface;
+    let notify: ReturnType<typeof vi.fn>;
+
+    const createPoller = () =>
+      createResourcePoller(
+        store,
+        { invoke } as unknown as ToolRegistry,
+        { cache, logger } as unknown as ToolContext,
+        notify,
+        logger
+      );
+
+    beforeEach(() => {
+      store = createSubscriptionStore(logger);
+      invoke = vi.fn(async () => updates(1, 3));
+      cache = {
+        deleteMatching: vi.fn(async () => 0),
+      } as unknown as CacheInterface;
+      notify = vi.fn();
+    });
+
+    it('should only set the checkpoint on the first poll', async () => {
+      await store.subscribe('a', 'senado://materia/1');
+
+      expect(await createPoller().poll(1000)).toEqual([]);
+      expect(await store.getCheckpoint()).toBe(1000);
+      expect(invoke).not.toHaveBeenCalled();
+    });
+
+    it('should notify the subscribers of updated matérias', async () => {
+      await store.subscribe('a', 'senado://materia/1');
+      await store.subscribe('b', 'senado://materia/1');
+      await store.subscribe('a', 'senado://materia/2');
+      await store.setCheckpoint(Date.UTC(2024, 4, 10, 15, 0, 0));
+
+      const updated = await createPoller().poll(Date.UTC(2024, 4, 10, 15, 5, 0));
+
+      expect(updated).toEqual(['senado://materia/1']);
+      expect(invoke).toHaveBeenCalledWith(
+        'materias_atualizadas',
+        expect.objectContaining({ data: '2024-05-10', hora: '120000', pagina: 1, itens: 100 }),
+        expect.anything()
+      );
+      expect(notify.mock.calls).toEqual([
+        ['a', { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'senado://materia/1' } }],
+        ['b', { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'senado://materia/1' } }],
+      ]);
+      expect(cache.deleteMatching).toHaveBeenCalledWith('materia_detalhes', { codigo: 1 });
+      expect(cache.deleteMatching).toHaveBeenCalledWith('materia_votacoes', { codigo: 1 });
+      expect(cache.deleteMatching).toHaveBeenCalledWith('materia_relatorias', { codigo: 1 });
+      expect(cache.deleteMatching).not.toHaveBeenCalledWith(expect.anything(), { codigo: 2 });
+      expect(await store.getCheckpoint()).toBe(Date.UTC(2024, 4, 10, 15, 5, 0));
+    });
+
+    it('should keep the checkpoint when the update check fails', async () => {
+      await store.subscribe('a', 'senado://materia/1');
+      await store.setCheckpoint(1000);
+      invoke.mockResolvedValue({ content: [{ type: 'text', text: 'Erro' }], isError: true });
+
+      await expect(createPoller().poll(2000)).rejects.toThrow('Erro');
+      expect(await store.getCheckpoint()).toBe(1000);
+    });
+
+    it('should keep notifying when a subscriber fails', async () => {
+      await store.subscribe('a', 'senado://materia/3');
+      await store.subscribe('b', 'senado://materia/3');
+      await store.setCheckpoint(1000);
+      notify.mockRejectedValueOnce(new Error('Session not found'));
+
+      await createPoller().poll(2000);
+
+      expect(notify).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to notify resource update',
+        expect.objectContaining({ subscriberId: 'a', error: 'Session not found' })
+      );
+    });
+  });
+});
@@ -8,8 +8,11 @@ import {
   UFSchema,
   ListSenatorsSchema,
   SenatorDetailsSchema,
+  VotacaoOutputSchema,
+  listOutputSchema,
   validateToolInput,
   zodToJsonSchema,
+  zodToOutputJsonSchema,
 } from '../../lib/core/validation.js';
 import { ValidationError } from '../../lib/core/errors.js';
 
@@ -411,6 +414,24 @@ describe('zodToJsonSchema()', () => {
     expect(properties.tags.type).toBe('array');
   });
 
+  it('should advertise the type inside optional, default and effects wrappers', () => {
+    const schema = z.object({
+      codigos: z.array(z.number().int()).min(2).optional().describe('Códigos'),
+      limite: z.number().int().optional(),
+      ordem: z.enum(['asc', 'desc']).default('asc'),
+      termo: z.string().transform((value) => value.trim()),
+    });
+
+    const jsonSchema = zodToJsonSchema(schema);
+    const properties = jsonSchema.properties as Record<string, any>;
+
+    expect(properties.codigos).toEqual({ type: 'array', items: { type: 'number' }, description: 'Códigos' });
+    expect(properties.limite).toEqual({ type: 'number' });
+    expect(properties.ordem).toEqual({ type: 'string', enum: ['asc', 'desc'] });
+    expect(properties.termo).toEqual({ type: 'string' });
+    expect(jsonSchema.required).toEqual(['termo']);
+  });
+
   it('should handle nested objects', () => {
     const schema = z.object({
       user: z.object({
@@ -480,3 +501,17 @@ describe('Integration tests', () => {
     expect(properties.itens).toBeDefined();
   });
 });
+
+describe('zodToOutputJsonSchema', () => {
+  it('should convert nested output schemas', () => {
+    const jsonSchema = zodToOutputJsonSchema(listOutputSchema(VotacaoOutputSchema));
+    const itens = (jsonSchema.properties as any).itens;
+
+    expect(jsonSchema.type).toBe('object');
+    expect(jsonSchema.required).toEqual(['itens']);
+    expect(itens.type).toBe('array');
+    expect(itens.items.properties.codigo.type).toBe('number');
+    expect(itens.items.properties.votos.items.properties.voto.enum).toContain('ABSTENCAO');
+    expect(itens.items.required).not.toContain('descricao');
+  });
+});
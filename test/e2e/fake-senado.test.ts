@@ -0,0 +1,221 @@
+/**
+ * E2E Tests against the fake Senado Dados Abertos server
+ *
+ * Runs every tool through the real HTTP client, response parsers and mappers
+ * against scripts/fake-senado, and the stdio bin end to end, with no network.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { createHttpClient } from '../../lib/infrastructure/http-client.js';
+import { committeeTools } from '../../lib/tools/committee-tools.js';
+import { partyTools } from '../../lib/tools/party-tools.js';
+import { proposalTools } from '../../lib/tools/proposal-tools.js';
+import { referenceTools } from '../../lib/tools/reference-tools.js';
+import { senatorTools } from '../../lib/tools/senator-tools.js';
+import { sessionTools } from '../../lib/tools/session-tools.js';
+import { votingTools } from '../../lib/tools/voting-tools.js';
+import { createFakeSenadoServer, FakeSenadoServer } from '../../scripts/fake-senado/server.js';
+import type { Logger, ResponseFormat, ToolContext } from '../../lib/types/index.js';
+
+const SCENARIO = 'scripts/fake-senado/scenarios/default.json';
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  logToolInvocation: vi.fn(),
+  logCacheHit: vi.fn(),
+  logCacheMiss: vi.fn(),
+} as unknown as Logger;
+
+// Arguments matching the default scenario; tools not listed take none
+const TOOL_ARGS: Record<string, Record<string, unknown>> = {
+  comissao_detalhes: { codigo: 34 },
+  comissao_membros: { codigo: 34 },
+  comissao_reunioes: { codigo: 34, dataInicio: '2024-12-01', dataFim: '2024-12-06' },
+  comissao_materias: { codigo: 34 },
+  partido_detalhes: { codigo: 13 },
+  partido_senadores: { codigo: 13 },
+  bloco_detalhes: { codigo: 300 },
+  materia_detalhes: { codigo: 157233 },
+  materia_votacoes: { codigo: 157233 },
+  materia_tramitacoes: { codigo: 157233 },
+  materia_textos: { codigo: 157233 },
+  materia_autores: { codigo: 157233 },
+  materia_relacionadas: { codigo: 157233 },
+  materia_relatorias: { codigo: 157233 },
+  materia_emendas: { codigo: 157233 },
+  materia_linha_do_tempo: { codigo: 157233 },
+  materias_ano: { ano: 2023 },
+  senador_detalhes: { codigo: 5008 },
+  senador_votacoes: { codigo: 5008 },
+  senador_autorias: { codigo: 5008 },
+  senador_comissoes: { codigo: 5008 },
+  senador_licencas: { codigo: 5008 },
+  senador_mandatos: { codigo: 5008 },
+  senador_liderancas: { codigo: 5008 },
+  senador_cargos: { codigo: 5008 },
+  senador_apartes: { codigo: 5008 },
+  senador_discursos: { codigo: 5008 },
+  senador_relatorias: { codigo: 5008 },
+  senador_filiacoes: { codigo: 5008 },
+  senador_alinhamento_partido: { codigo: 5008 },
+  sessao_detalhes: { codigo: 451732 },
+  sessao_votacoes: { codigo: 451732 },
+  sessao_discursos: { codigo: 451732 },
+  discurso_detalhes: { codigo: 509101 },
+  plenario_resultados_mes: { data: '20241201' },
+  votacoes_listar: { data: '2024-12-10' },
+  votacao_detalhes: { codigo: 6820 },
+  votacao_votos: { codigo: 6820 },
+  votacao_orientacoes: { codigo: 6820 },
+  votacao_estatisticas: { codigo: 6820 },
+  votacoes_similaridade: { votacoes: [6820, 6821] },
+};
+
+// ufs_listar reads the IBGE API, not Dados Abertos
+const OFFLINE_TOOLS = [
+  ...committeeTools,
+  ...partyTools,
+  ...proposalTools,
+  ...referenceTools.filter((tool) => tool.name !== 'ufs_listar'),
+  ...senatorTools,
+  ...sessionTools,
+  ...votingTools,
+];
+
+describe('Tools against the fake Senado server', () => {
+  let server: FakeSenadoServer;
+  let baseUrl: string;
+  let registry: ToolRegistry;
+
+  const contextFor = (timeout = 5000, format: ResponseFormat = 'xml'): ToolContext =>
+    ({
+      httpClient: createHttpClient({ baseUrl, timeout, maxRetries: 0, retryDelay: 10, format }, logger),
+      logger,
+      config: {} as ToolContext['config'],
+    }) as ToolContext;
+
+  beforeAll(async () => {
+    server = await createFakeSenadoServer(SCENARIO);
+    baseUrl = await server.start();
+    registry = new ToolRegistry();
+    registry.registerMany(OFFLINE_TOOLS);
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  afterEach(() => {
+    server.clearFaults();
+  });
+
+  it.each(OFFLINE_TOOLS.map((tool) => tool.name))('should run %s', async (name) => {
+    const requests = server.requests.length;
+
+    const result = await registry.invoke(name, TOOL_ARGS[name] ?? {}, contextFor());
+
+    expect(result.isError).toBeFalsy();
+    expect(server.requests.slice(requests).map((request) => request.status)).not.toContain(404);
+  });
+
+  it.each(OFFLINE_TOOLS.map((tool) => tool.name))('should return the same %s result from JSON', async (name) => {
+    const args = TOOL_ARGS[name] ?? {};
+
+    const fromXml = await registry.invoke(name, args, contextFor());
+    const fromJson = await registry.invoke(name, args, contextFor(5000, 'json'));
+
+    expect(fromJson).toEqual(fromXml);
+  });
+
+  it('should serve consistent data across endpoints', async () => {
+    const context = contextFor();
+
+    const senators = await registry.invoke('partido_senadores', { codigo: 13 }, context);
+    const votes = await registry.invoke('votacao_votos', { codigo: 6820 }, context);
+    const members = await registry.invoke('comissao_membros', { codigo: 34 }, context);
+
+    expect(senators.structuredContent?.['itens']).toEqual([
+      expect.objectContaining({ codigo: 5008, nome: 'Randolfe Rodrigues' }),
+      expect.objectContaining({ codigo: 6335, nome: 'Teresa Leitão' }),
+    ]);
+    expect(votes.structuredContent?.['itens']).toEqual(
+      expect.arrayContaining([expect.objectContaining({ codigoParlamentar: 5672, voto: 'NAO' })])
+    );
+    expect(members.structuredContent?.['itens']).toEqual(
+      expect.arrayContaining([expect.objectContaining({ codigoParlamentar: 5008, participacao: 'Titular' })])
+    );
+  });
+
+  it('should answer unknown resources with 404', async () => {
+    await expect(registry.invoke('materia_detalhes', { codigo: 1 }, contextFor())).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it('should fail the requests matching an injected fault', async () => {
+    server.inject({ path: '/votacao/*', times: 1 });
+
+    await expect(registry.invoke('votacao_detalhes', { codigo: 6820 }, contextFor())).rejects.toMatchObject({
+      name: 'SenadoAPIError',
+      statusCode: 503,
+    });
+
+    const retried = await registry.invoke('votacao_detalhes', { codigo: 6820 }, contextFor());
+    expect(retried.isError).toBeFalsy();
+  });
+
+  it('should time out on injected latency', async () => {
+    server.inject({ path: '/senador/:codigo', latency: 300 });
+
+    await expect(registry.invoke('senador_detalhes', { codigo: 5008 }, contextFor(50))).rejects.toThrow();
+    const slow = await registry.invoke('senador_detalhes', { codigo: 5008 }, contextFor(2000));
+    expect(slow.structuredContent).toMatchObject({ codigo: 5008 });
+  });
+});
+
+describe('stdio server against the fake Senado server', () => {
+  let server: FakeSenadoServer;
+  let client: Client;
+
+  beforeAll(async () => {
+    server = await createFakeSenadoServer(SCENARIO);
+    const baseUrl = await server.start();
+
+    client = new Client({ name: 'fake-senado-e2e', version: '1.0.0' });
+    await client.connect(
+      new StdioClientTransport({
+        command: process.execPath,
+        args: ['--import', 'tsx', 'lib/bin/mcp-senado.ts'],
+        env: {
+          ...(process.env as Record<string, string>),
+          SENADO_API_BASE_URL: baseUrl,
+          MCP_HTTP_MODE: 'live',
+          MCP_LOG_LEVEL: 'ERROR',
+        },
+        stderr: 'ignore',
+      })
+    );
+  }, 30000);
+
+  afterAll(async () => {
+    await client?.close();
+    await server.stop();
+  });
+
+  it('should call tools without network access', async () => {
+    const result = await client.callTool({ name: 'senadores_listar', arguments: { uf: 'PE' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      itens: [expect.objectContaining({ codigo: 6335, nome: 'Teresa Leitão', partido: 'PT' })],
+    });
+    expect(server.requests.map((request) => request.path)).toContain('/senador/lista/atual');
+  });
+});
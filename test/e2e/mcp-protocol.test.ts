@@ -8,18 +8,28 @@
  * - Error handling
  * - Rate limiting
  * - Caching behavior
+ * - Prompts, resources and completion protocols
+ * - Protocol version negotiation
+ * - Logging (logging/setLevel and notifications/message)
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 
 import { createMCPServer } from '../../lib/core/mcp-server.js';
 import { createToolRegistry } from '../../lib/core/tools.js';
+import { createPromptRegistry } from '../../lib/core/prompts.js';
+import { createResourceRegistry } from '../../lib/core/resources.js';
+import { createCompletionRegistry } from '../../lib/core/completions.js';
 import { createLogger } from '../../lib/infrastructure/logger.js';
 import { createCache } from '../../lib/infrastructure/cache.js';
 import { createRateLimiter } from '../../lib/infrastructure/rate-limiter.js';
 import { referenceTools } from '../../lib/tools/reference-tools.js';
+import { legislativePrompts } from '../../lib/prompts/legislative-prompts.js';
+import { senadoResources, senadoResourceTemplates } from '../../lib/resources/senado-resources.js';
+import { referenceCompletions } from '../../lib/completions/reference-completions.js';
 
 import type { MCPServerConfig, HttpClient, Logger } from '../../lib/types/index.js';
 
@@ -49,6 +59,9 @@ function createTestConfig(): MCPServerConfig {
     apiTimeout: 30000,
     apiMaxRetries: 3,
     apiRetryDelay: 1000,
+    apiMode: 'live',
+    apiFixturesDir: 'fixtures/senado',
+    apiReplayMiss: 'fail',
     cacheEnabled: true,
     cacheTTL: 300000,
     cacheMaxSize: 1000,
@@ -61,6 +74,8 @@ function createTestConfig(): MCPServerConfig {
     circuitBreakerFailureThreshold: 5,
     circuitBreakerSuccessThreshold: 2,
     circuitBreakerTimeout: 60000,
+    resourcePollInterval: 0,
+    toolMiddleware: ['logging', 'metrics', 'validation', 'scope', 'rateLimit', 'cache', 'circuitBreaker'],
     logLevel: 'INFO' as any,
     logFormat: 'json',
     logMaskPII: false,
@@ -293,6 +308,8 @@ describe('MCP Protocol E2E Tests', () => {
       expect(ufsTool!.description).toContain('Lista');
       expect(ufsTool!.inputSchema).toBeDefined();
       expect(ufsTool!.inputSchema.type).toBe('object');
+      expect(ufsTool!.title).toBe('Listar UFs');
+      expect(ufsTool!.annotations).toMatchObject({ readOnlyHint: true, openWorldHint: true });
     });
   });
 
@@ -499,10 +516,11 @@ describe('MCP Protocol E2E Tests', () => {
       expect(response.content).toBeDefined();
       expect(response.content[0].type).toBe('text');
 
-      // Verify HTTP client was called with params
+      // Verify HTTP client was called with params and the request's cancellation signal
       expect(mockHttpClient.get).toHaveBeenCalledWith(
         '/plenario/lista/legislaturas',
-        {}
+        {},
+        { signal: expect.any(AbortSignal) }
       );
     });
   });
@@ -957,4 +975,297 @@ describe('MCP Protocol E2E Tests', () => {
       expect(stats.errors).toBe(1);
     });
   });
+
+  describe('Prompts Protocol', () => {
+    async function connectWithPrompts() {
+      const toolRegistry = createToolRegistry();
+      toolRegistry.registerMany(referenceTools);
+      const promptRegistry = createPromptRegistry();
+      promptRegistry.registerMany(legislativePrompts);
+
+      const server = createMCPServer(
+        config,
+        logger,
+        toolRegistry,
+        createMockHttpClient(),
+        createCache({ ttl: config.cacheTTL, maxSize: config.cacheMaxSize }, logger, false),
+        createRateLimiter({ tokens: 30, interval: 60000, refillRate: 0.5 }, logger, false),
+        promptRegistry
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.getServer().connect(serverTransport);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      await client.connect(clientTransport);
+    }
+
+    it('should list prompts with their arguments', async () => {
+      await connectWithPrompts();
+
+      expect(client.getServerCapabilities()?.prompts).toBeDefined();
+
+      const { prompts } = await client.listPrompts();
+      expect(prompts.map((prompt) => prompt.name)).toEqual([
+        'analisar_materia',
+        'perfil_senador',
+        'resumo_votacao',
+        'agenda_da_semana',
+        'comparar_senadores',
+      ]);
+      expect(prompts[0]!.arguments).toContainEqual(
+        expect.objectContaining({ name: 'codigo', required: true })
+      );
+    });
+
+    it('should render a prompt with arguments', async () => {
+      await connectWithPrompts();
+
+      const result = await client.getPrompt({ name: 'resumo_votacao', arguments: { codigo: '8001' } });
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0]!.role).toBe('user');
+      expect((result.messages[0]!.content as any).text).toContain('`votacao_orientacoes` ("codigo": 8001)');
+    });
+
+    it('should reject unknown prompts and invalid arguments', async () => {
+      await connectWithPrompts();
+
+      await expect(client.getPrompt({ name: 'inexistente' })).rejects.toThrow(/Prompt not found/);
+      await expect(
+        client.getPrompt({ name: 'resumo_votacao', arguments: { codigo: 'abc' } })
+      ).rejects.toThrow(/Invalid input for resumo_votacao/);
+    });
+  });
+
+  describe('Resources Protocol', () => {
+    let httpClient: HttpClient;
+
+    async function connectWithResources() {
+      const toolRegistry = createToolRegistry();
+      toolRegistry.registerMany(referenceTools);
+      const resourceRegistry = createResourceRegistry();
+      resourceRegistry.registerMany(senadoResources);
+      resourceRegistry.registerTemplates(senadoResourceTemplates);
+      httpClient = createMockHttpClient();
+
+      const server = createMCPServer(
+        config,
+        logger,
+        toolRegistry,
+        httpClient,
+        createCache(
+          { ttl: config.cacheTTL, maxSize: config.cacheMaxSize, cleanupInterval: config.cacheCleanupInterval },
+          logger,
+          true
+        ),
+        createRateLimiter({ tokens: 30, interval: 60000, refillRate: 0.5 }, logger, false),
+        undefined,
+        resourceRegistry
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.getServer().connect(serverTransport);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      await client.connect(clientTransport);
+
+      return server;
+    }
+
+    it('should list resources and resource templates', async () => {
+      await connectWithResources();
+
+      expect(client.getServerCapabilities()?.resources).toBeDefined();
+
+      const { resources } = await client.listResources();
+      expect(resources.map((resource) => resource.uri)).toContain('senado://reference/ufs');
+
+      const { resourceTemplates } = await client.listResourceTemplates();
+      expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+        'senado://senador/{codigo}',
+        'senado://materia/{codigo}',
+        'senado://votacao/{codigo}',
+        'senado://comissao/{sigla}',
+      ]);
+    });
+
+    it('should read resources through the cached tool pipeline', async () => {
+      const server = await connectWithResources();
+
+      const first = await client.readResource({ uri: 'senado://reference/ufs' });
+      const second = await client.readResource({ uri: 'senado://reference/ufs' });
+
+      expect(first.contents[0]!.mimeType).toBe('application/json');
+      expect(JSON.parse((first.contents[0] as any).text).itens).toContainEqual(
+        expect.objectContaining({ sigla: 'SP' })
+      );
+      expect(second.contents).toEqual(first.contents);
+      expect(httpClient.get).toHaveBeenCalledTimes(1);
+      expect(server.getStats().cacheHits).toBe(1);
+    });
+
+    it('should reject unknown resources', async () => {
+      await connectWithResources();
+
+      await expect(client.readResource({ uri: 'senado://desconhecido/1' })).rejects.toThrow(
+        /Resource not found/
+      );
+    });
+
+    it('should accept subscriptions to matéria resources only', async () => {
+      await connectWithResources();
+
+      expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+      await expect(client.subscribeResource({ uri: 'senado://materia/123' })).resolves.toEqual({});
+      await expect(client.unsubscribeResource({ uri: 'senado://materia/123' })).resolves.toEqual({});
+      await expect(client.subscribeResource({ uri: 'senado://reference/ufs' })).rejects.toThrow(
+        /senado:\/\/materia\/\{codigo\}/
+      );
+    });
+  });
+
+  describe('Completion Protocol', () => {
+    it('should complete arguments from cached reference data', async () => {
+      const toolRegistry = createToolRegistry();
+      toolRegistry.registerMany(referenceTools);
+      const completionRegistry = createCompletionRegistry();
+      completionRegistry.registerMany(referenceCompletions);
+      const httpClient = createMockHttpClient();
+
+      const server = createMCPServer(
+        config,
+        logger,
+        toolRegistry,
+        httpClient,
+        createCache(
+          { ttl: config.cacheTTL, maxSize: config.cacheMaxSize, cleanupInterval: config.cacheCleanupInterval },
+          logger,
+          true
+        ),
+        createRateLimiter({ tokens: 30, interval: 60000, refillRate: 0.5 }, logger, false),
+        undefined,
+        undefined,
+        completionRegistry
+      );
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.getServer().connect(serverTransport);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      await client.connect(clientTransport);
+
+      expect(client.getServerCapabilities()?.completions).toBeDefined();
+
+      const ref = { type: 'ref/prompt' as const, name: 'perfil_senador' };
+      const first = await client.complete({ ref, argument: { name: 'uf', value: 'rio' } });
+      const second = await client.complete({ ref, argument: { name: 'uf', value: 's' } });
+
+      expect(first.completion.values).toEqual(['RJ']);
+      expect(second.completion.values).toEqual(['SP']);
+      expect(httpClient.get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Protocol Version Negotiation', () => {
+    function createServer() {
+      const toolRegistry = createToolRegistry();
+      toolRegistry.registerMany(referenceTools);
+      const completionRegistry = createCompletionRegistry();
+      completionRegistry.registerMany(referenceCompletions);
+
+      return createMCPServer(
+        config,
+        logger,
+        toolRegistry,
+        createMockHttpClient(),
+        createCache(
+          { ttl: config.cacheTTL, maxSize: config.cacheMaxSize, cleanupInterval: config.cacheCleanupInterval },
+          logger,
+          true
+        ),
+        createRateLimiter({ tokens: 30, interval: 60000, refillRate: 0.5 }, logger, false),
+        undefined,
+        undefined,
+        completionRegistry
+      );
+    }
+
+    it('should negotiate the latest revision with the SDK client', async () => {
+      const server = createServer();
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.getServer().connect(serverTransport);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { roots: { listChanged: true } } });
+      await client.connect(clientTransport);
+
+      expect(server.getProtocolVersion()).toBe('2025-06-18');
+      expect(server.getClientInfo()).toEqual({ name: 'test-client', version: '1.0.0' });
+      expect(server.getClientCapabilities()).toEqual({ roots: { listChanged: true } });
+      expect(server.getServer().getClientVersion()).toEqual({ name: 'test-client', version: '1.0.0' });
+      expect(server.getServer().getClientCapabilities()).toEqual({ roots: { listChanged: true } });
+    });
+
+    it('should answer older clients with their revision and without newer capabilities', async () => {
+      const server = createServer();
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.getServer().connect(serverTransport);
+
+      const messages: any[] = [];
+      clientTransport.onmessage = (message) => messages.push(message);
+      await clientTransport.start();
+      await clientTransport.send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'old', version: '0.1' } },
+      });
+
+      await vi.waitFor(() => expect(messages).toHaveLength(1));
+      expect(messages[0].result.protocolVersion).toBe('2024-11-05');
+      expect(messages[0].result.capabilities.tools).toBeDefined();
+      expect(messages[0].result.capabilities.completions).toBeUndefined();
+      expect(server.getProtocolVersion()).toBe('2024-11-05');
+
+      await clientTransport.close();
+    });
+  });
+
+  describe('Logging Protocol', () => {
+    it('should send server logs at or above the level set by the client', async () => {
+      const toolRegistry = createToolRegistry();
+      toolRegistry.registerMany(referenceTools);
+      const server = createMCPServer(
+        config,
+        logger,
+        toolRegistry,
+        createMockHttpClient(),
+        createCache({ ttl: 1000, maxSize: 10, cleanupInterval: 60000 }, logger, false),
+        createRateLimiter({ tokens: 30, interval: 60000, refillRate: 0.5 }, logger, false)
+      );
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.getServer().connect(serverTransport);
+
+      client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+      const messages: Array<{ level: string; data: any }> = [];
+      client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+        messages.push({ level: notification.params.level, data: notification.params.data });
+      });
+      await client.connect(clientTransport);
+      expect(client.getServerCapabilities()?.logging).toEqual({});
+
+      logger.info('Antes do setLevel');
+      logger.warn('Nova tentativa', { token: 'segredo' });
+      await client.setLoggingLevel('info');
+      logger.info('Depois do setLevel');
+
+      await vi.waitFor(() => expect(messages).toHaveLength(2));
+      expect(messages).toEqual([
+        { level: 'warning', data: { message: 'Nova tentativa', token: '[REDACTED]' } },
+        { level: 'info', data: { message: 'Depois do setLevel' } },
+      ]);
+
+      await server.close();
+    });
+  });
 });
@@ -122,6 +122,27 @@ describe('CacheDurableObject', () => {
       expect(data).toEqual({ found: false });
     });
 
+    it('should return expired entries with validators when asked for the entry', async () => {
+      await cacheDO.fetch(
+        new Request('http://do/set', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ key: 'etag-key', value: 'etag-value', ttl: -1, validators: { etag: '"v1"' } }),
+        })
+      );
+
+      const plain = await cacheDO.fetch(new Request('http://do/get?key=etag-key', { method: 'GET' }));
+      expect(await plain.json()).toEqual({ found: false });
+
+      const entry = await cacheDO.fetch(new Request('http://do/get?key=etag-key&entry=1', { method: 'GET' }));
+      expect(await entry.json()).toMatchObject({
+        found: true,
+        value: 'etag-value',
+        validators: { etag: '"v1"' },
+        expiresAt: expect.any(Number),
+      });
+    });
+
     it('should return error for missing key parameter', async () => {
       const request = new Request('http://do/get', {
         method: 'GET',
@@ -233,6 +254,34 @@ describe('CacheDurableObject', () => {
     });
   });
 
+  describe('DELETE /delete-matching', () => {
+    it('should delete the keys of the prefix with the params', async () => {
+      for (const key of ['materia_detalhes:codigo=12', 'materia_detalhes:codigo=12&formato="json"', 'materia_detalhes:codigo=123']) {
+        await cacheDO.fetch(new Request('http://do/set', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ key, value: 'value' }),
+        }));
+      }
+
+      const url = new URL('http://do/delete-matching');
+      url.searchParams.set('prefix', 'materia_detalhes');
+      url.searchParams.set('params', JSON.stringify({ codigo: 12 }));
+      const response = await cacheDO.fetch(new Request(url, { method: 'DELETE' }));
+      expect(await response.json()).toEqual({ success: true, deleted: 2 });
+
+      const remaining = await cacheDO.fetch(new Request('http://do/get?key=materia_detalhes:codigo=123'));
+      expect(await remaining.json()).toMatchObject({ found: true });
+    });
+
+    it('should return error for missing params', async () => {
+      const response = await cacheDO.fetch(
+        new Request('http://do/delete-matching?prefix=materia_detalhes', { method: 'DELETE' })
+      );
+      expect(response.status).toBe(400);
+    });
+  });
+
   describe('POST /clear', () => {
     it('should clear all entries', async () => {
       // Set multiple values
@@ -174,6 +174,25 @@ describe('LRUCache', () => {
     });
   });
 
+  describe('deleteMatching()', () => {
+    it('should delete the keys of the prefix with the params, whatever their other params', async () => {
+      const keys = [
+        cache.generateKey('materia_detalhes', { codigo: 12, formato: 'json', ano: 2024 }),
+        cache.generateKey('materia_detalhes', { codigo: 123 }),
+        cache.generateKey('materia_votacoes', { codigo: 12 }),
+      ];
+      for (const key of keys) {
+        await cache.set(key, 'value');
+      }
+
+      expect(await cache.deleteMatching('materia_detalhes', { codigo: 12 })).toBe(1);
+      expect(await cache.get(keys[0]!)).toBeNull();
+      expect(await cache.get(keys[1]!)).toBe('value');
+      expect(await cache.get(keys[2]!)).toBe('value');
+      expect(cache.getStats().size).toBe(2);
+    });
+  });
+
   describe('clear()', () => {
     it('should remove all entries', async () => {
       await cache.set('key1', 'value1');
@@ -337,6 +356,27 @@ describe('LRUCache', () => {
       expect(await cache.get('key')).toBeNull();
     });
   });
+
+  describe('validators', () => {
+    it('should keep validators with the value', async () => {
+      await cache.set('key', 'value', 1000, { etag: '"abc"' });
+
+      expect(await cache.getEntry('key')).toMatchObject({ value: 'value', validators: { etag: '"abc"' } });
+    });
+
+    it('should keep expired entries with validators for revalidation', async () => {
+      await cache.set('validated', 'value1', 50, { lastModified: 'Tue, 10 Dec 2024 18:00:00 GMT' });
+      await cache.set('plain', 'value2', 50);
+
+      // Wait for both to expire and cleanup to run
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(await cache.get('validated')).toBeNull();
+      expect(await cache.getEntry('validated')).toMatchObject({ value: 'value1' });
+      expect(await cache.getEntry('plain')).toBeNull();
+      expect(cache.getStats().size).toBe(1);
+    });
+  });
 });
 
 describe('NoOpCache', () => {
@@ -0,0 +1,381 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SenadoHttpClient } from '../../lib/infrastructure/http-client.js';
+import { createCircuitBreaker } from '../../lib/infrastructure/circuit-breaker.js';
+import { LRUCache } from '../../lib/infrastructure/cache.js';
+import { RequestCancelledError, ResponseParseError } from '../../lib/core/errors.js';
+import type { Logger } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+const config = {
+  baseUrl: 'https://legis.senado.leg.br/dadosabertos/',
+  timeout: 5000,
+  maxRetries: 3,
+  retryDelay: 10000,
+};
+
+const serverError = () =>
+  new Response('{}', { status: 503, statusText: 'Service Unavailable', headers: { 'Content-Type': 'application/json' } });
+
+describe('SenadoHttpClient cancellation', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not send requests for an aborted signal', async () => {
+    const client = new SenadoHttpClient(config, logger);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.get('/senador/lista/atual', {}, { signal: controller.signal })).rejects.toThrow(
+      RequestCancelledError
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should abort an in-flight request instead of reporting a timeout', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_, reject) => {
+          init.signal!.addEventListener('abort', () =>
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+          );
+        })
+    );
+    const client = new SenadoHttpClient(config, logger);
+    const controller = new AbortController();
+
+    const pending = client.get('/senador/lista/atual', {}, { signal: controller.signal });
+    controller.abort('client disconnected');
+
+    await expect(pending).rejects.toThrow('Request cancelled: client disconnected');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying when cancelled during the backoff', async () => {
+    fetchMock.mockImplementation(async () => serverError());
+    const circuitBreaker = createCircuitBreaker(
+      { failureThreshold: 1, successThreshold: 1, timeout: 60000 },
+      logger
+    );
+    const client = new SenadoHttpClient(config, logger, circuitBreaker);
+    const controller = new AbortController();
+
+    const pending = client.get('/senador/lista/atual', {}, { signal: controller.signal });
+    await vi.waitFor(() => expect(logger.warn).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(RequestCancelledError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(circuitBreaker.getState()).toBe('CLOSED');
+  });
+});
+
+describe('SenadoHttpClient coalescing', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let release: () => void;
+
+  const ok = () => new Response('{"ok":true}', { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(() => {
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    fetchMock = vi.fn(async () => {
+      await gate;
+      return ok();
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should share one request among concurrent identical GETs', async () => {
+    const client = new SenadoHttpClient(config, logger);
+
+    const pending = [
+      client.get('/senador/partidos'),
+      client.get('/senador/partidos'),
+      client.get('/senador/partidos', { ano: 2024 }),
+    ];
+    expect(client.getStats()).toEqual({ requests: 3, coalesced: 1, inFlight: 2, revalidated: 0 });
+    release();
+    const [first, second] = await Promise.all(pending);
+
+    expect(second).toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.getStats().inFlight).toBe(0);
+
+    await client.get('/senador/partidos');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not coalesce when disabled', async () => {
+    const client = new SenadoHttpClient({ ...config, coalesce: false }, logger);
+
+    const pending = [client.get('/senador/partidos'), client.get('/senador/partidos')];
+    release();
+    await Promise.all(pending);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.getStats()).toMatchObject({ requests: 2, coalesced: 0 });
+  });
+
+  it('should retry once for all callers and count one circuit breaker failure', async () => {
+    fetchMock.mockImplementation(async () => serverError());
+    const circuitBreaker = createCircuitBreaker({ failureThreshold: 2, successThreshold: 1, timeout: 60000 }, logger);
+    const client = new SenadoHttpClient({ ...config, maxRetries: 1, retryDelay: 1 }, logger, circuitBreaker);
+
+    const results = await Promise.allSettled([client.get('/senador/lista/atual'), client.get('/senador/lista/atual')]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(circuitBreaker.getStats().failures).toBe(1);
+    expect(circuitBreaker.getState()).toBe('CLOSED');
+  });
+
+  it('should keep the shared request going until every caller cancels', async () => {
+    let upstreamSignal: AbortSignal | undefined;
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => {
+      upstreamSignal = init.signal!;
+      return new Promise((resolve, reject) => {
+        init.signal!.addEventListener('abort', () =>
+          reject(Object.assign(new Error('aborted'), { name: 'AbortError' }))
+        );
+        void new Promise<void>((done) => (release = done)).then(() => resolve(ok()));
+      });
+    });
+    const client = new SenadoHttpClient(config, logger);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const cancelled = client.get('/senador/lista/atual', {}, { signal: first.signal });
+    const kept = client.get('/senador/lista/atual', {}, { signal: second.signal });
+    first.abort('client disconnected');
+
+    await expect(cancelled).rejects.toThrow('Request cancelled: client disconnected');
+    expect(upstreamSignal!.aborted).toBe(false);
+    release();
+    await expect(kept).resolves.toMatchObject({ statusCode: 200 });
+
+    const last = new AbortController();
+    const abandoned = client.get('/senador/lista/atual', {}, { signal: last.signal });
+    last.abort();
+    await expect(abandoned).rejects.toThrow(RequestCancelledError);
+    expect(upstreamSignal!.aborted).toBe(true);
+    expect(client.getStats().inFlight).toBe(0);
+  });
+});
+
+describe('SenadoHttpClient revalidation', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let cache: LRUCache;
+
+  const xml = (body: string, headers: Record<string, string> = {}) =>
+    new Response(`<?xml version="1.0" encoding="UTF-8"?>${body}`, {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml', ...headers },
+    });
+  const notModified = () => new Response(null, { status: 304, statusText: 'Not Modified' });
+  const sentHeaders = (call: number) => (fetchMock.mock.calls[call]![1] as RequestInit).headers as Record<string, string>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    cache = new LRUCache({ ttl: 1, maxSize: 10, cleanupInterval: 60000 }, logger);
+  });
+
+  afterEach(() => {
+    cache.stopCleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the stored validators and reuse the cached response on 304', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        xml('<ListaPartidos><Partido><Sigla>PT</Sigla></Partido></ListaPartidos>', {
+          ETag: '"v1"',
+          'Last-Modified': 'Tue, 10 Dec 2024 18:00:00 GMT',
+        })
+      )
+      .mockResolvedValueOnce(notModified());
+    const client = new SenadoHttpClient({ ...config, cache }, logger);
+
+    const first = await client.get('/senador/partidos');
+    const second = await client.get('/senador/partidos');
+
+    expect(sentHeaders(0)).not.toHaveProperty('If-None-Match');
+    expect(sentHeaders(1)).toMatchObject({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Tue, 10 Dec 2024 18:00:00 GMT',
+    });
+    expect(second).toEqual(first);
+    expect(second.data).toEqual({ ListaPartidos: { Partido: { Sigla: 'PT' } } });
+    expect(client.getStats().revalidated).toBe(1);
+  });
+
+  it('should replace the cached response when upstream changed', async () => {
+    fetchMock
+      .mockResolvedValueOnce(xml('<Versao>1</Versao>', { ETag: '"v1"' }))
+      .mockResolvedValueOnce(xml('<Versao>2</Versao>', { ETag: '"v2"' }))
+      .mockResolvedValueOnce(notModified());
+    const client = new SenadoHttpClient({ ...config, cache }, logger);
+
+    await client.get('/plenario/lista/legislaturas');
+    const changed = await client.get('/plenario/lista/legislaturas');
+    const revalidated = await client.get('/plenario/lista/legislaturas');
+
+    expect(changed.data).toEqual({ Versao: 2 });
+    expect(sentHeaders(2)['If-None-Match']).toBe('"v2"');
+    expect(revalidated.data).toEqual({ Versao: 2 });
+  });
+
+  it('should not store responses without validators', async () => {
+    fetchMock.mockImplementation(async () => xml('<Versao>1</Versao>'));
+    const client = new SenadoHttpClient({ ...config, cache }, logger);
+
+    await client.get('/tipoMateria/lista');
+    await client.get('/tipoMateria/lista');
+
+    expect(sentHeaders(1)).not.toHaveProperty('If-None-Match');
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should ask for the body again when a 304 has nothing cached to revalidate', async () => {
+    fetchMock.mockResolvedValueOnce(notModified()).mockResolvedValueOnce(xml('<Versao>1</Versao>', { ETag: '"v1"' }));
+    const client = new SenadoHttpClient({ ...config, cache }, logger);
+
+    const response = await client.get('/tipoMateria/lista');
+
+    expect(response.data).toEqual({ Versao: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sentHeaders(1)).not.toHaveProperty('If-None-Match');
+    expect(client.getStats().revalidated).toBe(0);
+  });
+
+  it('should keep the XML fallback response apart from the JSON one', async () => {
+    const json = (body: string) => new Response(body, { status: 200, headers: { 'Content-Type': 'application/json' } });
+    const accepted = (call: number) => sentHeaders(call)['Accept'];
+    fetchMock
+      .mockResolvedValueOnce(json('{"Versao": {'))
+      .mockResolvedValueOnce(xml('<Versao>1</Versao>', { ETag: '"v1"' }))
+      .mockResolvedValueOnce(json('{"Versao": {'))
+      .mockResolvedValueOnce(notModified());
+    const client = new SenadoHttpClient({ ...config, format: 'json', cache }, logger);
+
+    await client.get('/tipoMateria/lista');
+    const revalidated = await client.get('/tipoMateria/lista');
+
+    expect(accepted(2)).toMatch(/^application\/json/);
+    expect(sentHeaders(2)).not.toHaveProperty('If-None-Match');
+    expect(accepted(3)).toMatch(/^application\/xml/);
+    expect(sentHeaders(3)['If-None-Match']).toBe('"v1"');
+    expect(revalidated.data).toEqual({ Versao: 1 });
+    expect(client.getStats().revalidated).toBe(1);
+  });
+
+  it('should fail instead of answering without data when upstream keeps replying 304', async () => {
+    fetchMock.mockImplementation(async () => notModified());
+    const client = new SenadoHttpClient({ ...config, cache }, logger);
+
+    await expect(client.get('/tipoMateria/lista')).rejects.toThrow('Not Modified without a cached response');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('SenadoHttpClient response formats', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const json = (body: string) =>
+    new Response(body, { status: 200, headers: { 'Content-Type': 'application/json; charset=UTF-8' } });
+  const xml = (body: string) =>
+    new Response(`<?xml version="1.0" encoding="UTF-8"?>${body}`, { status: 200, headers: { 'Content-Type': 'text/xml' } });
+  const accepted = (call: number) =>
+    ((fetchMock.mock.calls[call]![1] as RequestInit).headers as Record<string, string>)['Accept'];
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should ask for JSON and normalize it like XML', async () => {
+    fetchMock.mockResolvedValueOnce(json('{"ListaPartidos":{"Partido":{"@ativo":"true","Codigo":" 13 ","Sigla":"PT"}}}'));
+    const client = new SenadoHttpClient({ ...config, format: 'json' }, logger);
+
+    const response = await client.get('/senador/partidos');
+
+    expect(accepted(0)).toMatch(/^application\/json/);
+    expect(response.data).toEqual({ ListaPartidos: { Partido: { '@_ativo': true, Codigo: 13, Sigla: 'PT' } } });
+  });
+
+  it('should pick the format of the longest matching endpoint prefix', async () => {
+    fetchMock.mockImplementation(async () => xml('<Ok>1</Ok>'));
+    const client = new SenadoHttpClient(
+      { ...config, endpointFormats: { '/senador': 'json', 'senador/lista/': 'xml' } },
+      logger
+    );
+
+    await client.get('/senador/5008/mandatos');
+    await client.get('/senador/lista/atual');
+    await client.get('/senadores');
+    await client.get('/materia/157233');
+
+    expect([0, 1, 2, 3].map(accepted)).toEqual([
+      expect.stringMatching(/^application\/json/),
+      expect.stringMatching(/^application\/xml/),
+      expect.stringMatching(/^application\/xml/),
+      expect.stringMatching(/^application\/xml/),
+    ]);
+  });
+
+  it('should parse an XML answer to a JSON request as XML', async () => {
+    fetchMock.mockResolvedValueOnce(xml('<ListaBlocos><Bloco><Codigo>300</Codigo></Bloco></ListaBlocos>'));
+    const client = new SenadoHttpClient({ ...config, format: 'json' }, logger);
+
+    const response = await client.get('/senador/lista/blocos');
+
+    expect(response.data).toEqual({ ListaBlocos: { Bloco: { Codigo: 300 } } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ask again for XML when the JSON body is malformed', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json('{"ListaPartidos": {'))
+      .mockResolvedValueOnce(xml('<ListaPartidos><Partido><Sigla>PT</Sigla></Partido></ListaPartidos>'));
+    const client = new SenadoHttpClient({ ...config, format: 'json' }, logger);
+
+    const response = await client.get('/senador/partidos');
+
+    expect(response.data).toEqual({ ListaPartidos: { Partido: { Sigla: 'PT' } } });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(accepted(1)).toMatch(/^application\/xml/);
+  });
+
+  it('should fail without retrying when an XML request gets a malformed body', async () => {
+    fetchMock.mockImplementation(async () => json('{"ListaPartidos": {'));
+    const client = new SenadoHttpClient(config, logger);
+
+    await expect(client.get('/senador/partidos')).rejects.toThrow(ResponseParseError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the status of malformed error responses', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response('{"erro":', { status: 404, statusText: 'Not Found', headers: { 'Content-Type': 'application/json' } })
+    );
+    const client = new SenadoHttpClient({ ...config, format: 'json' }, logger);
+
+    await expect(client.get('/materia/1')).rejects.toMatchObject({ statusCode: 404, details: { text: '{"erro":' } });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SenadoHttpClient } from '../../lib/infrastructure/http-client.js';
+import { createFixtureFetch, HttpFixtureStore } from '../../lib/infrastructure/http-fixtures.js';
+import { LRUCache } from '../../lib/infrastructure/cache.js';
+import { FixtureNotFoundError } from '../../lib/core/errors.js';
+import type { Logger } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+const BASE_URL = 'https://legis.senado.leg.br/dadosabertos/';
+
+const XML_BODY = '<?xml version="1.0" encoding="UTF-8"?><ListaBlocos><Bloco><NomeBloco>Vanguarda</NomeBloco></Bloco></ListaBlocos>';
+
+const config = {
+  baseUrl: BASE_URL,
+  timeout: 5000,
+  maxRetries: 3,
+  retryDelay: 10,
+};
+
+describe('HTTP fixtures', () => {
+  let fixturesDir: string;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const clientFor = (mode: 'record' | 'replay', replayMiss?: 'fail' | 'passthrough') =>
+    new SenadoHttpClient(
+      {
+        ...config,
+        fetch: createFixtureFetch({ mode, fixturesDir, baseUrl: BASE_URL, replayMiss }, logger, fetchMock),
+      },
+      logger
+    );
+
+  beforeEach(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'mcp-senado-fixtures-'));
+    fetchMock = vi.fn(async () => new Response(XML_BODY, { status: 200, headers: { 'Content-Type': 'text/xml' } }));
+  });
+
+  afterEach(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should record responses and replay them without the network', async () => {
+    const recorded = await clientFor('record').get('/blocoParlamentar/lista', { ano: 2024 });
+
+    const [file] = await readdir(fixturesDir);
+    const fixture = JSON.parse(await readFile(join(fixturesDir, file!), 'utf-8'));
+    expect(fixture).toMatchObject({
+      method: 'GET',
+      endpoint: 'blocoParlamentar/lista',
+      params: { ano: '2024' },
+      status: 200,
+      body: XML_BODY,
+    });
+
+    const replayed = await clientFor('replay').get('/blocoParlamentar/lista', { ano: 2024 });
+    expect(replayed.data).toEqual(recorded.data);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the recorded response and its validators when revalidating', async () => {
+    const cache = new LRUCache({ ttl: 60000, maxSize: 10, cleanupInterval: 60000 }, logger);
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(XML_BODY, {
+          status: 200,
+          headers: { 'Content-Type': 'text/xml', ETag: '"v1"', 'Last-Modified': 'Tue, 10 Dec 2024 18:00:00 GMT' },
+        })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304, statusText: 'Not Modified' }));
+    const recorder = new SenadoHttpClient(
+      { ...config, cache, fetch: createFixtureFetch({ mode: 'record', fixturesDir, baseUrl: BASE_URL }, logger, fetchMock) },
+      logger
+    );
+
+    const recorded = await recorder.get('/blocoParlamentar/lista');
+    await recorder.get('/blocoParlamentar/lista');
+    cache.stopCleanup();
+
+    const [file] = await readdir(fixturesDir);
+    expect(JSON.parse(await readFile(join(fixturesDir, file!), 'utf-8'))).toMatchObject({
+      status: 200,
+      etag: '"v1"',
+      lastModified: 'Tue, 10 Dec 2024 18:00:00 GMT',
+      body: XML_BODY,
+    });
+
+    const replayed = await clientFor('replay').get('/blocoParlamentar/lista');
+    expect(replayed.data).toEqual(recorded.data);
+    expect(replayed.headers).toMatchObject({ etag: '"v1"', 'last-modified': 'Tue, 10 Dec 2024 18:00:00 GMT' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay recorded error responses', async () => {
+    fetchMock.mockResolvedValue(new Response('<erro/>', { status: 404, statusText: 'Not Found' }));
+    await expect(clientFor('record').get('/senador/0')).rejects.toThrow('HTTP 404');
+
+    await expect(clientFor('replay').get('/senador/0')).rejects.toMatchObject({ statusCode: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail on a replay miss without retrying', async () => {
+    await expect(clientFor('replay').get('/senador/lista/atual')).rejects.toThrow(FixtureNotFoundError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should fetch replay misses from the network in passthrough', async () => {
+    const response = await clientFor('replay', 'passthrough').get('/senador/lista/atual');
+
+    expect(response.statusCode).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(await readdir(fixturesDir)).toEqual([]);
+  });
+
+  it('should key fixtures by endpoint and sorted params, whatever the base URL', () => {
+    const store = new HttpFixtureStore(fixturesDir, BASE_URL);
+    const local = new HttpFixtureStore(fixturesDir, 'http://localhost:8080/dadosabertos');
+
+    expect(store.pathFor('GET', `${BASE_URL}materia/pesquisa/lista?sigla=PL&ano=2024`)).toBe(
+      local.pathFor('GET', 'http://localhost:8080/dadosabertos/materia/pesquisa/lista?ano=2024&sigla=PL')
+    );
+    expect(store.pathFor('GET', `${BASE_URL}senador/1`)).not.toBe(store.pathFor('GET', `${BASE_URL}senador/2`));
+    expect(store.pathFor('GET', `${BASE_URL}senador/1`)).toMatch(/senador_1-[0-9a-f]{12}\.json$/);
+  });
+
+  it('should key fixtures by request body too', async () => {
+    const store = new HttpFixtureStore(fixturesDir, BASE_URL);
+    const url = `${BASE_URL}materia/pesquisa`;
+
+    expect(store.pathFor('POST', url, '{"ano":2024}')).not.toBe(store.pathFor('POST', url, '{"ano":2023}'));
+    expect(store.pathFor('POST', url, '{"ano":2024}')).not.toBe(store.pathFor('POST', url));
+
+    const record = createFixtureFetch({ mode: 'record', fixturesDir, baseUrl: BASE_URL }, logger, fetchMock)!;
+    fetchMock.mockImplementation(async (_url, init) => new Response(`<Ano>${init.body}</Ano>`, { status: 200 }));
+    await record(url, { method: 'POST', body: '2024' });
+    await record(url, { method: 'POST', body: new URLSearchParams({ ano: '2023' }) });
+    expect(fetchMock).toHaveBeenLastCalledWith(url, expect.objectContaining({ body: 'ano=2023' }));
+
+    const replay = createFixtureFetch({ mode: 'replay', fixturesDir, baseUrl: BASE_URL }, logger, fetchMock)!;
+    expect(await (await replay(url, { method: 'POST', body: '2024' })).text()).toBe('<Ano>2024</Ano>');
+    expect(await (await replay(url, { method: 'POST', body: new URLSearchParams({ ano: '2023' }) })).text()).toBe(
+      '<Ano>ano=2023</Ano>'
+    );
+    await expect(replay(url, { method: 'POST', body: '2022' })).rejects.toThrow(FixtureNotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave live mode to the global fetch', () => {
+    expect(createFixtureFetch({ mode: 'live', fixturesDir, baseUrl: BASE_URL }, logger)).toBeUndefined();
+  });
+});
@@ -5,6 +5,7 @@ import {
   RateLimitError,
   createRateLimiter,
 } from '../../lib/infrastructure/rate-limiter.js';
+import { RequestCancelledError } from '../../lib/core/errors.js';
 import type { Logger } from '../../lib/types/index.js';
 
 // Mock logger
@@ -180,6 +181,21 @@ describe('TokenBucketRateLimiter', () => {
       expect(elapsed).toBeLessThan(300);
     });
 
+    it('should stop waiting once the signal aborts', async () => {
+      await limiter.checkLimit();
+      await limiter.checkLimit();
+      await limiter.checkLimit();
+
+      const controller = new AbortController();
+      const startTime = Date.now();
+      const waiting = limiter.waitForToken(controller.signal);
+      controller.abort();
+
+      await expect(waiting).rejects.toThrow(RequestCancelledError);
+      expect(Date.now() - startTime).toBeLessThan(50);
+      await expect(limiter.waitForToken(controller.signal)).rejects.toThrow(RequestCancelledError);
+    });
+
     it('should return immediately if token available', async () => {
       const startTime = Date.now();
 
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createResponseParser,
+  JsonResponseParser,
+  XmlResponseParser,
+} from '../../lib/infrastructure/response-parsers.js';
+import { ResponseParseError } from '../../lib/core/errors.js';
+import { loadScenario, renderJson, renderXml } from '../../scripts/fake-senado/server.js';
+
+const scenario = await loadScenario('scripts/fake-senado/scenarios/default.json');
+
+describe('Response parsers', () => {
+  const xml = new XmlResponseParser();
+  const json = new JsonResponseParser();
+
+  it.each(Object.keys(scenario.routes))('should parse %s identically from XML and JSON', (route) => {
+    const body = scenario.routes[route];
+
+    expect(json.parse(renderJson(body))).toEqual(xml.parse(renderXml(body)));
+  });
+
+  it.each([
+    '0', '00', '007', '-007', '+5', '-0.50', '.5', '5.', '1e3', '00.1e2', '0x1F',
+    'true', 'false', ' texto ', '12345678901234567890', '2023-02-01', '01/02', '1.2.3', '',
+  ])('should type %j like the XML parser', (value) => {
+    const fromXml = xml.parse<{ a: { '@_v': unknown; '#text': unknown } }>(`<a v="${value}">${value}</a>`);
+    const fromJson = json.parse<{ a: { '@_v': unknown; '#text': unknown } }>(
+      JSON.stringify({ a: { '@v': value, '#text': value } })
+    );
+
+    expect(fromJson.a['@_v']).toEqual(fromXml.a['@_v']);
+    expect(fromJson.a['#text'] ?? '').toEqual(fromXml.a['#text'] ?? '');
+  });
+
+  it('should keep native JSON values and turn empty ones into ""', () => {
+    expect(json.parse('{"A":{"B":12,"C":true,"D":null,"E":{},"F":[" x ",{"@g":"1"}]}}')).toEqual({
+      A: { B: 12, C: true, D: '', E: '', F: ['x', { '@_g': 1 }] },
+    });
+  });
+
+  it('should throw ResponseParseError on malformed JSON', () => {
+    expect(() => json.parse('{"ListaPartidos": {')).toThrow(ResponseParseError);
+  });
+
+  it('should match responses by content type', () => {
+    expect(json.matches('application/json; charset=UTF-8')).toBe(true);
+    expect(xml.matches('text/xml; charset=UTF-8', '<a/>')).toBe(true);
+    expect(xml.matches('', '<?xml version="1.0"?><a/>')).toBe(true);
+    expect(json.matches('text/xml')).toBe(false);
+    expect(createResponseParser('json').format).toBe('json');
+    expect(createResponseParser('xml').accept).toContain('application/xml');
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionDurableObject } from '../../lib/durable-objects/session-do.js';
+
+/**
+ * Mock DurableObjectState for testing
+ */
+class MockDurableObjectState implements DurableObjectState {
+  private storageMap: Map<string, unknown> = new Map();
+  alarm: number | null = null;
+  id: DurableObjectId = {
+    toString: () => 'test-session-id',
+    equals: () => false,
+    name: 'test-session',
+  } as DurableObjectId;
+
+  waitUntil(promise: Promise<unknown>): void {
+    // No-op for testing
+  }
+
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+    return callback();
+  }
+
+  storage = {
+    get: async <T>(key: string): Promise<T | undefined> => {
+      return this.storageMap.get(key) as T | undefined;
+    },
+    put: async (key: string, value: unknown): Promise<void> => {
+      this.storageMap.set(key, value);
+    },
+    delete: async (key: string): Promise<boolean> => {
+      return this.storageMap.delete(key);
+    },
+    list: async () => {
+      return new Map(this.storageMap);
+    },
+    deleteAll: async (): Promise<void> => {
+      this.storageMap.clear();
+    },
+    transaction: async <T>(callback: () => Promise<T>): Promise<T> => {
+      return callback();
+    },
+    getAlarm: async () => null,
+    setAlarm: async (time: number) => {
+      this.alarm = time;
+    },
+    deleteAlarm: async () => {
+      this.alarm = null;
+    },
+    sync: async () => {},
+  } as DurableObjectStorage;
+
+  abort(): void {
+    throw new Error('Transaction aborted');
+  }
+}
+
+const post = (path: string, body: unknown) =>
+  new Request(`http://do${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+describe('SessionDurableObject', () => {
+  let sessionDO: SessionDurableObject;
+  let state: MockDurableObjectState;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    state = new MockDurableObjectState();
+    sessionDO = new SessionDurableObject(state, {});
+
+    await sessionDO.fetch(
+      post('/create', { session: { id: 'abc', createdAt: Date.now(), lastActivityAt: Date.now() }, ttl: 1000 })
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject sessions without ttl', async () => {
+    const response = await sessionDO.fetch(post('/create', { session: { id: 'abc' } }));
+    expect(response.status).toBe(400);
+  });
+
+  it('should touch the session and move the expiry alarm', async () => {
+    vi.advanceTimersByTime(500);
+
+    const response = await sessionDO.fetch(post('/touch', {}));
+    const data = await response.json() as { found: boolean; session: { id: string; lastActivityAt: number } };
+
+    expect(data.found).toBe(true);
+    expect(data.session.id).toBe('abc');
+    expect(state.alarm).toBe(data.session.lastActivityAt + 1000);
+  });
+
+  it('should expire idle sessions on alarm', async () => {
+    vi.advanceTimersByTime(1500);
+    await sessionDO.alarm();
+
+    const response = await sessionDO.fetch(post('/touch', {}));
+    expect(await response.json()).toEqual({ found: false });
+    expect(state.alarm).toBeNull();
+  });
+
+  it('should remove the subscriptions of expired sessions', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ success: true })));
+    const subscriptions = {
+      idFromName: (name: string) => name,
+      get: () => ({ fetch }),
+    } as unknown as DurableObjectNamespace;
+    sessionDO = new SessionDurableObject(state, { SUBSCRIPTIONS: subscriptions });
+    await sessionDO.fetch(
+      post('/create', { session: { id: 'abc', createdAt: Date.now(), lastActivityAt: Date.now() }, ttl: 1000 })
+    );
+
+    vi.advanceTimersByTime(1500);
+    await sessionDO.alarm();
+
+    expect(fetch).toHaveBeenCalledWith('http://do/subscriber?id=abc', { method: 'DELETE' });
+  });
+
+  it('should store the log level with the session', async () => {
+    const response = await sessionDO.fetch(post('/log-level', { level: 'info' }));
+    expect(await response.json()).toEqual({ found: true });
+
+    const touched = await sessionDO.fetch(post('/touch', {}));
+    expect(await touched.json()).toMatchObject({ session: { logLevel: 'info' } });
+  });
+
+  it('should queue notifications until taken', async () => {
+    const queued = await sessionDO.fetch(post('/notifications', { message: { n: 1 } }));
+    expect(await queued.json()).toEqual({ queued: true });
+
+    const first = await sessionDO.fetch(post('/notifications/take', {}));
+    const second = await sessionDO.fetch(post('/notifications/take', {}));
+    expect(await first.json()).toEqual({ notifications: [{ n: 1 }] });
+    expect(await second.json()).toEqual({ notifications: [] });
+  });
+
+  it('should delete the session', async () => {
+    const first = await sessionDO.fetch(new Request('http://do/delete', { method: 'DELETE' }));
+    const second = await sessionDO.fetch(new Request('http://do/delete', { method: 'DELETE' }));
+
+    expect(await first.json()).toMatchObject({ deleted: true });
+    expect(await second.json()).toMatchObject({ deleted: false });
+  });
+
+  it('should store events and replay the same stream', async () => {
+    const stored = async (streamId: string, message: unknown) => {
+      const response = await sessionDO.fetch(post('/events', { streamId, message }));
+      return ((await response.json()) as { id: string }).id;
+    };
+
+    const first = await stored('s1', 1);
+    await stored('s2', 2);
+    await stored('s1', 3);
+
+    const response = await sessionDO.fetch(new Request(`http://do/events?after=${first}`));
+    expect(await response.json()).toEqual({ events: [{ id: 's1:3', streamId: 's1', message: 3 }] });
+  });
+
+  it('should bound stored events per stream', async () => {
+    const stored = async (streamId: string, message: unknown) => {
+      const response = await sessionDO.fetch(post('/events', { streamId, message }));
+      return ((await response.json()) as { id: string }).id;
+    };
+
+    const resumed = await stored('post', 'progress');
+    await stored('post', 'response');
+    for (let n = 0; n < 150; n++) {
+      await stored('get', n);
+    }
+
+    const replay = async (after: string) =>
+      ((await (await sessionDO.fetch(new Request(`http://do/events?after=${after}`))).json()) as {
+        events: Array<{ message: unknown }>;
+      }).events.map((event) => event.message);
+
+    expect(await replay(resumed)).toEqual(['response']);
+    expect(await replay('get:3')).toEqual([]); // Evicted by later events of its own stream
+    expect(await replay('get:102')).toHaveLength(50);
+  });
+
+  it('should require the last event ID for replay', async () => {
+    const response = await sessionDO.fetch(new Request('http://do/events'));
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemorySessionStore } from '../../lib/infrastructure/session-store.js';
+import type { Logger, MCPSession } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn() } as unknown as Logger;
+
+const createSession = (id: string): MCPSession => ({
+  id,
+  createdAt: Date.now(),
+  lastActivityAt: Date.now(),
+});
+
+describe('InMemorySessionStore', () => {
+  let store: InMemorySessionStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new InMemorySessionStore({ ttl: 1000, maxEvents: 3 }, logger);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should create, touch and delete sessions', async () => {
+    await store.create(createSession('a'));
+
+    expect(await store.touch('a')).toMatchObject({ id: 'a' });
+    expect(await store.delete('a')).toBe(true);
+    expect(await store.touch('a')).toBeNull();
+    expect(await store.delete('a')).toBe(false);
+  });
+
+  it('should expire idle sessions and keep active ones', async () => {
+    await store.create(createSession('idle'));
+    await store.create(createSession('active'));
+
+    vi.advanceTimersByTime(800);
+    await store.touch('active');
+    vi.advanceTimersByTime(800);
+
+    expect(await store.touch('idle')).toBeNull();
+    expect(await store.touch('active')).not.toBeNull();
+  });
+
+  it('should tell the listeners when sessions expire', async () => {
+    const expired = vi.fn();
+    store.onExpired(expired);
+    await store.create(createSession('idle'));
+    await store.create(createSession('active'));
+
+    vi.advanceTimersByTime(800);
+    await store.touch('active');
+    expect(expired).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(800);
+    await store.touch('active');
+    expect(expired.mock.calls).toEqual([['idle']]);
+  });
+
+  it('should keep the log level with the session', async () => {
+    await store.create(createSession('a'));
+
+    expect(await store.setLogLevel('a', 'debug')).toBe(true);
+    expect(await store.touch('a')).toMatchObject({ logLevel: 'debug' });
+    expect(await store.setLogLevel('b', 'debug')).toBe(false);
+  });
+
+  it('should queue notifications until taken', async () => {
+    await store.create(createSession('a'));
+
+    expect(await store.queueNotification('a', { n: 1 })).toBe(true);
+    expect(await store.queueNotification('b', { n: 1 })).toBe(false);
+    for (let n = 2; n <= 4; n++) {
+      await store.queueNotification('a', { n });
+    }
+
+    expect(await store.takeNotifications('a')).toEqual([{ n: 2 }, { n: 3 }, { n: 4 }]);
+    expect(await store.takeNotifications('a')).toEqual([]);
+  });
+
+  it('should replay the events of the same stream after the last event ID', async () => {
+    await store.create(createSession('a'));
+
+    const first = await store.storeEvent('a', 's1', { n: 1 });
+    await store.storeEvent('a', 's2', { n: 2 });
+    const third = await store.storeEvent('a', 's1', { n: 3 });
+
+    expect(first).toBe('s1:1');
+    expect(await store.replayEventsAfter('a', first)).toEqual([{ id: third, streamId: 's1', message: { n: 3 } }]);
+    expect(await store.replayEventsAfter('a', 'unknown:1')).toEqual([]);
+  });
+
+  it('should keep only the latest events', async () => {
+    await store.create(createSession('a'));
+
+    const first = await store.storeEvent('a', 's1', 1);
+    const second = await store.storeEvent('a', 's1', 2);
+    await store.storeEvent('a', 's1', 3);
+    await store.storeEvent('a', 's1', 4);
+
+    expect(await store.replayEventsAfter('a', first)).toEqual([]);
+    expect((await store.replayEventsAfter('a', second)).map((event) => event.message)).toEqual([3, 4]);
+  });
+
+  it('should bound events per stream, so other streams never evict a stream being resumed', async () => {
+    await store.create(createSession('a'));
+
+    const resumed = await store.storeEvent('a', 'post', 'progress');
+    await store.storeEvent('a', 'post', 'response');
+    for (const n of [1, 2, 3, 4, 5]) {
+      await store.storeEvent('a', 'get', n);
+    }
+
+    expect((await store.replayEventsAfter('a', resumed)).map((event) => event.message)).toEqual(['response']);
+  });
+
+  it('should drop the events of the least recently active stream over the stream bound', async () => {
+    store = new InMemorySessionStore({ ttl: 1000, maxEvents: 3, maxStreams: 2 }, logger);
+    await store.create(createSession('a'));
+
+    const s1 = await store.storeEvent('a', 's1', 1);
+    const s2 = await store.storeEvent('a', 's2', 1);
+    await store.storeEvent('a', 's1', 2);
+    await store.storeEvent('a', 's2', 2);
+    await store.storeEvent('a', 's3', 1);
+
+    expect(await store.replayEventsAfter('a', s1)).toEqual([]);
+    expect((await store.replayEventsAfter('a', s2)).map((event) => event.message)).toEqual([2]);
+  });
+});
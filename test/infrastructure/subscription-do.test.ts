@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SubscriptionDurableObject } from '../../lib/durable-objects/subscription-do.js';
+
+/**
+ * Mock DurableObjectState for testing
+ */
+class MockDurableObjectState implements DurableObjectState {
+  private storageMap: Map<string, unknown> = new Map();
+  alarm: number | null = null;
+  id: DurableObjectId = {
+    toString: () => 'test-subscriptions-id',
+    equals: () => false,
+    name: 'global-subscriptions',
+  } as DurableObjectId;
+
+  waitUntil(promise: Promise<unknown>): void {
+    // No-op for testing
+  }
+
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+    return callback();
+  }
+
+  storage = {
+    get: async <T>(key: string): Promise<T | undefined> => {
+      return this.storageMap.get(key) as T | undefined;
+    },
+    put: async (key: string, value: unknown): Promise<void> => {
+      this.storageMap.set(key, value);
+    },
+    delete: async (key: string): Promise<boolean> => {
+      return this.storageMap.delete(key);
+    },
+    list: async () => {
+      return new Map(this.storageMap);
+    },
+    deleteAll: async (): Promise<void> => {
+      this.storageMap.clear();
+    },
+    transaction: async <T>(callback: () => Promise<T>): Promise<T> => {
+      return callback();
+    },
+    getAlarm: async () => null,
+    setAlarm: async (time: number) => {
+      this.alarm = time;
+    },
+    deleteAlarm: async () => {
+      this.alarm = null;
+    },
+    sync: async () => {},
+  } as DurableObjectStorage;
+
+  abort(): void {
+    throw new Error('Transaction aborted');
+  }
+}
+
+const post = (path: string, body: unknown) =>
+  new Request(`http://do${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+describe('SubscriptionDurableObject', () => {
+  let subscriptionDO: SubscriptionDurableObject;
+  let state: MockDurableObjectState;
+
+  const subscriptions = async (target: SubscriptionDurableObject = subscriptionDO) => {
+    const response = await target.fetch(new Request('http://do/subscriptions'));
+    return ((await response.json()) as { subscriptions: Record<string, string[]> }).subscriptions;
+  };
+
+  beforeEach(() => {
+    state = new MockDurableObjectState();
+    subscriptionDO = new SubscriptionDurableObject(state, {});
+  });
+
+  it('should subscribe and unsubscribe sessions', async () => {
+    await subscriptionDO.fetch(post('/subscribe', { subscriberId: 'a', uri: 'senado://materia/1' }));
+    await subscriptionDO.fetch(post('/subscribe', { subscriberId: 'b', uri: 'senado://materia/1' }));
+    await subscriptionDO.fetch(post('/subscribe', { subscriberId: 'a', uri: 'senado://materia/1' }));
+    expect(await subscriptions()).toEqual({ 'senado://materia/1': ['a', 'b'] });
+
+    await subscriptionDO.fetch(post('/unsubscribe', { subscriberId: 'a', uri: 'senado://materia/1' }));
+    await subscriptionDO.fetch(post('/unsubscribe', { subscriberId: 'b', uri: 'senado://materia/1' }));
+    expect(await subscriptions()).toEqual({});
+  });
+
+  it('should reject subscriptions without subscriber or URI', async () => {
+    const response = await subscriptionDO.fetch(post('/subscribe', { uri: 'senado://materia/1' }));
+    expect(response.status).toBe(400);
+  });
+
+  it('should remove every subscription of a session', async () => {
+    await subscriptionDO.fetch(post('/subscribe', { subscriberId: 'a', uri: 'senado://materia/1' }));
+    await subscriptionDO.fetch(post('/subscribe', { subscriberId: 'a', uri: 'senado://materia/2' }));
+    await subscriptionDO.fetch(post('/subscribe', { subscriberId: 'b', uri: 'senado://materia/2' }));
+
+    await subscriptionDO.fetch(new Request('http://do/subscriber?id=a', { method: 'DELETE' }));
+    expect(await subscriptions()).toEqual({ 'senado://materia/2': ['b'] });
+  });
+
+  it('should persist subscriptions and the checkpoint', async () => {
+    await subscriptionDO.fetch(post('/subscribe', { subscriberId: 'a', uri: 'senado://materia/1' }));
+    await subscriptionDO.fetch(post('/checkpoint', { checkpoint: 1000 }));
+
+    const restored = new SubscriptionDurableObject(state, {});
+    await new Promise((resolve) => setTimeout(resolve, 0)); // Let it load from storage
+    expect(await subscriptions(restored)).toEqual({ 'senado://materia/1': ['a'] });
+
+    const checkpoint = await restored.fetch(new Request('http://do/checkpoint'));
+    expect(await checkpoint.json()).toEqual({ checkpoint: 1000 });
+  });
+
+  it('should reject checkpoints that are not numbers', async () => {
+    const response = await subscriptionDO.fetch(post('/checkpoint', { checkpoint: 'now' }));
+    expect(response.status).toBe(400);
+  });
+});
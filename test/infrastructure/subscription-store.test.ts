@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InMemorySubscriptionStore } from '../../lib/infrastructure/subscription-store.js';
+import type { Logger } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn() } as unknown as Logger;
+
+describe('InMemorySubscriptionStore', () => {
+  let store: InMemorySubscriptionStore;
+
+  beforeEach(() => {
+    store = new InMemorySubscriptionStore(logger);
+  });
+
+  it('should list the subscribers of each URI', async () => {
+    await store.subscribe('a', 'senado://materia/1');
+    await store.subscribe('b', 'senado://materia/1');
+    await store.subscribe('a', 'senado://materia/1');
+    await store.subscribe('a', 'senado://materia/2');
+
+    expect(await store.getSubscriptions()).toEqual({
+      'senado://materia/1': ['a', 'b'],
+      'senado://materia/2': ['a'],
+    });
+  });
+
+  it('should drop URIs without subscribers', async () => {
+    await store.subscribe('a', 'senado://materia/1');
+    await store.subscribe('b', 'senado://materia/1');
+    await store.subscribe('a', 'senado://materia/2');
+
+    await store.unsubscribe('b', 'senado://materia/1');
+    await store.unsubscribe('b', 'senado://materia/2');
+    expect(await store.getSubscriptions()).toEqual({
+      'senado://materia/1': ['a'],
+      'senado://materia/2': ['a'],
+    });
+
+    await store.removeSubscriber('a');
+    expect(await store.getSubscriptions()).toEqual({});
+  });
+
+  it('should keep the poller checkpoint', async () => {
+    expect(await store.getCheckpoint()).toBeNull();
+
+    await store.setCheckpoint(1000);
+    expect(await store.getCheckpoint()).toBe(1000);
+  });
+});
@@ -0,0 +1,671 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import type { ToolContext, Logger, HttpClient, CacheInterface } from '../../lib/types/index.js';
+import { senatorTools } from '../../lib/tools/senator-tools.js';
+import { votingTools } from '../../lib/tools/voting-tools.js';
+import { proposalTools } from '../../lib/tools/proposal-tools.js';
+import { RequestCancelledError, throwIfCancelled } from '../../lib/core/errors.js';
+
+// Mock logger
+const createMockLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  logToolInvocation: vi.fn(),
+  logCacheHit: vi.fn(),
+  logCacheMiss: vi.fn(),
+});
+
+// Mock cache
+const createMockCache = (): CacheInterface => ({
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue(undefined),
+  delete: vi.fn().mockResolvedValue(undefined),
+  clear: vi.fn().mockResolvedValue(undefined),
+  generateKey: vi.fn((prefix, params) => `${prefix}:${JSON.stringify(params)}`),
+  getStats: vi.fn().mockReturnValue({ hits: 0, misses: 0, size: 0, hitRate: 0 }),
+});
+
+const buildSenatorVote = (
+  codigo: number,
+  voto: string,
+  sigla: string,
+  data = '2024-03-10'
+) => ({
+  CodigoSessaoVotacao: codigo,
+  SiglaDescricaoVoto: voto,
+  DescricaoVotacao: `Votação ${codigo}`,
+  SessaoPlenaria: { DataSessao: data },
+  IdentificacaoMateria: { SiglaSubtipoMateria: sigla, NumeroMateria: codigo, AnoMateria: 2024 },
+});
+
+const parseResult = (text: string) => JSON.parse(text.slice(text.indexOf('{')));
+
+describe('Analysis Tools Integration Tests', () => {
+  let registry: ToolRegistry;
+  let mockContext: ToolContext;
+  let mockHttpClient: HttpClient;
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    mockHttpClient = { get: vi.fn(), post: vi.fn() };
+    mockLogger = createMockLogger();
+
+    mockContext = {
+      httpClient: mockHttpClient,
+      cache: createMockCache(),
+      config: {} as ToolContext['config'],
+      logger: mockLogger,
+    };
+
+    registry.registerMany(senatorTools);
+    registry.registerMany(votingTools);
+    registry.registerMany(proposalTools);
+  });
+
+  /**
+   * Run a tool handler whose client cancels on the first request matching the pattern
+   */
+  const runCancelledOn = async (tool: string, args: unknown, pattern: RegExp) => {
+    const controller = new AbortController();
+    const waitForToken = vi.fn(async (signal?: AbortSignal) => throwIfCancelled(signal));
+    const fetch = vi.mocked(mockHttpClient.get).getMockImplementation()!;
+    vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string, params) => {
+      if (pattern.test(endpoint)) {
+        controller.abort();
+        throw new RequestCancelledError();
+      }
+      return fetch(endpoint, params);
+    });
+
+    const handler = registry.get(tool).handler(args, {
+      ...mockContext,
+      signal: controller.signal,
+      rateLimiter: { checkLimit: vi.fn(), waitForToken, getStats: vi.fn() },
+    });
+    await expect(handler).rejects.toThrow(RequestCancelledError);
+    expect(mockLogger.warn).not.toHaveBeenCalled();
+    return waitForToken;
+  };
+
+  describe('Senator Party Alignment Tool (senador_alinhamento_partido)', () => {
+    const orientations: Record<number, unknown> = {
+      101: { OrientacaoBancada: { orientacao: [{ siglaPartido: 'PT', orientacao: 'Sim' }] } },
+      102: { OrientacaoBancada: { orientacao: { siglaPartido: 'PT', orientacao: 'Não' } } },
+      103: { OrientacaoBancada: { orientacao: [{ siglaPartido: 'PT', orientacao: 'Liberado' }] } },
+      104: { OrientacaoBancada: { orientacao: [{ siglaPartido: 'PT', orientacao: 'Sim' }] } },
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string) => {
+        if (endpoint === '/senador/5012/votacoes') {
+          return {
+            statusCode: 200,
+            data: {
+              VotacaoParlamentar: {
+                Parlamentar: {
+                  IdentificacaoParlamentar: { SiglaPartidoParlamentar: 'PT' },
+                  Votacoes: {
+                    Votacao: [
+                      buildSenatorVote(101, 'Sim', 'PL'),
+                      buildSenatorVote(102, 'Sim', 'PEC'),
+                      buildSenatorVote(103, 'Não', 'PL'),
+                      buildSenatorVote(104, 'Sim', 'PL'),
+                      buildSenatorVote(105, 'AP', 'PL'),
+                    ],
+                  },
+                },
+              },
+            },
+          };
+        }
+
+        const match = endpoint.match(/^\/votacao\/(\d+)\/orientacoes$/);
+        if (match) {
+          return { statusCode: 200, data: orientations[Number(match[1])] ?? {} };
+        }
+
+        throw new Error(`Unexpected endpoint: ${endpoint}`);
+      });
+    });
+
+    it('should compute alignment percentage, dissents and breakdown by type', async () => {
+      const result = await registry.invoke(
+        'senador_alinhamento_partido',
+        { codigo: 5012, dataInicio: '2024-01-01', dataFim: '2024-12-31' },
+        mockContext
+      );
+
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.partido).toBe('PT');
+      expect(summary.totalVotacoes).toBe(5);
+      expect(summary.votacoesComparadas).toBe(3);
+      expect(summary.votacoesSemOrientacao).toBe(1);
+      expect(summary.votosAlinhados).toBe(2);
+      expect(summary.percentualAlinhamento).toBe(66.7);
+      expect(summary.divergencias).toHaveLength(1);
+      expect(summary.divergencias[0]).toMatchObject({ codigoVotacao: 102, orientacao: 'NAO' });
+      expect(summary.porTipoMateria).toEqual([
+        { tipo: 'PL', total: 2, alinhados: 2, percentualAlinhamento: 100 },
+        { tipo: 'PEC', total: 1, alinhados: 0, percentualAlinhamento: 0 },
+      ]);
+
+      // Absent votes (AP) should not trigger an orientation lookup
+      expect(mockHttpClient.get).not.toHaveBeenCalledWith('/votacao/105/orientacoes', {});
+    });
+
+    it('should take a rate limiter token for every upstream request', async () => {
+      const waitForToken = vi.fn().mockResolvedValue(undefined);
+      mockContext.rateLimiter = { waitForToken } as unknown as ToolContext['rateLimiter'];
+
+      await registry.invoke('senador_alinhamento_partido', { codigo: 5012 }, mockContext);
+
+      expect(waitForToken).toHaveBeenCalledTimes(vi.mocked(mockHttpClient.get).mock.calls.length);
+      expect(waitForToken).toHaveBeenCalledTimes(5);
+    });
+
+    it('should stop fetching orientations once the client cancels', async () => {
+      const waitForToken = await runCancelledOn('senador_alinhamento_partido', { codigo: 5012 }, /orientacoes$/);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+      expect(waitForToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should filter votes outside the requested date range', async () => {
+      const result = await registry.invoke(
+        'senador_alinhamento_partido',
+        { codigo: 5012, dataInicio: '2025-01-01' },
+        mockContext
+      );
+
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.totalVotacoes).toBe(0);
+      expect(summary.percentualAlinhamento).toBe(0);
+    });
+
+    it('should skip votações whose orientations cannot be fetched', async () => {
+      const defaultImplementation = vi.mocked(mockHttpClient.get).getMockImplementation()!;
+      vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string, params) => {
+        if (endpoint === '/votacao/101/orientacoes') {
+          throw new Error('Network error');
+        }
+        return defaultImplementation(endpoint, params);
+      });
+
+      const result = await registry.invoke('senador_alinhamento_partido', { codigo: 5012 }, mockContext);
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.votacoesComparadas).toBe(2);
+      expect(summary.votacoesSemOrientacao).toBe(2);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Failed to get orientations for voting session',
+        expect.objectContaining({ codigoVotacao: 101 })
+      );
+    });
+
+    /**
+     * Serve the senator votes and per-votação orientations, plus the bloc list
+     */
+    const serveAlignment = (
+      votes: unknown[],
+      orientationsByVote: Record<number, unknown>,
+      blocs: unknown = { ListaBlocoParlamentar: { Blocos: { Bloco: [] } } }
+    ) => {
+      vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string) => {
+        if (endpoint === '/senador/5012/votacoes') {
+          return {
+            statusCode: 200,
+            data: {
+              VotacaoParlamentar: {
+                Parlamentar: {
+                  IdentificacaoParlamentar: { CodigoParlamentar: 5012, SiglaPartidoParlamentar: 'PSD' },
+                  Votacoes: { Votacao: votes },
+                },
+              },
+            },
+          };
+        }
+        if (endpoint === '/composicao/lista/blocos') {
+          return { statusCode: 200, data: blocs };
+        }
+
+        const match = endpoint.match(/^\/votacao\/(\d+)\/orientacoes$/);
+        if (match) {
+          return { statusCode: 200, data: orientationsByVote[Number(match[1])] ?? {} };
+        }
+
+        throw new Error(`Unexpected endpoint: ${endpoint}`);
+      });
+    };
+
+    it('should compare each vote with the party the senator belonged to on that day', async () => {
+      serveAlignment(
+        [
+          { ...buildSenatorVote(301, 'Sim', 'PL', '2022-05-10'), SiglaPartidoParlamentar: 'PT' },
+          { ...buildSenatorVote(302, 'Não', 'PL', '2024-05-10'), SiglaPartidoParlamentar: 'PSD' },
+        ],
+        {
+          301: { OrientacaoBancada: { orientacao: [{ siglaPartido: 'PT', orientacao: 'Sim' }, { siglaPartido: 'PSD', orientacao: 'Não' }] } },
+          302: { OrientacaoBancada: { orientacao: [{ siglaPartido: 'PT', orientacao: 'Sim' }, { siglaPartido: 'PSD', orientacao: 'Sim' }] } },
+        }
+      );
+
+      const result = await registry.invoke('senador_alinhamento_partido', { codigo: 5012 }, mockContext);
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.partido).toBe('PSD');
+      expect(summary.votacoesComparadas).toBe(2);
+      expect(summary.votosAlinhados).toBe(1);
+      expect(summary.divergencias).toEqual([
+        expect.objectContaining({ codigoVotacao: 302, partido: 'PSD', bancada: 'PSD', orientacao: 'SIM' }),
+      ]);
+      // Every party gave its own orientation, so blocs are never looked up
+      expect(mockHttpClient.get).not.toHaveBeenCalledWith('/composicao/lista/blocos', {});
+    });
+
+    it('should fall back to the orientation of the bloc when the party gave none', async () => {
+      serveAlignment(
+        [buildSenatorVote(401, 'Não', 'PEC', '2024-05-10'), buildSenatorVote(402, 'Sim', 'PL', '2024-06-10')],
+        {
+          401: { OrientacaoBancada: { orientacao: [{ siglaBancada: 'Bloco Parlamentar da Resistência Democrática', orientacao: 'Sim' }] } },
+          402: { OrientacaoBancada: { orientacao: { siglaBancada: 'Bloco Parlamentar da Resistência Democrática', orientacao: 'Sim' } } },
+        },
+        {
+          ListaBlocoParlamentar: {
+            Blocos: {
+              Bloco: [
+                {
+                  CodigoBloco: 1,
+                  NomeBloco: 'Bloco Parlamentar Extinto',
+                  DataCriacao: '2019-02-01',
+                  DataExtincao: '2023-01-31',
+                  Membros: { Membro: { Partido: { CodigoPartido: 1, SiglaPartido: 'PSD' } } },
+                },
+                {
+                  CodigoBloco: 2,
+                  NomeBloco: 'Bloco Parlamentar da Resistência Democrática',
+                  DataCriacao: '2023-02-01',
+                  Membros: { Membro: [{ Partido: { CodigoPartido: 1, SiglaPartido: 'PSD' } }, { Partido: { CodigoPartido: 2, SiglaPartido: 'PT' } }] },
+                },
+              ],
+            },
+          },
+        }
+      );
+
+      const result = await registry.invoke('senador_alinhamento_partido', { codigo: 5012 }, mockContext);
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.votacoesComparadas).toBe(2);
+      expect(summary.votacoesSemOrientacao).toBe(0);
+      expect(summary.votosAlinhados).toBe(1);
+      expect(summary.divergencias).toEqual([
+        expect.objectContaining({
+          codigoVotacao: 401,
+          partido: 'PSD',
+          bancada: 'BLOCO PARLAMENTAR DA RESISTÊNCIA DEMOCRÁTICA',
+          orientacao: 'SIM',
+        }),
+      ]);
+      expect(vi.mocked(mockHttpClient.get).mock.calls.filter(([endpoint]) => endpoint === '/composicao/lista/blocos')).toHaveLength(1);
+    });
+  });
+
+  describe('Voting Similarity Tool (votacoes_similaridade)', () => {
+    const ballots: Record<number, Array<[number, string]>> = {
+      201: [[1, 'Sim'], [2, 'Sim'], [3, 'Não'], [4, 'Não']],
+      202: [[1, 'Não'], [2, 'Não'], [3, 'Sim'], [4, 'Sim']],
+      203: [[1, 'Sim'], [2, 'Sim'], [3, 'Não'], [4, 'Abstenção']],
+      204: [[1, 'Sim'], [2, 'Sim'], [3, 'Não'], [4, 'Não']],
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string) => {
+        if (endpoint === '/votacao') {
+          return {
+            statusCode: 200,
+            data: [201, 202, 203, 204].map((codigo) => ({ codigoSessaoVotacao: codigo })),
+          };
+        }
+
+        const match = endpoint.match(/^\/votacao\/(\d+)\/votos$/);
+        if (match) {
+          return {
+            statusCode: 200,
+            data: {
+              votos: (ballots[Number(match[1])] ?? []).map(([codigo, voto]) => ({
+                codigoParlamentar: codigo,
+                nomeParlamentar: `Senador ${codigo}`,
+                siglaPartido: codigo <= 2 ? 'PT' : 'PL',
+                voto,
+              })),
+            },
+          };
+        }
+
+        throw new Error(`Unexpected endpoint: ${endpoint}`);
+      });
+    });
+
+    it('should build the agreement matrix, ranked pairs and voting blocs', async () => {
+      const result = await registry.invoke(
+        'votacoes_similaridade',
+        { dataInicio: '2024-01-01', dataFim: '2024-12-31', limiarBloco: 0.7 },
+        mockContext
+      );
+
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.votacoesAnalisadas).toBe(4);
+      expect(summary.senadores.map((s: { codigo: number }) => s.codigo)).toEqual([1, 2, 3, 4]);
+      expect(summary.matriz[0]).toEqual([1, 1, 0, 0]);
+      expect(summary.matriz[2][3]).toBe(0.75);
+      expect(summary.paresMaisSimilares[0]).toMatchObject({ senadorA: 1, senadorB: 2, concordancia: 1 });
+      expect(summary.paresMaisSimilares).toHaveLength(5);
+      expect(summary.paresMenosSimilares).toHaveLength(1);
+      expect(mockLogger.info).not.toHaveBeenCalledWith('Voting similarity progress', expect.anything());
+      expect(summary.paresMenosSimilares[0]).toMatchObject({ concordancia: 0 });
+      expect(summary.blocos).toHaveLength(2);
+      expect(summary.blocos.map((b: { senadores: Array<{ codigo: number }> }) =>
+        b.senadores.map((s) => s.codigo).sort()
+      )).toEqual([[1, 2], [3, 4]]);
+    });
+
+    it('should analyse the earliest votações of the period and report how many were left out', async () => {
+      const defaultImplementation = vi.mocked(mockHttpClient.get).getMockImplementation()!;
+      vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string, params) => {
+        if (endpoint === '/votacao') {
+          return {
+            statusCode: 200,
+            data: [
+              { codigoSessaoVotacao: 204, dataSessao: '2024-03-01' },
+              { codigoSessaoVotacao: 201, dataSessao: '2024-05-01' },
+              { codigoSessaoVotacao: 203, dataSessao: '2024-03-01' },
+              { codigoSessaoVotacao: 202, dataSessao: '2024-02-01' },
+            ],
+          };
+        }
+        return defaultImplementation(endpoint, params);
+      });
+
+      const result = await registry.invoke(
+        'votacoes_similaridade',
+        { dataInicio: '2024-01-01', dataFim: '2024-12-31', limite: 3 },
+        mockContext
+      );
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary).toMatchObject({
+        votacoesEncontradas: 4,
+        votacoesSolicitadas: 3,
+        votacoesAnalisadas: 3,
+        votacoesForaDoLimite: 1,
+      });
+      expect(result.content[0].text).toContain('3 de 4 votações');
+      expect(
+        vi.mocked(mockHttpClient.get).mock.calls.map(([endpoint]) => endpoint).filter((endpoint) => endpoint.endsWith('/votos'))
+      ).toEqual(['/votacao/202/votos', '/votacao/203/votos', '/votacao/204/votos']);
+    });
+
+    it('should leave pairs with too few common votes out of the matrix', async () => {
+      const result = await registry.invoke(
+        'votacoes_similaridade',
+        { votacoes: [201, 202], minimoVotacoesComuns: 3 },
+        mockContext
+      );
+
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.matriz[0]).toEqual([1, null, null, null]);
+      expect(summary.paresMaisSimilares).toHaveLength(0);
+      expect(summary.paresMenosSimilares).toHaveLength(0);
+      expect(summary.blocos).toHaveLength(4);
+      expect(mockHttpClient.get).not.toHaveBeenCalledWith('/votacao', expect.anything());
+    });
+
+    it('should wait for the rate limiter before each upstream call', async () => {
+      const waitForToken = vi.fn().mockResolvedValue(undefined);
+      mockContext.rateLimiter = {
+        checkLimit: vi.fn().mockResolvedValue(true),
+        waitForToken,
+        getStats: vi.fn(),
+      };
+
+      await registry.invoke('votacoes_similaridade', { votacoes: [201, 202, 203] }, mockContext);
+
+      expect(waitForToken).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop fetching votes once the client cancels', async () => {
+      const waitForToken = await runCancelledOn('votacoes_similaridade', { votacoes: [201, 202, 203] }, /^\/votacao\/201/);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+      expect(waitForToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report progress for each votação', async () => {
+      const progress = vi.fn();
+
+      await registry.invoke('votacoes_similaridade', { votacoes: [201, 202] }, { ...mockContext, progress });
+
+      expect(progress.mock.calls.map(([update]) => update)).toEqual([
+        { progress: 1, total: 2, message: 'Votação 201 processada' },
+        { progress: 2, total: 2, message: 'Votação 202 processada' },
+      ]);
+    });
+
+    it('should require either voting codes or a date range', async () => {
+      await expect(
+        registry.invoke('votacoes_similaridade', {}, mockContext)
+      ).rejects.toThrow('votacoes');
+    });
+  });
+
+  describe('Proposal Timeline Tool (materia_linha_do_tempo)', () => {
+    const responses: Record<string, unknown> = {
+      '/materia/7001/tramitacoes': {
+        MovimentacaoMateria: {
+          Materia: {
+            Tramitacoes: {
+              Tramitacao: [
+                {
+                  IdentificacaoTramitacao: {
+                    DataTramitacao: '2024-03-20',
+                    NumeroOrdemTramitacao: 2,
+                    TextoTramitacao: 'Encaminhado ao Plenário',
+                    OrigemTramitacao: { Local: { SiglaLocal: 'CCJ', NomeLocal: 'Comissão de Constituição e Justiça' } },
+                    DestinoTramitacao: { Local: { SiglaLocal: 'PLEN', NomeLocal: 'Plenário do Senado Federal' } },
+                  },
+                },
+                {
+                  IdentificacaoTramitacao: {
+                    DataTramitacao: '2024-03-01',
+                    NumeroOrdemTramitacao: 1,
+                    TextoTramitacao: 'Recebido na comissão',
+                    OrigemTramitacao: { Local: { SiglaLocal: 'SF-SEADI', NomeLocal: 'Secretaria de Atas' } },
+                    DestinoTramitacao: { Local: { SiglaLocal: 'CCJ', NomeLocal: 'Comissão de Constituição e Justiça' } },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      '/materia/7001/votacoes': {
+        VotacaoMateria: {
+          Materia: {
+            Votacoes: {
+              Votacao: { CodigoSessaoVotacao: 9001, DescricaoVotacao: 'Votação em turno único', SessaoPlenaria: { DataSessao: '2024-04-02' } },
+            },
+          },
+        },
+      },
+      '/materia/7001/relatorias': {
+        RelatoriaMateria: {
+          Materia: {
+            Relatoria: [
+              {
+                DataDesignacao: '05/03/2024',
+                DescricaoTipoRelator: 'Relator',
+                IdentificacaoParlamentar: { CodigoParlamentar: 5012, NomeParlamentar: 'Fulana de Tal' },
+                IdentificacaoComissao: { SiglaComissao: 'CCJ', NomeComissao: 'Comissão de Constituição e Justiça' },
+              },
+            ],
+          },
+        },
+      },
+      '/materia/7001/emendas': { EmendaMateria: { Materia: { Emendas: null } } },
+      '/materia/7001/textos': {
+        TextoMateria: {
+          Materia: {
+            Textos: {
+              Texto: [
+                { CodigoTexto: 333, DataTexto: '2024-03-01', DescricaoTipoTexto: 'Avulso inicial', UrlTexto: 'https://example.org/333.pdf' },
+                { CodigoTexto: 334, DescricaoTipoTexto: 'Texto sem data' },
+              ],
+            },
+          },
+        },
+      },
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-04-10T12:00:00Z'));
+      vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string) => {
+        if (endpoint in responses) {
+          return { statusCode: 200, data: responses[endpoint] };
+        }
+        throw new Error(`Unexpected endpoint: ${endpoint}`);
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should merge all sources into a chronologically sorted timeline', async () => {
+      const result = await registry.invoke('materia_linha_do_tempo', { codigo: 7001 }, mockContext);
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.totalEventos).toBe(5);
+      expect(summary.eventosSemData).toBe(1);
+      expect(summary.eventos.map((e: { tipo: string; data: string }) => `${e.data}:${e.tipo}`)).toEqual([
+        '2024-03-01:tramitacao',
+        '2024-03-01:texto',
+        '2024-03-05:relatoria',
+        '2024-03-20:tramitacao',
+        '2024-04-02:votacao',
+      ]);
+
+      const relatoria = summary.eventos[2];
+      expect(relatoria.ator).toBe('Fulana de Tal');
+      expect(relatoria.orgao).toEqual({ sigla: 'CCJ', nome: 'Comissão de Constituição e Justiça', tipo: 'comissao' });
+      expect(relatoria.fonte).toMatchObject({ ferramenta: 'materia_relatorias', endpoint: '/materia/7001/relatorias', codigo: '5012' });
+
+      const votacao = summary.eventos[4];
+      expect(votacao.orgao.tipo).toBe('plenario');
+      expect(votacao.fonte.codigo).toBe('9001');
+      expect(summary.eventos[1].fonte.url).toBe('https://example.org/333.pdf');
+    });
+
+    it('should order same-day events by source and then by sequence', async () => {
+      const tramitacao = (numero: number) => ({
+        IdentificacaoTramitacao: { DataTramitacao: '2024-03-01', NumeroOrdemTramitacao: numero, TextoTramitacao: `Tramitação ${numero}` },
+      });
+      responses['/materia/7002/tramitacoes'] = { MovimentacaoMateria: { Materia: { Tramitacoes: { Tramitacao: [tramitacao(5), tramitacao(4)] } } } };
+      responses['/materia/7002/votacoes'] = {
+        VotacaoMateria: {
+          Materia: {
+            Votacoes: {
+              Votacao: {
+                CodigoSessaoVotacao: 9002,
+                DataSessao: '2024-03-01',
+                SiglaColegiado: 'CCJ',
+                NomeColegiado: 'Comissão de Constituição e Justiça',
+              },
+            },
+          },
+        },
+      };
+      responses['/materia/7002/relatorias'] = {};
+      responses['/materia/7002/emendas'] = {
+        EmendaMateria: {
+          Materia: { Emendas: { Emenda: [{ CodigoEmenda: 12, NumeroEmenda: '2', DataApresentacao: '2024-03-01' }, { CodigoEmenda: 11, DataApresentacao: '2024-03-01' }] } },
+        },
+      };
+      responses['/materia/7002/textos'] = {
+        TextoMateria: { Materia: { Textos: { Texto: [{ DescricaoTipoTexto: 'Sem código', DataTexto: '2024-03-01' }, { CodigoTexto: 40, DataTexto: '2024-03-01' }] } } },
+      };
+
+      const result = await registry.invoke('materia_linha_do_tempo', { codigo: 7002 }, mockContext);
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.eventos.map((e: { tipo: string; fonte: { codigo?: string } }) => `${e.tipo}:${e.fonte.codigo ?? '-'}`)).toEqual([
+        'tramitacao:4',
+        'tramitacao:5',
+        'votacao:9002',
+        'emenda:11',
+        'emenda:12',
+        'texto:40',
+        'texto:-',
+      ]);
+      expect(summary.eventos[2].orgao).toEqual({ sigla: 'CCJ', nome: 'Comissão de Constituição e Justiça', tipo: 'comissao' });
+      expect(summary.eventos[4].descricao).toBe('Emenda 2');
+    });
+
+    it('should report how long the matéria spent in each stage', async () => {
+      const result = await registry.invoke('materia_linha_do_tempo', { codigo: 7001 }, mockContext);
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.etapas).toEqual([
+        expect.objectContaining({ orgao: expect.objectContaining({ sigla: 'CCJ' }), inicio: '2024-03-01', fim: '2024-03-20', dias: 19, emAndamento: false }),
+        expect.objectContaining({ orgao: expect.objectContaining({ sigla: 'PLEN', tipo: 'plenario' }), inicio: '2024-03-20', fim: null, dias: 21, emAndamento: true }),
+      ]);
+      expect(summary.tempoPorOrgao[0]).toMatchObject({ dias: 21, passagens: 1 });
+    });
+
+    it('should filter events by period and report unavailable sources', async () => {
+      const defaultImplementation = vi.mocked(mockHttpClient.get).getMockImplementation()!;
+      vi.mocked(mockHttpClient.get).mockImplementation(async (endpoint: string, params) => {
+        if (endpoint === '/materia/7001/votacoes') {
+          throw new Error('Network error');
+        }
+        return defaultImplementation(endpoint, params);
+      });
+
+      const result = await registry.invoke(
+        'materia_linha_do_tempo',
+        { codigo: 7001, dataInicio: '2024-03-02' },
+        mockContext
+      );
+      const summary = parseResult(result.content[0].text);
+
+      expect(summary.totalEventos).toBe(2);
+      expect(summary.fontesIndisponiveis).toEqual(['materia_votacoes']);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'Failed to get proposal timeline source',
+        expect.objectContaining({ fonte: 'materia_votacoes' })
+      );
+    });
+
+    it('should stop fetching sources once the client cancels', async () => {
+      const waitForToken = await runCancelledOn('materia_linha_do_tempo', { codigo: 7001 }, /.*/);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+      expect(waitForToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when no source can be fetched', async () => {
+      vi.mocked(mockHttpClient.get).mockRejectedValue(new Error('Network error'));
+
+      await expect(
+        registry.invoke('materia_linha_do_tempo', { codigo: 7001 }, mockContext)
+      ).rejects.toThrow('Network error');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CompletionRegistry, MAX_COMPLETION_VALUES } from '../../lib/core/completions.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { processMCPRequest } from '../../lib/core/mcp-transport.js';
+import { referenceCompletions } from '../../lib/completions/reference-completions.js';
+import type { Logger, ToolExecutor, ToolResult } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+const jsonResult = (data: unknown): ToolResult => ({
+  content: [{ type: 'text', text: JSON.stringify(data) }],
+});
+
+const toolData: Record<string, unknown> = {
+  partidos_listar: { itens: [{ codigo: 1, sigla: 'PT', nome: 'Partido dos Trabalhadores', ativo: true }] },
+  ufs_listar: [
+    { sigla: 'SP', nome: 'São Paulo' },
+    { sigla: 'SE', nome: 'Sergipe' },
+    { sigla: 'PA', nome: 'Pará' },
+  ],
+  comissoes_listar: { itens: [{ codigo: 34, sigla: 'CAE', nome: 'Comissão de Assuntos Econômicos' }] },
+  tipos_materia_listar: {
+    ListaTiposMateria: { TiposMateria: { TipoMateria: [{ Sigla: 'PEC', Descricao: 'Proposta de Emenda' }] } },
+  },
+  senadores_listar: {
+    itens: [
+      { codigo: 5012, nome: 'Fulana de Tal', nomeCompleto: 'Fulana de Tal Souza' },
+      { codigo: 4981, nome: 'Beltrano', nomeCompleto: 'Beltrano da Silva' },
+    ],
+  },
+};
+
+const execute: ToolExecutor = vi.fn(async (name: string) => {
+  const data = toolData[name];
+  return data && !Array.isArray(data) && 'itens' in (data as object)
+    ? { ...jsonResult(data), structuredContent: data as Record<string, unknown> }
+    : jsonResult(data);
+});
+
+const prompt = (name: string) => ({ type: 'ref/prompt' as const, name });
+const resource = (uri: string) => ({ type: 'ref/resource' as const, uri });
+
+describe('Completions', () => {
+  let registry: CompletionRegistry;
+
+  beforeEach(() => {
+    registry = new CompletionRegistry();
+    registry.registerMany(referenceCompletions);
+    vi.mocked(execute).mockClear();
+  });
+
+  describe('CompletionRegistry', () => {
+    it('should reject invalid sources', () => {
+      expect(() => registry.register({ argument: '' } as any)).toThrow('Invalid completion source');
+    });
+
+    it('should complete UFs by prefix and by name, ignoring accents', async () => {
+      const bySigla = await registry.complete(prompt('x'), { name: 'uf', value: 's' }, execute);
+      expect(bySigla.completion).toEqual({ values: ['SP', 'SE'], total: 2, hasMore: false });
+
+      const byName = await registry.complete(prompt('x'), { name: 'uf', value: 'para' }, execute);
+      expect(byName.completion.values).toEqual(['PA']);
+    });
+
+    it('should read reference data with JSON output options', async () => {
+      await registry.complete(prompt('x'), { name: 'partido', value: '' }, execute);
+
+      expect(execute).toHaveBeenCalledWith('partidos_listar', { formato: 'json', maxCaracteres: 200000 });
+    });
+
+    it('should merge committee and proposal type siglas', async () => {
+      const result = await registry.complete(prompt('x'), { name: 'sigla', value: '' }, execute);
+      expect(result.completion.values).toEqual(['CAE', 'PEC']);
+    });
+
+    it('should prefer ref-specific sources', async () => {
+      const committees = await registry.complete(
+        resource('senado://comissao/{sigla}'),
+        { name: 'sigla', value: '' },
+        execute
+      );
+      expect(committees.completion.values).toEqual(['CAE']);
+
+      const senators = await registry.complete(
+        resource('senado://senador/{codigo}'),
+        { name: 'codigo', value: '50' },
+        execute
+      );
+      expect(senators.completion.values).toEqual(['5012']);
+
+      const proposals = await registry.complete(
+        resource('senado://materia/{codigo}'),
+        { name: 'codigo', value: '50' },
+        execute
+      );
+      expect(proposals.completion.values).toEqual([]);
+    });
+
+    it('should complete the last item of comma-separated arguments', async () => {
+      const result = await registry.complete(
+        prompt('comparar_senadores'),
+        { name: 'senadores', value: 'Fulana de Tal, bel' },
+        execute
+      );
+
+      expect(result.completion.values).toEqual(['Fulana de Tal, Beltrano']);
+    });
+
+    it('should cap the number of values', async () => {
+      registry.register({
+        argument: 'numero',
+        load: async () => Array.from({ length: 150 }, (_, index) => ({ value: String(index) })),
+      });
+
+      const result = await registry.complete(prompt('x'), { name: 'numero', value: '' }, execute);
+
+      expect(result.completion.values).toHaveLength(MAX_COMPLETION_VALUES);
+      expect(result.completion).toMatchObject({ total: 150, hasMore: true });
+    });
+  });
+
+  describe('JSON-RPC transport', () => {
+    function createToolRegistry() {
+      const tools = new ToolRegistry();
+      tools.register({
+        name: 'ufs_listar',
+        description: 'Test',
+        inputSchema: { type: 'object', properties: {} },
+        handler: vi.fn().mockResolvedValue({ title: 'UFs', data: toolData['ufs_listar'] }),
+        category: 'reference',
+      });
+      return tools;
+    }
+
+    it('should declare and serve completions', async () => {
+      const context = { toolRegistry: createToolRegistry(), completionRegistry: registry, logger };
+
+      const init = await processMCPRequest({ jsonrpc: '2.0', id: 1, method: 'initialize' }, context);
+      expect((init.result as any).capabilities.completions).toEqual({});
+
+      const response = await processMCPRequest(
+        {
+          jsonrpc: '2.0',
+          id: 2,
+          method: 'completion/complete',
+          params: { ref: prompt('perfil_senador'), argument: { name: 'uf', value: 'sergi' } },
+        },
+        context
+      );
+
+      expect((response.result as any).completion.values).toEqual(['SE']);
+    });
+
+    it('should validate params and require a registry', async () => {
+      const invalid = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'completion/complete', params: { argument: { name: 'uf' } } },
+        { toolRegistry: new ToolRegistry(), completionRegistry: registry, logger }
+      );
+      expect(invalid.error?.code).toBe(-32602);
+
+      const missing = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'completion/complete' },
+        { toolRegistry: new ToolRegistry(), logger }
+      );
+      expect(missing.error?.code).toBe(-32601);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpAdapter } from '../../lib/adapters/http.js';
+import { ToolPipeline, type ToolMiddleware } from '../../lib/core/pipeline.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { CircuitBreakerError, RateLimitError } from '../../lib/core/errors.js';
+import { CircuitBreakerError as BreakerOpenError } from '../../lib/infrastructure/circuit-breaker.js';
+import { RateLimitError as LimiterError } from '../../lib/infrastructure/rate-limiter.js';
+import { InMemorySessionStore } from '../../lib/infrastructure/session-store.js';
+import { createLogger } from '../../lib/infrastructure/logger.js';
+import { LogLevel, type RateLimiter, type ToolContext } from '../../lib/types/index.js';
+
+const logger = createLogger({ level: LogLevel.ERROR, format: 'json', maskPII: false });
+
+describe('HTTP adapter REST API', () => {
+  let server: Server;
+  let registry: ToolRegistry;
+
+  const start = async (options: { middleware?: ToolMiddleware[]; toolContext?: ToolContext } = {}) => {
+    const adapter = new HttpAdapter(registry, logger, {
+      port: 0,
+      host: '127.0.0.1',
+      corsOrigin: '*',
+      authEnabled: false,
+      requestTimeout: 30000,
+      serviceInfo: {
+        name: 'test',
+        description: 'Test server',
+        version: '0.0.0',
+        environment: 'test',
+        documentationUrl: '',
+        repositoryUrl: '',
+      },
+      toolContext: options.toolContext,
+      toolPipeline: options.middleware ? new ToolPipeline(registry, options.middleware) : undefined,
+      sessionStore: new InMemorySessionStore({ ttl: 60000, maxEvents: 10 }, logger),
+    });
+    server = createServer(adapter['app']);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  };
+
+  const invoke = (name: string, args: unknown = {}) => {
+    const { port } = server.address() as AddressInfo;
+    return fetch(`http://127.0.0.1:${port}/api/tools/${name}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+  };
+
+  const failWith =
+    (error: Error): ToolMiddleware =>
+    async () => {
+      throw error;
+    };
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    registry.register({
+      name: 'senador_detalhes',
+      description: 'Details of a senator',
+      inputSchema: { type: 'object', properties: {} },
+      handler: async () => ({ content: [{ type: 'text', text: 'ok' }] }),
+      category: 'senator',
+    });
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should invoke tools', async () => {
+    await start();
+
+    const response = await invoke('senador_detalhes');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true });
+  });
+
+  it('should answer 429 with Retry-After when the pipeline rate limit is exceeded', async () => {
+    const rateLimiter = { checkLimit: vi.fn(async () => false) } as unknown as RateLimiter;
+    await start({ toolContext: { logger, rateLimiter, config: { rateLimitEnabled: true } } as unknown as ToolContext });
+
+    const response = await invoke('senador_detalhes');
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('1');
+    expect(await response.json()).toEqual({ error: 'Too Many Requests', message: 'Rate limit exceeded' });
+  });
+
+  it('should advertise the wait of either RateLimitError class in seconds', async () => {
+    await start({ middleware: [failWith(new RateLimitError('Rate limit exceeded', 2500))] });
+    const response = await invoke('senador_detalhes');
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('3');
+
+    server.close();
+    await start({ middleware: [failWith(new LimiterError('Rate limit exceeded, max wait time reached', 200))] });
+    const waited = await invoke('senador_detalhes');
+
+    expect(waited.status).toBe(429);
+    expect(waited.headers.get('retry-after')).toBe('1');
+  });
+
+  it('should answer 503 while the circuit breaker is open', async () => {
+    await start({ middleware: [failWith(new CircuitBreakerError('Circuit breaker is OPEN'))] });
+    const response = await invoke('senador_detalhes');
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: 'Service Unavailable', message: 'Circuit breaker is OPEN' });
+
+    server.close();
+    await start({ middleware: [failWith(new BreakerOpenError('Circuit breaker is OPEN'))] });
+
+    expect((await invoke('senador_detalhes')).status).toBe(503);
+  });
+});
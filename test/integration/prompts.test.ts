@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PromptRegistry } from '../../lib/core/prompts.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { processMCPRequest } from '../../lib/core/mcp-transport.js';
+import { PromptNotFoundError, ValidationError } from '../../lib/core/errors.js';
+import { legislativePrompts } from '../../lib/prompts/legislative-prompts.js';
+import type { Logger } from '../../lib/types/index.js';
+
+const messageText = (result: { messages: Array<{ content: { text: string } }> }) =>
+  result.messages.map((message) => message.content.text).join('\n');
+
+describe('Prompts', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    registry = new PromptRegistry();
+    registry.registerMany(legislativePrompts);
+  });
+
+  describe('PromptRegistry', () => {
+    it('should register the legislative prompts', () => {
+      expect(registry.listNames()).toEqual([
+        'analisar_materia',
+        'perfil_senador',
+        'resumo_votacao',
+        'agenda_da_semana',
+        'comparar_senadores',
+      ]);
+    });
+
+    it('should reject duplicates and invalid definitions', () => {
+      expect(() => registry.register(legislativePrompts[0]!)).toThrow('Prompt already registered');
+      expect(() => registry.register({ name: 'x' } as any)).toThrow('Invalid prompt definition for x');
+    });
+
+    it('should throw PromptNotFoundError for unknown prompts', async () => {
+      await expect(registry.render('inexistente', {})).rejects.toThrow(PromptNotFoundError);
+    });
+
+    it('should derive typed arguments from the schemas', () => {
+      expect(registry.get('comparar_senadores').arguments).toEqual([
+        expect.objectContaining({ name: 'senadores', required: true }),
+        expect.objectContaining({ name: 'dataInicio', required: false }),
+        expect.objectContaining({ name: 'dataFim', required: false }),
+      ]);
+    });
+  });
+
+  describe('Templates', () => {
+    it('should guide proposal analysis through the timeline tool', async () => {
+      const text = messageText(await registry.render('analisar_materia', { codigo: '157000', foco: 'impacto fiscal' }));
+
+      expect(text).toContain('`materia_detalhes` ("codigo": 157000)');
+      expect(text).toContain('`materia_linha_do_tempo`');
+      expect(text).toContain('impacto fiscal');
+    });
+
+    it('should look up senators by name when no code is given', async () => {
+      const text = messageText(await registry.render('perfil_senador', { senador: 'Fulana de Tal' }));
+
+      expect(text).toContain('`senadores_listar` usando "nome": "Fulana de Tal"');
+      expect(text).toContain('`senador_alinhamento_partido`');
+    });
+
+    it('should compute the week for the agenda', async () => {
+      const result = await registry.render('agenda_da_semana', { data: '2024-03-14' });
+
+      expect(result.description).toBe('Agenda do Senado de 2024-03-11 a 2024-03-17');
+      expect(messageText(result)).toContain('"dataInicio": "2024-03-11", "dataFim": "2024-03-17"');
+    });
+
+    it('should split and validate the senators to compare', async () => {
+      const text = messageText(await registry.render('comparar_senadores', { senadores: '5012, Fulano' }));
+
+      expect(text).toContain('código 5012');
+      expect(text).toContain('"Fulano"');
+      expect(text).toContain('`votacoes_similaridade`');
+
+      await expect(registry.render('comparar_senadores', { senadores: '5012' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject invalid codes', async () => {
+      await expect(registry.render('resumo_votacao', { codigo: 'abc' })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('JSON-RPC transport', () => {
+    const logger = { error: vi.fn() } as unknown as Logger;
+
+    it('should declare and serve prompts', async () => {
+      const context = { toolRegistry: new ToolRegistry(), promptRegistry: registry, logger };
+
+      const init = await processMCPRequest({ jsonrpc: '2.0', id: 1, method: 'initialize' }, context);
+      expect((init.result as any).capabilities.prompts).toEqual({});
+
+      const list = await processMCPRequest({ jsonrpc: '2.0', id: 2, method: 'prompts/list' }, context);
+      expect((list.result as any).prompts).toHaveLength(5);
+
+      const get = await processMCPRequest(
+        { jsonrpc: '2.0', id: 3, method: 'prompts/get', params: { name: 'resumo_votacao', arguments: { codigo: '1' } } },
+        context
+      );
+      expect((get.result as any).messages[0].content.text).toContain('votação de código 1');
+    });
+
+    it('should return invalid params for unknown prompts', async () => {
+      const response = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'prompts/get', params: { name: 'inexistente' } },
+        { toolRegistry: new ToolRegistry(), promptRegistry: registry, logger }
+      );
+
+      expect(response.error?.code).toBe(-32602);
+    });
+
+    it('should not expose prompts without a registry', async () => {
+      const response = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'prompts/list' },
+        { toolRegistry: new ToolRegistry(), logger }
+      );
+
+      expect(response.error?.code).toBe(-32601);
+    });
+  });
+});
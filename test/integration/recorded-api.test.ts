@@ -0,0 +1,70 @@
+/**
+ * Tools against recorded Senado API responses
+ *
+ * Replays the fixtures in test/fixtures/senado through the real HTTP client,
+ * XML parser and mappers. Refresh them from the live API with
+ * MCP_HTTP_MODE=record npx vitest run test/integration/recorded-api.test.ts
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { createHttpClient } from '../../lib/infrastructure/http-client.js';
+import { createFixtureFetch } from '../../lib/infrastructure/http-fixtures.js';
+import { senatorTools } from '../../lib/tools/senator-tools.js';
+import type { HttpClientMode, Logger, ToolContext } from '../../lib/types/index.js';
+
+const FIXTURES_DIR = 'test/fixtures/senado';
+const BASE_URL = 'https://legis.senado.leg.br/dadosabertos';
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  logToolInvocation: vi.fn(),
+  logCacheHit: vi.fn(),
+  logCacheMiss: vi.fn(),
+} as unknown as Logger;
+
+describe('Tools against recorded API responses', () => {
+  let registry: ToolRegistry;
+  let context: ToolContext;
+
+  beforeEach(() => {
+    const mode = (process.env['MCP_HTTP_MODE'] as HttpClientMode | undefined) ?? 'replay';
+
+    registry = new ToolRegistry();
+    registry.registerMany(senatorTools);
+    context = {
+      httpClient: createHttpClient(
+        {
+          baseUrl: BASE_URL,
+          timeout: 30000,
+          maxRetries: 0,
+          retryDelay: 1000,
+          fetch: createFixtureFetch({ mode, fixturesDir: FIXTURES_DIR, baseUrl: BASE_URL }, logger),
+        },
+        logger
+      ),
+      logger,
+      config: {} as ToolContext['config'],
+    } as ToolContext;
+  });
+
+  it('should list the current senators', async () => {
+    const result = await registry.invoke('senadores_listar', {}, context);
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent?.['itens']).toEqual(
+      expect.arrayContaining([expect.objectContaining({ codigo: 5672, nome: 'Alan Rick', uf: 'AC', titular: true })])
+    );
+  });
+
+  it('should filter the recorded listing by UF', async () => {
+    const result = await registry.invoke('senadores_listar', { uf: 'AP' }, context);
+
+    expect(result.structuredContent?.['itens']).toEqual([
+      expect.objectContaining({ codigo: 5008, nome: 'Randolfe Rodrigues', partido: 'PT' }),
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ResourceRegistry } from '../../lib/core/resources.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { processMCPRequest } from '../../lib/core/mcp-transport.js';
+import { ResourceNotFoundError } from '../../lib/core/errors.js';
+import { ComissaoOutputSchema, listOutputSchema } from '../../lib/core/validation.js';
+import { senadoResources, senadoResourceTemplates } from '../../lib/resources/senado-resources.js';
+import { LRUCache } from '../../lib/infrastructure/cache.js';
+import type { Logger, ToolContext } from '../../lib/types/index.js';
+
+const logger = {
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+} as unknown as Logger;
+
+function createToolRegistry() {
+  const registry = new ToolRegistry();
+  const senatorHandler = vi.fn(async (args: any) => ({
+    title: 'Senador',
+    data: { codigo: args.codigo, nome: `Senador ${args.codigo}`, emExercicio: true },
+  }));
+  const committeeDetailsHandler = vi.fn(async (args: any) => ({
+    title: 'Comissão',
+    data: { codigo: args.codigo, sigla: 'CCJ' },
+  }));
+
+  registry.register({
+    name: 'senador_detalhes',
+    description: 'Test',
+    inputSchema: { type: 'object', properties: {} },
+    handler: senatorHandler,
+    category: 'senator',
+  });
+  registry.register({
+    name: 'comissoes_listar',
+    description: 'Test',
+    inputSchema: { type: 'object', properties: {} },
+    outputSchema: listOutputSchema(ComissaoOutputSchema),
+    handler: vi.fn(async () => ({
+      title: 'Comissões',
+      data: [
+        { codigo: 1307, sigla: 'CCJC', ativa: true },
+        { codigo: 34, sigla: 'CCJ', ativa: true },
+      ],
+    })),
+    category: 'committee',
+  });
+  registry.register({
+    name: 'comissao_detalhes',
+    description: 'Test',
+    inputSchema: { type: 'object', properties: {} },
+    handler: committeeDetailsHandler,
+    category: 'committee',
+  });
+
+  return { registry, senatorHandler, committeeDetailsHandler };
+}
+
+describe('Resources', () => {
+  let resources: ResourceRegistry;
+
+  beforeEach(() => {
+    resources = new ResourceRegistry();
+    resources.registerMany(senadoResources);
+    resources.registerTemplates(senadoResourceTemplates);
+  });
+
+  describe('ResourceRegistry', () => {
+    it('should register the reference resources and templates', () => {
+      expect(resources.getAll().map((resource) => resource.uri)).toEqual([
+        'senado://reference/legislaturas',
+        'senado://reference/ufs',
+        'senado://reference/tipos-materia',
+        'senado://reference/partidos',
+      ]);
+      expect(resources.getTemplates()).toHaveLength(4);
+      expect(resources.count()).toBe(8);
+    });
+
+    it('should reject duplicates and invalid definitions', () => {
+      expect(() => resources.registerTemplate(senadoResourceTemplates[0]!)).toThrow(
+        'Resource template already registered'
+      );
+      expect(() => resources.register({ uri: 'senado://x' } as any)).toThrow(
+        'Invalid resource definition for senado://x'
+      );
+    });
+
+    it('should resolve template parameters', () => {
+      const resolved = resources.resolve('senado://comissao/CAE%20S');
+
+      expect((resolved.resource as any).uriTemplate).toBe('senado://comissao/{sigla}');
+      expect(resolved.params).toEqual({ sigla: 'CAE S' });
+    });
+
+    it('should throw ResourceNotFoundError for unknown URIs', () => {
+      expect(() => resources.resolve('senado://senador/1/mandatos')).toThrow(ResourceNotFoundError);
+      expect(() => resources.resolve('senado://desconhecido')).toThrow(ResourceNotFoundError);
+    });
+
+    it('should read structuredContent as JSON with output options applied', async () => {
+      const execute = vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: '{}' }],
+        structuredContent: { codigo: 5012 },
+      });
+
+      const result = await resources.read('senado://senador/5012', execute);
+
+      expect(execute).toHaveBeenCalledWith('senador_detalhes', {
+        codigo: 5012,
+        formato: 'json',
+        maxCaracteres: 200000,
+      });
+      expect(result.contents).toEqual([
+        { uri: 'senado://senador/5012', mimeType: 'application/json', text: '{\n  "codigo": 5012\n}' },
+      ]);
+    });
+  });
+
+  describe('JSON-RPC transport', () => {
+    it('should declare resources and list templates', async () => {
+      const context = { toolRegistry: new ToolRegistry(), resourceRegistry: resources, logger };
+
+      const init = await processMCPRequest({ jsonrpc: '2.0', id: 1, method: 'initialize' }, context);
+      expect((init.result as any).capabilities.resources).toBeDefined();
+
+      const templates = await processMCPRequest(
+        { jsonrpc: '2.0', id: 2, method: 'resources/templates/list' },
+        context
+      );
+      expect((templates.result as any).resourceTemplates).toContainEqual(
+        expect.objectContaining({ uriTemplate: 'senado://materia/{codigo}', mimeType: 'application/json' })
+      );
+    });
+
+    it('should read templates with the tool context cache', async () => {
+      const { registry, senatorHandler } = createToolRegistry();
+      const toolContext = {
+        cache: new LRUCache({ ttl: 60000, maxSize: 10, cleanupInterval: 60000 }, logger),
+        config: { cacheEnabled: true, rateLimitEnabled: false },
+        logger,
+      } as unknown as ToolContext;
+      const context = { toolRegistry: registry, resourceRegistry: resources, toolContext, logger };
+      const request = {
+        jsonrpc: '2.0' as const,
+        id: 1,
+        method: 'resources/read',
+        params: { uri: 'senado://senador/5012' },
+      };
+
+      const first = await processMCPRequest(request, context);
+      const second = await processMCPRequest(request, context);
+
+      expect(JSON.parse((first.result as any).contents[0].text)).toMatchObject({ codigo: 5012 });
+      expect(second.result).toEqual(first.result);
+      expect(senatorHandler).toHaveBeenCalledTimes(1);
+      expect(senatorHandler).toHaveBeenCalledWith({ codigo: 5012 }, toolContext);
+    });
+
+    it('should apply the rate limiter of the tool context', async () => {
+      const { registry, senatorHandler } = createToolRegistry();
+      const toolContext = {
+        config: { cacheEnabled: false, rateLimitEnabled: true },
+        rateLimiter: { checkLimit: vi.fn().mockResolvedValue(false) },
+        logger,
+      } as unknown as ToolContext;
+
+      const response = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'senado://senador/1' } },
+        { toolRegistry: registry, resourceRegistry: resources, toolContext, logger }
+      );
+
+      expect(response.error?.code).toBe(-32603);
+      expect(response.error?.data).toBe('Rate limit exceeded');
+      expect(senatorHandler).not.toHaveBeenCalled();
+    });
+
+    it('should resolve committees by sigla', async () => {
+      const { registry, committeeDetailsHandler } = createToolRegistry();
+
+      const response = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'senado://comissao/ccj' } },
+        { toolRegistry: registry, resourceRegistry: resources, logger }
+      );
+
+      expect(committeeDetailsHandler).toHaveBeenCalledWith({ codigo: 34 }, expect.anything());
+      expect((response.result as any).contents[0].uri).toBe('senado://comissao/ccj');
+    });
+
+    it('should return invalid params for unknown resources', async () => {
+      const response = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'resources/read', params: { uri: 'senado://comissao/XYZ' } },
+        { toolRegistry: createToolRegistry().registry, resourceRegistry: resources, logger }
+      );
+
+      expect(response.error?.code).toBe(-32602);
+    });
+
+    it('should not expose resources without a registry', async () => {
+      const response = await processMCPRequest(
+        { jsonrpc: '2.0', id: 1, method: 'resources/list' },
+        { toolRegistry: new ToolRegistry(), logger }
+      );
+
+      expect(response.error?.code).toBe(-32601);
+    });
+  });
+});
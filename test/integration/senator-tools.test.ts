@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { ValidationError } from '../../lib/core/errors.js';
+import type { ToolContext, Logger, HttpClient, CacheInterface } from '../../lib/types/index.js';
+import { senatorTools } from '../../lib/tools/senator-tools.js';
+
+// Mock logger
+const createMockLogger = (): Logger => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  logToolInvocation: vi.fn(),
+  logCacheHit: vi.fn(),
+  logCacheMiss: vi.fn(),
+});
+
+// Mock cache
+const createMockCache = (): CacheInterface => ({
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue(undefined),
+  delete: vi.fn().mockResolvedValue(undefined),
+  clear: vi.fn().mockResolvedValue(undefined),
+  generateKey: vi.fn((prefix, params) => `${prefix}:${JSON.stringify(params)}`),
+  getStats: vi.fn().mockReturnValue({ hits: 0, misses: 0, size: 0, hitRate: 0 }),
+});
+
+const buildSenator = (codigo: number, nome: string, participacao: string, partido = 'PT', uf = 'SP') => ({
+  IdentificacaoParlamentar: {
+    CodigoParlamentar: String(codigo),
+    NomeParlamentar: nome,
+    SiglaPartidoParlamentar: partido,
+    UfParlamentar: uf,
+  },
+  Mandatos: {
+    Mandato: {
+      DescricaoParticipacao: participacao,
+      PrimeiraLegislaturaDoMandato: { NumeroLegislatura: '56' },
+      SegundaLegislaturaDoMandato: { NumeroLegislatura: '57' },
+    },
+  },
+});
+
+const senatorList = (...senators: unknown[]) => ({
+  data: { ListaParlamentar: { Parlamentares: { Parlamentar: senators } } },
+});
+
+describe('Senator Tools Integration Tests', () => {
+  let registry: ToolRegistry;
+  let mockContext: ToolContext;
+  let mockHttpClient: HttpClient;
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    mockHttpClient = { get: vi.fn(), post: vi.fn() };
+
+    mockContext = {
+      httpClient: mockHttpClient,
+      cache: createMockCache(),
+      config: {} as ToolContext['config'],
+      logger: createMockLogger(),
+    };
+
+    registry.registerMany(senatorTools);
+  });
+
+  describe('List Senators Tool (senadores_listar)', () => {
+    it('should list current senators with listing flags', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValue(
+        senatorList(buildSenator(1, 'Titular', 'Titular'), buildSenator(2, 'Suplente', '1º Suplente'))
+      );
+
+      const result = await registry.invoke('senadores_listar', {}, mockContext);
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/senador/lista/atual');
+      expect(result.structuredContent?.['itens']).toEqual([
+        expect.objectContaining({ codigo: 1, titular: true, suplenteEmExercicio: false, afastado: false }),
+        expect.objectContaining({ codigo: 2, titular: false, suplenteEmExercicio: true, afastado: false }),
+      ]);
+    });
+
+    it('should add the afastados on request', async () => {
+      vi.mocked(mockHttpClient.get)
+        .mockResolvedValueOnce(senatorList(buildSenator(1, 'Em exercício', 'Titular')))
+        .mockResolvedValueOnce(senatorList(buildSenator(3, 'Licenciado', 'Titular')));
+
+      const result = await registry.invoke('senadores_listar', { incluirAfastados: true }, mockContext);
+
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/senador/afastados');
+      expect(result.structuredContent?.['itens']).toEqual([
+        expect.objectContaining({ codigo: 1, afastado: false }),
+        expect.objectContaining({ codigo: 3, afastado: true }),
+      ]);
+    });
+
+    it('should list a single legislature or a range of legislatures', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValue(senatorList(buildSenator(1, 'Titular', 'Titular')));
+
+      const single = await registry.invoke('senadores_listar', { legislatura: 56 }, mockContext);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/senador/lista/legislatura/56', { exercicio: 'S' });
+      expect(single.content[0]!.text).toContain('Senadores da 56ª legislatura (1 de 1)');
+
+      const range = await registry.invoke('senadores_listar', { legislatura: 55, legislaturaFim: 57 }, mockContext);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/senador/lista/legislatura/55/57', { exercicio: 'S' });
+      expect(range.content[0]!.text).toContain('Senadores das legislaturas 55 a 57');
+    });
+
+    it('should filter by name, party and UF', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValue(
+        senatorList(
+          buildSenator(1, 'José Antônio', 'Titular', 'PT', 'SP'),
+          buildSenator(2, 'Jose Maria', 'Titular', 'PL', 'SP'),
+          buildSenator(3, 'Maria', 'Titular', 'PT', 'RJ')
+        )
+      );
+
+      const result = await registry.invoke(
+        'senadores_listar',
+        { nome: 'jose', partido: 'pt', uf: 'SP', legislatura: 57 },
+        mockContext
+      );
+
+      expect((result.structuredContent?.['itens'] as Array<{ codigo: number }>).map((s) => s.codigo)).toEqual([1]);
+    });
+
+    it('should validate legislature ranges', async () => {
+      await expect(registry.invoke('senadores_listar', { legislaturaFim: 57 }, mockContext)).rejects.toThrow(
+        ValidationError
+      );
+      await expect(
+        registry.invoke('senadores_listar', { legislatura: 57, legislaturaFim: 55 }, mockContext)
+      ).rejects.toThrow('"legislaturaFim" deve ser maior ou igual a "legislatura"');
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,779 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { StreamableHttpHandler } from '../../lib/core/streamable-http.js';
+import { processMCPBatch } from '../../lib/core/mcp-transport.js';
+import { sessionLogger } from '../../lib/core/logging.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { ResourceRegistry } from '../../lib/core/resources.js';
+import { InMemorySessionStore } from '../../lib/infrastructure/session-store.js';
+import { InMemorySubscriptionStore } from '../../lib/infrastructure/subscription-store.js';
+import { createLogger } from '../../lib/infrastructure/logger.js';
+import { LogLevel, type Logger } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+const ENDPOINT = 'http://localhost/mcp';
+const ACCEPT_BOTH = 'application/json, text/event-stream';
+
+function createToolRegistry() {
+  const registry = new ToolRegistry();
+  registry.register({
+    name: 'lento',
+    description: 'Slow tool',
+    inputSchema: { type: 'object', properties: {} },
+    handler: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return { title: 'Lento', data: { ok: true } };
+    },
+    category: 'reference',
+  });
+  registry.register({
+    name: 'etapas',
+    description: 'Reports progress',
+    inputSchema: { type: 'object', properties: {} },
+    handler: async (_args, context) => {
+      for (const step of [1, 2]) {
+        context.progress?.({ progress: step, total: 2, message: `Etapa ${step}` });
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return { title: 'Etapas', data: { ok: true } };
+    },
+    category: 'reference',
+  });
+  return registry;
+}
+
+const cancellations: string[] = [];
+
+function createBlockingToolRegistry() {
+  const registry = createToolRegistry();
+  registry.register({
+    name: 'bloqueante',
+    description: 'Runs until cancelled',
+    inputSchema: { type: 'object', properties: {} },
+    handler: (_args, context) =>
+      new Promise(() => {
+        context.signal?.addEventListener('abort', () => cancellations.push(String(context.signal?.reason)));
+      }),
+    category: 'reference',
+  });
+  return registry;
+}
+
+describe('Streamable HTTP transport', () => {
+  let store: InMemorySessionStore;
+  let handler: StreamableHttpHandler;
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    handler.handle(
+      new Request(ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: ACCEPT_BOTH, ...headers },
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      })
+    );
+
+  const initialize = async () => {
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', clientInfo: { name: 'test-client', version: '1.0.0' } },
+    });
+    return response.headers.get('Mcp-Session-Id')!;
+  };
+
+  beforeEach(() => {
+    store = new InMemorySessionStore({ ttl: 60000, maxEvents: 10 }, logger);
+    handler = new StreamableHttpHandler(
+      { toolRegistry: createToolRegistry(), logger },
+      { sessionStore: store, streamingThreshold: 10, pingInterval: 60000, streamTimeout: 100 }
+    );
+  });
+
+  describe('Sessions', () => {
+    it('should start a session on initialize', async () => {
+      const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { clientInfo: { name: 'x' } } });
+      const sessionId = response.headers.get('Mcp-Session-Id');
+
+      expect(response.status).toBe(200);
+      expect(sessionId).toBeTruthy();
+      expect(((await response.json()) as any).result.serverInfo.name).toBe('mcp-senado');
+      expect(await store.touch(sessionId!)).toMatchObject({ clientInfo: { name: 'x', version: '' } });
+    });
+
+    it('should require a known session after initialize', async () => {
+      const missing = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+      expect(missing.status).toBe(400);
+
+      const unknown = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': 'nope' });
+      expect(unknown.status).toBe(404);
+      expect(((await unknown.json()) as any).error.code).toBe(-32001);
+    });
+
+    it('should answer fast requests with JSON', async () => {
+      const sessionId = await initialize();
+
+      const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(((await response.json()) as any).result.tools).toHaveLength(2);
+    });
+
+    it('should accept notifications without a body', async () => {
+      const sessionId = await initialize();
+
+      const response = await post(
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { 'Mcp-Session-Id': sessionId }
+      );
+
+      expect(response.status).toBe(202);
+      expect(response.body).toBeNull();
+    });
+
+    it('should terminate sessions with DELETE', async () => {
+      const sessionId = await initialize();
+      const remove = () =>
+        handler.handle(new Request(ENDPOINT, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } }));
+
+      expect((await remove()).status).toBe(204);
+      expect((await remove()).status).toBe(404);
+
+      const response = await post({ jsonrpc: '2.0', id: 2, method: 'ping' }, { 'Mcp-Session-Id': sessionId });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Streaming', () => {
+    it('should stream long calls over SSE', async () => {
+      const sessionId = await initialize();
+
+      const response = await post(
+        { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'lento', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      const body = await response.text();
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(body).toMatch(/^id: [\w-]+:1\nevent: message\ndata: /m);
+      expect(JSON.parse(body.split('data: ')[1]!)).toMatchObject({
+        id: 3,
+        result: { content: [{ type: 'text', text: expect.stringContaining('Lento') }] },
+      });
+    });
+
+    it('should send progress notifications on the stream before the response', async () => {
+      const sessionId = await initialize();
+      const response = await post(
+        {
+          jsonrpc: '2.0',
+          id: 5,
+          method: 'tools/call',
+          params: { name: 'etapas', arguments: {}, _meta: { progressToken: 'p1' } },
+        },
+        { 'Mcp-Session-Id': sessionId }
+      );
+
+      const messages = (await response.text())
+        .split('\n\n')
+        .filter((event) => event.startsWith('id:'))
+        .map((event) => JSON.parse(event.split('data: ')[1]!));
+
+      expect(messages).toEqual([
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken: 'p1', progress: 1, total: 2, message: 'Etapa 1' },
+        },
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken: 'p1', progress: 2, total: 2, message: 'Etapa 2' },
+        },
+        expect.objectContaining({ id: 5, result: expect.anything() }),
+      ]);
+    });
+
+    it('should answer with JSON when the client does not accept SSE', async () => {
+      const sessionId = await initialize();
+
+      const response = await post(
+        { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'lento', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+      );
+
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(((await response.json()) as any).id).toBe(3);
+    });
+
+    it('should replay missed events with Last-Event-ID', async () => {
+      const sessionId = await initialize();
+      const first = await store.storeEvent(sessionId, 'stream', { n: 1 });
+      await store.storeEvent(sessionId, 'stream', { n: 2 });
+
+      const response = await handler.handle(
+        new Request(ENDPOINT, {
+          headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId, 'Last-Event-ID': first },
+        })
+      );
+
+      expect(await response.text()).toBe('id: stream:2\nevent: message\ndata: {"n":2}\n\n');
+    });
+
+    it('should keep a resumed stream open until the response of the running call is sent', async () => {
+      const sessionId = await initialize();
+      const controller = new AbortController();
+      const response = await handler.handle(
+        new Request(ENDPOINT, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: ACCEPT_BOTH, 'Mcp-Session-Id': sessionId },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 6,
+            method: 'tools/call',
+            params: { name: 'etapas', arguments: {}, _meta: { progressToken: 'p1' } },
+          }),
+          signal: controller.signal,
+        })
+      );
+
+      // The client reads the first event and then loses the connection
+      const { value } = await response.body!.getReader().read();
+      const firstEventId = new TextDecoder().decode(value).match(/^id: (.+)$/m)![1]!;
+      controller.abort();
+
+      const resumed = await handler.handle(
+        new Request(ENDPOINT, {
+          headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId, 'Last-Event-ID': firstEventId },
+        })
+      );
+      const messages = (await resumed.text())
+        .split('\n\n')
+        .filter((event) => event.startsWith('id:'))
+        .map((event) => JSON.parse(event.split('data: ')[1]!));
+
+      expect(messages).toEqual([
+        expect.objectContaining({ method: 'notifications/progress', params: expect.objectContaining({ progress: 2 }) }),
+        expect.objectContaining({ id: 6, result: expect.anything() }),
+      ]);
+    });
+
+    it('should close standalone GET streams after the timeout', async () => {
+      const sessionId = await initialize();
+
+      const response = await handler.handle(
+        new Request(ENDPOINT, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } })
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('');
+    });
+  });
+
+  describe('Batches', () => {
+    const call = (id: number, delay: number) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'eco', arguments: { delay } },
+    });
+
+    function createEchoRegistry() {
+      const registry = new ToolRegistry();
+      const running = { current: 0, max: 0 };
+      registry.register({
+        name: 'eco',
+        description: 'Echo tool',
+        inputSchema: { type: 'object', properties: {} },
+        handler: async (args: any) => {
+          running.current++;
+          running.max = Math.max(running.max, running.current);
+          await new Promise((resolve) => setTimeout(resolve, args.delay));
+          running.current--;
+          return { title: 'Eco', data: { delay: args.delay } };
+        },
+        category: 'reference',
+      });
+      return { registry, running };
+    }
+
+    it('should run messages under the concurrency limit and keep the batch order', async () => {
+      const { registry, running } = createEchoRegistry();
+      const batch = [call(1, 30), call(2, 5), call(3, 15), call(4, 1), call(5, 10)];
+
+      const responses = await processMCPBatch(batch, { toolRegistry: registry, logger }, 2);
+
+      expect(responses.map((response) => response.id)).toEqual([1, 2, 3, 4, 5]);
+      expect(running.max).toBe(2);
+    });
+
+    it('should answer invalid entries and skip notifications and client responses', async () => {
+      const responses = await processMCPBatch(
+        [
+          1,
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', id: 9, result: {} },
+          { jsonrpc: '2.0', id: 2, method: 'ping' },
+        ],
+        { toolRegistry: new ToolRegistry(), logger }
+      );
+
+      expect(responses).toEqual([
+        expect.objectContaining({ id: null, error: expect.objectContaining({ code: -32600 }) }),
+        { jsonrpc: '2.0', id: 2, result: {} },
+      ]);
+    });
+
+    it('should return batch responses as a JSON array', async () => {
+      const sessionId = await initialize();
+
+      const response = await post(
+        [
+          { jsonrpc: '2.0', id: 'a', method: 'ping' },
+          { jsonrpc: '2.0', method: 'notifications/initialized' },
+          { jsonrpc: '2.0', id: 'b', method: 'tools/list' },
+        ],
+        { 'Mcp-Session-Id': sessionId }
+      );
+      const body = (await response.json()) as any[];
+
+      expect(body.map((message) => message.id)).toEqual(['a', 'b']);
+    });
+
+    it('should answer notification-only batches with 204', async () => {
+      const sessionId = await initialize();
+
+      const response = await post(
+        [{ jsonrpc: '2.0', method: 'notifications/initialized' }],
+        { 'Mcp-Session-Id': sessionId }
+      );
+
+      expect(response.status).toBe(204);
+      expect(await response.text()).toBe('');
+    });
+
+    it('should stream slow batches as one event per response', async () => {
+      const sessionId = await initialize();
+
+      const response = await post(
+        [
+          { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'lento', arguments: {} } },
+          { jsonrpc: '2.0', id: 2, method: 'ping' },
+        ],
+        { 'Mcp-Session-Id': sessionId }
+      );
+      const events = (await response.text()).split('\n\n').filter((event) => event.startsWith('id:'));
+
+      expect(events.map((event) => JSON.parse(event.split('data: ')[1]!).id)).toEqual([1, 2]);
+    });
+
+    it('should reject initialize inside a batch', async () => {
+      const response = await post([{ jsonrpc: '2.0', id: 1, method: 'initialize' }]);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Protocol version', () => {
+    const initializeWith = async (protocolVersion: string) => {
+      const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion } });
+      return {
+        sessionId: response.headers.get('Mcp-Session-Id')!,
+        result: ((await response.json()) as any).result,
+      };
+    };
+
+    it('should keep the negotiated revision in the session', async () => {
+      const { sessionId, result } = await initializeWith('2025-09-01');
+
+      expect(result.protocolVersion).toBe('2025-06-18');
+      expect(await store.touch(sessionId)).toMatchObject({ protocolVersion: '2025-06-18' });
+    });
+
+    it('should check MCP-Protocol-Version against the session', async () => {
+      const { sessionId } = await initializeWith('2025-03-26');
+
+      const matching = await post(
+        { jsonrpc: '2.0', id: 2, method: 'ping' },
+        { 'Mcp-Session-Id': sessionId, 'MCP-Protocol-Version': '2025-03-26' }
+      );
+      expect(matching.status).toBe(200);
+
+      const unsupported = await post(
+        { jsonrpc: '2.0', id: 3, method: 'ping' },
+        { 'Mcp-Session-Id': sessionId, 'MCP-Protocol-Version': '1999-01-01' }
+      );
+      expect(unsupported.status).toBe(400);
+
+      const mismatch = await post(
+        { jsonrpc: '2.0', id: 4, method: 'ping' },
+        { 'Mcp-Session-Id': sessionId, 'MCP-Protocol-Version': '2025-06-18' }
+      );
+      expect(mismatch.status).toBe(400);
+      expect(((await mismatch.json()) as any).error.message).toContain('negotiated version 2025-03-26');
+    });
+
+    it('should not stream for sessions on revisions without streamable HTTP', async () => {
+      const { sessionId } = await initializeWith('2024-11-05');
+
+      const response = await post(
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'lento', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(((await response.json()) as any).result.isError).toBeUndefined();
+
+      const get = await handler.handle(
+        new Request(ENDPOINT, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } })
+      );
+      expect(get.status).toBe(405);
+    });
+  });
+
+  describe('Cancellation', () => {
+    const callBlocking = (sessionId: string, id: number, signal?: AbortSignal) =>
+      handler.handle(
+        new Request(ENDPOINT, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json', 'Mcp-Session-Id': sessionId },
+          body: JSON.stringify({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'bloqueante', arguments: {} } }),
+          signal,
+        })
+      );
+
+    beforeEach(() => {
+      cancellations.length = 0;
+      handler = new StreamableHttpHandler(
+        { toolRegistry: createBlockingToolRegistry(), logger },
+        { sessionStore: store, streamingThreshold: 10, pingInterval: 60000, streamTimeout: 100 }
+      );
+    });
+
+    it('should abort requests named by notifications/cancelled and send them no response', async () => {
+      const sessionId = await initialize();
+      const pending = callBlocking(sessionId, 7);
+      await vi.waitFor(() => expect(handler['inFlight'].size).toBe(1));
+
+      const notification = await post(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 7, reason: 'user' } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      expect(notification.status).toBe(202);
+
+      const response = await pending;
+      expect(response.status).toBe(204);
+      expect(response.body).toBeNull();
+      expect(cancellations).toEqual(['user']);
+      expect(handler['inFlight'].size).toBe(0);
+    });
+
+    it('should abort JSON requests when the client disconnects', async () => {
+      const sessionId = await initialize();
+      const controller = new AbortController();
+      const pending = callBlocking(sessionId, 8, controller.signal);
+      await vi.waitFor(() => expect(handler['inFlight'].size).toBe(1));
+
+      controller.abort();
+
+      expect((await pending).status).toBe(204);
+      expect(cancellations).toEqual(['client disconnected']);
+    });
+
+    it('should abort the requests and close the streams of terminated sessions', async () => {
+      handler = new StreamableHttpHandler(
+        { toolRegistry: createBlockingToolRegistry(), logger },
+        { sessionStore: store, streamingThreshold: 10, pingInterval: 60000, streamTimeout: 60000 }
+      );
+      const sessionId = await initialize();
+      const streamed = await post(
+        { jsonrpc: '2.0', id: 10, method: 'tools/call', params: { name: 'bloqueante', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      const standalone = await handler.handle(
+        new Request(ENDPOINT, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } })
+      );
+      expect(streamed.headers.get('Content-Type')).toBe('text/event-stream');
+
+      const removed = await handler.handle(
+        new Request(ENDPOINT, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } })
+      );
+
+      expect(removed.status).toBe(204);
+      expect(cancellations).toEqual(['session terminated']);
+      expect(await streamed.text()).toBe('');
+      expect(await standalone.text()).toBe('');
+      expect(handler['liveStreams'].size).toBe(0);
+    });
+
+    it('should ignore cancellations for other sessions', async () => {
+      const sessionId = await initialize();
+      const otherSessionId = await initialize();
+      const pending = callBlocking(sessionId, 9);
+      await vi.waitFor(() => expect(handler['inFlight'].size).toBe(1));
+
+      await post(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 9 } },
+        { 'Mcp-Session-Id': otherSessionId }
+      );
+      expect(cancellations).toEqual([]);
+
+      await post(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 9 } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      expect((await pending).status).toBe(204);
+    });
+
+    it('should leave cancelled requests out of JSON batch responses', async () => {
+      const sessionId = await initialize();
+      const pending = handler.handle(
+        new Request(ENDPOINT, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json', 'Mcp-Session-Id': sessionId },
+          body: JSON.stringify([
+            { jsonrpc: '2.0', id: 11, method: 'tools/call', params: { name: 'bloqueante', arguments: {} } },
+            { jsonrpc: '2.0', id: 12, method: 'ping' },
+          ]),
+        })
+      );
+      await vi.waitFor(() => expect(handler['inFlight'].size).toBe(2));
+
+      await post(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 11 } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+
+      expect(((await (await pending).json()) as any[]).map((response) => response.id)).toEqual([12]);
+    });
+  });
+
+  describe('Logging', () => {
+    let serverLogger: Logger;
+
+    const openStream = (sessionId: string) =>
+      handler.handle(
+        new Request(ENDPOINT, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } })
+      );
+
+    const streamedMessages = async (response: Response) =>
+      (await response.text())
+        .split('\n\n')
+        .filter((event) => event.startsWith('id:'))
+        .map((event) => JSON.parse(event.split('data: ')[1]!));
+
+    beforeEach(() => {
+      serverLogger = createLogger({ level: LogLevel.ERROR, format: 'json', maskPII: false });
+      handler = new StreamableHttpHandler(
+        { toolRegistry: createToolRegistry(), logger: serverLogger },
+        { sessionStore: store, streamingThreshold: 10, pingInterval: 60000, streamTimeout: 100 }
+      );
+    });
+
+    it('should send masked log messages at or above the session level on GET streams', async () => {
+      const sessionId = await initialize();
+      const setLevel = await post(
+        { jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'info' } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      expect(((await setLevel.json()) as any).result).toEqual({});
+      expect((await store.touch(sessionId))?.logLevel).toBe('info');
+
+      const stream = await openStream(sessionId);
+      const logger = sessionLogger(serverLogger, sessionId);
+      logger.debug('Consulta detalhada');
+      logger.info('Consulta', { contato: 'maria.silva@senado.leg.br', senha: 'segredo' });
+      logger.error('Falha na consulta', new Error('boom'));
+
+      expect(await streamedMessages(stream)).toEqual([
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/message',
+          params: {
+            level: 'info',
+            logger: 'mcp-senado',
+            data: { message: 'Consulta', sessionId, contato: 'm***a@senado.leg.br', senha: '[REDACTED]' },
+          },
+        },
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/message',
+          params: {
+            level: 'error',
+            logger: 'mcp-senado',
+            data: { message: 'Falha na consulta', sessionId, error: { name: 'Error', message: 'boom' } },
+          },
+        },
+      ]);
+    });
+
+    it('should default to warning and keep levels per session', async () => {
+      const quiet = await initialize();
+      const verbose = await initialize();
+      await post(
+        { jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'debug' } },
+        { 'Mcp-Session-Id': verbose }
+      );
+
+      const quietStream = await openStream(quiet);
+      const verboseStream = await openStream(verbose);
+      for (const sessionId of [quiet, verbose]) {
+        sessionLogger(serverLogger, sessionId).info('Cache limpo');
+        sessionLogger(serverLogger, sessionId).warn('Nova tentativa');
+      }
+
+      const levels = async (response: Response) =>
+        (await streamedMessages(response)).map((message) => message.params.level);
+      expect(await levels(quietStream)).toEqual(['warning']);
+      expect(await levels(verboseStream)).toEqual(['info', 'warning']);
+    });
+
+    it('should only send the log messages of the session on its streams', async () => {
+      const own = await initialize();
+      const other = await initialize();
+
+      const stream = await openStream(own);
+      serverLogger.warn('Sem sessão');
+      sessionLogger(serverLogger, other).warn('Tool invocation started', { tool: 'senador_obter', args: { codigo: 1 } });
+      sessionLogger(serverLogger, own).warn('Nova tentativa');
+
+      const messages = (await streamedMessages(stream)).map((message) => message.params.data.message);
+      expect(messages).toEqual(['Nova tentativa']);
+    });
+
+    it('should reject unknown levels', async () => {
+      const sessionId = await initialize();
+      const response = await post(
+        { jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'verbose' } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+
+      expect(((await response.json()) as any).error.code).toBe(-32602);
+      expect((await store.touch(sessionId))?.logLevel).toBeUndefined();
+    });
+  });
+
+  describe('Resource subscriptions', () => {
+    let subscriptions: InMemorySubscriptionStore;
+
+    const updated = (uri: string) => ({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } });
+
+    const openStream = (sessionId: string) =>
+      handler.handle(
+        new Request(ENDPOINT, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } })
+      );
+
+    const subscribe = (sessionId: string, uri: string, method = 'resources/subscribe') =>
+      post({ jsonrpc: '2.0', id: 2, method, params: { uri } }, { 'Mcp-Session-Id': sessionId });
+
+    beforeEach(() => {
+      subscriptions = new InMemorySubscriptionStore(logger);
+      handler = new StreamableHttpHandler(
+        {
+          toolRegistry: createToolRegistry(),
+          resourceRegistry: new ResourceRegistry(),
+          subscriptionStore: subscriptions,
+          logger,
+        },
+        { sessionStore: store, streamingThreshold: 10, pingInterval: 60000, streamTimeout: 100 }
+      );
+    });
+
+    it('should advertise subscriptions on initialize', async () => {
+      const response = await post({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', clientInfo: { name: 'test-client', version: '1.0.0' } },
+      });
+
+      expect(((await response.json()) as any).result.capabilities.resources).toEqual({
+        subscribe: true,
+        listChanged: false,
+      });
+    });
+
+    it('should subscribe the session to matéria resources only', async () => {
+      const sessionId = await initialize();
+
+      expect(((await (await subscribe(sessionId, 'senado://materia/123')).json()) as any).result).toEqual({});
+      expect(((await (await subscribe(sessionId, 'senado://senadores')).json()) as any).error.code).toBe(-32602);
+      expect(await subscriptions.getSubscriptions()).toEqual({ 'senado://materia/123': [sessionId] });
+
+      await subscribe(sessionId, 'senado://materia/123', 'resources/unsubscribe');
+      expect(await subscriptions.getSubscriptions()).toEqual({});
+    });
+
+    it('should send notifications on open streams and queue them otherwise', async () => {
+      const open = await initialize();
+      const idle = await initialize();
+
+      const stream = await openStream(open);
+      await handler.notifySession(open, updated('senado://materia/1'));
+      await handler.notifySession(idle, updated('senado://materia/2'));
+
+      const data = (response: Response) =>
+        response.text().then((body) =>
+          body
+            .split('\n\n')
+            .filter((event) => event.startsWith('id:'))
+            .map((event) => JSON.parse(event.split('data: ')[1]!))
+        );
+      expect(await data(stream)).toEqual([updated('senado://materia/1')]);
+      expect(await data(await openStream(idle))).toEqual([updated('senado://materia/2')]);
+    });
+
+    it('should drop the subscriptions of terminated sessions', async () => {
+      const sessionId = await initialize();
+      await subscribe(sessionId, 'senado://materia/123');
+
+      await handler.handle(
+        new Request(ENDPOINT, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } })
+      );
+
+      expect(await subscriptions.getSubscriptions()).toEqual({});
+    });
+
+    it('should drop the subscriptions of expired sessions', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const sessionId = await initialize();
+        await subscribe(sessionId, 'senado://materia/123');
+
+        vi.advanceTimersByTime(60001);
+        await initialize();
+
+        await vi.waitFor(async () => expect(await subscriptions.getSubscriptions()).toEqual({}));
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should drop the subscriptions of sessions gone when notified', async () => {
+      const sessionId = await initialize();
+      await subscribe(sessionId, 'senado://materia/123');
+      await store.delete(sessionId);
+
+      await handler.notifySession(sessionId, updated('senado://materia/123'));
+
+      expect(await subscriptions.getSubscriptions()).toEqual({});
+    });
+  });
+
+  describe('Errors', () => {
+    it('should reject malformed, empty batch and unacceptable requests', async () => {
+      const parse = await post('{not json');
+      expect(((await parse.json()) as any).error.code).toBe(-32700);
+
+      const batch = await post([]);
+      expect(batch.status).toBe(400);
+      expect(((await batch.json()) as any).error.code).toBe(-32600);
+
+      const get = await handler.handle(new Request(ENDPOINT, { headers: { Accept: 'application/json' } }));
+      expect(get.status).toBe(406);
+
+      const put = await handler.handle(new Request(ENDPOINT, { method: 'PUT' }));
+      expect(put.status).toBe(405);
+      expect(put.headers.get('Allow')).toBe('GET, POST, DELETE');
+    });
+  });
+});
@@ -1,7 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { ToolRegistry } from '../../lib/core/tools.js';
+import { READ_ONLY_TOOL_ANNOTATIONS, ToolRegistry } from '../../lib/core/tools.js';
 import type { ToolDefinition, ToolContext, Logger, HttpClient } from '../../lib/types/index.js';
-import { ToolNotFoundError } from '../../lib/core/errors.js';
+import { RequestCancelledError, ToolNotFoundError } from '../../lib/core/errors.js';
+import { referenceTools } from '../../lib/tools/reference-tools.js';
+import { senatorTools } from '../../lib/tools/senator-tools.js';
+import { proposalTools } from '../../lib/tools/proposal-tools.js';
+import { votingTools } from '../../lib/tools/voting-tools.js';
+import { committeeTools } from '../../lib/tools/committee-tools.js';
+import { partyTools } from '../../lib/tools/party-tools.js';
+import { sessionTools } from '../../lib/tools/session-tools.js';
 
 // Mock logger
 const createMockLogger = (): Logger => ({
@@ -299,6 +306,52 @@ describe('ToolRegistry Integration Tests', () => {
         ToolNotFoundError
       );
     });
+
+    it('should pass the cancellation signal to HTTP calls', async () => {
+      const controller = new AbortController();
+      const handler = vi.fn(async (_args: unknown, context: ToolContext) => {
+        await context.httpClient.get('/senador/lista/atual', { uf: 'SP' });
+        return { title: 'Senadores', data: [] };
+      });
+
+      registry.register({
+        name: 'signal_test',
+        description: 'Test signal passing',
+        category: 'test',
+        inputSchema: { type: 'object', properties: {} },
+        handler,
+      });
+
+      await registry.invoke('signal_test', {}, { ...mockContext, signal: controller.signal });
+
+      expect(mockContext.httpClient.get).toHaveBeenCalledWith(
+        '/senador/lista/atual',
+        { uf: 'SP' },
+        { signal: controller.signal }
+      );
+    });
+
+    it('should reject cancelled invocations', async () => {
+      const controller = new AbortController();
+      const handler = vi.fn(() => new Promise(() => undefined));
+
+      registry.register({
+        name: 'hanging_test',
+        description: 'Test cancellation',
+        category: 'test',
+        inputSchema: { type: 'object', properties: {} },
+        handler,
+      });
+
+      const pending = registry.invoke('hanging_test', {}, { ...mockContext, signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toThrow(RequestCancelledError);
+
+      await expect(
+        registry.invoke('hanging_test', {}, { ...mockContext, signal: controller.signal })
+      ).rejects.toThrow(RequestCancelledError);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('Tool Summary', () => {
@@ -443,5 +496,23 @@ describe('ToolRegistry Integration Tests', () => {
         expect(registry.countByCategory(category)).toBe(5);
       }
     });
+
+    it('should give every Senado tool a unique title and read-only annotations', () => {
+      const tools = [
+        ...referenceTools,
+        ...senatorTools,
+        ...proposalTools,
+        ...votingTools,
+        ...committeeTools,
+        ...partyTools,
+        ...sessionTools,
+      ];
+
+      for (const tool of tools) {
+        expect(tool.title, tool.name).toBeTruthy();
+        expect(tool.annotations, tool.name).toEqual(READ_ONLY_TOOL_ANNOTATIONS);
+      }
+      expect(new Set(tools.map((tool) => tool.title)).size).toBe(tools.length);
+    });
   });
 });
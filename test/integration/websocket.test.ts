@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import { WebSocketTransport, WEBSOCKET_PATH } from '../../lib/adapters/websocket.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { ResourceRegistry } from '../../lib/core/resources.js';
+import { InMemorySubscriptionStore } from '../../lib/infrastructure/subscription-store.js';
+import { createLogger } from '../../lib/infrastructure/logger.js';
+import { LogLevel, type Logger } from '../../lib/types/index.js';
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as Logger;
+
+const cancellations: string[] = [];
+
+function createToolRegistry() {
+  const registry = new ToolRegistry();
+  registry.register({
+    name: 'etapas',
+    description: 'Reports progress',
+    inputSchema: { type: 'object', properties: {} },
+    handler: async (_args, context) => {
+      for (const step of [1, 2]) {
+        context.progress?.({ progress: step, total: 2 });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return { title: 'Etapas', data: { ok: true } };
+    },
+    category: 'reference',
+  });
+  registry.register({
+    name: 'bloqueante',
+    description: 'Runs until cancelled',
+    inputSchema: { type: 'object', properties: {} },
+    handler: (_args, context) =>
+      new Promise(() => {
+        context.signal?.addEventListener('abort', () => cancellations.push(String(context.signal?.reason)));
+      }),
+    category: 'reference',
+  });
+  registry.register({
+    name: 'registra',
+    description: 'Logs a message',
+    inputSchema: { type: 'object', properties: {} },
+    handler: async (_args, context) => {
+      context.logger.info('Consulta');
+      return { title: 'Registro', data: { ok: true } };
+    },
+    category: 'reference',
+  });
+  return registry;
+}
+
+/**
+ * WebSocket client that collects the messages it receives
+ */
+class TestClient {
+  readonly messages: any[] = [];
+  private waiters: Array<() => void> = [];
+
+  constructor(readonly socket: WebSocket) {
+    socket.on('message', (data) => {
+      this.messages.push(JSON.parse(data.toString()));
+      this.waiters.forEach((wake) => wake());
+    });
+  }
+
+  send(message: unknown): void {
+    this.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  /**
+   * Wait for a message matching the predicate
+   */
+  async next(predicate: (message: any) => boolean): Promise<any> {
+    for (;;) {
+      const found = this.messages.find(predicate);
+      if (found) return found;
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  async request(id: number, method: string, params?: unknown): Promise<any> {
+    this.send({ jsonrpc: '2.0', id, method, params });
+    return this.next((message) => message.id === id);
+  }
+
+  async initialize(): Promise<any> {
+    return this.request(0, 'initialize', {
+      protocolVersion: '2025-06-18',
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    });
+  }
+}
+
+describe('WebSocket transport', () => {
+  let server: Server;
+  let transport: WebSocketTransport;
+  let subscriptions: InMemorySubscriptionStore;
+  let serverLogger: Logger;
+  const sockets: WebSocket[] = [];
+
+  const start = async (authToken?: string, pingInterval = 60000) => {
+    transport = new WebSocketTransport(
+      {
+        toolRegistry: createToolRegistry(),
+        resourceRegistry: new ResourceRegistry(),
+        subscriptionStore: subscriptions,
+        logger: serverLogger,
+      },
+      { authToken, pingInterval }
+    );
+    server = createServer();
+    server.on('upgrade', (request, socket, head) => transport.handleUpgrade(request, socket, head));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  };
+
+  const connect = (headers: Record<string, string> = {}, autoPong = true) =>
+    new Promise<TestClient>((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      const socket = new WebSocket(`ws://127.0.0.1:${port}${WEBSOCKET_PATH}`, { headers, autoPong });
+      sockets.push(socket);
+      socket.on('open', () => resolve(new TestClient(socket)));
+      socket.on('error', reject);
+    });
+
+  beforeEach(() => {
+    cancellations.length = 0;
+    subscriptions = new InMemorySubscriptionStore(logger);
+    serverLogger = createLogger({ level: LogLevel.ERROR, format: 'json', maskPII: false });
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((socket) => socket.terminate());
+    transport.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should initialize and answer requests on the connection', async () => {
+    await start();
+    const client = await connect();
+
+    const initialized = await client.initialize();
+    expect(initialized.result.protocolVersion).toBe('2025-06-18');
+    expect(initialized.result.capabilities.resources.subscribe).toBe(true);
+
+    const listed = await client.request(1, 'tools/list');
+    expect(listed.result.tools.map((tool: { name: string }) => tool.name)).toEqual(['etapas', 'bloqueante', 'registra']);
+  });
+
+  it('should require initialize first', async () => {
+    await start();
+    const client = await connect();
+
+    expect((await client.request(1, 'tools/list')).error.code).toBe(-32000);
+    client.send('{not json');
+    expect((await client.next((message) => message.error?.code === -32700)).id).toBeNull();
+  });
+
+  it('should send progress notifications before the result', async () => {
+    await start();
+    const client = await connect();
+    await client.initialize();
+
+    await client.request(1, 'tools/call', { name: 'etapas', arguments: {}, _meta: { progressToken: 'p1' } });
+
+    expect(client.messages.slice(1).map((message) => message.method ?? message.id)).toEqual([
+      'notifications/progress',
+      'notifications/progress',
+      1,
+    ]);
+  });
+
+  it('should answer batches in batch order', async () => {
+    await start();
+    const client = await connect();
+    await client.initialize();
+
+    client.send([
+      { jsonrpc: '2.0', id: 'a', method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 'b', method: 'tools/list' },
+    ]);
+
+    const batch = await client.next(Array.isArray);
+    expect(batch.map((response: { id: string }) => response.id)).toEqual(['a', 'b']);
+  });
+
+  it('should abort requests on notifications/cancelled and on close', async () => {
+    await start();
+    const client = await connect();
+    await client.initialize();
+
+    client.send({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'bloqueante', arguments: {} } });
+    client.send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'bloqueante', arguments: {} } });
+    await new Promise((resolve) => setTimeout(resolve, 20)); // Let both calls start
+
+    client.send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1, reason: 'no longer needed' } });
+    await vi.waitFor(() => expect(cancellations).toEqual(['no longer needed']));
+
+    client.socket.close();
+    await vi.waitFor(() => expect(cancellations).toEqual(['no longer needed', 'client disconnected']));
+    expect(client.messages).toHaveLength(1);
+  });
+
+  it('should send the log messages of its own requests at the level set on the connection', async () => {
+    await start();
+    const client = await connect();
+    const other = await connect();
+    for (const connected of [client, other]) {
+      await connected.initialize();
+      await connected.request(1, 'logging/setLevel', { level: 'info' });
+    }
+
+    serverLogger.info('Consulta de outra origem');
+    await client.request(2, 'tools/call', { name: 'registra', arguments: {} });
+    await other.request(2, 'tools/list');
+
+    const logged = client.messages.filter((message) => message.method === 'notifications/message');
+    expect(logged.map((message) => message.params.data.message)).toEqual(['Consulta']);
+    expect(logged[0].params).toMatchObject({ level: 'info', data: { sessionId: expect.any(String) } });
+    expect(other.messages.filter((message) => message.method === 'notifications/message')).toEqual([]);
+  });
+
+  it('should deliver resource updates and drop subscriptions on close', async () => {
+    await start();
+    const client = await connect();
+    await client.initialize();
+    await client.request(1, 'resources/subscribe', { uri: 'senado://materia/123' });
+
+    const [connectionId] = (await subscriptions.getSubscriptions())['senado://materia/123']!;
+    const update = { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'senado://materia/123' } };
+    expect(transport.notify(connectionId!, update)).toBe(true);
+    expect(await client.next((message) => message.method === 'notifications/resources/updated')).toEqual(update);
+
+    client.socket.close();
+    await vi.waitFor(async () => expect(await subscriptions.getSubscriptions()).toEqual({}));
+    expect(transport.notify(connectionId!, update)).toBe(false);
+  });
+
+  it('should keep answering clients open and terminate silent ones', async () => {
+    await start(undefined, 20);
+    const answering = await connect();
+    const silent = await connect({}, false);
+
+    await new Promise((resolve) => silent.socket.once('close', resolve));
+    expect(answering.socket.readyState).toBe(WebSocket.OPEN);
+  });
+
+  it('should require the bearer token on the upgrade request', async () => {
+    await start('segredo');
+
+    await expect(connect()).rejects.toThrow(/401/);
+    await expect(connect({ Authorization: 'Bearer errado' })).rejects.toThrow(/401/);
+
+    const client = await connect({ Authorization: 'Bearer segredo' });
+    expect((await client.initialize()).result).toBeDefined();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import worker, {
+  CacheDurableObject,
+  CircuitBreakerDurableObject,
+  MetricsDurableObject,
+  RateLimiterDurableObject,
+} from '../../lib/workers/index.js';
+import { createWorkersAdapter } from '../../lib/adapters/workers.js';
+import { ToolPipeline } from '../../lib/core/pipeline.js';
+import { ToolRegistry } from '../../lib/core/tools.js';
+import { CircuitBreakerError, RateLimitError } from '../../lib/core/errors.js';
+import { InMemorySessionStore } from '../../lib/infrastructure/session-store.js';
+import { createLogger } from '../../lib/infrastructure/logger.js';
+import { LogLevel } from '../../lib/types/index.js';
+
+const logger = createLogger({ level: LogLevel.ERROR, format: 'json', maskPII: false });
+
+const XML_TYPES =
+  '<?xml version="1.0" encoding="UTF-8"?><ListaTiposMateria><TiposMateria><TipoMateria><Codigo>1</Codigo><Sigla>PL</Sigla><Descricao>Projeto de Lei</Descricao></TipoMateria></TiposMateria></ListaTiposMateria>';
+
+/**
+ * DurableObjectState with in-memory storage
+ */
+function createState(): DurableObjectState {
+  const storage = new Map<string, unknown>();
+  return {
+    waitUntil: () => {},
+    blockConcurrencyWhile: <T>(callback: () => Promise<T>) => callback(),
+    storage: {
+      get: async (key: string) => storage.get(key),
+      put: async (key: string, value: unknown) => {
+        storage.set(key, value);
+      },
+      delete: async (key: string) => storage.delete(key),
+    },
+  } as unknown as DurableObjectState;
+}
+
+/**
+ * Namespace creating one Durable Object per name, reached through stub.fetch
+ */
+function createNamespace(
+  create: (state: DurableObjectState) => { fetch(request: Request): Promise<Response> }
+): DurableObjectNamespace & { instances: Map<string, ReturnType<typeof create>> } {
+  const instances = new Map<string, ReturnType<typeof create>>();
+  return {
+    instances,
+    idFromName: (name: string) => ({ name, toString: () => name }),
+    get: (id: { name: string }) => {
+      if (!instances.has(id.name)) {
+        instances.set(id.name, create(createState()));
+      }
+      return { fetch: (input: RequestInfo, init?: RequestInit) => instances.get(id.name)!.fetch(new Request(input, init)) };
+    },
+  } as unknown as DurableObjectNamespace & { instances: Map<string, ReturnType<typeof create>> };
+}
+
+describe('Workers entry point', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should revalidate Senado API responses kept with their validators in the response cache DO', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(XML_TYPES, { status: 200, headers: { 'Content-Type': 'text/xml', ETag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304, statusText: 'Not Modified' }));
+    const cacheNamespace = createNamespace((state) => new CacheDurableObject(state, {}));
+    const env = {
+      CACHE: cacheNamespace,
+      RATE_LIMITER: createNamespace((state) => new RateLimiterDurableObject(state, {})),
+      CIRCUIT_BREAKER: createNamespace((state) => new CircuitBreakerDurableObject(state, {})),
+      METRICS: createNamespace((state) => new MetricsDurableObject(state, {})),
+      SESSIONS: createNamespace(() => ({ fetch: async () => new Response(null, { status: 404 }) })),
+      SUBSCRIPTIONS: createNamespace(() => ({ fetch: async () => new Response(null, { status: 404 }) })),
+      MCP_LOG_LEVEL: 'error',
+    } as unknown as Parameters<typeof worker.fetch>[1];
+    const invoke = async () => {
+      const response = await worker.fetch(
+        new Request('https://worker.test/api/tools/tipos_materia_listar', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: '{}',
+        }),
+        env
+      );
+      return (await response.json()) as { structuredContent?: unknown };
+    };
+
+    const first = await invoke();
+    // Past the tool result TTL (5 minutes), so the tool runs again
+    vi.setSystemTime(Date.now() + 6 * 60 * 1000);
+    const second = await invoke();
+
+    expect(first.structuredContent).toEqual({ itens: [{ codigo: 1, sigla: 'PL', descricao: 'Projeto de Lei' }] });
+    expect(second).toEqual(first);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const headers = (fetchMock.mock.calls[1]![1] as RequestInit).headers as Record<string, string>;
+    expect(headers['If-None-Match']).toBe('"v1"');
+
+    const responseCache = cacheNamespace.instances.get('global-response-cache')!;
+    const entry = await responseCache.fetch(
+      new Request(`http://do/get?key=${encodeURIComponent('http:format="xml"&url="https://legis.senado.leg.br/dadosabertos/tipoMateria/lista"')}&entry=1`)
+    );
+    expect(await entry.json()).toMatchObject({ found: true, validators: { etag: '"v1"' } });
+  });
+});
+
+describe('Workers adapter REST API', () => {
+  const invokeFailingWith = async (error: Error) => {
+    const registry = new ToolRegistry();
+    registry.register({
+      name: 'senador_detalhes',
+      description: 'Details of a senator',
+      inputSchema: { type: 'object', properties: {} },
+      handler: async () => ({ content: [{ type: 'text', text: 'ok' }] }),
+      category: 'senator',
+    });
+    const adapter = createWorkersAdapter(registry, logger, {
+      corsOrigin: '*',
+      authEnabled: false,
+      serviceInfo: {
+        name: 'test',
+        description: 'Test server',
+        version: '0.0.0',
+        environment: 'test',
+        documentationUrl: '',
+        repositoryUrl: '',
+      },
+      toolPipeline: new ToolPipeline(registry, [
+        async () => {
+          throw error;
+        },
+      ]),
+      sessionStore: new InMemorySessionStore({ ttl: 60000, maxEvents: 10 }, logger),
+    });
+
+    return adapter.fetch(
+      new Request('https://worker.test/api/tools/senador_detalhes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{}',
+      })
+    );
+  };
+
+  it('should answer 429 with Retry-After over the rate limit', async () => {
+    const limited = new Error('Rate limit exceeded');
+    limited.name = 'RateLimitError';
+
+    const response = await invokeFailingWith(limited);
+    const waited = await invokeFailingWith(new RateLimitError('Rate limit exceeded', 2500));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('1');
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(waited.headers.get('retry-after')).toBe('3');
+  });
+
+  it('should answer 503 while the circuit breaker is open', async () => {
+    const response = await invokeFailingWith(new CircuitBreakerError('Circuit breaker is OPEN'));
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: 'Circuit breaker is OPEN' });
+  });
+});
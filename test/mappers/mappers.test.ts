@@ -0,0 +1,765 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractSenadores,
+  extractSenadoresListagem,
+  extractSenador,
+  extractMaterias,
+  extractMateria,
+  extractVotacoes,
+  extractVotacao,
+  extractVotos,
+  extractVotingOrientations,
+  extractSenatorVotingRecord,
+  normalizeVoteValue,
+  extractComissoes,
+  extractComissaoDetalhada,
+  extractPartidos,
+  extractBlocos,
+  extractSessoes,
+  extractSenadorDetalhado,
+  extractMandatos,
+  extractLicencas,
+  extractLiderancas,
+  extractCargos,
+  extractFiliacoes,
+  extractParticipacoesComissao,
+  extractMateriasAutoria,
+  extractTramitacoes,
+  extractTextosMateria,
+  extractAutoresMateria,
+  extractMateriasRelacionadas,
+  extractRelatorias,
+  extractEmendas,
+  extractEstatisticaVotacao,
+  extractDiscursos,
+  extractDiscurso,
+  extractResultadosPlenario,
+  extractLegislaturas,
+  extractItensReferencia,
+  extractUfs,
+} from '../../lib/mappers/index.js';
+
+const senatorRecord = {
+  IdentificacaoParlamentar: {
+    CodigoParlamentar: '5012',
+    NomeParlamentar: 'Fulana de Tal',
+    NomeCompletoParlamentar: 'Fulana de Tal Silva',
+    SexoParlamentar: 'Feminino',
+    SiglaPartidoParlamentar: 'pt',
+    UfParlamentar: 'SP',
+    MembroMesa: 'Não',
+    MembroLideranca: 'Sim',
+  },
+  Mandato: {
+    CodigoMandato: '600',
+    UfParlamentar: 'SP',
+    DescricaoParticipacao: 'Titular',
+    PrimeiraLegislaturaDoMandato: { NumeroLegislatura: '57', DataInicio: '2023-02-01' },
+    SegundaLegislaturaDoMandato: { NumeroLegislatura: '58', DataFim: '2031-01-31' },
+  },
+};
+
+/**
+ * Map a collection both as an array and collapsed to its only element (as the XML parser does)
+ */
+function mapBothForms<T>(extract: (data: unknown) => T[], wrap: (items: unknown) => unknown, record: unknown) {
+  return { list: extract(wrap([record, record])), single: extract(wrap(record)) };
+}
+
+describe('Domain Mappers', () => {
+  describe('Senators', () => {
+    it('should map senators to camelCase models', () => {
+      const [senador] = extractSenadores({
+        ListaParlamentarEmExercicio: { Parlamentares: { Parlamentar: [senatorRecord] } },
+      });
+
+      expect(senador).toEqual({
+        codigo: 5012,
+        nome: 'Fulana de Tal',
+        nomeCompleto: 'Fulana de Tal Silva',
+        sexo: 'Feminino',
+        formaTratamento: undefined,
+        partido: 'PT',
+        uf: 'SP',
+        email: undefined,
+        urlFoto: undefined,
+        urlPagina: undefined,
+        dataNascimento: undefined,
+        membroMesa: false,
+        membroLideranca: true,
+        mandatos: [
+          {
+            codigo: 600,
+            uf: 'SP',
+            participacao: 'Titular',
+            legislaturas: [57, 58],
+            dataInicio: '2023-02-01',
+            dataFim: '2031-01-31',
+          },
+        ],
+      });
+    });
+
+    it('should return an array when the list collapses to a single senator', () => {
+      const senadores = extractSenadores({
+        ListaParlamentarEmExercicio: { Parlamentares: { Parlamentar: senatorRecord } },
+      });
+
+      expect(senadores).toHaveLength(1);
+      expect(senadores[0]!.mandatos).toHaveLength(1);
+    });
+
+    it('should unwrap senator details', () => {
+      const senador = extractSenador({
+        DetalheParlamentar: {
+          Parlamentar: { ...senatorRecord, DadosBasicosParlamentar: { DataNascimento: '1970-05-20' } },
+        },
+      });
+
+      expect(senador?.codigo).toBe(5012);
+      expect(senador?.dataNascimento).toBe('1970-05-20');
+    });
+
+    it('should drop records without a code', () => {
+      expect(extractSenadores({ Parlamentares: { Parlamentar: [{ NomeParlamentar: 'Sem código' }] } })).toEqual([]);
+    });
+
+    it('should flag titulares, suplentes em exercício and afastados in legislature listings', () => {
+      const suplente = {
+        IdentificacaoParlamentar: { CodigoParlamentar: '6001', NomeParlamentar: 'Suplente' },
+        Mandatos: {
+          Mandato: {
+            DescricaoParticipacao: '1º Suplente',
+            PrimeiraLegislaturaDoMandato: { NumeroLegislatura: '57' },
+            Exercicios: { Exercicio: { DataInicio: '2024-04-01' } },
+          },
+        },
+      };
+      const afastado = {
+        IdentificacaoParlamentar: { CodigoParlamentar: '6002', NomeParlamentar: 'Afastado' },
+        Mandatos: {
+          Mandato: [
+            {
+              DescricaoParticipacao: 'Titular',
+              PrimeiraLegislaturaDoMandato: { NumeroLegislatura: '55' },
+              SegundaLegislaturaDoMandato: { NumeroLegislatura: '56', DataFim: '2023-01-31' },
+            },
+            {
+              DescricaoParticipacao: 'Titular',
+              PrimeiraLegislaturaDoMandato: { NumeroLegislatura: '57', DataInicio: '2023-02-01' },
+              SegundaLegislaturaDoMandato: { NumeroLegislatura: '58', DataFim: '2031-01-31' },
+              Exercicios: {
+                Exercicio: [
+                  { DataInicio: '2023-02-01', DataFim: '2024-03-31', SiglaCausaAfastamento: 'L' },
+                  { DataInicio: '2024-06-01', DataFim: '2024-09-30', DescricaoCausaAfastamento: 'Licença' },
+                ],
+              },
+            },
+          ],
+        },
+      };
+
+      const senadores = extractSenadoresListagem(
+        { ListaParlamentarLegislatura: { Parlamentares: { Parlamentar: [senatorRecord, suplente, afastado, senatorRecord] } } },
+        { legislaturas: [57] }
+      );
+
+      expect(senadores.map(({ codigo, titular, suplenteEmExercicio, afastado: flag }) => [codigo, titular, suplenteEmExercicio, flag])).toEqual([
+        [5012, true, false, false],
+        [6001, false, true, false],
+        [6002, true, false, true],
+      ]);
+    });
+
+    it('should flag every record of the afastados listing', () => {
+      const [senador] = extractSenadoresListagem({ Parlamentares: { Parlamentar: senatorRecord } }, { afastados: true });
+
+      expect(senador).toMatchObject({ codigo: 5012, titular: true, afastado: true });
+    });
+  });
+
+  describe('Proposals', () => {
+    it('should map legacy XML proposal records', () => {
+      const [materia] = extractMaterias({
+        PesquisaBasicaMateria: {
+          Materias: {
+            Materia: {
+              IdentificacaoMateria: {
+                CodigoMateria: '157000',
+                SiglaSubtipoMateria: 'PL',
+                NumeroMateria: '2338',
+                AnoMateria: '2023',
+                IndicadorTramitando: 'Sim',
+              },
+              DadosBasicosMateria: { EmentaMateria: 'Dispõe sobre IA', DataApresentacao: '2023-05-03' },
+              Autoria: { Autor: { NomeAutor: 'Senador X' } },
+            },
+          },
+        },
+      });
+
+      expect(materia).toMatchObject({
+        codigo: 157000,
+        sigla: 'PL',
+        numero: 2338,
+        ano: 2023,
+        identificacao: 'PL 2338/2023',
+        ementa: 'Dispõe sobre IA',
+        dataApresentacao: '2023-05-03',
+        autores: ['Senador X'],
+        tramitando: true,
+      });
+    });
+
+    it('should map flat JSON proposal records', () => {
+      const materia = extractMateria({
+        Codigo: 1,
+        Sigla: 'pec',
+        Numero: 10,
+        Ano: 2024,
+        Ementa: 'Altera a Constituição',
+        Autor: 'Comissão Y',
+      });
+
+      expect(materia).toMatchObject({ codigo: 1, sigla: 'PEC', identificacao: 'PEC 10/2024', autores: ['Comissão Y'] });
+    });
+  });
+
+  describe('Votings and votes', () => {
+    const votingRecord = {
+      codigoSessaoVotacao: 8001,
+      codigoSessao: 300,
+      dataSessao: '2024-03-10T14:00:00',
+      codigoMateria: 157000,
+      sigla: 'PL',
+      numero: '2338',
+      ano: '2023',
+      resultadoVotacao: 'Aprovado',
+      votacaoSecreta: 'N',
+      totalVotosSim: 50,
+      totalVotosNao: 10,
+      votos: {
+        codigoParlamentar: 5012,
+        nomeParlamentar: 'Fulana de Tal',
+        siglaPartidoParlamentar: 'PT',
+        siglaUFParlamentar: 'SP',
+        siglaVotoParlamentar: 'Sim',
+      },
+    };
+
+    it('should map voting sessions with nested votes', () => {
+      const [votacao] = extractVotacoes([votingRecord]);
+
+      expect(votacao).toMatchObject({
+        codigo: 8001,
+        codigoSessao: 300,
+        data: '2024-03-10',
+        resultado: 'Aprovado',
+        secreta: false,
+        materia: { codigo: 157000, identificacao: 'PL 2338/2023' },
+        totais: { sim: 50, nao: 10 },
+      });
+      expect(votacao!.votos).toEqual([
+        {
+          codigoParlamentar: 5012,
+          nomeParlamentar: 'Fulana de Tal',
+          partido: 'PT',
+          uf: 'SP',
+          voto: 'SIM',
+          votoOriginal: 'Sim',
+        },
+      ]);
+    });
+
+    it('should accept legacy voting list wrappers', () => {
+      expect(extractVotacoes({ sessoesVotacao: { sessaoVotacao: votingRecord } })).toHaveLength(1);
+      expect(extractVotacao([votingRecord])?.codigo).toBe(8001);
+    });
+
+    it('should map individual votes from legacy XML', () => {
+      const votos = extractVotos({
+        VotacaoVotos: {
+          Votos: {
+            VotoParlamentar: {
+              IdentificacaoParlamentar: { CodigoParlamentar: 1, NomeParlamentar: 'A', SiglaPartidoParlamentar: 'MDB' },
+              DescricaoVoto: 'Não',
+            },
+          },
+        },
+      });
+
+      expect(votos).toEqual([
+        { codigoParlamentar: 1, nomeParlamentar: 'A', partido: 'MDB', uf: undefined, voto: 'NAO', votoOriginal: 'Não' },
+      ]);
+    });
+
+    it('should extract party orientations', () => {
+      expect(
+        extractVotingOrientations({ OrientacaoBancada: { orientacao: { siglaPartido: 'pt', orientacao: 'Não' } } })
+      ).toEqual([{ sigla: 'PT', orientacao: 'NAO' }]);
+    });
+
+    it("should extract a senator's own votes", () => {
+      const record = extractSenatorVotingRecord(
+        {
+          VotacaoParlamentar: {
+            Parlamentar: {
+              IdentificacaoParlamentar: { NomeParlamentar: 'A', SiglaPartidoParlamentar: 'pt' },
+              Votacoes: {
+                Votacao: {
+                  CodigoSessaoVotacao: 101,
+                  SiglaDescricaoVoto: 'Sim',
+                  SessaoPlenaria: { DataSessao: '10/03/2024' },
+                  IdentificacaoMateria: { SiglaSubtipoMateria: 'PL', NumeroMateria: 1, AnoMateria: 2024 },
+                },
+              },
+            },
+          },
+        },
+        5012
+      );
+
+      expect(record.partido).toBe('PT');
+      expect(record.votos).toHaveLength(1);
+      expect(record.votos[0]!.votacao).toMatchObject({ codigo: 101, data: '2024-03-10', materia: { identificacao: 'PL 1/2024' } });
+      expect(record.votos[0]!.voto).toMatchObject({ codigoParlamentar: 5012, nomeParlamentar: 'A', partido: 'PT', voto: 'SIM' });
+    });
+
+    it('should normalize vote values', () => {
+      expect(normalizeVoteValue('Abstenção')).toBe('ABSTENCAO');
+      expect(normalizeVoteValue('obstrução')).toBe('OBSTRUCAO');
+      expect(normalizeVoteValue('AP')).toBe('OUTRO');
+    });
+  });
+
+  describe('Committees', () => {
+    it('should map committee lists', () => {
+      const comissoes = extractComissoes({
+        ListaColegiados: {
+          Colegiados: {
+            Colegiado: { Codigo: '34', Sigla: 'ccj', Nome: 'Comissão de Constituição', DescricaoTipoColegiado: 'Comissão Permanente', DataInicio: '1995-01-01' },
+          },
+        },
+      });
+
+      expect(comissoes).toEqual([
+        {
+          codigo: 34,
+          sigla: 'CCJ',
+          nome: 'Comissão de Constituição',
+          tipo: 'Comissão Permanente',
+          casa: undefined,
+          dataInicio: '1995-01-01',
+          dataFim: undefined,
+          ativa: true,
+        },
+      ]);
+    });
+
+    it('should map committee composition', () => {
+      const comissao = extractComissaoDetalhada({
+        ComposicaoComissao: {
+          IdentificacaoComissao: { CodigoComissao: 34, SiglaComissao: 'CCJ', NomeComissao: 'CCJ' },
+          Membros: {
+            Membro: { CodigoParlamentar: 5012, NomeParlamentar: 'Fulana', SiglaPartido: 'PT', DescricaoParticipacao: 'Titular' },
+          },
+        },
+      });
+
+      expect(comissao?.codigo).toBe(34);
+      expect(comissao?.membros).toEqual([
+        expect.objectContaining({ codigoParlamentar: 5012, nome: 'Fulana', partido: 'PT', participacao: 'Titular' }),
+      ]);
+    });
+  });
+
+  describe('Parties and blocs', () => {
+    it('should map parties', () => {
+      expect(
+        extractPartidos({ ListaPartidos: { Partidos: { Partido: { Codigo: 11, Sigla: 'pt', Nome: 'Partido dos Trabalhadores' } } } })
+      ).toEqual([
+        { codigo: 11, sigla: 'PT', nome: 'Partido dos Trabalhadores', dataCriacao: undefined, dataExtincao: undefined, ativo: true },
+      ]);
+    });
+
+    it('should map blocs with member parties and legislatures', () => {
+      const [bloco] = extractBlocos({
+        ListaBlocoParlamentar: {
+          Blocos: {
+            Bloco: {
+              CodigoBloco: 300,
+              NomeBloco: 'Bloco da Resistência',
+              Membros: { Membro: { Partido: { CodigoPartido: 11, SiglaPartido: 'PT', NomePartido: 'PT' } } },
+              Legislaturas: { Legislatura: { NumeroLegislatura: 57 } },
+            },
+          },
+        },
+      });
+
+      expect(bloco).toMatchObject({
+        codigo: 300,
+        nome: 'Bloco da Resistência',
+        partidos: [{ codigo: 11, sigla: 'PT', nome: 'PT' }],
+        legislaturas: [57],
+      });
+    });
+  });
+
+  describe('Sessions', () => {
+    it('should map plenary sessions', () => {
+      expect(
+        extractSessoes({ ListaSessoes: { Sessoes: { Sessao: { CodigoSessao: 9, NumeroSessao: 12, DataSessao: '10/03/2024', SiglaCasa: 'SF' } } } })
+      ).toEqual([
+        expect.objectContaining({ codigo: 9, numero: 12, data: '2024-03-10', casa: 'SF' }),
+      ]);
+    });
+  });
+
+  describe('Senator records', () => {
+    const parlamentar = (body: Record<string, unknown>) => ({
+      Parlamentar: { IdentificacaoParlamentar: { CodigoParlamentar: 5012 }, ...body },
+    });
+
+    it('should keep contact and biography data in senator details', () => {
+      const senador = extractSenadorDetalhado({
+        DetalheParlamentar: {
+          Parlamentar: {
+            ...senatorRecord,
+            IdentificacaoParlamentar: { ...senatorRecord.IdentificacaoParlamentar, EmailParlamentar: 'fulana@senado.leg.br' },
+            DadosBasicosParlamentar: {
+              DataNascimento: '1970-05-20',
+              Naturalidade: 'Campinas',
+              UfNaturalidade: 'SP',
+              EnderecoParlamentar: 'Anexo 2, Gabinete 10',
+            },
+            Telefones: { Telefone: [{ NumeroTelefone: '33036568', IndicadorFax: 'Não' }, { NumeroTelefone: '33036569', IndicadorFax: 'Sim' }] },
+            HistoricoAcademico: { Curso: { NomeCurso: 'Direito', GrauInstrucao: 'Superior', Estabelecimento: 'USP', Local: 'São Paulo' } },
+            Profissoes: { Profissao: { NomeProfissao: 'Advogada' } },
+          },
+        },
+      });
+
+      expect(senador).toMatchObject({
+        codigo: 5012,
+        dataNascimento: '1970-05-20',
+        naturalidade: 'Campinas',
+        ufNaturalidade: 'SP',
+        telefones: [
+          { numero: '33036568', fax: false },
+          { numero: '33036569', fax: true },
+        ],
+        enderecos: ['Anexo 2, Gabinete 10'],
+        emails: ['fulana@senado.leg.br'],
+        formacao: [{ curso: 'Direito', grau: 'Superior', instituicao: 'USP', local: 'São Paulo' }],
+        profissoes: ['Advogada'],
+      });
+    });
+
+    it('should map mandates, leaves, leaderships, positions and affiliations in both forms', () => {
+      const mandatos = mapBothForms(extractMandatos, (Mandato) => ({ MandatoParlamentar: parlamentar({ Mandatos: { Mandato } }) }), senatorRecord.Mandato);
+      const licencas = mapBothForms(
+        extractLicencas,
+        (Licenca) => ({ LicencaParlamentar: parlamentar({ Licencas: { Licenca } }) }),
+        { Codigo: 8841, DataInicio: '15/07/2024', DataFim: '2024-07-19', SiglaTipoAfastamento: 'LAP', DescricaoTipoAfastamento: 'Licença particular' }
+      );
+      const liderancas = mapBothForms(
+        extractLiderancas,
+        (Lideranca) => ({ LiderancaParlamentar: parlamentar({ Liderancas: { Lideranca } }) }),
+        { UnidadeLideranca: 'Governo', DescricaoTipoLideranca: 'Líder', DataDesignacao: '2023-02-02' }
+      );
+      const cargos = mapBothForms(
+        extractCargos,
+        (Cargo) => ({ CargoParlamentar: parlamentar({ Cargos: { Cargo } }) }),
+        { IdentificacaoComissao: { CodigoComissao: 1998, SiglaComissao: 'cmo', NomeComissao: 'CMO' }, DescricaoCargo: 'Vice-Presidente', DataInicio: '2024-03-20' }
+      );
+      const filiacoes = mapBothForms(
+        extractFiliacoes,
+        (Filiacao) => ({ FiliacaoParlamentar: parlamentar({ Filiacoes: { Filiacao } }) }),
+        { Partido: { CodigoPartido: 571, SiglaPartido: 'rede', NomePartido: 'Rede Sustentabilidade' }, DataFiliacao: '2015-10-05', DataDesfiliacao: '2023-08-17' }
+      );
+
+      for (const { list, single } of [mandatos, licencas, liderancas, cargos, filiacoes]) {
+        expect(list).toHaveLength(2);
+        expect(single).toEqual([list[0]]);
+      }
+      expect(mandatos.single[0]).toMatchObject({ codigo: 600, legislaturas: [57, 58] });
+      expect(licencas.single).toEqual([
+        { codigo: 8841, sigla: 'LAP', tipo: 'Licença particular', dataInicio: '2024-07-15', dataFim: '2024-07-19' },
+      ]);
+      expect(liderancas.single).toEqual([{ unidade: 'Governo', tipo: 'Líder', dataInicio: '2023-02-02', dataFim: undefined }]);
+      expect(cargos.single).toEqual([
+        { cargo: 'Vice-Presidente', comissao: { codigo: 1998, sigla: 'CMO', nome: 'CMO' }, dataInicio: '2024-03-20', dataFim: undefined },
+      ]);
+      expect(filiacoes.single).toEqual([
+        {
+          partido: { codigo: 571, sigla: 'REDE', nome: 'Rede Sustentabilidade' },
+          dataFiliacao: '2015-10-05',
+          dataDesfiliacao: '2023-08-17',
+        },
+      ]);
+    });
+
+    it('should map committee memberships and authored proposals in both forms', () => {
+      const comissoes = mapBothForms(
+        extractParticipacoesComissao,
+        (Comissao) => ({ MembroComissaoParlamentar: parlamentar({ MembroComissoes: { Comissao } }) }),
+        { IdentificacaoComissao: { CodigoComissao: 34, SiglaComissao: 'CCJ', NomeComissao: 'CCJ' }, DescricaoParticipacao: 'Titular', DataInicio: '2023-03-01' }
+      );
+      const autorias = mapBothForms(
+        extractMateriasAutoria,
+        (Autoria) => ({ MateriasAutoriaParlamentar: parlamentar({ Autorias: { Autoria } }) }),
+        { IndicadorAutorPrincipal: 'Sim', Materia: { Codigo: 163001, Sigla: 'PL', Numero: '1234', Ano: 2024 } }
+      );
+
+      expect(comissoes.list).toHaveLength(2);
+      expect(comissoes.single).toEqual([
+        { comissao: { codigo: 34, sigla: 'CCJ', nome: 'CCJ' }, participacao: 'Titular', dataInicio: '2023-03-01', dataFim: undefined },
+      ]);
+      expect(autorias.list).toHaveLength(2);
+      expect(autorias.single).toEqual([expect.objectContaining({ codigo: 163001, identificacao: 'PL 1234/2024' })]);
+    });
+  });
+
+  describe('Proposal records', () => {
+    const materia = (body: Record<string, unknown>) => ({
+      Materia: { IdentificacaoMateria: { CodigoMateria: 157233 }, ...body },
+    });
+
+    it('should map tramitações in both forms and keep dateless ones', () => {
+      const tramitacoes = mapBothForms(
+        extractTramitacoes,
+        (Tramitacao) => ({ MovimentacaoMateria: materia({ Tramitacoes: { Tramitacao } }) }),
+        {
+          IdentificacaoTramitacao: {
+            NumeroOrdemTramitacao: 38,
+            DataTramitacao: '05/12/2024',
+            TextoTramitacao: 'Aprovado o relatório.',
+            OrigemTramitacao: { Local: { SiglaLocal: 'ctia', NomeLocal: 'CTIA' } },
+            DestinoTramitacao: { Local: { SiglaLocal: 'PLEN', NomeLocal: 'Plenário' } },
+          },
+        }
+      );
+
+      expect(tramitacoes.list).toHaveLength(2);
+      expect(tramitacoes.single).toEqual([
+        {
+          numero: 38,
+          data: '2024-12-05',
+          descricao: 'Aprovado o relatório.',
+          situacao: undefined,
+          origem: { codigo: undefined, sigla: 'CTIA', nome: 'CTIA' },
+          destino: { codigo: undefined, sigla: 'PLEN', nome: 'Plenário' },
+        },
+      ]);
+      expect(extractTramitacoes({ tramitacoes: [{ textoTramitacao: 'Sem data', siglaLocalDestino: 'CCJ' }] })).toEqual([
+        expect.objectContaining({ data: undefined, descricao: 'Sem data', destino: { sigla: 'CCJ', nome: undefined } }),
+      ]);
+    });
+
+    it('should map texts, authors, related proposals and amendments in both forms', () => {
+      const textos = mapBothForms(
+        extractTextosMateria,
+        (Texto) => ({ TextoMateria: materia({ Textos: { Texto } }) }),
+        { CodigoTexto: 9854012, DescricaoTipoTexto: 'Texto final', DataTexto: '2024-12-10', SiglaColegiado: 'plen', UrlTexto: 'https://example.org/t' }
+      );
+      const autores = mapBothForms(
+        extractAutoresMateria,
+        (Autor) => ({ AutoriaMateria: materia({ Autoria: { Autor } }) }),
+        {
+          NomeAutor: 'Senador Rodrigo Pacheco',
+          DescricaoTipoAutor: 'Senador',
+          UfAutor: 'MG',
+          IdentificacaoParlamentar: { CodigoParlamentar: 5732, NomeParlamentar: 'Rodrigo Pacheco', SiglaPartidoParlamentar: 'PSD' },
+        }
+      );
+      const relacionadas = mapBothForms(
+        extractMateriasRelacionadas,
+        (MateriaRelacionada) => ({ MateriasRelacionadas: materia({ MateriasRelacionadas: { MateriaRelacionada } }) }),
+        { DescricaoTipoRelacao: 'Tramita em conjunto', IdentificacaoMateria: { CodigoMateria: 151547, SiglaSubtipoMateria: 'PL', NumeroMateria: '21', AnoMateria: 2020 } }
+      );
+      const emendas = mapBothForms(
+        extractEmendas,
+        (Emenda) => ({ EmendaMateria: materia({ Emendas: { Emenda } }) }),
+        {
+          CodigoEmenda: 9820314,
+          NumeroEmenda: '1',
+          DescricaoTipoEmenda: 'Emenda de Plenário',
+          DataApresentacao: '2024-12-09',
+          ColegiadoApresentacao: { SiglaColegiado: 'PLEN', NomeColegiado: 'Plenário' },
+          AutoriaEmenda: { Autor: { NomeAutor: 'Senador Alan Rick' } },
+          TextosEmenda: { TextoEmenda: { UrlTexto: 'https://example.org/e' } },
+        }
+      );
+
+      for (const { list, single } of [textos, autores, relacionadas, emendas]) {
+        expect(list).toHaveLength(2);
+        expect(single).toEqual([list[0]]);
+      }
+      expect(textos.single[0]).toEqual({
+        codigo: 9854012,
+        tipo: 'Texto final',
+        data: '2024-12-10',
+        autoria: undefined,
+        orgao: { codigo: undefined, sigla: 'PLEN', nome: undefined },
+        url: 'https://example.org/t',
+      });
+      expect(autores.single[0]).toEqual({ nome: 'Senador Rodrigo Pacheco', tipo: 'Senador', codigoParlamentar: 5732, partido: 'PSD', uf: 'MG' });
+      expect(relacionadas.single[0]).toMatchObject({ relacao: 'Tramita em conjunto', materia: { codigo: 151547, identificacao: 'PL 21/2020' } });
+      expect(emendas.single[0]).toEqual({
+        codigo: 9820314,
+        numero: '1',
+        tipo: 'Emenda de Plenário',
+        data: '2024-12-09',
+        autor: 'Senador Alan Rick',
+        orgao: { codigo: undefined, sigla: 'PLEN', nome: 'Plenário' },
+        url: 'https://example.org/e',
+      });
+    });
+
+    it('should map rapporteurships from the proposal and from the senator side', () => {
+      const porMateria = mapBothForms(
+        extractRelatorias,
+        (Relator) => ({ RelatoriaMateria: materia({ Relatorias: { Relator } }) }),
+        {
+          IdentificacaoParlamentar: { CodigoParlamentar: 5471, NomeParlamentar: 'Eduardo Gomes', SiglaPartidoParlamentar: 'PL' },
+          IdentificacaoComissao: { SiglaComissao: 'CTIA', NomeComissao: 'CTIA' },
+          DescricaoTipoRelator: 'Relator',
+          DataDesignacao: '2023-08-16',
+        }
+      );
+      const porSenador = mapBothForms(
+        extractRelatorias,
+        (Relatoria) => ({ MateriasRelatoriaParlamentar: { Parlamentar: { IdentificacaoParlamentar: { CodigoParlamentar: 5471 }, Relatorias: { Relatoria } } } }),
+        {
+          Materia: { Codigo: 157233, Sigla: 'PL', Numero: '2338', Ano: 2023, Ementa: 'Dispõe sobre IA.' },
+          Comissao: { Codigo: 2655, Sigla: 'CTIA', Nome: 'CTIA' },
+          DataDesignacao: '2023-08-16',
+        }
+      );
+
+      expect(porMateria.list).toHaveLength(2);
+      expect(porMateria.single).toEqual([
+        expect.objectContaining({
+          relator: { codigoParlamentar: 5471, nome: 'Eduardo Gomes', partido: 'PL', uf: undefined },
+          comissao: { codigo: undefined, sigla: 'CTIA', nome: 'CTIA' },
+          tipo: 'Relator',
+        }),
+      ]);
+      expect(porSenador.list).toHaveLength(2);
+      expect(porSenador.single).toEqual([
+        expect.objectContaining({
+          materia: { codigo: 157233, identificacao: 'PL 2338/2023', ementa: 'Dispõe sobre IA.' },
+          comissao: { codigo: 2655, sigla: 'CTIA', nome: 'CTIA' },
+          dataDesignacao: '2023-08-16',
+        }),
+      ]);
+    });
+  });
+
+  describe('Speeches and plenary results', () => {
+    const pronunciamento = {
+      CodigoPronunciamento: 509101,
+      DataPronunciamento: '2024-12-10',
+      SiglaCasaPronunciamento: 'SF',
+      Orador: { CodigoParlamentar: 5008, NomeParlamentar: 'Randolfe Rodrigues', SiglaPartidoParlamentar: 'pt', UfParlamentar: 'AP' },
+      TipoUsoPalavra: { Descricao: 'Discussão' },
+      TextoResumo: 'Defende a aprovação.',
+    };
+
+    it('should map speeches and apartes in both forms', () => {
+      const discursos = mapBothForms(
+        extractDiscursos,
+        (Pronunciamento) => ({ DiscursosSessao: { Sessao: { CodigoSessao: 451732, Pronunciamentos: { Pronunciamento } } } }),
+        pronunciamento
+      );
+      const apartes = mapBothForms(
+        extractDiscursos,
+        (Aparte) => ({ ApartesParlamentar: { Parlamentar: { Apartes: { Aparte } } } }),
+        pronunciamento
+      );
+
+      expect(discursos.list).toHaveLength(2);
+      expect(discursos.single).toEqual([
+        {
+          codigo: 509101,
+          data: '2024-12-10',
+          casa: 'SF',
+          tipo: 'Discussão',
+          resumo: 'Defende a aprovação.',
+          indexacao: undefined,
+          orador: { codigoParlamentar: 5008, nome: 'Randolfe Rodrigues', partido: 'PT', uf: 'AP' },
+          url: undefined,
+        },
+      ]);
+      expect(apartes.single).toEqual(discursos.single);
+      expect(extractDiscurso({ DetalheDiscurso: { Pronunciamento: pronunciamento } })).toEqual(discursos.single[0]);
+    });
+
+    it('should map monthly plenary results in both forms', () => {
+      const resultados = mapBothForms(
+        extractResultadosPlenario,
+        (Sessao) => ({ ResultadoPlenario: { Sessoes: { Sessao } } }),
+        { CodigoSessao: 451732, DataSessao: '2024-12-10', Itens: { Item: { IdentificacaoMateria: 'PL 2338/2023', Resultado: 'Aprovado' } } }
+      );
+
+      expect(resultados.list).toHaveLength(2);
+      expect(resultados.single).toEqual([
+        expect.objectContaining({
+          codigo: 451732,
+          data: '2024-12-10',
+          itens: [{ materia: 'PL 2338/2023', ementa: undefined, resultado: 'Aprovado' }],
+        }),
+      ]);
+    });
+
+    it('should map voting statistics', () => {
+      expect(
+        extractEstatisticaVotacao({
+          EstatisticaVotacao: { CodigoSessaoVotacao: '6820', TotalVotosSim: '2', TotalVotosNao: 1, TotalVotosAbstencao: 0, TotalPresentes: 3, Quorum: 41 },
+        })
+      ).toEqual({ codigoVotacao: 6820, totais: { sim: 2, nao: 1, abstencao: 0 }, presentes: 3, quorum: 41 });
+      expect(extractEstatisticaVotacao({ EstatisticaVotacao: {} })).toBeUndefined();
+    });
+  });
+
+  describe('Reference tables', () => {
+    it('should map legislatures and code tables in both forms', () => {
+      const legislaturas = mapBothForms(
+        extractLegislaturas,
+        (Legislatura) => ({ ListaLegislatura: { Legislaturas: { Legislatura } } }),
+        { NumeroLegislatura: 57, DataInicio: '2023-02-01', DataFim: '2027-01-31', DataEleicao: '2022-10-02' }
+      );
+      const tipos = mapBothForms(
+        extractItensReferencia,
+        (TipoMateria) => ({ ListaTiposMateria: { TiposMateria: { TipoMateria } } }),
+        { Codigo: 135, Sigla: 'PL', Descricao: 'Projeto de Lei', IndicadorAtivo: 'S' }
+      );
+      const assuntos = mapBothForms(
+        extractItensReferencia,
+        (Assunto) => ({ ListaAssuntos: { Assuntos: { Assunto } } }),
+        { Codigo: 1102, AssuntoGeral: 'Econômico', AssuntoEspecifico: 'Tributação' }
+      );
+
+      for (const { list, single } of [legislaturas, tipos, assuntos]) {
+        expect(list).toHaveLength(2);
+        expect(single).toEqual([list[0]]);
+      }
+      expect(legislaturas.single[0]).toEqual({
+        numero: 57,
+        dataInicio: '2023-02-01',
+        dataFim: '2027-01-31',
+        dataEleicao: '2022-10-02',
+        descricao: undefined,
+      });
+      expect(tipos.single[0]).toEqual({ codigo: 135, sigla: 'PL', descricao: 'Projeto de Lei', categoria: undefined, ativo: true });
+      expect(assuntos.single[0]).toMatchObject({ codigo: 1102, descricao: 'Tributação', categoria: 'Econômico' });
+    });
+
+    it('should map IBGE states', () => {
+      expect(extractUfs([{ id: 35, sigla: 'SP', nome: 'São Paulo', regiao: { nome: 'Sudeste' } }, { id: 1 }])).toEqual([
+        { sigla: 'SP', nome: 'São Paulo', regiao: 'Sudeste' },
+      ]);
+      expect(extractUfs({ something: 'else' })).toEqual([]);
+    });
+  });
+});
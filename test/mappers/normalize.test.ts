@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeArray,
+  getPath,
+  pickList,
+  pickString,
+  pickNumber,
+  pickBoolean,
+  toIsoDate,
+  findRecordList,
+  unwrapRecord,
+  paginateItems,
+} from '../../lib/mappers/normalize.js';
+
+describe('Normalization Helpers', () => {
+  describe('normalizeArray', () => {
+    it('should wrap single values in an array', () => {
+      expect(normalizeArray({ a: 1 })).toEqual([{ a: 1 }]);
+    });
+
+    it('should keep arrays as they are', () => {
+      expect(normalizeArray([1, 2])).toEqual([1, 2]);
+    });
+
+    it('should return empty array for missing values', () => {
+      expect(normalizeArray(undefined)).toEqual([]);
+      expect(normalizeArray(null)).toEqual([]);
+      expect(normalizeArray('')).toEqual([]);
+    });
+  });
+
+  describe('getPath / pickList', () => {
+    const record = {
+      Autoria: { Autor: [{ NomeAutor: 'A' }, { NomeAutor: 'B' }] },
+      Mandato: { Codigo: 1 },
+    };
+
+    it('should follow the first element of arrays', () => {
+      expect(getPath(record, 'Autoria.Autor.NomeAutor')).toBe('A');
+    });
+
+    it('should return the whole list with pickList', () => {
+      expect(pickList(record, ['Autoria.Autor'])).toHaveLength(2);
+    });
+
+    it('should wrap a collapsed single element with pickList', () => {
+      expect(pickList(record, ['Mandatos.Mandato', 'Mandato'])).toEqual([{ Codigo: 1 }]);
+    });
+  });
+
+  describe('scalar pickers', () => {
+    const record = { Codigo: '42', Nome: '  Senado  ', Flag: 'Sim', Outra: 'N', Vazio: '' };
+
+    it('should pick the first non-empty string', () => {
+      expect(pickString(record, ['Vazio', 'Nome'])).toBe('Senado');
+    });
+
+    it('should coerce numbers', () => {
+      expect(pickNumber(record, ['Codigo'])).toBe(42);
+      expect(pickNumber(record, ['Nome'])).toBeUndefined();
+    });
+
+    it('should interpret Senado boolean flags', () => {
+      expect(pickBoolean(record, ['Flag'])).toBe(true);
+      expect(pickBoolean(record, ['Outra'])).toBe(false);
+      expect(pickBoolean(record, ['Inexistente'])).toBeUndefined();
+    });
+  });
+
+  describe('toIsoDate', () => {
+    it('should convert supported formats to ISO dates', () => {
+      expect(toIsoDate('2024-03-10T10:00:00')).toBe('2024-03-10');
+      expect(toIsoDate('10/03/2024')).toBe('2024-03-10');
+      expect(toIsoDate('20240310')).toBe('2024-03-10');
+    });
+
+    it('should return undefined for unknown formats', () => {
+      expect(toIsoDate('março de 2024')).toBeUndefined();
+      expect(toIsoDate(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('findRecordList', () => {
+    const keys = ['Partido', 'Partidos'];
+
+    it('should find lists nested in wrappers', () => {
+      const data = { ListaPartidos: { Partidos: { Partido: [{ Codigo: 1 }, { Codigo: 2 }] } } };
+      expect(findRecordList(data, keys)).toHaveLength(2);
+    });
+
+    it('should wrap a collapsed single-element list', () => {
+      const data = { ListaPartidos: { Partidos: { Partido: { Codigo: 1 } } } };
+      expect(findRecordList(data, keys)).toEqual([{ Codigo: 1 }]);
+    });
+
+    it('should not descend into records sharing a key name with a scalar field', () => {
+      const data = { orientacoes: { orientacao: { siglaPartido: 'PT', orientacao: 'Sim' } } };
+      expect(findRecordList(data, ['orientacao', 'orientacoes'])).toEqual([
+        { siglaPartido: 'PT', orientacao: 'Sim' },
+      ]);
+    });
+
+    it('should return an empty list when nothing matches', () => {
+      expect(findRecordList({ Outro: {} }, keys)).toEqual([]);
+    });
+  });
+
+  describe('unwrapRecord', () => {
+    it('should descend through the available wrappers', () => {
+      const data = { DetalheMateria: { Materia: { Codigo: 1 } } };
+      expect(unwrapRecord(data, ['DetalheMateria', 'Materia'])).toEqual({ Codigo: 1 });
+    });
+
+    it('should skip missing wrappers', () => {
+      expect(unwrapRecord({ Materia: { Codigo: 1 } }, ['DetalheMateria', 'Materia'])).toEqual({ Codigo: 1 });
+    });
+  });
+
+  describe('paginateItems', () => {
+    it('should return all items by default', () => {
+      expect(paginateItems([1, 2, 3])).toEqual({ pageItems: [1, 2, 3], total: 3 });
+    });
+
+    it('should slice the requested page', () => {
+      expect(paginateItems([1, 2, 3, 4, 5], 2, 2)).toEqual({ pageItems: [3, 4], total: 5 });
+    });
+  });
+});